@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import type { ChangeRecord, Character, PendingEdit, Scene } from '../../shared/types';
+import { ChangeRecorder, partitionRowChanges, revertScriptChanges, summarizeChanges, type AgentDatabase } from '../change-set';
+import { readTitlePage } from '../../screenplay/title-page';
+import { acceptHunk, createHunk } from '../../screenplay/edit-hunks';
+
+function character(id: string, name: string, extra: Partial<Character> = {}): Character {
+  return { id, name, description: '', arc: '', relationships: {}, appearances: [], ...extra };
+}
+
+function scene(id: string, number: number, heading: string): Scene {
+  return {
+    id, number, heading, location: '', timeOfDay: '', summary: '',
+    characters: [], startLine: 0, endLine: 0, content: '',
+  };
+}
+
+// Just enough of the database for the agent's tools, kept in maps
+function memoryDatabase(characters: Character[], scenes: Scene[] = []): AgentDatabase {
+  const characterRows = new Map(characters.map(c => [c.id, c]));
+  const sceneRows = new Map(scenes.map(s => [s.id, s]));
+  return {
+    getCharacters: async () => [...characterRows.values()],
+    getCharacter: async id => characterRows.get(id) ?? null,
+    saveCharacter: async c => { characterRows.set(c.id, { ...c }); },
+    deleteCharacter: async id => { characterRows.delete(id); },
+    getScenes: async () => [...sceneRows.values()],
+    getScene: async id => sceneRows.get(id) ?? null,
+    saveScene: async s => { sceneRows.set(s.id, { ...s }); },
+    deleteScene: async id => { sceneRows.delete(id); },
+  };
+}
+
+// Accept an edit the way the review queue does, returning the record the change set gets
+function accept(content: string, edit: PendingEdit): { content: string; change: ChangeRecord } {
+  const accepted = acceptHunk(content, createHunk(content, edit, 'hunk'))!;
+  return { content: accepted.content, change: { kind: 'text', description: edit.description, undo: accepted.undo } };
+}
+
+describe('ChangeRecorder', () => {
+  it('records a merge as one update and the deletes', async () => {
+    const maya = character('c1', 'MAYA');
+    const recorder = new ChangeRecorder(memoryDatabase([maya, character('c2', 'MAYA R.'), character('c3', 'MAYA ROSS')]), 'turn');
+
+    // What merge_characters does: fold the duplicates into the first, then delete them
+    await recorder.saveCharacter({ ...maya, aliases: ['MAYA R.'] });
+    await recorder.saveCharacter({ ...maya, aliases: ['MAYA R.', 'MAYA ROSS'] });
+    await recorder.deleteCharacter('c2');
+    await recorder.deleteCharacter('c3');
+
+    const changes = recorder.getChanges();
+    expect(changes.map(change => change.kind === 'character' && [change.id, change.before?.name, change.after?.aliases])).toEqual([
+      ['c1', 'MAYA', ['MAYA R.', 'MAYA ROSS']],
+      ['c2', 'MAYA R.', undefined],
+      ['c3', 'MAYA ROSS', undefined],
+    ]);
+    expect(summarizeChanges(changes)).toEqual(['Updated 1 character: MAYA', 'Deleted 2 characters: MAYA R., MAYA ROSS']);
+  });
+
+  it('leaves out rows that end the turn as they began', async () => {
+    const recorder = new ChangeRecorder(memoryDatabase([], [scene('s1', 1, 'INT. BAR - NIGHT')]), 'turn');
+    await recorder.saveCharacter(character('tmp', 'EXTRA'));
+    await recorder.deleteCharacter('tmp');
+    await recorder.saveScene(scene('s1', 2, 'INT. BAR - NIGHT'));
+    await recorder.saveScene(scene('s1', 1, 'INT. BAR - NIGHT'));
+    recorder.recordMetadata('title', 'Dusk', 'Dusk');
+
+    expect(recorder.getChanges()).toEqual([]);
+    expect(recorder.isEmpty).toBe(true);
+  });
+});
+
+describe('partitionRowChanges', () => {
+  it('only takes back rows still as the turn left them', async () => {
+    const db = memoryDatabase([character('c1', 'MAYA'), character('c2', 'BRICK')], [scene('s1', 1, 'INT. BAR - NIGHT')]);
+    const recorder = new ChangeRecorder(db, 'turn');
+    await recorder.saveCharacter(character('c1', 'MAYA', { description: 'A driver' }));
+    await recorder.saveCharacter(character('c2', 'BRICK', { description: 'A mechanic' }));
+    await recorder.deleteScene('s1');
+
+    // The user rewrites BRICK after the turn
+    await db.saveCharacter(character('c2', 'BRICK', { description: 'A getaway mechanic' }));
+
+    const { revertable, skipped } = await partitionRowChanges(recorder.getChanges(), db);
+    expect(revertable.map(change => change.id)).toEqual(['c1', 's1']);
+    expect(skipped.map(change => change.id)).toEqual(['c2']);
+  });
+});
+
+describe('summarizeChanges', () => {
+  it('lists script edits and title page changes after the rows', () => {
+    expect(summarizeChanges([
+      { kind: 'metadata', field: 'authors', before: '', after: 'Jo Park' },
+      accept('a', { original: 'a', modified: 'b', description: 'Tighten the opening' }).change,
+      { kind: 'scene', id: 's9', before: scene('s9', 9, 'EXT. PIER - DAY'), after: null },
+      ...['A', 'B', 'C', 'D', 'E'].map(name => ({ kind: 'character' as const, id: name, before: null, after: character(name, name) })),
+    ])).toEqual([
+      'Created 5 characters: A, B, C and 2 more',
+      'Deleted 1 scene: EXT. PIER - DAY',
+      'Set author to "Jo Park"',
+      'Edited: Tighten the opening',
+    ]);
+  });
+});
+
+describe('revertScriptChanges', () => {
+  const SCRIPT = 'Title: Dusk\n\nINT. BAR - NIGHT\n\nMAYA waits.\n\nEXT. PIER - DAY\n\nMAYA sits.\n\nShe waits. She leaves.\n';
+
+  it('takes back an accepted edit where it was made, even when its text appears elsewhere', () => {
+    const { content, change } = accept(SCRIPT, { original: 'MAYA sits.', modified: 'MAYA waits.', description: 'Restless' });
+    const reverted = revertScriptChanges(content, [change]);
+    expect(reverted).toBe(SCRIPT);
+  });
+
+  it('leaves the script alone after a rejected edit', async () => {
+    const recorder = new ChangeRecorder(memoryDatabase([]), 'turn');
+    // Proposed and then rejected: "She waits." is still in the script, but the user never took the edit
+    recorder.noteProposedEdit();
+    expect(recorder.isEmpty).toBe(false);
+    expect(revertScriptChanges(SCRIPT, recorder.getChanges())).toBe(SCRIPT);
+  });
+
+  it('keeps lines the writer has changed since, and the title page only while it is as the turn left it', () => {
+    const first = accept(SCRIPT, { original: 'MAYA waits.', modified: 'MAYA waits, tapping the glass.', description: 'Add business' });
+    const second = accept(first.content, { original: 'She waits. She leaves.', modified: 'She storms out.', description: 'Punch up the exit' });
+    const changes: ChangeRecord[] = [first.change, second.change, { kind: 'metadata', field: 'title', before: 'Dusk', after: 'Dawn' }];
+    const edited = second.content.replace('Dusk', 'Dawn').replace('She storms out.', 'She goes.');
+
+    const reverted = revertScriptChanges(edited, changes);
+    expect(reverted).toContain('\nMAYA waits.\n');
+    expect(reverted).toContain('She goes.');
+    expect(readTitlePage(reverted).title).toBe('Dusk');
+
+    // A title the writer has since changed is theirs to keep
+    expect(readTitlePage(revertScriptChanges(edited.replace('Dawn', 'Noon'), changes)).title).toBe('Noon');
+  });
+});
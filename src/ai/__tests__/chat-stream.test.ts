@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import type OpenAI from 'openai';
+import { addChunk, applyChatEvent, describeToolCall, emptyStreamedMessage, type StreamingReply } from '../chat-stream';
+
+type Delta = OpenAI.Chat.Completions.ChatCompletionChunk.Choice.Delta;
+
+function chunk(delta?: Delta, usage?: { prompt_tokens: number; completion_tokens: number }): OpenAI.Chat.Completions.ChatCompletionChunk {
+  return {
+    id: 'chunk',
+    object: 'chat.completion.chunk',
+    created: 0,
+    model: 'test',
+    choices: delta ? [{ index: 0, delta, finish_reason: null }] : [],
+    ...(usage && { usage: { ...usage, total_tokens: usage.prompt_tokens + usage.completion_tokens } }),
+  };
+}
+
+describe('addChunk', () => {
+  it('joins text deltas and returns each one', () => {
+    const message = emptyStreamedMessage();
+    expect(addChunk(message, chunk({ content: 'Hel' }))).toBe('Hel');
+    expect(addChunk(message, chunk({ content: 'lo.' }))).toBe('lo.');
+    expect(addChunk(message, chunk(undefined, { prompt_tokens: 12, completion_tokens: 3 }))).toBe('');
+    expect(message).toMatchObject({ content: 'Hello.', promptTokens: 12, completionTokens: 3 });
+  });
+
+  it('puts tool calls back together from their pieces', () => {
+    const message = emptyStreamedMessage();
+    addChunk(message, chunk({ tool_calls: [{ index: 0, id: 'call_1', function: { name: 'search_screenplay', arguments: '{"qu' } }] }));
+    addChunk(message, chunk({ tool_calls: [{ index: 1, id: 'call_2', function: { name: 'read_scene', arguments: '' } }] }));
+    addChunk(message, chunk({ tool_calls: [{ index: 0, function: { arguments: 'ery":"gun"}' } }] }));
+    addChunk(message, chunk({ tool_calls: [{ index: 1, function: { arguments: '{"scene_number":3}' } }] }));
+
+    expect(message.toolCalls.map(call => [call.id, call.function.name, JSON.parse(call.function.arguments)])).toEqual([
+      ['call_1', 'search_screenplay', { query: 'gun' }],
+      ['call_2', 'read_scene', { scene_number: 3 }],
+    ]);
+  });
+});
+
+describe('applyChatEvent', () => {
+  it('shows tool calls as they run and finish', () => {
+    let reply: StreamingReply = { content: '', tools: [] };
+    reply = applyChatEvent(reply, { type: 'tool-start', id: 'a', name: 'search_screenplay', args: { query: 'the gun' } });
+    reply = applyChatEvent(reply, { type: 'tool-start', id: 'b', name: 'update_content', args: {} });
+    reply = applyChatEvent(reply, { type: 'tool-end', id: 'a', name: 'search_screenplay', result: '2 matches' });
+    reply = applyChatEvent(reply, { type: 'tool-end', id: 'b', name: 'update_content', result: 'Error', failed: true });
+    reply = applyChatEvent(reply, { type: 'text', delta: 'Done.' });
+
+    expect(reply.content).toBe('Done.');
+    expect(reply.tools.map(tool => [tool.label, tool.status])).toEqual([
+      ['search screenplay "the gun"', 'done'],
+      ['update content', 'failed'],
+    ]);
+  });
+
+  it('keeps tool labels short', () => {
+    expect(describeToolCall('read_scene', { scene_number: 4 })).toBe('read scene');
+    expect(describeToolCall('search_screenplay', { query: 'x'.repeat(60) })).toBe(`search screenplay "${'x'.repeat(40)}…"`);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { LLMProvider, jsonText, parseJSONContent } from '../llm-provider';
+import {
+  DEFAULT_OPENAI_MODELS,
+  isAIConfigured,
+  isLoopbackURL,
+  normalizeProviderSettings,
+  validateProviderSettings,
+} from '../provider-settings';
+
+const LOCAL = normalizeProviderSettings({
+  kind: 'local',
+  baseURL: 'http://localhost:11434/v1',
+  models: { chat: 'llama3.1', summarize: '', analysis: 'qwen2.5', enrichment: '' },
+  capabilities: { toolCalling: false, jsonMode: false },
+});
+
+describe('provider settings', () => {
+  it('defaults to OpenAI with the models used before', () => {
+    const settings = normalizeProviderSettings(undefined);
+    expect(settings.kind).toBe('openai');
+    expect(settings.models).toEqual(DEFAULT_OPENAI_MODELS);
+    expect(settings.capabilities).toEqual({ toolCalling: true, jsonMode: true });
+  });
+
+  it('only accepts local servers on this machine', () => {
+    expect(isLoopbackURL('http://localhost:8080/v1')).toBe(true);
+    expect(isLoopbackURL('http://127.0.0.1:11434/v1')).toBe(true);
+    expect(isLoopbackURL('http://[::1]:8080/v1')).toBe(true);
+    expect(isLoopbackURL('http://192.168.1.20:11434/v1')).toBe(false);
+    expect(isLoopbackURL('https://api.example.com/v1')).toBe(false);
+    expect(isLoopbackURL('localhost:8080')).toBe(false);
+
+    expect(validateProviderSettings(LOCAL)).toBeNull();
+    expect(validateProviderSettings({ ...LOCAL, baseURL: 'http://gpu-box:8080/v1' })).toMatch(/this machine/);
+    expect(validateProviderSettings({ ...LOCAL, models: { ...LOCAL.models, chat: '' } })).toMatch(/model/);
+  });
+
+  it('counts AI as configured with a key or a usable local server', () => {
+    expect(isAIConfigured({ openaiApiKey: 'sk-test', llmProvider: normalizeProviderSettings({}) })).toBe(true);
+    expect(isAIConfigured({ openaiApiKey: '', llmProvider: normalizeProviderSettings({}) })).toBe(false);
+    expect(isAIConfigured({ openaiApiKey: '', llmProvider: LOCAL })).toBe(true);
+    expect(isAIConfigured({ openaiApiKey: 'sk-test', llmProvider: { ...LOCAL, baseURL: '' } })).toBe(false);
+  });
+});
+
+describe('LLMProvider', () => {
+  it('points the client at the local server without the OpenAI key', () => {
+    const provider = new LLMProvider(LOCAL, 'sk-secret-key-that-stays-with-openai');
+    expect(provider.isLocal).toBe(true);
+    expect(provider.client.baseURL).toBe('http://localhost:11434/v1');
+    expect(provider.client.apiKey).not.toContain('sk-secret');
+  });
+
+  it('uses the chat model for tasks without their own', () => {
+    const provider = new LLMProvider(LOCAL, '');
+    expect(provider.model('analysis')).toBe('qwen2.5');
+    expect(provider.model('summarize')).toBe('llama3.1');
+  });
+
+  it('asks for JSON mode only when the server has it', () => {
+    expect(new LLMProvider(LOCAL, '').jsonFormat()).toEqual({});
+    expect(new LLMProvider(undefined, 'sk-test').jsonFormat()).toEqual({ response_format: { type: 'json_object' } });
+  });
+
+  it('refuses settings that would send the script off this machine', () => {
+    expect(() => new LLMProvider({ ...LOCAL, baseURL: 'https://llm.example.com/v1' }, '')).toThrow(/this machine/);
+  });
+});
+
+describe('parseJSONContent', () => {
+  it('reads JSON wrapped in a fence or prose', () => {
+    expect(parseJSONContent('{"issues": []}')).toEqual({ issues: [] });
+    expect(parseJSONContent('Here you go:\n```json\n{"act": 2}\n```')).toEqual({ act: 2 });
+    expect(jsonText('no json here')).toBe('no json here');
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import type { Character, Scene } from '../../shared/types';
+import { GUARDED_TOOLS, describeToolEffect, toolPermission } from '../tool-policy';
+import { AGENT_TOOLS } from '../agent-tools';
+
+const characters = ['MAYA', 'MAYA R.', 'BRICK'].map((name, i): Character => ({
+  id: `c${i + 1}`, name, description: '', arc: '', relationships: {}, appearances: [],
+}));
+
+const scenes = [
+  { heading: 'INT. BAR - NIGHT', characters: ['MAYA R.', 'BRICK'] },
+  { heading: 'EXT. PIER - DAY', characters: ['MAYA R.'] },
+].map((scene, i): Scene => ({
+  id: `s${i + 1}`, number: i + 1, location: '', timeOfDay: '', summary: '',
+  startLine: 0, endLine: 0, content: '', ...scene,
+}));
+
+const db = { getCharacters: async () => characters, getScenes: async () => scenes };
+
+describe('toolPermission', () => {
+  it('asks about destructive tools unless the project says otherwise', () => {
+    expect(toolPermission(undefined, 'delete_character')).toBe('ask');
+    expect(toolPermission({ merge_characters: 'allow' }, 'merge_characters')).toBe('allow');
+    expect(toolPermission({ export_screenplay: 'never' }, 'export_screenplay')).toBe('never');
+    // Tools outside the policy always run
+    expect(toolPermission({ read_scene: 'never' }, 'read_scene')).toBe('allow');
+  });
+});
+
+describe('describeToolEffect', () => {
+  it('names the characters a merge would delete and their scenes', async () => {
+    expect(await describeToolEffect('merge_characters', { keep_name: 'maya', merge_names: ['Maya R.', 'MJ'] }, db)).toEqual({
+      summary: 'Merge into MAYA, deleting the others',
+      affected: ['MAYA R., in 2 scenes', 'MJ (not found)'],
+    });
+  });
+
+  it('resolves ids, names and headings the way the tools do', async () => {
+    expect((await describeToolEffect('delete_character', { id: 'c3' }, db)).affected).toEqual(['BRICK']);
+    expect(await describeToolEffect('delete_characters_batch', { character_names: ['brick', 'NOBODY'] }, db)).toEqual({
+      summary: 'Delete 2 characters',
+      affected: ['BRICK', 'NOBODY (not found)'],
+    });
+    expect((await describeToolEffect('delete_scene_by_heading', { heading: 'ext. pier - day' }, db)).affected)
+      .toEqual(['Scene 2: EXT. PIER - DAY']);
+  });
+});
+
+describe('GUARDED_TOOLS', () => {
+  it('covers every tool that deletes, merges or exports', () => {
+    const destructive = AGENT_TOOLS.map(tool => tool.function.name).filter(name => /^(delete|merge|export)_/.test(name));
+    expect(destructive.length).toBeGreaterThan(0);
+    for (const name of destructive) {
+      expect(GUARDED_TOOLS.map(tool => tool.name), name).toContain(name);
+      expect(toolPermission(undefined, name), name).toBe('ask');
+    }
+  });
+
+  it('describes the deletes by ID and by name', async () => {
+    expect((await describeToolEffect('delete_character_by_name', { character_name: 'maya r.' }, db)).affected).toEqual(['MAYA R.']);
+    expect((await describeToolEffect('delete_scene', { id: 's1' }, db)).affected).toEqual(['Scene 1: INT. BAR - NIGHT']);
+  });
+});
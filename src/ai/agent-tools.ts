@@ -0,0 +1,450 @@
+/**
+ * Agent tools
+ *
+ * The functions the model can call in agent mode. AIClient.executeToolCall
+ * runs them; tool-policy.ts decides which of them need the user's say-so.
+ */
+
+import type OpenAI from 'openai';
+
+export const AGENT_TOOLS: OpenAI.Chat.Completions.ChatCompletionTool[] = [
+  {
+    type: 'function',
+    function: {
+      name: 'create_character',
+      description: 'Create a new CHARACTER in the database. ONLY use for actual speaking characters with names like JOHN, SARAH, DR. SMITH. Do NOT use for scene headings (INT./EXT.), transitions (CUT TO), or action descriptions.',
+      parameters: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', description: 'Character name in UPPERCASE (e.g. JOHN, SARAH). NOT scene headings like INT. or EXT.' },
+          description: { type: 'string', description: 'Brief description of the character' },
+          age: { type: 'string', description: 'Age of the character' },
+          occupation: { type: 'string', description: 'Occupation of the character' },
+          personality: { type: 'string', description: 'Personality traits' },
+          goals: { type: 'string', description: 'Character goals' },
+          role: { type: 'string', description: 'Role in the story (Protagonist, Antagonist, etc.)' }
+        },
+        required: ['name']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'edit_character',
+      description: 'Update an existing character in the database.',
+      parameters: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', description: 'ID of the character to update' },
+          name: { type: 'string', description: 'New name (optional)' },
+          description: { type: 'string', description: 'New description (optional)' },
+          notes: { type: 'string', description: 'New notes (optional)' }
+        },
+        required: ['id']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'delete_character',
+      description: 'Delete a character from the database by ID.',
+      parameters: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', description: 'ID of the character to delete' }
+        },
+        required: ['id']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'delete_character_by_name',
+      description: 'Delete a character from the database by name. Use this when the user asks to delete a character by name.',
+      parameters: {
+        type: 'object',
+        properties: {
+          character_name: { type: 'string', description: 'Name of the character to delete (case-insensitive)' }
+        },
+        required: ['character_name']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'delete_characters_batch',
+      description: 'Delete multiple characters at once by name. Use this when the user asks to delete multiple characters.',
+      parameters: {
+        type: 'object',
+        properties: {
+          character_names: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Array of character names to delete'
+          }
+        },
+        required: ['character_names']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'add_scene',
+      description: 'Add a new scene to the screenplay. Include the line_number where the scene heading appears in the screenplay text.',
+      parameters: {
+        type: 'object',
+        properties: {
+          heading: { type: 'string', description: 'Scene heading (e.g. INT. OFFICE - DAY)' },
+          summary: { type: 'string', description: 'Brief summary of the scene' },
+          characters: { type: 'array', items: { type: 'string' }, description: 'List of character names in the scene' },
+          line_number: { type: 'number', description: 'The line number in the screenplay where this scene heading appears (for anchoring/navigation)' }
+        },
+        required: ['heading']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'delete_scene',
+      description: 'Delete a scene from the screenplay.',
+      parameters: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', description: 'ID of the scene to delete' }
+        },
+        required: ['id']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'save_screenplay',
+      description: 'Save the current screenplay to disk.',
+      parameters: {
+        type: 'object',
+        properties: {},
+        required: []
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'export_screenplay',
+      description: 'Export the screenplay to PDF, FDX or Word (DOCX).',
+      parameters: {
+        type: 'object',
+        properties: {
+          format: { type: 'string', enum: ['pdf', 'fdx', 'docx'], description: 'Format to export' }
+        },
+        required: ['format']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'update_content',
+      description: 'Propose changes to the screenplay content. Use this when the user asks to rewrite, edit, or change the text of the screenplay. Each call adds one change to a review queue, so call it once per separate passage rather than rewriting large spans at once.',
+      parameters: {
+        type: 'object',
+        properties: {
+          original_text: { type: 'string', description: 'The exact text segment to be replaced. Must match existing content exactly, and only once (within scene_number if given).' },
+          new_text: { type: 'string', description: 'The new text to replace the original with.' },
+          description: { type: 'string', description: 'A brief description of what this change does (e.g. "Rewrote scene to be more intense")' },
+          scene_number: { type: 'number', description: 'Scene the original text is in. Use it when the same text appears in more than one scene.' }
+        },
+        required: ['original_text', 'new_text', 'description']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'set_screenplay_metadata',
+      description: 'Set the screenplay title and/or author. Use this when you detect title page information like "written by", "Author:", or similar.',
+      parameters: {
+        type: 'object',
+        properties: {
+          title: { type: 'string', description: 'The screenplay title (optional)' },
+          author: { type: 'string', description: 'The author name (optional)' }
+        },
+        required: []
+      }
+    }
+  },
+  // === QUERY TOOLS (Read-only access to screenplay data) ===
+  {
+    type: 'function',
+    function: {
+      name: 'read_scene',
+      description: 'Read the FULL content of a specific scene. Use this to analyze dialogue, action lines, or specific scene details. You can find scenes by number, ID, or partial heading match.',
+      parameters: {
+        type: 'object',
+        properties: {
+          scene_id: { type: 'string', description: 'The ID of the scene to read' },
+          scene_number: { type: 'number', description: 'The scene number (1, 2, 3, etc.)' },
+          scene_heading: { type: 'string', description: 'Partial scene heading to match (e.g., "STREETS OF MANHATTAN")' }
+        },
+        required: []
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'read_character',
+      description: 'Read ALL details about a specific character including relationships, appearances, backstory, and notes.',
+      parameters: {
+        type: 'object',
+        properties: {
+          character_id: { type: 'string', description: 'The ID of the character' },
+          character_name: { type: 'string', description: 'Alternatively, the character name (case-insensitive)' }
+        },
+        required: []
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'search_screenplay',
+      description: 'Search the entire screenplay for specific text, dialogue, or keywords. Returns matching scenes with context.',
+      parameters: {
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'The text to search for (case-insensitive)' }
+        },
+        required: ['query']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'link_character_to_scene',
+      description: 'Link a character to a scene they appear in. Updates both the character\'s appearances and the scene\'s character list.',
+      parameters: {
+        type: 'object',
+        properties: {
+          character_name: { type: 'string', description: 'The character name (case-insensitive)' },
+          scene_number: { type: 'number', description: 'The scene number where this character appears' }
+        },
+        required: ['character_name', 'scene_number']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'merge_characters',
+      description: 'Merge duplicate/variant character names into one canonical name. Use this when you find the same character referred to by different names (e.g., "HENRY" and "HENRY MARCHETTI", or "O\'KEEFE" and "O\'KEEFFE").',
+      parameters: {
+        type: 'object',
+        properties: {
+          keep_name: { type: 'string', description: 'The canonical character name to KEEP' },
+          merge_names: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Array of variant names to merge INTO the keep_name (these will be deleted)'
+          },
+          reason: { type: 'string', description: 'Why these are the same character' }
+        },
+        required: ['keep_name', 'merge_names']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'get_character_scenes',
+      description: 'Get all scenes where a specific character appears, with full scene content.',
+      parameters: {
+        type: 'object',
+        properties: {
+          character_name: { type: 'string', description: 'The character name to find scenes for' }
+        },
+        required: ['character_name']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'get_screenplay_section',
+      description: 'Read a section of the screenplay by page range or scene range.',
+      parameters: {
+        type: 'object',
+        properties: {
+          start_scene: { type: 'number', description: 'Starting scene number' },
+          end_scene: { type: 'number', description: 'Ending scene number' }
+        },
+        required: ['start_scene', 'end_scene']
+      }
+    }
+  },
+  // === FULL CONTENT ACCESS TOOLS ===
+  {
+    type: 'function',
+    function: {
+      name: 'read_full_screenplay',
+      description: 'Read the ENTIRE screenplay content. Use this when you need to analyze the full text, search for specific events, deaths, plot points, or answer questions that require seeing the whole script. WARNING: This returns a lot of text.',
+      parameters: {
+        type: 'object',
+        properties: {},
+        required: []
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'read_scene_with_context',
+      description: 'Read a scene along with the scenes before and after it for full context. Use this to understand what leads into a scene and what follows.',
+      parameters: {
+        type: 'object',
+        properties: {
+          scene_number: { type: 'number', description: 'The scene number to read' },
+          context_scenes: { type: 'number', description: 'Number of scenes before and after to include (default 1)' }
+        },
+        required: ['scene_number']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'analyze_character_arc',
+      description: 'Analyze how a character develops across the screenplay. Shows their appearances, dialogue moments, and progression through the story.',
+      parameters: {
+        type: 'object',
+        properties: {
+          character_name: { type: 'string', description: 'Name of the character to analyze' }
+        },
+        required: ['character_name']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'find_character_dialogue',
+      description: 'Find all dialogue spoken by a specific character throughout the screenplay.',
+      parameters: {
+        type: 'object',
+        properties: {
+          character_name: { type: 'string', description: 'Name of the character' }
+        },
+        required: ['character_name']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'analyze_scene_characters',
+      description: 'Analyze all characters in a specific scene - their dialogue, actions, and interactions.',
+      parameters: {
+        type: 'object',
+        properties: {
+          scene_number: { type: 'number', description: 'The scene number to analyze' }
+        },
+        required: ['scene_number']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'find_plot_events',
+      description: 'Search for significant plot events like deaths, revelations, confrontations, or turning points in the screenplay.',
+      parameters: {
+        type: 'object',
+        properties: {
+          event_type: { type: 'string', description: 'Type of event to search for (e.g., "death", "fight", "kiss", "reveal", "confrontation")' }
+        },
+        required: ['event_type']
+      }
+    }
+  },
+  // === LIST/OVERVIEW TOOLS ===
+  {
+    type: 'function',
+    function: {
+      name: 'list_all_characters',
+      description: 'Get a list of ALL characters currently in the database with their scene counts. Use this to see what characters exist before creating new ones or to find duplicates.',
+      parameters: {
+        type: 'object',
+        properties: {},
+        required: []
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'list_all_scenes',
+      description: 'Get a list of ALL scenes currently in the database with their numbers and headings. Use this to see what scenes exist.',
+      parameters: {
+        type: 'object',
+        properties: {},
+        required: []
+      }
+    }
+  },
+  // === SCENE MANAGEMENT TOOLS ===
+  {
+    type: 'function',
+    function: {
+      name: 'delete_scene_by_heading',
+      description: 'Delete a scene by its heading text (case-insensitive match).',
+      parameters: {
+        type: 'object',
+        properties: {
+          heading: { type: 'string', description: 'The scene heading to delete (e.g., "INT. OFFICE - DAY")' }
+        },
+        required: ['heading']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'update_scene',
+      description: 'Update a scene\'s details like summary, characters list, or notes.',
+      parameters: {
+        type: 'object',
+        properties: {
+          scene_number: { type: 'number', description: 'The scene number to update' },
+          summary: { type: 'string', description: 'New summary for the scene' },
+          characters: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'List of character names in this scene'
+          },
+          notes: { type: 'string', description: 'Notes about the scene' }
+        },
+        required: ['scene_number']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'renumber_scenes',
+      description: 'Sort and renumber all scenes CHRONOLOGICALLY based on their line position in the screenplay. Scenes are sorted by startLine (where they appear in the text) and renumbered 1, 2, 3... ALWAYS call this after adding scenes to ensure proper order. Locked scene numbers written in headings (#12#, #12A#) are printed numbers and are never changed by this tool.',
+      parameters: {
+        type: 'object',
+        properties: {},
+        required: []
+      }
+    }
+  }
+];
@@ -0,0 +1,193 @@
+/**
+ * Agent change sets
+ *
+ * In agent mode the tool calls write straight to the project database. A
+ * ChangeRecorder stands in for the database during a turn and notes each
+ * character and scene row it touches, as it was before the turn and as the
+ * turn left it. Script edits the model proposes only join the change set
+ * once the user accepts them (see acceptHunk). Reverting the change set puts
+ * back the rows nobody has touched since (see DatabaseManager.revertChangeSet)
+ * and the renderer undoes the accepted edits with revertScriptChanges.
+ */
+
+import type { Character, ChangeRecord, Scene } from '../shared/types';
+import type { DatabaseManager } from '../database/db-manager';
+import { readTitlePage, writeTitlePage } from '../screenplay/title-page';
+import { applyHunk } from '../screenplay/edit-hunks';
+
+/** The part of the database the agent's tools use */
+export type AgentDatabase = Pick<
+  DatabaseManager,
+  'getCharacters' | 'getCharacter' | 'saveCharacter' | 'deleteCharacter' | 'getScenes' | 'getScene' | 'saveScene' | 'deleteScene'
+>;
+
+export type RowRecord = Extract<ChangeRecord, { kind: 'character' | 'scene' }>;
+
+export class ChangeRecorder implements AgentDatabase {
+  private db: AgentDatabase;
+  private changes: ChangeRecord[] = [];
+  private rows = new Map<string, RowRecord>();
+  private proposedEdits = false;
+  /** Id the change set is saved under; edits proposed this turn carry it */
+  readonly id: string;
+
+  constructor(db: AgentDatabase, id: string) {
+    this.db = db;
+    this.id = id;
+  }
+
+  getCharacters() {
+    return this.db.getCharacters();
+  }
+
+  getCharacter(id: string) {
+    return this.db.getCharacter(id);
+  }
+
+  getScenes() {
+    return this.db.getScenes();
+  }
+
+  getScene(id: string) {
+    return this.db.getScene(id);
+  }
+
+  async saveCharacter(character: Character): Promise<void> {
+    const row = await this.track('character', character.id);
+    await this.db.saveCharacter(character);
+    row.after = await this.db.getCharacter(character.id);
+  }
+
+  async deleteCharacter(id: string): Promise<void> {
+    const row = await this.track('character', id);
+    await this.db.deleteCharacter(id);
+    row.after = null;
+  }
+
+  async saveScene(scene: Scene): Promise<void> {
+    const row = await this.track('scene', scene.id);
+    await this.db.saveScene(scene);
+    row.after = await this.db.getScene(scene.id);
+  }
+
+  async deleteScene(id: string): Promise<void> {
+    const row = await this.track('scene', id);
+    await this.db.deleteScene(id);
+    row.after = null;
+  }
+
+  /** Note a proposed script edit; it's recorded if and when the user accepts it */
+  noteProposedEdit(): void {
+    this.proposedEdits = true;
+  }
+
+  /** Whether the turn needs a change set: it changed something or may still do so */
+  get isEmpty(): boolean {
+    return !this.proposedEdits && this.getChanges().length === 0;
+  }
+
+  recordMetadata(field: 'title' | 'authors', before: string, after: string): void {
+    if (before !== after) this.changes.push({ kind: 'metadata', field, before, after });
+  }
+
+  /** What changed, in the order it was first touched; rows that ended as they began are left out */
+  getChanges(): ChangeRecord[] {
+    return this.changes.filter(change =>
+      (change.kind !== 'character' && change.kind !== 'scene') ||
+      JSON.stringify(change.before) !== JSON.stringify(change.after)
+    );
+  }
+
+  // The record for a row, reading its state before the first change this turn
+  private async track(kind: RowRecord['kind'], id: string): Promise<RowRecord> {
+    const key = `${kind}:${id}`;
+    let row = this.rows.get(key);
+    if (!row) {
+      row = kind === 'character'
+        ? { kind, id, before: await this.db.getCharacter(id), after: null }
+        : { kind, id, before: await this.db.getScene(id), after: null };
+      row.after = row.before;
+      this.rows.set(key, row);
+      this.changes.push(row);
+    }
+    return row;
+  }
+}
+
+function listNames(names: string[]): string {
+  const shown = names.slice(0, 3).join(', ');
+  return names.length > 3 ? `${shown} and ${names.length - 3} more` : shown;
+}
+
+/**
+ * One line per kind of change, e.g. "Deleted 2 characters: MAYA, BRICK"
+ */
+export function summarizeChanges(changes: ChangeRecord[]): string[] {
+  const lines: string[] = [];
+
+  for (const [kind, noun] of [['character', 'character'], ['scene', 'scene']] as const) {
+    const rows = changes.filter((change): change is RowRecord => change.kind === kind);
+    const label = (row: RowRecord) => {
+      const state = row.after ?? row.before;
+      return state ? ('name' in state ? state.name : state.heading) : row.id;
+    };
+    for (const [verb, matches] of [
+      ['Created', (row: RowRecord) => !row.before && row.after],
+      ['Updated', (row: RowRecord) => row.before && row.after],
+      ['Deleted', (row: RowRecord) => row.before && !row.after],
+    ] as const) {
+      const names = rows.filter(matches).map(label);
+      if (names.length > 0) {
+        lines.push(`${verb} ${names.length} ${noun}${names.length === 1 ? '' : 's'}: ${listNames(names)}`);
+      }
+    }
+  }
+
+  for (const change of changes) {
+    if (change.kind === 'text') lines.push(`Edited: ${change.description}`);
+    if (change.kind === 'metadata') {
+      lines.push(`Set ${change.field === 'title' ? 'title' : 'author'} to "${change.after}"`);
+    }
+  }
+  return lines;
+}
+
+/**
+ * Split a change set's row changes into those an undo can take back, whose
+ * row still reads as the turn left it, and those edited since. The edited
+ * ones are left alone so undo never throws away the user's later work.
+ */
+export async function partitionRowChanges(
+  changes: ChangeRecord[],
+  db: Pick<AgentDatabase, 'getCharacter' | 'getScene'>
+): Promise<{ revertable: RowRecord[]; skipped: RowRecord[] }> {
+  const revertable: RowRecord[] = [];
+  const skipped: RowRecord[] = [];
+  for (const change of changes) {
+    if (change.kind !== 'character' && change.kind !== 'scene') continue;
+    const current = change.kind === 'character' ? await db.getCharacter(change.id) : await db.getScene(change.id);
+    (JSON.stringify(current) === JSON.stringify(change.after) ? revertable : skipped).push(change);
+  }
+  return { revertable, skipped };
+}
+
+/**
+ * Undo a change set's accepted script edits, newest first. Each edit is
+ * found through its anchor and only taken back while the accepted text is
+ * still there; the title page only while it still reads as the turn left it.
+ */
+export function revertScriptChanges(content: string, changes: ChangeRecord[]): string {
+  let result = content;
+  for (const change of [...changes].reverse()) {
+    if (change.kind === 'text') {
+      result = applyHunk(result, change.undo) ?? result;
+    }
+    if (change.kind === 'metadata') {
+      const page = readTitlePage(result);
+      if (page[change.field] === change.after) {
+        result = writeTitlePage(result, { ...page, [change.field]: change.before });
+      }
+    }
+  }
+  return result;
+}
@@ -174,7 +174,7 @@ function collectDialogueLines(
   const lines: string[] = [];
   for (let i = startIdx; i < tokens.length && lines.length < maxLines; i++) {
     const token = tokens[i];
-    if (token.type === 'dialogue') {
+    if (token.type === 'dialogue' || token.type === 'lyrics') {
       lines.push(token.text);
     } else if (token.type === 'parenthetical') {
       lines.push(`(${token.text.replace(/^\(|\)$/g, '')})`);
@@ -0,0 +1,105 @@
+/**
+ * Chat streaming
+ *
+ * The main process reads a streamed completion chunk by chunk (addChunk) and
+ * forwards the text and tool activity as ChatStreamEvents; the chat panel
+ * folds those events into the reply it shows while waiting (applyChatEvent).
+ * Only type imports from the SDK, so the renderer can use this module too.
+ */
+
+import type OpenAI from 'openai';
+import type { ChatStreamEvent, ToolConfirmation } from '../shared/types';
+
+/** One streamed completion, put back together */
+export interface StreamedMessage {
+  content: string;
+  toolCalls: OpenAI.Chat.Completions.ChatCompletionMessageToolCall[];
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export function emptyStreamedMessage(): StreamedMessage {
+  return { content: '', toolCalls: [], promptTokens: 0, completionTokens: 0 };
+}
+
+/**
+ * Add a chunk to the message and return the text it added. Tool calls come
+ * in pieces by index: the first has the id and name, later ones add to the
+ * arguments.
+ */
+export function addChunk(message: StreamedMessage, chunk: OpenAI.Chat.Completions.ChatCompletionChunk): string {
+  if (chunk.usage) {
+    message.promptTokens += chunk.usage.prompt_tokens;
+    message.completionTokens += chunk.usage.completion_tokens;
+  }
+
+  const delta = chunk.choices[0]?.delta;
+  if (!delta) return '';
+
+  for (const piece of delta.tool_calls ?? []) {
+    const call = (message.toolCalls[piece.index] ??= {
+      id: '',
+      type: 'function',
+      function: { name: '', arguments: '' },
+    });
+    if (piece.id) call.id = piece.id;
+    if (piece.function?.name) call.function.name += piece.function.name;
+    if (piece.function?.arguments) call.function.arguments += piece.function.arguments;
+  }
+
+  const text = delta.content ?? '';
+  message.content += text;
+  return text;
+}
+
+export interface ToolActivity {
+  id: string;
+  name: string;
+  /** Short description for the chat panel, e.g. search screenplay "the gun" */
+  label: string;
+  /** 'waiting' while the user decides whether it may run */
+  status: 'waiting' | 'running' | 'done' | 'failed';
+  confirmation?: ToolConfirmation;
+}
+
+/** A reply as far as it has streamed */
+export interface StreamingReply {
+  content: string;
+  tools: ToolActivity[];
+}
+
+export function describeToolCall(name: string, args: unknown): string {
+  const label = name.replace(/_/g, ' ');
+  const detail = args && typeof args === 'object'
+    ? Object.values(args).find((value): value is string => typeof value === 'string' && value.trim() !== '')
+    : undefined;
+  if (!detail) return label;
+  const short = detail.replace(/\s+/g, ' ').trim();
+  return `${label} "${short.length > 40 ? short.slice(0, 40) + '…' : short}"`;
+}
+
+export function applyChatEvent(reply: StreamingReply, event: ChatStreamEvent): StreamingReply {
+  switch (event.type) {
+    case 'text':
+      return { ...reply, content: reply.content + event.delta };
+    case 'tool-start':
+      return {
+        ...reply,
+        tools: [...reply.tools, { id: event.id, name: event.name, label: describeToolCall(event.name, event.args), status: 'running' }],
+      };
+    case 'tool-confirm':
+      return {
+        ...reply,
+        tools: reply.tools.map(tool =>
+          tool.id === event.id ? { ...tool, status: 'waiting', confirmation: event.confirmation } : tool
+        ),
+      };
+    case 'tool-end':
+      return {
+        ...reply,
+        tools: reply.tools.map(tool =>
+          tool.id === event.id ? { ...tool, status: event.failed ? 'failed' : 'done' } : tool
+        ),
+      };
+  }
+}
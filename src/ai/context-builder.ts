@@ -63,7 +63,7 @@ When the user asks about what happens in their screenplay (deaths, plot points,
 
 **CREATE character** → Use create_character
 **DELETE characters** → Use delete_characters_batch or delete_character_by_name
-**EDIT screenplay text** → Use update_content (creates diff preview for approval)
+**EDIT screenplay text** → Use update_content, once per passage (each call queues a change for the user to review)
 **SAVE/EXPORT** → Use save_screenplay or export_screenplay
 
 ### HOW TOOLS WORK
@@ -1,5 +1,5 @@
-import OpenAI from 'openai';
 import type { AIMessage } from '../shared/types';
+import type { LLMProvider } from './llm-provider';
 
 const SUMMARIZATION_PROMPT = `You are a conversation summarizer for a screenplay writing assistant. Your job is to create a concise but comprehensive summary of a conversation that preserves all critical information the AI needs to continue helping effectively.
 
@@ -20,10 +20,10 @@ export interface SummarizationResult {
 }
 
 export class ContextSummarizer {
-  private openai: OpenAI;
+  private provider: LLMProvider;
 
-  constructor(apiKey: string) {
-    this.openai = new OpenAI({ apiKey });
+  constructor(provider: LLMProvider) {
+    this.provider = provider;
   }
 
   /**
@@ -80,8 +80,8 @@ export class ContextSummarizer {
       .join('\n\n');
 
     try {
-      const completion = await this.openai.chat.completions.create({
-        model: 'gpt-5-mini',
+      const completion = await this.provider.client.chat.completions.create({
+        model: this.provider.model('summarize'),
         messages: [
           {
             role: 'system',
@@ -0,0 +1,67 @@
+import OpenAI from 'openai';
+import type { LLMCapabilities, LLMProviderSettings, LLMTask } from '../shared/types';
+import { modelForTask, normalizeProviderSettings, validateProviderSettings } from './provider-settings';
+
+// OpenAI-compatible local servers mostly ignore the key, but the SDK won't go without one
+const LOCAL_API_KEY = 'local';
+
+/**
+ * The model server the AI features talk to: an OpenAI client pointed at
+ * either api.openai.com or a local OpenAI-compatible server, plus the model
+ * for each task and what the server can do.
+ */
+export class LLMProvider {
+  readonly client: OpenAI;
+  readonly settings: LLMProviderSettings;
+
+  constructor(settings: Partial<LLMProviderSettings> | null | undefined, apiKey: string) {
+    this.settings = normalizeProviderSettings(settings);
+
+    const problem = validateProviderSettings(this.settings);
+    if (problem) throw new Error(problem);
+
+    // The OpenAI key stays with OpenAI; a local server never sees it
+    this.client = this.isLocal
+      ? new OpenAI({ apiKey: LOCAL_API_KEY, baseURL: this.settings.baseURL })
+      : new OpenAI({ apiKey });
+  }
+
+  get isLocal(): boolean {
+    return this.settings.kind === 'local';
+  }
+
+  get capabilities(): LLMCapabilities {
+    return this.settings.capabilities;
+  }
+
+  model(task: LLMTask): string {
+    return modelForTask(this.settings, task);
+  }
+
+  /**
+   * Request options asking for a JSON object, for servers with JSON mode.
+   * Without it the prompt alone asks for JSON; read the reply with jsonText.
+   */
+  jsonFormat(): { response_format?: { type: 'json_object' } } {
+    return this.capabilities.jsonMode ? { response_format: { type: 'json_object' } } : {};
+  }
+}
+
+/**
+ * The JSON object in a reply. Models without JSON mode tend to wrap it in a
+ * markdown fence or a sentence, so fall back to the outermost {...}.
+ */
+export function jsonText(content: string): string {
+  try {
+    JSON.parse(content);
+    return content;
+  } catch {
+    const start = content.indexOf('{');
+    const end = content.lastIndexOf('}');
+    return start !== -1 && end > start ? content.slice(start, end + 1) : content;
+  }
+}
+
+export function parseJSONContent(content: string): unknown {
+  return JSON.parse(jsonText(content));
+}
@@ -1,8 +1,15 @@
 import OpenAI from 'openai';
 import { v4 as uuidv4 } from 'uuid';
-import type { AIContext, Storyline, SystemActions, TokenUsage, Character } from '../shared/types';
+import type { AIContext, ChangeSet, ChatStreamEvent, PendingEdit, Storyline, SystemActions, TokenUsage, Character, ToolPermission } from '../shared/types';
 import type { DatabaseManager } from '../database/db-manager';
 import { ContextBuilder } from './context-builder';
+import { LLMProvider, jsonText, parseJSONContent } from './llm-provider';
+import { addChunk, emptyStreamedMessage, type StreamedMessage } from './chat-stream';
+import { ChangeRecorder, summarizeChanges, type AgentDatabase } from './change-set';
+import { describeToolEffect, toolPermission } from './tool-policy';
+import { AGENT_TOOLS } from './agent-tools';
+import { readTitlePage } from '../screenplay/title-page';
+import { locateEdit } from '../screenplay/edit-hunks';
 import {
   extractCharacterEvidence,
   formatAllEvidenceForPrompt,
@@ -10,26 +17,44 @@ import {
   applyEnrichments,
 } from './character-enrichment';
 import { FountainParserAdapter } from '../renderer/fountain/parser';
+import { parseFountain, findSceneAtLine, isSceneHeadingLine, parseSceneHeading } from '../screenplay/fountain-ast';
 
 export interface ChatResponse {
   content: string;
   tokenUsage: TokenUsage;
+  stopped?: boolean;
+  changeSet?: ChangeSet;
+}
+
+export interface ChatOptions {
+  /** Receives the reply text and tool calls as they happen */
+  onEvent?: (event: ChatStreamEvent) => void;
+  /** Aborting stops the request in flight and any remaining tool rounds */
+  signal?: AbortSignal;
+  /** The project's tool permissions; destructive tools ask first by default */
+  toolPolicy?: Record<string, ToolPermission>;
+  /**
+   * Ask the user whether a tool call sent in a tool-confirm event may run.
+   * Without it, tools that need asking are declined.
+   */
+  confirmTool?: (toolCallId: string) => Promise<boolean>;
 }
 
 export class AIClient {
-  private openai: OpenAI;
+  private provider: LLMProvider;
   private dbManager: DatabaseManager;
   private contextBuilder: ContextBuilder;
   private systemActions?: SystemActions;
 
-  constructor(apiKey: string, dbManager: DatabaseManager, systemActions?: SystemActions) {
-    this.openai = new OpenAI({ apiKey });
+  constructor(provider: LLMProvider, dbManager: DatabaseManager, systemActions?: SystemActions) {
+    this.provider = provider;
     this.dbManager = dbManager;
     this.contextBuilder = new ContextBuilder(dbManager);
     this.systemActions = systemActions;
   }
 
-  async chat(message: string, context: AIContext): Promise<ChatResponse> {
+  async chat(message: string, context: AIContext, options: ChatOptions = {}): Promise<ChatResponse> {
+    let recorder: ChangeRecorder | undefined;
     try {
       const systemPrompt = this.contextBuilder.buildSystemPrompt(context);
       const contextPrompt = this.contextBuilder.buildContextPrompt(context);
@@ -38,447 +63,6 @@ export class AIClient {
       let totalPromptTokens = 0;
       let totalCompletionTokens = 0;
 
-      const tools: OpenAI.Chat.Completions.ChatCompletionTool[] = [
-        {
-          type: 'function',
-          function: {
-            name: 'create_character',
-            description: 'Create a new CHARACTER in the database. ONLY use for actual speaking characters with names like JOHN, SARAH, DR. SMITH. Do NOT use for scene headings (INT./EXT.), transitions (CUT TO), or action descriptions.',
-            parameters: {
-              type: 'object',
-              properties: {
-                name: { type: 'string', description: 'Character name in UPPERCASE (e.g. JOHN, SARAH). NOT scene headings like INT. or EXT.' },
-                description: { type: 'string', description: 'Brief description of the character' },
-                age: { type: 'string', description: 'Age of the character' },
-                occupation: { type: 'string', description: 'Occupation of the character' },
-                personality: { type: 'string', description: 'Personality traits' },
-                goals: { type: 'string', description: 'Character goals' },
-                role: { type: 'string', description: 'Role in the story (Protagonist, Antagonist, etc.)' }
-              },
-              required: ['name']
-            }
-          }
-        },
-        {
-          type: 'function',
-          function: {
-            name: 'edit_character',
-            description: 'Update an existing character in the database.',
-            parameters: {
-              type: 'object',
-              properties: {
-                id: { type: 'string', description: 'ID of the character to update' },
-                name: { type: 'string', description: 'New name (optional)' },
-                description: { type: 'string', description: 'New description (optional)' },
-                notes: { type: 'string', description: 'New notes (optional)' }
-              },
-              required: ['id']
-            }
-          }
-        },
-        {
-          type: 'function',
-          function: {
-            name: 'delete_character',
-            description: 'Delete a character from the database by ID.',
-            parameters: {
-              type: 'object',
-              properties: {
-                id: { type: 'string', description: 'ID of the character to delete' }
-              },
-              required: ['id']
-            }
-          }
-        },
-        {
-          type: 'function',
-          function: {
-            name: 'delete_character_by_name',
-            description: 'Delete a character from the database by name. Use this when the user asks to delete a character by name.',
-            parameters: {
-              type: 'object',
-              properties: {
-                character_name: { type: 'string', description: 'Name of the character to delete (case-insensitive)' }
-              },
-              required: ['character_name']
-            }
-          }
-        },
-        {
-          type: 'function',
-          function: {
-            name: 'delete_characters_batch',
-            description: 'Delete multiple characters at once by name. Use this when the user asks to delete multiple characters.',
-            parameters: {
-              type: 'object',
-              properties: {
-                character_names: {
-                  type: 'array',
-                  items: { type: 'string' },
-                  description: 'Array of character names to delete'
-                }
-              },
-              required: ['character_names']
-            }
-          }
-        },
-        {
-          type: 'function',
-          function: {
-            name: 'add_scene',
-            description: 'Add a new scene to the screenplay. Include the line_number where the scene heading appears in the screenplay text.',
-            parameters: {
-              type: 'object',
-              properties: {
-                heading: { type: 'string', description: 'Scene heading (e.g. INT. OFFICE - DAY)' },
-                summary: { type: 'string', description: 'Brief summary of the scene' },
-                characters: { type: 'array', items: { type: 'string' }, description: 'List of character names in the scene' },
-                line_number: { type: 'number', description: 'The line number in the screenplay where this scene heading appears (for anchoring/navigation)' }
-              },
-              required: ['heading']
-            }
-          }
-        },
-        {
-          type: 'function',
-          function: {
-            name: 'delete_scene',
-            description: 'Delete a scene from the screenplay.',
-            parameters: {
-              type: 'object',
-              properties: {
-                id: { type: 'string', description: 'ID of the scene to delete' }
-              },
-              required: ['id']
-            }
-          }
-        },
-        {
-          type: 'function',
-          function: {
-            name: 'save_screenplay',
-            description: 'Save the current screenplay to disk.',
-            parameters: {
-              type: 'object',
-              properties: {},
-              required: []
-            }
-          }
-        },
-        {
-          type: 'function',
-          function: {
-            name: 'export_screenplay',
-            description: 'Export the screenplay to PDF or FDX.',
-            parameters: {
-              type: 'object',
-              properties: {
-                format: { type: 'string', enum: ['pdf', 'fdx'], description: 'Format to export' }
-              },
-              required: ['format']
-            }
-          }
-        },
-        {
-          type: 'function',
-          function: {
-            name: 'update_content',
-            description: 'Propose changes to the screenplay content. Use this when the user asks to rewrite, edit, or change the text of the screenplay.',
-            parameters: {
-              type: 'object',
-              properties: {
-                original_text: { type: 'string', description: 'The exact text segment to be replaced. Must match existing content exactly.' },
-                new_text: { type: 'string', description: 'The new text to replace the original with.' },
-                description: { type: 'string', description: 'A brief description of what this change does (e.g. "Rewrote scene to be more intense")' }
-              },
-              required: ['original_text', 'new_text', 'description']
-            }
-          }
-        },
-        {
-          type: 'function',
-          function: {
-            name: 'set_screenplay_metadata',
-            description: 'Set the screenplay title and/or author. Use this when you detect title page information like "written by", "Author:", or similar.',
-            parameters: {
-              type: 'object',
-              properties: {
-                title: { type: 'string', description: 'The screenplay title (optional)' },
-                author: { type: 'string', description: 'The author name (optional)' }
-              },
-              required: []
-            }
-          }
-        },
-        // === QUERY TOOLS (Read-only access to screenplay data) ===
-        {
-          type: 'function',
-          function: {
-            name: 'read_scene',
-            description: 'Read the FULL content of a specific scene. Use this to analyze dialogue, action lines, or specific scene details. You can find scenes by number, ID, or partial heading match.',
-            parameters: {
-              type: 'object',
-              properties: {
-                scene_id: { type: 'string', description: 'The ID of the scene to read' },
-                scene_number: { type: 'number', description: 'The scene number (1, 2, 3, etc.)' },
-                scene_heading: { type: 'string', description: 'Partial scene heading to match (e.g., "STREETS OF MANHATTAN")' }
-              },
-              required: []
-            }
-          }
-        },
-        {
-          type: 'function',
-          function: {
-            name: 'read_character',
-            description: 'Read ALL details about a specific character including relationships, appearances, backstory, and notes.',
-            parameters: {
-              type: 'object',
-              properties: {
-                character_id: { type: 'string', description: 'The ID of the character' },
-                character_name: { type: 'string', description: 'Alternatively, the character name (case-insensitive)' }
-              },
-              required: []
-            }
-          }
-        },
-        {
-          type: 'function',
-          function: {
-            name: 'search_screenplay',
-            description: 'Search the entire screenplay for specific text, dialogue, or keywords. Returns matching scenes with context.',
-            parameters: {
-              type: 'object',
-              properties: {
-                query: { type: 'string', description: 'The text to search for (case-insensitive)' }
-              },
-              required: ['query']
-            }
-          }
-        },
-        {
-          type: 'function',
-          function: {
-            name: 'link_character_to_scene',
-            description: 'Link a character to a scene they appear in. Updates both the character\'s appearances and the scene\'s character list.',
-            parameters: {
-              type: 'object',
-              properties: {
-                character_name: { type: 'string', description: 'The character name (case-insensitive)' },
-                scene_number: { type: 'number', description: 'The scene number where this character appears' }
-              },
-              required: ['character_name', 'scene_number']
-            }
-          }
-        },
-        {
-          type: 'function',
-          function: {
-            name: 'merge_characters',
-            description: 'Merge duplicate/variant character names into one canonical name. Use this when you find the same character referred to by different names (e.g., "HENRY" and "HENRY MARCHETTI", or "O\'KEEFE" and "O\'KEEFFE").',
-            parameters: {
-              type: 'object',
-              properties: {
-                keep_name: { type: 'string', description: 'The canonical character name to KEEP' },
-                merge_names: {
-                  type: 'array',
-                  items: { type: 'string' },
-                  description: 'Array of variant names to merge INTO the keep_name (these will be deleted)'
-                },
-                reason: { type: 'string', description: 'Why these are the same character' }
-              },
-              required: ['keep_name', 'merge_names']
-            }
-          }
-        },
-        {
-          type: 'function',
-          function: {
-            name: 'get_character_scenes',
-            description: 'Get all scenes where a specific character appears, with full scene content.',
-            parameters: {
-              type: 'object',
-              properties: {
-                character_name: { type: 'string', description: 'The character name to find scenes for' }
-              },
-              required: ['character_name']
-            }
-          }
-        },
-        {
-          type: 'function',
-          function: {
-            name: 'get_screenplay_section',
-            description: 'Read a section of the screenplay by page range or scene range.',
-            parameters: {
-              type: 'object',
-              properties: {
-                start_scene: { type: 'number', description: 'Starting scene number' },
-                end_scene: { type: 'number', description: 'Ending scene number' }
-              },
-              required: ['start_scene', 'end_scene']
-            }
-          }
-        },
-        // === FULL CONTENT ACCESS TOOLS ===
-        {
-          type: 'function',
-          function: {
-            name: 'read_full_screenplay',
-            description: 'Read the ENTIRE screenplay content. Use this when you need to analyze the full text, search for specific events, deaths, plot points, or answer questions that require seeing the whole script. WARNING: This returns a lot of text.',
-            parameters: {
-              type: 'object',
-              properties: {},
-              required: []
-            }
-          }
-        },
-        {
-          type: 'function',
-          function: {
-            name: 'read_scene_with_context',
-            description: 'Read a scene along with the scenes before and after it for full context. Use this to understand what leads into a scene and what follows.',
-            parameters: {
-              type: 'object',
-              properties: {
-                scene_number: { type: 'number', description: 'The scene number to read' },
-                context_scenes: { type: 'number', description: 'Number of scenes before and after to include (default 1)' }
-              },
-              required: ['scene_number']
-            }
-          }
-        },
-        {
-          type: 'function',
-          function: {
-            name: 'analyze_character_arc',
-            description: 'Analyze how a character develops across the screenplay. Shows their appearances, dialogue moments, and progression through the story.',
-            parameters: {
-              type: 'object',
-              properties: {
-                character_name: { type: 'string', description: 'Name of the character to analyze' }
-              },
-              required: ['character_name']
-            }
-          }
-        },
-        {
-          type: 'function',
-          function: {
-            name: 'find_character_dialogue',
-            description: 'Find all dialogue spoken by a specific character throughout the screenplay.',
-            parameters: {
-              type: 'object',
-              properties: {
-                character_name: { type: 'string', description: 'Name of the character' }
-              },
-              required: ['character_name']
-            }
-          }
-        },
-        {
-          type: 'function',
-          function: {
-            name: 'analyze_scene_characters',
-            description: 'Analyze all characters in a specific scene - their dialogue, actions, and interactions.',
-            parameters: {
-              type: 'object',
-              properties: {
-                scene_number: { type: 'number', description: 'The scene number to analyze' }
-              },
-              required: ['scene_number']
-            }
-          }
-        },
-        {
-          type: 'function',
-          function: {
-            name: 'find_plot_events',
-            description: 'Search for significant plot events like deaths, revelations, confrontations, or turning points in the screenplay.',
-            parameters: {
-              type: 'object',
-              properties: {
-                event_type: { type: 'string', description: 'Type of event to search for (e.g., "death", "fight", "kiss", "reveal", "confrontation")' }
-              },
-              required: ['event_type']
-            }
-          }
-        },
-        // === LIST/OVERVIEW TOOLS ===
-        {
-          type: 'function',
-          function: {
-            name: 'list_all_characters',
-            description: 'Get a list of ALL characters currently in the database with their scene counts. Use this to see what characters exist before creating new ones or to find duplicates.',
-            parameters: {
-              type: 'object',
-              properties: {},
-              required: []
-            }
-          }
-        },
-        {
-          type: 'function',
-          function: {
-            name: 'list_all_scenes',
-            description: 'Get a list of ALL scenes currently in the database with their numbers and headings. Use this to see what scenes exist.',
-            parameters: {
-              type: 'object',
-              properties: {},
-              required: []
-            }
-          }
-        },
-        // === SCENE MANAGEMENT TOOLS ===
-        {
-          type: 'function',
-          function: {
-            name: 'delete_scene_by_heading',
-            description: 'Delete a scene by its heading text (case-insensitive match).',
-            parameters: {
-              type: 'object',
-              properties: {
-                heading: { type: 'string', description: 'The scene heading to delete (e.g., "INT. OFFICE - DAY")' }
-              },
-              required: ['heading']
-            }
-          }
-        },
-        {
-          type: 'function',
-          function: {
-            name: 'update_scene',
-            description: 'Update a scene\'s details like summary, characters list, or notes.',
-            parameters: {
-              type: 'object',
-              properties: {
-                scene_number: { type: 'number', description: 'The scene number to update' },
-                summary: { type: 'string', description: 'New summary for the scene' },
-                characters: {
-                  type: 'array',
-                  items: { type: 'string' },
-                  description: 'List of character names in this scene'
-                },
-                notes: { type: 'string', description: 'Notes about the scene' }
-              },
-              required: ['scene_number']
-            }
-          }
-        },
-        {
-          type: 'function',
-          function: {
-            name: 'renumber_scenes',
-            description: 'Sort and renumber all scenes CHRONOLOGICALLY based on their line position in the screenplay. Scenes are sorted by startLine (where they appear in the text) and renumbered 1, 2, 3... ALWAYS call this after adding scenes to ensure proper order.',
-            parameters: {
-              type: 'object',
-              properties: {},
-              required: []
-            }
-          }
-        }
-      ];
-
       const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
         {
           role: 'system',
@@ -504,53 +88,113 @@ export class AIClient {
         content: `${contextPrompt}\n\nUser Question: ${message}`,
       });
 
-      // Determine if we should use tools based on chat mode
-      const isAgentMode = context.chatMode === 'agent' || context.chatMode === undefined; // Default to agent
-
-      const completion = await this.openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages,
-        // Only include tools in agent mode
-        ...(isAgentMode && {
-          tools,
-          tool_choice: 'auto',
-          parallel_tool_calls: true,
-        }),
-        max_completion_tokens: 4000,
-      });
-
-      // Track token usage from first completion
-      if (completion.usage) {
-        totalPromptTokens += completion.usage.prompt_tokens;
-        totalCompletionTokens += completion.usage.completion_tokens;
+      // Determine if we should use tools based on chat mode and whether the model can call them
+      const wantsAgent = context.chatMode === 'agent' || context.chatMode === undefined; // Default to agent
+      const isAgentMode = wantsAgent && this.provider.capabilities.toolCalling;
+      if (wantsAgent && !isAgentMode) {
+        messages.splice(1, 0, {
+          role: 'system',
+          content: 'The current model cannot call tools, so you cannot change the project or the screenplay yourself. Describe the changes for the user to make instead.',
+        });
       }
 
-      const responseMessage = completion.choices[0]?.message;
+      // Everything the tools change this turn, so it can be undone together
+      if (isAgentMode) recorder = new ChangeRecorder(this.dbManager, uuidv4());
 
-      console.log('[AI-CHAT] OpenAI response received');
-      console.log('[AI-CHAT] Has tool_calls:', !!responseMessage?.tool_calls);
-      console.log('[AI-CHAT] Tool calls count:', responseMessage?.tool_calls?.length || 0);
-      if (responseMessage?.tool_calls) {
-        console.log('[AI-CHAT] Tools called:', responseMessage.tool_calls.map(t => t.function.name).join(', '));
-      }
-      console.log('[AI-CHAT] Content preview:', responseMessage?.content?.substring(0, 300) || '(no content)');
+      // Text from every round, in the order it was streamed
+      let content = '';
+      const reply = async (text: string, stopped = false): Promise<ChatResponse> => {
+        const changeSet = await this.saveChangeSet(recorder);
+        return {
+          content: text,
+          tokenUsage: {
+            promptTokens: totalPromptTokens,
+            completionTokens: totalCompletionTokens,
+            totalTokens: totalPromptTokens + totalCompletionTokens,
+          },
+          ...(stopped && { stopped }),
+          ...(changeSet && { changeSet }),
+        };
+      };
 
-      // Handle tool calls
-      if (responseMessage?.tool_calls) {
-        messages.push(responseMessage);
+      // The first request plus follow-ups after tool calls
+      const maxIterations = 25; // High limit for full analysis: scenes + characters + merges + links
+      for (let iteration = 0; iteration <= maxIterations; iteration++) {
+        if (iteration > 0) console.log(`[AI] Tool call iteration ${iteration}/${maxIterations}`);
+
+        // Keep rounds apart in the streamed text
+        let separator = content ? '\n\n' : '';
+        const response = await this.streamCompletion({
+          model: this.provider.model('chat'),
+          messages,
+          // Only include tools in agent mode
+          ...(isAgentMode && {
+            // Tools the project has turned off aren't offered at all
+            tools: AGENT_TOOLS.filter(tool => toolPermission(options.toolPolicy, tool.function.name) !== 'never'),
+            tool_choice: 'auto',
+            parallel_tool_calls: true,
+          }),
+          ...(iteration === 0 && { max_completion_tokens: 4000 }),
+        }, {
+          signal: options.signal,
+          onEvent: (event) => {
+            if (event.type === 'text' && separator) {
+              options.onEvent?.({ type: 'text', delta: separator });
+              separator = '';
+            }
+            options.onEvent?.(event);
+          },
+        });
+
+        totalPromptTokens += response.promptTokens;
+        totalCompletionTokens += response.completionTokens;
+        if (response.content) content += (content ? '\n\n' : '') + response.content;
+        if (options.signal?.aborted) return await reply(content, true);
+
+        console.log('[AI-CHAT] Tool calls count:', response.toolCalls.length);
+        if (response.toolCalls.length > 0) {
+          console.log('[AI-CHAT] Tools called:', response.toolCalls.map(t => t.function.name).join(', '));
+        }
+
+        // No tool calls - this is the answer
+        if (response.toolCalls.length === 0) {
+          return await reply(content || (iteration === 0 ? 'No response generated.' : 'Action completed.'));
+        }
+
+        messages.push({
+          role: 'assistant',
+          content: response.content || null,
+          tool_calls: response.toolCalls,
+        });
 
         // Execute all tool calls using the unified executeToolCall method
-        for (const toolCall of responseMessage.tool_calls) {
-          const args = JSON.parse(toolCall.function.arguments);
-          let result = 'Action completed.';
+        for (const toolCall of response.toolCalls) {
+          // Stopping skips the calls that haven't started; the model never sees them
+          if (options.signal?.aborted) return await reply(content, true);
 
+          const name = toolCall.function.name;
+          let args: Record<string, unknown> | undefined;
           try {
+            args = JSON.parse(toolCall.function.arguments || '{}');
+          } catch {
+            args = undefined;
+          }
+          options.onEvent?.({ type: 'tool-start', id: toolCall.id, name, args: args ?? {} });
+
+          let result: string;
+          let failed = false;
+          try {
+            if (args === undefined) throw new Error(`Invalid arguments: ${toolCall.function.arguments}`);
+            const refusal = await this.checkToolPermission(toolCall.id, name, args, options);
+            if (refusal) throw new Error(refusal);
             // Use the centralized tool execution method for ALL tools
-            result = await this.executeToolCall(toolCall.function.name, args, context);
+            result = await this.executeToolCall(name, args, context, recorder);
           } catch (error) {
-            console.error(`Error executing tool ${toolCall.function.name}:`, error);
+            console.error(`Error executing tool ${name}:`, error);
             result = `Error: ${error}`;
+            failed = true;
           }
+          options.onEvent?.({ type: 'tool-end', id: toolCall.id, name, result, failed: failed || result.startsWith('Error') });
 
           messages.push({
             role: 'tool',
@@ -558,92 +202,77 @@ export class AIClient {
             content: result,
           });
         }
+      }
 
-        // Continue with another API call - it might need more tool calls
-        let continueLoop = true;
-        let maxIterations = 25; // High limit for full analysis: scenes + characters + merges + links
-        let iterations = 0;
-
-        while (continueLoop && iterations < maxIterations) {
-          iterations++;
-          console.log(`[AI] Tool call iteration ${iterations}/${maxIterations}`);
-
-          const nextResponse = await this.openai.chat.completions.create({
-            model: 'gpt-4o-mini',
-            messages,
-            // Include tools in case the model needs to call more
-            ...(isAgentMode && {
-              tools,
-              tool_choice: 'auto',
-              parallel_tool_calls: true,
-            }),
-          });
-
-          // Track token usage
-          if (nextResponse.usage) {
-            totalPromptTokens += nextResponse.usage.prompt_tokens;
-            totalCompletionTokens += nextResponse.usage.completion_tokens;
-          }
+      // If we hit max iterations, return what we have
+      return await reply(content || 'Completed after multiple tool calls.');
+    } catch (error) {
+      console.error('OpenAI API error:', error);
+      // Whatever the tools did before the failure is still logged and can be undone
+      await this.saveChangeSet(recorder).catch(saveError => console.error('[AI] Failed to save change set:', saveError));
+      throw new Error('Failed to get AI response: ' + error);
+    }
+  }
 
-          const nextMessage = nextResponse.choices[0]?.message;
+  /**
+   * Why a tool call may not run under the project's policy, or null if it
+   * may. Tools set to ask wait here for the user's answer.
+   */
+  private async checkToolPermission(id: string, name: string, args: Record<string, unknown>, options: ChatOptions): Promise<string | null> {
+    const permission = toolPermission(options.toolPolicy, name);
+    if (permission === 'allow') return null;
+    if (permission === 'never') {
+      return `${name} is turned off in this project's settings. Tell the user what you would have done instead.`;
+    }
+    if (!options.confirmTool) return `${name} needs the user's confirmation, which can't be asked for here.`;
 
-          // Check if there are more tool calls
-          if (nextMessage?.tool_calls && nextMessage.tool_calls.length > 0) {
-            messages.push(nextMessage);
+    const confirmation = await describeToolEffect(name, args, this.dbManager);
+    options.onEvent?.({ type: 'tool-confirm', id, name, confirmation });
+    const allowed = await options.confirmTool(id);
+    console.log(`[AI-TOOL] ${name} ${allowed ? 'allowed' : 'declined'} by the user`);
+    return allowed ? null : `The user declined ${name}. Don't try it again unless they ask.`;
+  }
 
-            // Execute ALL tool calls using the unified method
-            for (const toolCall of nextMessage.tool_calls) {
-              const toolArgs = JSON.parse(toolCall.function.arguments);
-              const toolResult = await this.executeToolCall(toolCall.function.name, toolArgs, context);
+  // Store what a turn changed; nothing is stored for turns that changed nothing and proposed no edits
+  private async saveChangeSet(recorder?: ChangeRecorder): Promise<ChangeSet | undefined> {
+    if (!recorder || recorder.isEmpty) return undefined;
 
-              messages.push({
-                role: 'tool',
-                tool_call_id: toolCall.id,
-                content: toolResult,
-              });
-            }
-          } else {
-            // No more tool calls - return the final response
-            continueLoop = false;
-            return {
-              content: nextMessage?.content || 'Action completed.',
-              tokenUsage: {
-                promptTokens: totalPromptTokens,
-                completionTokens: totalCompletionTokens,
-                totalTokens: totalPromptTokens + totalCompletionTokens,
-              },
-            };
-          }
-        }
+    const changes = recorder.getChanges();
+    const changeSet: ChangeSet = { id: recorder.id, createdAt: Date.now(), changes };
+    await this.dbManager.saveChangeSet(changeSet);
+    console.log('[AI] Change set saved:', summarizeChanges(changes).join('; '));
+    return changeSet;
+  }
 
-        // If we hit max iterations, return what we have
-        return {
-          content: 'Completed after multiple tool calls.',
-          tokenUsage: {
-            promptTokens: totalPromptTokens,
-            completionTokens: totalCompletionTokens,
-            totalTokens: totalPromptTokens + totalCompletionTokens,
-          },
-        };
+  /**
+   * Run one completion as a stream, passing text on as it arrives. Stopping
+   * through the signal ends the stream early and keeps what came so far.
+   */
+  private async streamCompletion(
+    params: Omit<OpenAI.Chat.Completions.ChatCompletionCreateParamsStreaming, 'stream'>,
+    options: ChatOptions
+  ): Promise<StreamedMessage> {
+    const message = emptyStreamedMessage();
+    try {
+      const stream = await this.provider.client.chat.completions.create(
+        { ...params, stream: true, stream_options: { include_usage: true } },
+        { signal: options.signal }
+      );
+      for await (const chunk of stream) {
+        const text = addChunk(message, chunk);
+        if (text) options.onEvent?.({ type: 'text', delta: text });
       }
-
-      return {
-        content: responseMessage?.content || 'No response generated.',
-        tokenUsage: {
-          promptTokens: totalPromptTokens,
-          completionTokens: totalCompletionTokens,
-          totalTokens: totalPromptTokens + totalCompletionTokens,
-        },
-      };
     } catch (error) {
-      console.error('OpenAI API error:', error);
-      throw new Error('Failed to get AI response: ' + error);
+      if (!options.signal?.aborted) throw error;
     }
+    return message;
   }
 
   // Centralized tool execution logic - used for ALL tool calls
-  private async executeToolCall(toolName: string, args: any, context?: AIContext): Promise<string> {
+  private async executeToolCall(toolName: string, args: any, context?: AIContext, recorder?: ChangeRecorder): Promise<string> {
     console.log(`[AI-TOOL] Executing: ${toolName}`, JSON.stringify(args).substring(0, 200));
+    // Writes go through the recorder during a chat turn so the turn can be undone
+    const db: AgentDatabase = recorder ?? this.dbManager;
     try {
       switch (toolName) {
         case 'create_character': {
@@ -652,8 +281,7 @@ export class AIClient {
           // Comprehensive validation - reject anything that's NOT a character name
 
           // 1. Scene headings (with or without ! prefix)
-          const sceneHeadingPattern = /^!?(INT\.|EXT\.|INT\/EXT\.|I\/E\.|EST\.)/i;
-          if (sceneHeadingPattern.test(charName)) {
+          if (isSceneHeadingLine(charName.replace(/^!/, ''))) {
             return `Skipped: "${charName}" is a scene heading, not a character`;
           }
 
@@ -692,7 +320,7 @@ export class AIClient {
           }
 
           // Check for duplicates
-          const existingChars = await this.dbManager.getCharacters();
+          const existingChars = await db.getCharacters();
           const duplicateChar = existingChars.find(c =>
             c.name.toUpperCase().trim() === charName
           );
@@ -714,7 +342,7 @@ export class AIClient {
             appearances: [],
             notes: args.role ? `Role: ${args.role}` : '',
           };
-          await this.dbManager.saveCharacter(newCharacter);
+          await db.saveCharacter(newCharacter);
           this.systemActions?.notifyUpdate();
           return `✓ Created character: ${newCharacter.name}`;
         }
@@ -733,15 +361,14 @@ export class AIClient {
           }
 
           // Validate it looks like a scene heading
-          const validScenePattern = /^(INT\.|EXT\.|INT\/EXT\.|I\/E\.|EST\.)/i;
-          if (!validScenePattern.test(sceneHeading)) {
+          if (!isSceneHeadingLine(sceneHeading)) {
             // If it doesn't have INT/EXT, check if it was a forced heading
             // Accept it but log a warning
             console.log(`[AI] Creating scene without standard prefix: ${sceneHeading}`);
           }
 
           // Check for duplicates (normalize for comparison)
-          const existingScenes = await this.dbManager.getScenes();
+          const existingScenes = await db.getScenes();
           const normalizedHeading = sceneHeading.replace(/\s+/g, ' ').trim();
           const duplicateScene = existingScenes.find(s => {
             const existingNorm = s.heading.replace(/\s+/g, ' ').trim().toUpperCase();
@@ -766,7 +393,7 @@ export class AIClient {
             endLine: args.line_number || 0,
             content: '',
           };
-          await this.dbManager.saveScene(newScene);
+          await db.saveScene(newScene);
           this.systemActions?.notifyUpdate();
           return `✓ Created Scene ${newScene.number}: ${newScene.heading} (line ${newScene.startLine})`;
         }
@@ -775,12 +402,12 @@ export class AIClient {
           const linkCharName = args.character_name.toUpperCase().trim();
           const linkSceneNum = args.scene_number;
 
-          const allCharsForLink = await this.dbManager.getCharacters();
+          const allCharsForLink = await db.getCharacters();
           const charToLink = allCharsForLink.find(c =>
             c.name.toUpperCase().trim() === linkCharName
           );
 
-          const allScenesForLink = await this.dbManager.getScenes();
+          const allScenesForLink = await db.getScenes();
           const sceneToLink = allScenesForLink.find(s => s.number === linkSceneNum);
 
           if (!charToLink) {
@@ -798,7 +425,7 @@ export class AIClient {
             ...charToLink,
             appearances: Array.from(charAppearanceSet),
           };
-          await this.dbManager.saveCharacter(updatedCharForLink);
+          await db.saveCharacter(updatedCharForLink);
 
           // Update scene's character list
           const sceneCharSet = new Set(sceneToLink.characters || []);
@@ -807,7 +434,7 @@ export class AIClient {
             ...sceneToLink,
             characters: Array.from(sceneCharSet),
           };
-          await this.dbManager.saveScene(updatedSceneForLink);
+          await db.saveScene(updatedSceneForLink);
 
           this.systemActions?.notifyUpdate();
           return `✓ Linked ${charToLink.name} to Scene ${linkSceneNum}`;
@@ -818,7 +445,7 @@ export class AIClient {
           const mergeNames: string[] = args.merge_names || [];
 
           // Find the character to keep
-          const allCharsForMerge = await this.dbManager.getCharacters();
+          const allCharsForMerge = await db.getCharacters();
           const keepChar = allCharsForMerge.find(c =>
             c.name.toUpperCase().trim() === keepName
           );
@@ -842,18 +469,18 @@ export class AIClient {
               mergedAppearances = [...new Set([...mergedAppearances, ...(charToMerge.appearances || [])])];
 
               // Update any scenes that reference this character
-              const allScenes = await this.dbManager.getScenes();
+              const allScenes = await db.getScenes();
               for (const scene of allScenes) {
                 if (scene.characters.includes(charToMerge.name)) {
                   const updatedChars = scene.characters
                     .filter(c => c !== charToMerge.name)
                     .concat(scene.characters.includes(keepChar.name) ? [] : [keepChar.name]);
-                  await this.dbManager.saveScene({ ...scene, characters: [...new Set(updatedChars)] });
+                  await db.saveScene({ ...scene, characters: [...new Set(updatedChars)] });
                 }
               }
 
               // Delete the merged character
-              await this.dbManager.deleteCharacter(charToMerge.id);
+              await db.deleteCharacter(charToMerge.id);
               merged.push(charToMerge.name);
             } else if (!charToMerge) {
               notFound.push(mergeName);
@@ -861,7 +488,7 @@ export class AIClient {
           }
 
           // Update the kept character with merged appearances
-          await this.dbManager.saveCharacter({
+          await db.saveCharacter({
             ...keepChar,
             appearances: mergedAppearances,
           });
@@ -882,18 +509,18 @@ export class AIClient {
         }
 
         case 'delete_character': {
-          await this.dbManager.deleteCharacter(args.id);
+          await db.deleteCharacter(args.id);
           this.systemActions?.notifyUpdate();
           return `✓ Deleted character with ID: ${args.id}`;
         }
 
         case 'delete_character_by_name': {
-          const charsToSearch = await this.dbManager.getCharacters();
+          const charsToSearch = await db.getCharacters();
           const charToDelete = charsToSearch.find(c =>
             c.name.toLowerCase() === args.character_name.toLowerCase()
           );
           if (charToDelete) {
-            await this.dbManager.deleteCharacter(charToDelete.id);
+            await db.deleteCharacter(charToDelete.id);
             this.systemActions?.notifyUpdate();
             return `✓ Deleted character: ${charToDelete.name}`;
           }
@@ -901,16 +528,16 @@ export class AIClient {
         }
 
         case 'delete_scene': {
-          await this.dbManager.deleteScene(args.id);
+          await db.deleteScene(args.id);
           this.systemActions?.notifyUpdate();
           return `✓ Deleted scene with ID: ${args.id}`;
         }
 
         case 'edit_character': {
-          const char = await this.dbManager.getCharacter(args.id);
+          const char = await db.getCharacter(args.id);
           if (char) {
             const updatedChar = { ...char, ...args };
-            await this.dbManager.saveCharacter(updatedChar);
+            await db.saveCharacter(updatedChar);
             this.systemActions?.notifyUpdate();
             return `✓ Updated character: ${char.name}`;
           }
@@ -918,7 +545,7 @@ export class AIClient {
         }
 
         case 'read_scene': {
-          const scenes = await this.dbManager.getScenes();
+          const scenes = await db.getScenes();
           let targetScene = null;
 
           if (args.scene_id) {
@@ -965,11 +592,11 @@ export class AIClient {
         }
 
         case 'read_character': {
-          const allCharacters = await this.dbManager.getCharacters();
+          const allCharacters = await db.getCharacters();
           let targetChar = null;
 
           if (args.character_id) {
-            targetChar = await this.dbManager.getCharacter(args.character_id);
+            targetChar = await db.getCharacter(args.character_id);
           } else if (args.character_name) {
             targetChar = allCharacters.find(c =>
               c.name.toLowerCase() === args.character_name.toLowerCase()
@@ -990,7 +617,7 @@ export class AIClient {
           if (context?.currentContent) {
             const content = context.currentContent;
             const lowerContent = content.toLowerCase();
-            const lines = content.split('\n');
+            const doc = parseFountain(content);
             
             // Find all occurrences with context
             let searchStart = 0;
@@ -1013,14 +640,7 @@ export class AIClient {
                 (end < content.length ? '...' : '');
 
               // Find the scene this is in
-              let sceneName = 'Unknown location';
-              for (let i = lineNumber - 1; i >= 0; i--) {
-                const line = lines[i];
-                if (/^(INT\.|EXT\.|INT\.\/EXT\.|I\/E\.|EST\.)/i.test(line.trim())) {
-                  sceneName = line.trim();
-                  break;
-                }
-              }
+              const sceneName = findSceneAtLine(doc, lineNumber - 1)?.heading || 'Unknown location';
 
               matches.push({ location: `Line ${lineNumber} (${sceneName})`, excerpts: [excerpt] });
               searchStart = idx + query.length;
@@ -1056,7 +676,7 @@ export class AIClient {
           }
 
           // Fallback: reconstruct from scenes if no direct content
-          const allScenes = await this.dbManager.getScenes();
+          const allScenes = await db.getScenes();
           if (allScenes.length === 0) {
             return 'No screenplay content available. The screenplay may be empty.';
           }
@@ -1076,7 +696,7 @@ export class AIClient {
         }
 
         case 'read_scene_with_context': {
-          const allScenes = await this.dbManager.getScenes();
+          const allScenes = await db.getScenes();
           const sortedScenes = allScenes.sort((a, b) => (a.startLine || 0) - (b.startLine || 0));
           const targetNum = args.scene_number;
           const contextCount = args.context_scenes || 1;
@@ -1121,45 +741,35 @@ export class AIClient {
             return `No screenplay content available to analyze.`;
           }
           
-          const fullContent = context.currentContent;
-          const allLines = fullContent.split('\n');
+          const doc = parseFountain(context.currentContent);
           const appearances: Array<{ sceneHeading: string; excerpt: string }> = [];
           
-          // Find all scenes and character mentions
-          let currentScene = 'Before first scene';
-          
-          for (let i = 0; i < allLines.length; i++) {
-            const line = allLines[i].trim();
-            const upperLine = line.toUpperCase();
-            
-            // Track current scene
-            if (/^(INT\.|EXT\.|INT\.\/EXT\.|I\/E\.|EST\.)/i.test(line)) {
-              currentScene = line;
-            }
+          for (let i = 0; i < doc.nodes.length; i++) {
+            const node = doc.nodes[i];
+            const currentScene = node.sceneIndex !== undefined
+              ? doc.scenes[node.sceneIndex].heading
+              : 'Before first scene';
             
             // Check if this is the character's cue
-            if (upperLine === charName || upperLine.startsWith(charName + ' (')) {
-              const relevantLines: string[] = [`[SPEAKS] ${line}`];
+            if (node.type === 'character' && node.character?.toUpperCase() === charName) {
+              const relevantLines: string[] = [`[SPEAKS] ${node.text}`];
               
-              // Get their dialogue (next lines until another cue)
-              for (let j = i + 1; j < allLines.length && j < i + 6; j++) {
-                const nextLine = allLines[j].trim();
-                if (nextLine && !nextLine.match(/^[A-Z]{2,}[^a-z]*$/)) {
-                  relevantLines.push(`  "${nextLine}"`);
-                } else if (nextLine.match(/^[A-Z]{2,}[^a-z]*$/)) {
-                  break;
-                }
+              // Get their dialogue (the rest of the dialogue block)
+              for (let j = i + 1; j < doc.nodes.length && j < i + 6; j++) {
+                const next = doc.nodes[j];
+                if (next.type !== 'dialogue' && next.type !== 'parenthetical' && next.type !== 'lyrics') break;
+                relevantLines.push(`  "${next.text}"`);
               }
               
               appearances.push({
                 sceneHeading: currentScene,
                 excerpt: relevantLines.join('\n')
               });
-            } else if (upperLine.includes(charName) && line.length > 10) {
+            } else if (node.type === 'action' && node.text.toUpperCase().includes(charName) && node.text.length > 10) {
               // Action line mentioning character
               appearances.push({
                 sceneHeading: currentScene,
-                excerpt: `[ACTION] ${line}`
+                excerpt: `[ACTION] ${node.text}`
               });
             }
           }
@@ -1196,42 +806,29 @@ export class AIClient {
             return `No screenplay content available.`;
           }
           
-          const allLines = context.currentContent.split('\n');
+          const doc = parseFountain(context.currentContent);
           const dialogues: Array<{ sceneHeading: string; dialogue: string }> = [];
-          let currentScene = 'Before first scene';
 
-          for (let i = 0; i < allLines.length; i++) {
-            const line = allLines[i].trim();
-            const upperLine = line.toUpperCase();
-            
-            // Track current scene
-            if (/^(INT\.|EXT\.|INT\.\/EXT\.|I\/E\.|EST\.)/i.test(line)) {
-              currentScene = line;
-            }
+          for (let i = 0; i < doc.nodes.length; i++) {
+            const node = doc.nodes[i];
 
             // Check if this is the character's cue
-            if (upperLine === charName || upperLine.startsWith(charName + ' (')) {
-              // Collect their dialogue
-              let dialogue = '';
-              for (let j = i + 1; j < allLines.length; j++) {
-                const nextLine = allLines[j].trim();
-                if (!nextLine) continue;
-                // Stop at next character cue or scene heading
-                if (nextLine.match(/^[A-Z]{2,}[^a-z]*$/) && !nextLine.startsWith('(')) {
-                  break;
-                }
-                if (/^(INT\.|EXT\.|INT\.\/EXT\.|I\/E\.|EST\.)/i.test(nextLine)) {
-                  break;
-                }
-                if (nextLine.startsWith('(') && nextLine.endsWith(')')) {
-                  dialogue += `${nextLine} `;
-                } else {
-                  dialogue += nextLine + ' ';
-                }
-              }
-              if (dialogue.trim()) {
-                dialogues.push({ sceneHeading: currentScene, dialogue: dialogue.trim() });
-              }
+            if (node.type !== 'character' || node.character?.toUpperCase() !== charName) {
+              continue;
+            }
+
+            // Collect the dialogue block that follows the cue
+            let dialogue = '';
+            for (let j = i + 1; j < doc.nodes.length; j++) {
+              const next = doc.nodes[j];
+              if (next.type !== 'dialogue' && next.type !== 'parenthetical' && next.type !== 'lyrics') break;
+              dialogue += next.text + ' ';
+            }
+            if (dialogue.trim()) {
+              dialogues.push({
+                sceneHeading: node.sceneIndex !== undefined ? doc.scenes[node.sceneIndex].heading : 'Before first scene',
+                dialogue: dialogue.trim(),
+              });
             }
           }
 
@@ -1263,61 +860,42 @@ export class AIClient {
 
         case 'analyze_scene_characters': {
           const sceneNum = args.scene_number;
-          const allScenes = await this.dbManager.getScenes();
-          const sortedScenes = allScenes.sort((a, b) => (a.startLine || 0) - (b.startLine || 0));
-          const scene = sortedScenes.find(s => s.number === sceneNum);
-
-          if (!scene) {
-            return `Scene ${sceneNum} not found.`;
-          }
 
           // Extract scene content from actual screenplay
           if (!context?.currentContent) {
             return `No screenplay content available.`;
           }
-          
-          const allLines = context.currentContent.split('\n');
-          const sceneStartLine = scene.startLine || 0;
-          const sceneIdx = sortedScenes.findIndex(s => s.id === scene.id);
-          const sceneEndLine = (sceneIdx < sortedScenes.length - 1) 
-            ? (sortedScenes[sceneIdx + 1].startLine || allLines.length) 
-            : allLines.length;
-          
-          const sceneLines = allLines.slice(sceneStartLine, sceneEndLine);
-          const characterData: Map<string, { dialogueCount: number; lines: string[] }> = new Map();
 
-          for (let i = 0; i < sceneLines.length; i++) {
-            const line = sceneLines[i].trim();
+          const doc = parseFountain(context.currentContent);
+          const scene = doc.scenes.find(s => s.number === sceneNum);
 
-            // Character cue pattern: ALL CAPS, possibly with extension
-            const charMatch = line.match(/^([A-Z][A-Z\s'-]+)(\s*\([^)]+\))?$/);
-            if (charMatch && line.length < 40) {
-              const charName = charMatch[1].trim();
+          if (!scene) {
+            return `Scene ${sceneNum} not found.`;
+          }
 
-              // Skip scene headings and transitions
-              if (charName.match(/^(INT|EXT|CUT|FADE|DISSOLVE)/)) continue;
+          const characterData: Map<string, { dialogueCount: number; lines: string[] }> = new Map();
 
-              // Get their dialogue
-              let dialogue = '';
-              for (let j = i + 1; j < sceneLines.length; j++) {
-                const nextLine = sceneLines[j].trim();
-                if (!nextLine) continue;
-                if (nextLine.match(/^[A-Z]{2,}[^a-z]*$/) && !nextLine.startsWith('(')) {
-                  break;
-                }
-                if (!nextLine.startsWith('(')) {
-                  dialogue += nextLine + ' ';
-                }
-              }
+          for (let i = scene.headingIndex + 1; i <= scene.endIndex; i++) {
+            const node = doc.nodes[i];
+            if (node.type !== 'character' || !node.character) continue;
+
+            // Get their dialogue (parentheticals excluded)
+            let dialogue = '';
+            for (let j = i + 1; j <= scene.endIndex; j++) {
+              const next = doc.nodes[j];
+              if (next.type === 'parenthetical') continue;
+              if (next.type !== 'dialogue' && next.type !== 'lyrics') break;
+              dialogue += next.text + ' ';
+            }
 
-              if (!characterData.has(charName)) {
-                characterData.set(charName, { dialogueCount: 0, lines: [] });
-              }
-              const data = characterData.get(charName)!;
-              data.dialogueCount++;
-              if (dialogue.trim()) {
-                data.lines.push(dialogue.trim().substring(0, 100) + (dialogue.length > 100 ? '...' : ''));
-              }
+            const charName = node.character;
+            if (!characterData.has(charName)) {
+              characterData.set(charName, { dialogueCount: 0, lines: [] });
+            }
+            const data = characterData.get(charName)!;
+            data.dialogueCount++;
+            if (dialogue.trim()) {
+              data.lines.push(dialogue.trim().substring(0, 100) + (dialogue.length > 100 ? '...' : ''));
             }
           }
 
@@ -1364,17 +942,13 @@ export class AIClient {
           }
           
           const allLines = context.currentContent.split('\n');
+          const doc = parseFountain(context.currentContent);
           const matches: Array<{ sceneHeading: string; excerpts: string[] }> = [];
-          let currentScene = 'Before first scene';
 
           for (let i = 0; i < allLines.length; i++) {
             const line = allLines[i];
             const lowerLine = line.toLowerCase();
-            
-            // Track current scene
-            if (/^(INT\.|EXT\.|INT\.\/EXT\.|I\/E\.|EST\.)/i.test(line.trim())) {
-              currentScene = line.trim();
-            }
+            const currentScene = findSceneAtLine(doc, i)?.heading || 'Before first scene';
             
             // Check if any keyword matches
             const foundKeywords = keywords.filter(kw => lowerLine.includes(kw));
@@ -1415,7 +989,7 @@ export class AIClient {
 
         // === LIST/OVERVIEW TOOLS ===
         case 'list_all_characters': {
-          const allChars = await this.dbManager.getCharacters();
+          const allChars = await db.getCharacters();
           if (allChars.length === 0) {
             return 'No characters in database yet.';
           }
@@ -1429,7 +1003,7 @@ export class AIClient {
         }
 
         case 'list_all_scenes': {
-          const allScenes = await this.dbManager.getScenes();
+          const allScenes = await db.getScenes();
           if (allScenes.length === 0) {
             return 'No scenes in database yet.';
           }
@@ -1445,7 +1019,7 @@ export class AIClient {
         // === SCENE MANAGEMENT TOOLS ===
         case 'delete_scene_by_heading': {
           const headingToDelete = args.heading.toUpperCase().trim();
-          const allScenesForDelete = await this.dbManager.getScenes();
+          const allScenesForDelete = await db.getScenes();
           const sceneToDelete = allScenesForDelete.find(s =>
             s.heading.toUpperCase().trim() === headingToDelete
           );
@@ -1454,14 +1028,14 @@ export class AIClient {
             return `Scene with heading "${headingToDelete}" not found`;
           }
 
-          await this.dbManager.deleteScene(sceneToDelete.id);
+          await db.deleteScene(sceneToDelete.id);
           this.systemActions?.notifyUpdate();
           return `✓ Deleted Scene ${sceneToDelete.number}: ${sceneToDelete.heading}`;
         }
 
         case 'update_scene': {
           const sceneNum = args.scene_number;
-          const allScenesForUpdate = await this.dbManager.getScenes();
+          const allScenesForUpdate = await db.getScenes();
           const sceneToUpdate = allScenesForUpdate.find(s => s.number === sceneNum);
 
           if (!sceneToUpdate) {
@@ -1473,7 +1047,7 @@ export class AIClient {
           if (args.characters !== undefined) updates.characters = args.characters;
           if (args.notes !== undefined) updates.notes = args.notes;
 
-          await this.dbManager.saveScene({ ...sceneToUpdate, ...updates });
+          await db.saveScene({ ...sceneToUpdate, ...updates });
           this.systemActions?.notifyUpdate();
 
           const updatedFields = Object.keys(updates).join(', ');
@@ -1481,7 +1055,7 @@ export class AIClient {
         }
 
         case 'renumber_scenes': {
-          const allScenesForRenumber = await this.dbManager.getScenes();
+          const allScenesForRenumber = await db.getScenes();
 
           // Sort by startLine (chronological order in screenplay) - scenes with line 0 go to end
           const sortedScenes = allScenesForRenumber.sort((a, b) => {
@@ -1490,25 +1064,33 @@ export class AIClient {
             return lineA - lineB;
           });
 
-          // Renumber sequentially based on chronological order
+          // Renumber sequentially based on chronological order. Only the position
+          // changes: printed numbers (sceneNumber) come from the headings and
+          // stay put once locked
           let newNumber = 1;
           let reordered = 0;
           for (const scene of sortedScenes) {
             if (scene.number !== newNumber) {
-              await this.dbManager.saveScene({ ...scene, number: newNumber });
+              await db.saveScene({ ...scene, number: newNumber });
               reordered++;
             }
             newNumber++;
           }
 
+          const locked = sortedScenes.filter((s, i) => s.sceneNumber && s.sceneNumber !== String(i + 1)).length;
+
           this.systemActions?.notifyUpdate();
           console.log(`[AI] Renumbered scenes by line position: ${reordered} scenes moved`);
-          return `✓ Renumbered ${sortedScenes.length} scenes chronologically by line position (${reordered} reordered)`;
+          let renumberResult = `✓ Renumbered ${sortedScenes.length} scenes chronologically by line position (${reordered} reordered)`;
+          if (locked > 0) {
+            renumberResult += `\nScene numbers are locked: ${locked} scenes keep their printed numbers (e.g. 12A)`;
+          }
+          return renumberResult;
         }
 
         // === BATCH OPERATIONS ===
         case 'delete_characters_batch': {
-          const allCharsForBatch = await this.dbManager.getCharacters();
+          const allCharsForBatch = await db.getCharacters();
           const deleted: string[] = [];
           const notFound: string[] = [];
 
@@ -1517,7 +1099,7 @@ export class AIClient {
               c.name.toLowerCase() === name.toLowerCase()
             );
             if (match) {
-              await this.dbManager.deleteCharacter(match.id);
+              await db.deleteCharacter(match.id);
               deleted.push(match.name);
             } else {
               notFound.push(name);
@@ -1541,9 +1123,11 @@ export class AIClient {
           console.log('[AI-METADATA] ========================================');
           console.log('[AI-METADATA] Setting screenplay metadata:', args);
           const results: string[] = [];
+          const titlePage = readTitlePage(context?.currentContent ?? '');
           if (args.title) {
             if (this.systemActions) {
               console.log('[AI-METADATA] Setting title to:', args.title);
+              recorder?.recordMetadata('title', titlePage.title, args.title);
               this.systemActions.setScreenplayTitle(args.title);
               results.push(`✓ Title set to: "${args.title}"`);
             } else {
@@ -1553,6 +1137,7 @@ export class AIClient {
           if (args.author) {
             if (this.systemActions) {
               console.log('[AI-METADATA] Setting author to:', args.author);
+              recorder?.recordMetadata('authors', titlePage.authors, args.author);
               this.systemActions.setScreenplayAuthor(args.author);
               results.push(`✓ Author set to: "${args.author}"`);
             } else {
@@ -1587,19 +1172,37 @@ export class AIClient {
 
         case 'update_content': {
           if (this.systemActions && this.systemActions.previewUpdate) {
-            this.systemActions.previewUpdate({
+            const edit: PendingEdit = {
               original: args.original_text,
               modified: args.new_text,
-              description: args.description
-            });
-            return `I have proposed a change: "${args.description}". Please review it in the editor and click Accept or Reject.`;
+              description: args.description,
+              ...(typeof args.scene_number === 'number' && { sceneNumber: args.scene_number }),
+            };
+
+            // Refuse edits that can't be pinned to one place, so the wrong occurrence is never changed
+            const location = context?.currentContent ? locateEdit(context.currentContent, edit) : null;
+            const where = edit.sceneNumber !== undefined ? ` in scene ${edit.sceneNumber}` : '';
+            if (location?.status === 'missing') {
+              return `✗ original_text was not found${where}. Copy it exactly from the screenplay.`;
+            }
+            if (location?.status === 'ambiguous') {
+              return `✗ original_text appears ${location.count} times${where}. Include more of the surrounding text${edit.sceneNumber === undefined ? ' or give scene_number' : ''} so it matches once.`;
+            }
+
+            // The edit joins the turn's change set if the user accepts it
+            if (recorder) {
+              recorder.noteProposedEdit();
+              edit.changeSetId = recorder.id;
+            }
+            this.systemActions.previewUpdate(edit);
+            return `I have proposed a change: "${args.description}". It is queued for review in the editor, where it can be accepted, edited or rejected.`;
           }
           return '✗ Content update functionality not available.';
         }
 
         // === QUERY TOOLS ===
         case 'get_character_scenes': {
-          const charScenesData = await this.dbManager.getScenes();
+          const charScenesData = await db.getScenes();
           const searchName = args.character_name.toUpperCase();
           const charAppearances = charScenesData.filter(s =>
             s.characters.some(c => c.toUpperCase() === searchName) ||
@@ -1620,7 +1223,7 @@ export class AIClient {
         }
 
         case 'get_screenplay_section': {
-          const sectionScenes = await this.dbManager.getScenes();
+          const sectionScenes = await db.getScenes();
           const startNum = args.start_scene;
           const endNum = args.end_scene;
           const section = sectionScenes.filter(s => s.number >= startNum && s.number <= endNum);
@@ -1660,8 +1263,8 @@ Arc: ${characterInfo.arc}
 `;
       }
 
-      const completion = await this.openai.chat.completions.create({
-        model: 'gpt-4o-mini',
+      const completion = await this.provider.client.chat.completions.create({
+        model: this.provider.model('chat'),
         messages: [
           {
             role: 'system',
@@ -1685,8 +1288,8 @@ Arc: ${characterInfo.arc}
 
   async expandScene(outline: string): Promise<string> {
     try {
-      const completion = await this.openai.chat.completions.create({
-        model: 'gpt-4o-mini',
+      const completion = await this.provider.client.chat.completions.create({
+        model: this.provider.model('chat'),
         messages: [
           {
             role: 'system',
@@ -1718,11 +1321,11 @@ Arc: ${characterInfo.arc}
 
       // Build context for analysis
       const scenesSummary = scenes
-        .map((s) => `Scene ${s.number}: ${s.heading}\n${s.content.substring(0, 200)}...`)
+        .map((s) => `Scene ${s.number} (id: ${s.id}): ${s.heading}\n${s.content.substring(0, 200)}...`)
         .join('\n\n');
 
-      const completion = await this.openai.chat.completions.create({
-        model: 'gpt-4o-mini',
+      const completion = await this.provider.client.chat.completions.create({
+        model: this.provider.model('analysis'),
         messages: [
           {
             role: 'system',
@@ -1740,7 +1343,7 @@ Respond in JSON format with this structure:
       "id": "unique-id",
       "name": "Plot Point Name",
       "description": "Description of the plot point",
-      "sceneId": "scene-id-if-applicable",
+      "sceneId": "id of the scene it happens in, if applicable",
       "timestamp": 1234567890
     }
   ],
@@ -1755,11 +1358,11 @@ Respond in JSON format with this structure:
         ],
         temperature: 0.5,
         max_completion_tokens: 4000,
-        response_format: { type: 'json_object' },
+        ...this.provider.jsonFormat(),
       });
 
       const response = completion.choices[0]?.message?.content || '{}';
-      const analysis = JSON.parse(response);
+      const analysis = parseJSONContent(response) as Partial<Storyline>;
 
       // Ensure proper structure
       const storyline: Storyline = {
@@ -1786,8 +1389,8 @@ Respond in JSON format with this structure:
       const lines = contentBeforeCursor.split('\n');
       const contextLines = lines.slice(-10).join('\n');
 
-      const completion = await this.openai.chat.completions.create({
-        model: 'gpt-4o-mini',
+      const completion = await this.provider.client.chat.completions.create({
+        model: this.provider.model('chat'),
         messages: [
           {
             role: 'system',
@@ -1815,8 +1418,8 @@ Respond in JSON format with this structure:
       // Build comprehensive context for thorough consistency checking
       const contextPrompt = this.contextBuilder.buildContextPrompt(context);
 
-      const completion = await this.openai.chat.completions.create({
-        model: 'gpt-4o-mini',
+      const completion = await this.provider.client.chat.completions.create({
+        model: this.provider.model('analysis'),
         messages: [
           {
             role: 'system',
@@ -1847,11 +1450,11 @@ Return a JSON object with this structure:
         ],
         temperature: 0.3,
         max_completion_tokens: 6000,
-        response_format: { type: 'json_object' },
+        ...this.provider.jsonFormat(),
       });
 
       const response = completion.choices[0]?.message?.content || '{"issues": []}';
-      const result = JSON.parse(response);
+      const result = parseJSONContent(response) as { issues?: unknown[] };
 
       return result.issues || [];
     } catch (error) {
@@ -1866,8 +1469,8 @@ Return a JSON object with this structure:
       const systemPrompt = this.contextBuilder.buildSystemPrompt(context);
       const contextPrompt = this.contextBuilder.buildContextPrompt(context);
 
-      const completion = await this.openai.chat.completions.create({
-        model: 'gpt-4o-mini',
+      const completion = await this.provider.client.chat.completions.create({
+        model: this.provider.model('analysis'),
         messages: [
           {
             role: 'system',
@@ -1889,11 +1492,11 @@ Return detailed JSON analysis with specific examples and actionable feedback.`,
         ],
         temperature: 0.5,
         max_completion_tokens: 8000,
-        response_format: { type: 'json_object' },
+        ...this.provider.jsonFormat(),
       });
 
       const response = completion.choices[0]?.message?.content || '{}';
-      return JSON.parse(response);
+      return parseJSONContent(response);
     } catch (error) {
       console.error('Full script analysis error:', error);
       throw error;
@@ -2082,8 +1685,7 @@ Start analyzing the screenplay now and call the tools for EVERY scene and charac
         createdScenes.push({
           number: scene.number || sceneCounter,
           heading: scene.heading,
-          location: scene.heading.split('-')[0]?.replace(/^(INT\.|EXT\.|INT\.\/EXT\.)/, '').trim() || '',
-          timeOfDay: scene.heading.split('-')[1]?.trim() || '',
+          ...parseSceneHeading(scene.heading),
           lineNumber: scene.startLine || 0,
         });
       }
@@ -2172,8 +1774,8 @@ Rules:
 - Keep descriptions concise but insightful
 - Use character names in UPPERCASE`;
 
-      const completion = await this.openai.chat.completions.create({
-        model: 'gpt-4o-mini',
+      const completion = await this.provider.client.chat.completions.create({
+        model: this.provider.model('enrichment'),
         messages: [
           {
             role: 'system',
@@ -2186,14 +1788,14 @@ Rules:
         ],
         temperature: 0.3,
         max_completion_tokens: 4000,
-        response_format: { type: 'json_object' },
+        ...this.provider.jsonFormat(),
       });
 
       const jsonResponse = completion.choices[0]?.message?.content || '{}';
       console.log('[AI-ENRICH] Received JSON response, length:', jsonResponse.length);
 
       // 5. Parse and validate response
-      const enrichments = parseEnrichmentResponse(jsonResponse);
+      const enrichments = parseEnrichmentResponse(jsonText(jsonResponse));
       console.log(`[AI-ENRICH] Parsed ${enrichments.length} enrichment profiles`);
 
       if (enrichments.length === 0) {
@@ -0,0 +1,111 @@
+/**
+ * LLM provider settings
+ *
+ * Which server the AI features talk to and which model each task uses.
+ * Kept free of the OpenAI SDK so the renderer can use it for the settings
+ * form and to decide whether AI features are available.
+ */
+
+import type { GlobalSettings, LLMCapabilities, LLMProviderSettings, LLMTask } from '../shared/types';
+
+export const LLM_TASKS: LLMTask[] = ['chat', 'summarize', 'analysis', 'enrichment'];
+
+export const LLM_TASK_LABELS: Record<LLMTask, string> = {
+  chat: 'Chat and writing',
+  summarize: 'Conversation summaries',
+  analysis: 'Script analysis',
+  enrichment: 'Character enrichment',
+};
+
+/** The models the app used before providers were configurable */
+export const DEFAULT_OPENAI_MODELS: Record<LLMTask, string> = {
+  chat: 'gpt-4o-mini',
+  summarize: 'gpt-5-mini',
+  analysis: 'gpt-4o-mini',
+  enrichment: 'gpt-4o-mini',
+};
+
+export const DEFAULT_LLM_PROVIDER: LLMProviderSettings = {
+  kind: 'openai',
+  baseURL: '',
+  models: DEFAULT_OPENAI_MODELS,
+  capabilities: { toolCalling: true, jsonMode: true },
+};
+
+export interface LocalProviderPreset {
+  id: string;
+  label: string;
+  baseURL: string;
+  capabilities: LLMCapabilities;
+}
+
+// Tool calling and JSON mode depend on the model and how the server was
+// started (llama.cpp needs --jinja for tools), so llama.cpp starts with both off
+export const LOCAL_PROVIDER_PRESETS: LocalProviderPreset[] = [
+  { id: 'ollama', label: 'Ollama', baseURL: 'http://localhost:11434/v1', capabilities: { toolCalling: true, jsonMode: true } },
+  { id: 'llama.cpp', label: 'llama.cpp server', baseURL: 'http://localhost:8080/v1', capabilities: { toolCalling: false, jsonMode: false } },
+];
+
+/**
+ * Fill in whatever a stored setting lacks (older stores have none at all)
+ */
+export function normalizeProviderSettings(stored?: Partial<LLMProviderSettings> | null): LLMProviderSettings {
+  const kind = stored?.kind === 'local' ? 'local' : 'openai';
+  const models = { ...(kind === 'openai' ? DEFAULT_OPENAI_MODELS : {}), ...stored?.models };
+  return {
+    kind,
+    baseURL: (stored?.baseURL ?? '').trim(),
+    models: Object.fromEntries(LLM_TASKS.map(task => [task, (models[task] ?? '').trim()])) as Record<LLMTask, string>,
+    capabilities: { ...DEFAULT_LLM_PROVIDER.capabilities, ...stored?.capabilities },
+  };
+}
+
+/** Whether a URL points at this machine */
+export function isLoopbackURL(url: string): boolean {
+  let host: string;
+  try {
+    host = new URL(url).hostname.toLowerCase();
+  } catch {
+    return false;
+  }
+  return host === 'localhost' || host.endsWith('.localhost') || host === '[::1]' || /^127(\.\d{1,3}){3}$/.test(host);
+}
+
+/**
+ * What's wrong with the settings, or null when they can be used
+ */
+export function validateProviderSettings(settings: LLMProviderSettings): string | null {
+  if (settings.kind === 'openai') return null;
+
+  let url: URL;
+  try {
+    url = new URL(settings.baseURL);
+  } catch {
+    return 'Enter the base URL of the local server, e.g. http://localhost:11434/v1';
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return 'The base URL must start with http:// or https://';
+  }
+  if (!isLoopbackURL(settings.baseURL)) {
+    return 'A local provider must run on this machine (localhost or 127.0.0.1)';
+  }
+  if (!settings.models.chat) {
+    return 'Enter the model to use for chat';
+  }
+  return null;
+}
+
+/** The model for a task; tasks without their own model use the chat model */
+export function modelForTask(settings: LLMProviderSettings, task: LLMTask): string {
+  return settings.models[task] || settings.models.chat || DEFAULT_OPENAI_MODELS[task];
+}
+
+/**
+ * Whether AI features can run: an OpenAI key, or a usable local server
+ */
+export function isAIConfigured(settings: Pick<GlobalSettings, 'openaiApiKey' | 'llmProvider'> | null | undefined): boolean {
+  if (!settings) return false;
+  const provider = normalizeProviderSettings(settings.llmProvider);
+  if (provider.kind === 'local') return validateProviderSettings(provider) === null;
+  return Boolean(settings.openaiApiKey);
+}
@@ -0,0 +1,135 @@
+/**
+ * Tool permissions
+ *
+ * Agent mode can delete, merge and export without a word. Each project
+ * chooses, per destructive tool, whether the assistant may do that on its
+ * own, must ask first, or may not do it at all. When it must ask, the chat
+ * panel shows what the call would touch (describeToolEffect) before it runs.
+ */
+
+import type { ToolConfirmation, ToolPermission } from '../shared/types';
+import type { AgentDatabase } from './change-set';
+
+/** The tools the policy covers; everything else always runs */
+export const GUARDED_TOOLS = [
+  { name: 'delete_character', label: 'Delete a character by ID' },
+  { name: 'delete_character_by_name', label: 'Delete a character by name' },
+  { name: 'delete_characters_batch', label: 'Delete several characters' },
+  { name: 'delete_scene', label: 'Delete a scene by ID' },
+  { name: 'delete_scene_by_heading', label: 'Delete a scene by heading' },
+  { name: 'merge_characters', label: 'Merge duplicate characters' },
+  { name: 'export_screenplay', label: 'Export the screenplay' },
+] as const;
+
+export const TOOL_PERMISSION_LABELS: Record<ToolPermission, string> = {
+  allow: 'Always allow',
+  ask: 'Ask first',
+  never: 'Never',
+};
+
+export function toolPermission(policy: Record<string, ToolPermission> | undefined, name: string): ToolPermission {
+  if (!GUARDED_TOOLS.some(tool => tool.name === name)) return 'allow';
+  return policy?.[name] ?? 'ask';
+}
+
+function sameName(a: string, b: string): boolean {
+  return a.toUpperCase().trim() === b.toUpperCase().trim();
+}
+
+// The model writes the arguments, so read them without trusting their shape
+function textArg(args: Record<string, unknown>, key: string): string {
+  const value = args[key];
+  return typeof value === 'string' ? value : '';
+}
+
+function listArg(args: Record<string, unknown>, key: string): string[] {
+  const value = args[key];
+  return Array.isArray(value) ? value.map(String) : [];
+}
+
+/**
+ * What a guarded tool call would do, found the same way the tool finds its
+ * targets, so the user sees the actual characters and scenes involved.
+ */
+export async function describeToolEffect(
+  name: string,
+  args: Record<string, unknown>,
+  db: Pick<AgentDatabase, 'getCharacters' | 'getScenes'>
+): Promise<ToolConfirmation> {
+  switch (name) {
+    case 'delete_character': {
+      const id = textArg(args, 'id');
+      const character = (await db.getCharacters()).find(c => c.id === id);
+      return {
+        summary: 'Delete a character',
+        affected: [character ? character.name : `No character with ID ${id}`],
+      };
+    }
+
+    case 'delete_character_by_name': {
+      const characterName = textArg(args, 'character_name');
+      const character = (await db.getCharacters()).find(c => c.name.toLowerCase() === characterName.toLowerCase());
+      return {
+        summary: 'Delete a character',
+        affected: [character ? character.name : `${characterName} (not found)`],
+      };
+    }
+
+    case 'delete_characters_batch': {
+      const characters = await db.getCharacters();
+      const names = listArg(args, 'character_names');
+      return {
+        summary: `Delete ${names.length} character${names.length === 1 ? '' : 's'}`,
+        affected: names.map(characterName =>
+          characters.find(c => c.name.toLowerCase() === characterName.toLowerCase())?.name ?? `${characterName} (not found)`
+        ),
+      };
+    }
+
+    case 'delete_scene': {
+      const id = textArg(args, 'id');
+      const scene = (await db.getScenes()).find(s => s.id === id);
+      return {
+        summary: 'Delete a scene',
+        affected: [scene ? `Scene ${scene.number}: ${scene.heading}` : `No scene with ID ${id}`],
+      };
+    }
+
+    case 'delete_scene_by_heading': {
+      const heading = textArg(args, 'heading');
+      const scene = (await db.getScenes()).find(s => sameName(s.heading, heading));
+      return {
+        summary: 'Delete a scene',
+        affected: [scene ? `Scene ${scene.number}: ${scene.heading}` : `${heading} (not found)`],
+      };
+    }
+
+    case 'merge_characters': {
+      const characters = await db.getCharacters();
+      const scenes = await db.getScenes();
+      const keepName = textArg(args, 'keep_name');
+      const keep = characters.find(c => sameName(c.name, keepName));
+      const mergeNames = listArg(args, 'merge_names');
+      return {
+        summary: `Merge into ${keep?.name ?? `${keepName} (not found)`}, deleting the others`,
+        affected: mergeNames.map(mergeName => {
+          const character = characters.find(c => sameName(c.name, mergeName));
+          if (!character) return `${mergeName} (not found)`;
+          const sceneCount = scenes.filter(s => s.characters.includes(character.name)).length;
+          return `${character.name}, in ${sceneCount} scene${sceneCount === 1 ? '' : 's'}`;
+        }),
+      };
+    }
+
+    case 'export_screenplay': {
+      const format = textArg(args, 'format') || 'pdf';
+      return {
+        summary: `Export the screenplay as ${format.toUpperCase()}`,
+        affected: [`screenplay.${format} in the project folder, replacing any file already there`],
+      };
+    }
+
+    default:
+      return { summary: name.replace(/_/g, ' '), affected: [] };
+  }
+}
@@ -1,10 +1,12 @@
 import Database from 'better-sqlite3';
 import fs from 'fs';
 import path from 'path';
-import type { Character, Scene, Storyline, AIMessage, Conversation, Version, VersionSummary } from '../shared/types';
+import type { Character, Scene, Storyline, AIMessage, Conversation, Version, VersionSummary, RevisionState, DistributionRecord, BreakdownCategory, BreakdownElement, ScheduleItem, ShootingSchedule, ChangeSet, ChangeRecord, ChangeSetRevert } from '../shared/types';
+import { partitionRowChanges } from '../ai/change-set';
+import { revisionColor } from '../screenplay/revisions';
 
 // Current schema version - increment when making breaking changes
-const CURRENT_SCHEMA_VERSION = 3;
+const CURRENT_SCHEMA_VERSION = 11;
 
 const SCHEMA = `
 -- Schema version tracking
@@ -30,13 +32,15 @@ CREATE TABLE IF NOT EXISTS characters (
   custom_attributes TEXT,
   appearances TEXT,
   notes TEXT,
-  image_url TEXT
+  image_url TEXT,
+  aliases TEXT
 );
 
 -- Scenes table
 CREATE TABLE IF NOT EXISTS scenes (
   id TEXT PRIMARY KEY,
   number INTEGER,
+  scene_number TEXT,
   heading TEXT,
   location TEXT,
   time_of_day TEXT,
@@ -47,7 +51,8 @@ CREATE TABLE IF NOT EXISTS scenes (
   content TEXT,
   scene_order INTEGER,
   duration TEXT,
-  tags TEXT
+  tags TEXT,
+  mood TEXT
 );
 
 -- Storyline table
@@ -86,7 +91,8 @@ CREATE TABLE IF NOT EXISTS ai_history (
   timestamp INTEGER NOT NULL,
   context_used TEXT,
   conversation_id TEXT REFERENCES conversations(id),
-  token_usage TEXT
+  token_usage TEXT,
+  change_set_id TEXT
 );
 
 -- Versions table (screenplay version control)
@@ -99,6 +105,58 @@ CREATE TABLE IF NOT EXISTS versions (
   characters_snapshot TEXT
 );
 
+-- Production revisions: the locked draft and the colored sets since
+CREATE TABLE IF NOT EXISTS script_lock (
+  id INTEGER PRIMARY KEY CHECK (id = 1),
+  version_id TEXT NOT NULL REFERENCES versions(id),
+  locked_at INTEGER NOT NULL,
+  page_starts TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS revision_sets (
+  id TEXT PRIMARY KEY,
+  color TEXT NOT NULL,
+  version_id TEXT NOT NULL REFERENCES versions(id),
+  created_at INTEGER NOT NULL
+);
+
+-- Distribution log: which reader was sent which version
+CREATE TABLE IF NOT EXISTS distributions (
+  id TEXT PRIMARY KEY,
+  version_id TEXT NOT NULL REFERENCES versions(id),
+  recipient TEXT NOT NULL,
+  file_path TEXT,
+  created_at INTEGER NOT NULL
+);
+
+-- Script breakdown: production elements tagged on quoted text
+CREATE TABLE IF NOT EXISTS breakdown_elements (
+  id TEXT PRIMARY KEY,
+  category TEXT NOT NULL,
+  name TEXT NOT NULL,
+  anchor_text TEXT NOT NULL,
+  anchor_prefix TEXT,
+  anchor_suffix TEXT,
+  anchor_start INTEGER,
+  notes TEXT,
+  created_at INTEGER NOT NULL
+);
+
+-- Shooting schedule: strips and day breaks in shooting order, kept apart from the script
+CREATE TABLE IF NOT EXISTS shooting_schedule (
+  id INTEGER PRIMARY KEY CHECK (id = 1),
+  items TEXT NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+-- Agent change sets: the rows one AI turn changed, before and after, so it can be reverted
+CREATE TABLE IF NOT EXISTS change_sets (
+  id TEXT PRIMARY KEY,
+  changes TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  reverted_at INTEGER
+);
+
 -- Indexes
 CREATE INDEX IF NOT EXISTS idx_scenes_number ON scenes(number);
 CREATE INDEX IF NOT EXISTS idx_scenes_order ON scenes(scene_order);
@@ -107,8 +165,62 @@ CREATE INDEX IF NOT EXISTS idx_ai_history_conversation ON ai_history(conversatio
 CREATE INDEX IF NOT EXISTS idx_ai_memory_context_type ON ai_memory(context_type);
 CREATE INDEX IF NOT EXISTS idx_conversations_updated ON conversations(updated_at);
 CREATE INDEX IF NOT EXISTS idx_versions_created ON versions(created_at);
+CREATE INDEX IF NOT EXISTS idx_distributions_version ON distributions(version_id);
 `;
 
+// A column as PRAGMA table_info lists it
+interface ColumnInfo {
+  name: string;
+}
+
+// Rows of the production revision tables, joined with their version's text
+interface ScriptLockRow {
+  version_id: string;
+  locked_at: number;
+  page_starts: string;
+  content: string;
+}
+
+interface RevisionSetRow {
+  id: string;
+  color: string;
+  version_id: string;
+  created_at: number;
+  content: string;
+}
+
+interface DistributionRow {
+  id: string;
+  version_id: string;
+  recipient: string;
+  file_path: string | null;
+  created_at: number;
+}
+
+interface BreakdownElementRow {
+  id: string;
+  category: BreakdownCategory;
+  name: string;
+  anchor_text: string;
+  anchor_prefix: string | null;
+  anchor_suffix: string | null;
+  anchor_start: number | null;
+  notes: string | null;
+  created_at: number;
+}
+
+interface ShootingScheduleRow {
+  items: string;
+  updated_at: number;
+}
+
+interface ChangeSetRow {
+  id: string;
+  changes: string;
+  created_at: number;
+  reverted_at: number | null;
+}
+
 export class DatabaseManager {
   private db: Database.Database;
 
@@ -288,7 +400,42 @@ export class DatabaseManager {
       } else {
         console.log('[DB] ✓ versions table exists');
       }
-      
+
+      // Migration 5: Printed scene numbers ("12A") alongside the positional number
+      const sceneColumns = this.db.prepare("PRAGMA table_info(scenes)").all() as ColumnInfo[];
+      if (!sceneColumns.some(col => col.name === 'scene_number')) {
+        console.log('[DB] Migration: Adding scene_number to scenes');
+        this.db.exec('ALTER TABLE scenes ADD COLUMN scene_number TEXT');
+      } else {
+        console.log('[DB] ✓ scenes.scene_number exists');
+      }
+
+      // Migration 6: Other cue names a character speaks under, kept when duplicates are merged
+      const characterColumns = this.db.prepare("PRAGMA table_info(characters)").all() as ColumnInfo[];
+      if (!characterColumns.some(col => col.name === 'aliases')) {
+        console.log('[DB] Migration: Adding aliases to characters');
+        this.db.exec('ALTER TABLE characters ADD COLUMN aliases TEXT');
+      } else {
+        console.log('[DB] ✓ characters.aliases exists');
+      }
+
+      // Migration 7: Scene mood, shown and edited on the corkboard
+      if (!sceneColumns.some(col => col.name === 'mood')) {
+        console.log('[DB] Migration: Adding mood to scenes');
+        this.db.exec('ALTER TABLE scenes ADD COLUMN mood TEXT');
+      } else {
+        console.log('[DB] ✓ scenes.mood exists');
+      }
+
+      // Migration 8: Assistant messages point at the change set of their turn
+      const historyColumns = this.db.prepare("PRAGMA table_info(ai_history)").all() as ColumnInfo[];
+      if (!historyColumns.some(col => col.name === 'change_set_id')) {
+        console.log('[DB] Migration: Adding change_set_id to ai_history');
+        this.db.exec('ALTER TABLE ai_history ADD COLUMN change_set_id TEXT');
+      } else {
+        console.log('[DB] ✓ ai_history.change_set_id exists');
+      }
+
       console.log(`[DB] ✓ Database structure verified (schema v${CURRENT_SCHEMA_VERSION})`);
     } catch (error) {
       console.error('[DB] Migration error:', error);
@@ -317,6 +464,7 @@ export class DatabaseManager {
       appearances: row.appearances ? JSON.parse(row.appearances) : [],
       notes: row.notes || undefined,
       imageUrl: row.image_url || undefined,
+      aliases: row.aliases ? JSON.parse(row.aliases) : undefined,
     }));
   }
 
@@ -342,17 +490,22 @@ export class DatabaseManager {
       appearances: row.appearances ? JSON.parse(row.appearances) : [],
       notes: row.notes || undefined,
       imageUrl: row.image_url || undefined,
+      aliases: row.aliases ? JSON.parse(row.aliases) : undefined,
     };
   }
 
   async saveCharacter(character: Character): Promise<void> {
+    this.writeCharacter(character);
+  }
+
+  private writeCharacter(character: Character): void {
     const stmt = this.db.prepare(`
       INSERT OR REPLACE INTO characters (
         id, name, description, arc, age, occupation, physical_appearance,
         personality, goals, fears, backstory, relationships, custom_attributes,
-        appearances, notes, image_url
+        appearances, notes, image_url, aliases
       )
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
     
     stmt.run(
@@ -371,7 +524,8 @@ export class DatabaseManager {
       character.customAttributes ? JSON.stringify(character.customAttributes) : null,
       JSON.stringify(character.appearances),
       character.notes || null,
-      character.imageUrl || null
+      character.imageUrl || null,
+      character.aliases?.length ? JSON.stringify(character.aliases) : null
     );
   }
 
@@ -386,6 +540,7 @@ export class DatabaseManager {
     return rows.map((row: any) => ({
       id: row.id,
       number: row.number,
+      sceneNumber: row.scene_number || undefined,
       heading: row.heading,
       location: row.location || '',
       timeOfDay: row.time_of_day || '',
@@ -397,6 +552,7 @@ export class DatabaseManager {
       order: row.scene_order || undefined,
       duration: row.duration || undefined,
       tags: row.tags ? JSON.parse(row.tags) : undefined,
+      mood: row.mood || undefined,
     }));
   }
 
@@ -408,6 +564,7 @@ export class DatabaseManager {
     return {
       id: row.id,
       number: row.number,
+      sceneNumber: row.scene_number || undefined,
       heading: row.heading,
       location: row.location || '',
       timeOfDay: row.time_of_day || '',
@@ -419,19 +576,25 @@ export class DatabaseManager {
       order: row.scene_order || undefined,
       duration: row.duration || undefined,
       tags: row.tags ? JSON.parse(row.tags) : undefined,
+      mood: row.mood || undefined,
     };
   }
 
   async saveScene(scene: Scene): Promise<void> {
+    this.writeScene(scene);
+  }
+
+  private writeScene(scene: Scene): void {
     const stmt = this.db.prepare(`
       INSERT OR REPLACE INTO scenes 
-      (id, number, heading, location, time_of_day, summary, characters, start_line, end_line, content, scene_order, duration, tags)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      (id, number, scene_number, heading, location, time_of_day, summary, characters, start_line, end_line, content, scene_order, duration, tags, mood)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
     
     stmt.run(
       scene.id,
       scene.number,
+      scene.sceneNumber || null,
       scene.heading,
       scene.location,
       scene.timeOfDay,
@@ -442,7 +605,8 @@ export class DatabaseManager {
       scene.content,
       scene.order || null,
       scene.duration || null,
-      scene.tags ? JSON.stringify(scene.tags) : null
+      scene.tags ? JSON.stringify(scene.tags) : null,
+      scene.mood || null
     );
   }
 
@@ -538,6 +702,7 @@ export class DatabaseManager {
       contextUsed: row.context_used ? JSON.parse(row.context_used) : undefined,
       conversationId: row.conversation_id || undefined,
       tokenUsage: row.token_usage ? JSON.parse(row.token_usage) : undefined,
+      changeSetId: row.change_set_id || undefined,
     }));
   }
 
@@ -554,13 +719,14 @@ export class DatabaseManager {
       contextUsed: row.context_used ? JSON.parse(row.context_used) : undefined,
       conversationId: row.conversation_id,
       tokenUsage: row.token_usage ? JSON.parse(row.token_usage) : undefined,
+      changeSetId: row.change_set_id || undefined,
     }));
   }
 
   async saveAIMessage(message: AIMessage): Promise<void> {
     const stmt = this.db.prepare(`
-      INSERT INTO ai_history (id, role, content, timestamp, context_used, conversation_id, token_usage)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO ai_history (id, role, content, timestamp, context_used, conversation_id, token_usage, change_set_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
     `);
     
     // Guard against oversized content that could cause RangeError
@@ -590,7 +756,8 @@ export class DatabaseManager {
       message.timestamp,
       contextUsedStr,
       message.conversationId || null,
-      message.tokenUsage ? JSON.stringify(message.tokenUsage) : null
+      message.tokenUsage ? JSON.stringify(message.tokenUsage) : null,
+      message.changeSetId || null
     );
     
     // Update conversation timestamp and token count
@@ -663,14 +830,18 @@ export class DatabaseManager {
   }
 
   // Version control operations
-  async createVersion(message: string): Promise<Version> {
+  /**
+   * Snapshot the screenplay. Pass the Fountain text when the caller has it
+   * (revisions need the exact text); otherwise it is rebuilt from scenes.
+   */
+  async createVersion(message: string, screenplay?: string): Promise<Version> {
     const id = 'ver-' + Date.now() + '-' + Math.random().toString(36).substr(2, 9);
     const now = Date.now();
     
     // Get current screenplay content
     const scenes = await this.getScenes();
     const characters = await this.getCharacters();
-    const content = scenes.map(s => s.content).join('\n\n');
+    const content = screenplay ?? scenes.map(s => s.content).join('\n\n');
     
     this.db.prepare(`
       INSERT INTO versions (id, message, content, created_at, scenes_snapshot, characters_snapshot)
@@ -746,6 +917,13 @@ export class DatabaseManager {
   }
 
   async deleteVersion(id: string): Promise<void> {
+    const inUse = this.db.prepare(
+      'SELECT 1 FROM script_lock WHERE version_id = ? UNION SELECT 1 FROM revision_sets WHERE version_id = ?'
+    ).get(id, id);
+    if (inUse) throw new Error('Version is part of the locked script and cannot be deleted');
+    const distributed = this.db.prepare('SELECT 1 FROM distributions WHERE version_id = ?').get(id);
+    if (distributed) throw new Error('Version was sent to readers and cannot be deleted');
+
     this.db.prepare('DELETE FROM versions WHERE id = ?').run(id);
   }
 
@@ -754,6 +932,264 @@ export class DatabaseManager {
     return result?.count || 0;
   }
 
+  // Distribution operations
+  async logDistribution(versionId: string, copies: { recipient: string; filePath: string }[]): Promise<DistributionRecord[]> {
+    const now = Date.now();
+    const insert = this.db.prepare(`
+      INSERT INTO distributions (id, version_id, recipient, file_path, created_at)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+
+    const records = copies.map(copy => ({
+      id: 'dist-' + now + '-' + Math.random().toString(36).substr(2, 9),
+      versionId,
+      recipient: copy.recipient,
+      filePath: copy.filePath,
+      createdAt: now,
+    }));
+    this.db.transaction(() => {
+      for (const record of records) {
+        insert.run(record.id, record.versionId, record.recipient, record.filePath, record.createdAt);
+      }
+    })();
+
+    return records;
+  }
+
+  /** Newest first; pass a version ID to see who received that draft */
+  async getDistributions(versionId?: string): Promise<DistributionRecord[]> {
+    const rows = versionId
+      ? this.db.prepare('SELECT * FROM distributions WHERE version_id = ? ORDER BY created_at DESC, recipient').all(versionId)
+      : this.db.prepare('SELECT * FROM distributions ORDER BY created_at DESC, recipient').all();
+
+    return (rows as DistributionRow[]).map(row => ({
+      id: row.id,
+      versionId: row.version_id,
+      recipient: row.recipient,
+      filePath: row.file_path || '',
+      createdAt: row.created_at,
+    }));
+  }
+
+  // Breakdown operations
+  async getBreakdownElements(): Promise<BreakdownElement[]> {
+    const rows = this.db.prepare('SELECT * FROM breakdown_elements ORDER BY created_at').all() as BreakdownElementRow[];
+    return rows.map(row => ({
+      id: row.id,
+      category: row.category,
+      name: row.name,
+      anchor: {
+        text: row.anchor_text,
+        prefix: row.anchor_prefix || '',
+        suffix: row.anchor_suffix || '',
+        start: row.anchor_start ?? 0,
+      },
+      notes: row.notes || undefined,
+      createdAt: row.created_at,
+    }));
+  }
+
+  async saveBreakdownElement(element: BreakdownElement): Promise<void> {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO breakdown_elements
+      (id, category, name, anchor_text, anchor_prefix, anchor_suffix, anchor_start, notes, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      element.id,
+      element.category,
+      element.name,
+      element.anchor.text,
+      element.anchor.prefix,
+      element.anchor.suffix,
+      element.anchor.start,
+      element.notes || null,
+      element.createdAt
+    );
+  }
+
+  async deleteBreakdownElement(id: string): Promise<void> {
+    this.db.prepare('DELETE FROM breakdown_elements WHERE id = ?').run(id);
+  }
+
+  async saveBreakdownAnchors(elements: BreakdownElement[]): Promise<void> {
+    const update = this.db.prepare(`
+      UPDATE breakdown_elements SET anchor_text = ?, anchor_prefix = ?, anchor_suffix = ?, anchor_start = ? WHERE id = ?
+    `);
+    this.db.transaction(() => {
+      for (const { id, anchor } of elements) {
+        update.run(anchor.text, anchor.prefix, anchor.suffix, anchor.start, id);
+      }
+    })();
+  }
+
+  // Schedule operations
+  async getSchedule(): Promise<ShootingSchedule | null> {
+    const row = this.db.prepare('SELECT * FROM shooting_schedule WHERE id = 1').get() as ShootingScheduleRow | undefined;
+    if (!row) return null;
+    return { items: JSON.parse(row.items), updatedAt: row.updated_at };
+  }
+
+  async saveSchedule(items: ScheduleItem[]): Promise<ShootingSchedule> {
+    const schedule = { items, updatedAt: Date.now() };
+    this.db.prepare('INSERT OR REPLACE INTO shooting_schedule (id, items, updated_at) VALUES (1, ?, ?)')
+      .run(JSON.stringify(items), schedule.updatedAt);
+    return schedule;
+  }
+
+  // Change set operations
+  private writeChangeSet(changeSet: ChangeSet): void {
+    this.db.prepare('INSERT OR REPLACE INTO change_sets (id, changes, created_at, reverted_at) VALUES (?, ?, ?, ?)')
+      .run(changeSet.id, JSON.stringify(changeSet.changes), changeSet.createdAt, changeSet.revertedAt ?? null);
+  }
+
+  /** Save a turn's row changes, keeping any edits the user accepted while it ran */
+  async saveChangeSet(changeSet: ChangeSet): Promise<void> {
+    const [existing] = await this.getChangeSets([changeSet.id]);
+    const acceptedEdits = existing?.changes.filter(change => change.kind === 'text') ?? [];
+    this.writeChangeSet({
+      ...changeSet,
+      changes: [...changeSet.changes.filter(change => change.kind !== 'text'), ...acceptedEdits],
+      revertedAt: existing?.revertedAt ?? changeSet.revertedAt,
+    });
+  }
+
+  /** Add an accepted script edit to the change set of the turn that proposed it */
+  async addChangeSetEdit(id: string, change: ChangeRecord): Promise<ChangeSet> {
+    const [existing] = await this.getChangeSets([id]);
+    if (existing?.revertedAt) throw new Error('These changes have already been undone');
+    // The turn may still be running, in which case its row changes are saved when it ends
+    const changeSet = existing ?? { id, createdAt: Date.now(), changes: [] };
+    const updated = { ...changeSet, changes: [...changeSet.changes, change] };
+    this.writeChangeSet(updated);
+    return updated;
+  }
+
+  async getChangeSets(ids: string[]): Promise<ChangeSet[]> {
+    if (ids.length === 0) return [];
+    const rows = this.db.prepare(
+      `SELECT * FROM change_sets WHERE id IN (${ids.map(() => '?').join(', ')}) ORDER BY created_at`
+    ).all(...ids) as ChangeSetRow[];
+    return rows.map(row => ({
+      id: row.id,
+      changes: JSON.parse(row.changes),
+      createdAt: row.created_at,
+      revertedAt: row.reverted_at ?? undefined,
+    }));
+  }
+
+  /**
+   * Put the character and scene rows the change set touched back the way
+   * they were before the turn, in one transaction. Rows edited since are
+   * skipped and reported. Script edits are the renderer's to undo.
+   */
+  async revertChangeSet(id: string): Promise<ChangeSetRevert> {
+    const [changeSet] = await this.getChangeSets([id]);
+    if (!changeSet) throw new Error('Change set not found');
+    if (changeSet.revertedAt) throw new Error('These changes have already been undone');
+
+    // Rows the user has edited since the turn keep their edits
+    const { revertable, skipped } = await partitionRowChanges(changeSet.changes, this);
+    const deleteCharacter = this.db.prepare('DELETE FROM characters WHERE id = ?');
+    const deleteScene = this.db.prepare('DELETE FROM scenes WHERE id = ?');
+    const revertedAt = Date.now();
+
+    this.db.transaction(() => {
+      for (const change of [...revertable].reverse()) {
+        if (change.kind === 'character') {
+          if (change.before) this.writeCharacter(change.before);
+          else deleteCharacter.run(change.id);
+        } else {
+          if (change.before) this.writeScene(change.before);
+          else deleteScene.run(change.id);
+        }
+      }
+      this.db.prepare('UPDATE change_sets SET reverted_at = ? WHERE id = ?').run(revertedAt, id);
+    })();
+
+    return { changeSet: { ...changeSet, revertedAt }, skipped };
+  }
+
+  // Revision operations
+  async getRevisionState(): Promise<RevisionState> {
+    const lockRow = this.db.prepare(`
+      SELECT l.version_id, l.locked_at, l.page_starts, v.content
+      FROM script_lock l JOIN versions v ON v.id = l.version_id
+    `).get() as ScriptLockRow | undefined;
+
+    if (!lockRow) return { lock: null, sets: [] };
+
+    const setRows = this.db.prepare(`
+      SELECT r.id, r.color, r.version_id, r.created_at, v.content
+      FROM revision_sets r JOIN versions v ON v.id = r.version_id
+      ORDER BY r.created_at, r.rowid
+    `).all() as RevisionSetRow[];
+
+    return {
+      lock: {
+        versionId: lockRow.version_id,
+        lockedAt: lockRow.locked_at,
+        content: lockRow.content,
+        pageStarts: JSON.parse(lockRow.page_starts),
+      },
+      sets: setRows.map(row => ({
+        id: row.id,
+        color: row.color,
+        createdAt: row.created_at,
+        versionId: row.version_id,
+        content: row.content,
+      })),
+    };
+  }
+
+  /**
+   * Lock the script: snapshot it as the White draft and open the first
+   * revision set, which collects every change from here on
+   */
+  async lockScript(content: string, pageStarts: number[]): Promise<RevisionState> {
+    if (this.db.prepare('SELECT 1 FROM script_lock').get()) {
+      throw new Error('Script is already locked');
+    }
+
+    const version = await this.createVersion('Locked draft (White)', content);
+    this.db.prepare(`
+      INSERT INTO script_lock (id, version_id, locked_at, page_starts) VALUES (1, ?, ?, ?)
+    `).run(version.id, version.createdAt, JSON.stringify(pageStarts));
+    this.insertRevisionSet(version.id, version.createdAt);
+
+    return this.getRevisionState();
+  }
+
+  /**
+   * Close the current revision set and start the next color
+   */
+  async startRevisionSet(content: string): Promise<RevisionState> {
+    if (!this.db.prepare('SELECT 1 FROM script_lock').get()) {
+      throw new Error('Script is not locked');
+    }
+
+    const count = (this.db.prepare('SELECT COUNT(*) as count FROM revision_sets').get() as { count: number }).count;
+    const version = await this.createVersion(`${revisionColor(count + 1)} revisions started`, content);
+    this.insertRevisionSet(version.id, version.createdAt);
+
+    return this.getRevisionState();
+  }
+
+  /**
+   * Drop the lock and revision sets; their version snapshots are kept
+   */
+  async unlockScript(): Promise<void> {
+    this.db.prepare('DELETE FROM revision_sets').run();
+    this.db.prepare('DELETE FROM script_lock').run();
+  }
+
+  private insertRevisionSet(versionId: string, createdAt: number): void {
+    const count = (this.db.prepare('SELECT COUNT(*) as count FROM revision_sets').get() as { count: number }).count;
+    const id = 'rev-' + Date.now() + '-' + Math.random().toString(36).substr(2, 9);
+    this.db.prepare(`
+      INSERT INTO revision_sets (id, color, version_id, created_at) VALUES (?, ?, ?, ?)
+    `).run(id, revisionColor(count + 1), versionId, createdAt);
+  }
+
   close() {
     this.db.close();
   }
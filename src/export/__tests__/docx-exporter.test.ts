@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { DOCXExporter } from '../docx-exporter';
+import { unzip } from './unzip';
+
+const SCRIPT = [
+  'Title: The Heist',
+  'Author: Jane Doe',
+  '',
+  'INT. VAULT - NIGHT',
+  '',
+  'Alarms blare & lights **flash**.',
+  '',
+  'MAYA',
+  '(whispering)',
+  'Keep moving.',
+  '',
+  'BRICK',
+  'Hi.',
+  '',
+  'STEEL ^',
+  'Hello.',
+].join('\n');
+
+describe('DOCXExporter', () => {
+  it('writes a Word package with screenplay paragraph styles', () => {
+    const files = unzip(DOCXExporter.toDOCX(SCRIPT));
+
+    expect([...files.keys()]).toEqual(expect.arrayContaining([
+      '[Content_Types].xml', '_rels/.rels', 'word/document.xml', 'word/styles.xml', 'word/header1.xml',
+    ]));
+    // Character cues 2.2" in, dialogue 1" in with 1.5" on the right
+    expect(files.get('word/styles.xml')).toContain('w:styleId="Character"><w:name w:val="Character"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:ind w:left="3168" w:right="0"/>');
+    expect(files.get('word/styles.xml')).toContain('<w:ind w:left="1440" w:right="2160"/>');
+
+    const body = files.get('word/document.xml')!;
+    expect(body).toContain('<w:pStyle w:val="Dialogue"/>');
+    expect(body).toContain('<w:t xml:space="preserve">Keep moving.</w:t>');
+    expect(body).toContain('<w:t xml:space="preserve">Alarms blare &amp; lights </w:t></w:r><w:r><w:rPr><w:b/></w:rPr><w:t xml:space="preserve">flash</w:t>');
+  });
+
+  it('puts the title page in its own unnumbered section', () => {
+    const body = unzip(DOCXExporter.toDOCX(SCRIPT)).get('word/document.xml')!;
+    const titleSection = body.indexOf('<w:sectPr>');
+
+    expect(body.indexOf('THE HEIST')).toBeLessThan(titleSection);
+    expect(body.indexOf('Written by')).toBeLessThan(titleSection);
+    expect(body.indexOf('INT. VAULT - NIGHT')).toBeGreaterThan(titleSection);
+    expect(body.slice(body.lastIndexOf('<w:sectPr>'))).toContain('<w:titlePg/>');
+  });
+
+  it('sets dual dialogue side by side in a table', () => {
+    const body = unzip(DOCXExporter.toDOCX(SCRIPT)).get('word/document.xml')!;
+    const table = body.slice(body.indexOf('<w:tbl>'), body.indexOf('</w:tbl>'));
+
+    expect(table).toContain('<w:gridCol w:w="4608"/><w:gridCol w:w="4032"/>');
+    expect(table.indexOf('BRICK')).toBeLessThan(table.indexOf('</w:tc>'));
+    expect(table.indexOf('STEEL')).toBeGreaterThan(table.indexOf('</w:tc>'));
+  });
+
+  it('prints scene numbers only when asked or written', () => {
+    const numbered = (content: string, sceneNumbers?: boolean) =>
+      unzip(DOCXExporter.toDOCX(content, { sceneNumbers })).get('word/document.xml')!
+        .includes('<w:t xml:space="preserve">1</w:t></w:r>');
+
+    expect(numbered(SCRIPT)).toBe(false);
+    expect(numbered(SCRIPT, true)).toBe(true);
+    expect(numbered(SCRIPT.replace('INT. VAULT - NIGHT', 'INT. VAULT - NIGHT #1#'))).toBe(true);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { EPUBExporter } from '../epub-exporter';
+import { unzip, unzipEntries } from './unzip';
+
+const SCRIPT = [
+  'Title: The Heist',
+  'Author: Jane Doe',
+  '',
+  'INT. VAULT - NIGHT',
+  '',
+  'MAYA',
+  'Keep moving.',
+  '',
+  'EXT. ROOFTOP - CONTINUOUS',
+  '',
+  'Wind.',
+].join('\n');
+
+describe('EPUBExporter', () => {
+  it('starts with an uncompressed mimetype entry', () => {
+    const entries = [...unzipEntries(EPUBExporter.toEPUB(SCRIPT))];
+
+    expect(entries[0][0]).toBe('mimetype');
+    expect(entries[0][1]).toEqual({ method: 0, text: 'application/epub+zip' });
+    expect(entries.map(([name]) => name)).toContain('META-INF/container.xml');
+  });
+
+  it('describes the book in the package document', () => {
+    const opf = unzip(EPUBExporter.toEPUB(SCRIPT, { identifier: 'urn:uuid:test' })).get('OEBPS/content.opf')!;
+
+    expect(opf).toContain('<dc:identifier id="book-id">urn:uuid:test</dc:identifier>');
+    expect(opf).toContain('<dc:title>The Heist</dc:title>');
+    expect(opf).toContain('<dc:creator>Jane Doe</dc:creator>');
+    expect(opf).toMatch(/<meta property="dcterms:modified">\d{4}-\d\d-\d\dT\d\d:\d\d:\d\dZ<\/meta>/);
+    expect(opf).toContain('properties="nav"');
+    expect(opf.indexOf('<itemref idref="title"/>')).toBeLessThan(opf.indexOf('<itemref idref="script"/>'));
+  });
+
+  it('lists every scene in the navigation document', () => {
+    const files = unzip(EPUBExporter.toEPUB(SCRIPT));
+    const nav = files.get('OEBPS/nav.xhtml')!;
+
+    expect(nav).toContain('<nav epub:type="toc" id="toc">');
+    expect(nav).toContain('<a href="script.xhtml#scene-1">1. INT. VAULT - NIGHT</a>');
+    expect(nav).toContain('<a href="script.xhtml#scene-2">2. EXT. ROOFTOP - CONTINUOUS</a>');
+    expect(files.get('OEBPS/script.xhtml')).toContain('id="scene-2"');
+    expect(files.get('OEBPS/script.xhtml')).not.toContain('<script');
+  });
+
+  it('leaves out the title page when there is none', () => {
+    const files = unzip(EPUBExporter.toEPUB('INT. VAULT - NIGHT\n\nWind.'));
+
+    expect(files.has('OEBPS/title.xhtml')).toBe(false);
+    expect(files.get('OEBPS/content.opf')).not.toContain('title.xhtml');
+  });
+});
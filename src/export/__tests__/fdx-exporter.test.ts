@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { FDXExporter } from '../fdx-exporter';
+import { FDXImporter } from '../../import/fdx-importer';
+import { parseFountain, getTitlePageValue } from '../../screenplay/fountain-ast';
+import type { Character, Scene } from '../../shared/types';
+
+const SCRIPT = [
+  'Title: The Heist',
+  'Author: Jane Doe',
+  'Draft date: 1/3/24',
+  '',
+  'INT. VAULT - NIGHT #4#',
+  '',
+  'Alarms blare & lights **flash**.',
+  '',
+  'MAYA',
+  '(whispering)',
+  'Keep moving.',
+  '',
+  'BRICK',
+  'Hi.',
+  '',
+  'STEEL ^',
+  'Hello.',
+  '',
+  'EXT. ROOF - NIGHT',
+  '',
+  'Wind.',
+].join('\n');
+
+function scene(partial: Partial<Scene>): Scene {
+  return {
+    id: partial.heading || 'scene',
+    number: 1,
+    heading: '',
+    location: '',
+    timeOfDay: '',
+    summary: '',
+    characters: [],
+    startLine: 0,
+    endLine: 0,
+    content: '',
+    ...partial,
+  };
+}
+
+function character(name: string, description: string): Character {
+  return { id: name, name, description, arc: '', relationships: {}, appearances: [] };
+}
+
+describe('FDXExporter', () => {
+  it('writes dialogue as Dialogue paragraphs with styled runs', () => {
+    const xml = FDXExporter.toFDX(SCRIPT);
+
+    expect(xml).toContain('<Paragraph Type="Character">\n      <Text>MAYA</Text>');
+    expect(xml).toContain('<Paragraph Type="Parenthetical">\n      <Text>(whispering)</Text>');
+    expect(xml).toContain('<Paragraph Type="Dialogue">\n      <Text>Keep moving.</Text>');
+    expect(xml).toContain('<Text>Alarms blare &amp; lights </Text>\n      <Text Style="Bold">flash</Text>');
+  });
+
+  it('wraps both columns of dual dialogue in one DualDialogue paragraph', () => {
+    const xml = FDXExporter.toFDX(SCRIPT);
+    const dual = xml.match(/<DualDialogue>([\s\S]*?)<\/DualDialogue>/);
+
+    expect(dual).not.toBeNull();
+    expect(dual![1]).toContain('<Text>BRICK</Text>');
+    expect(dual![1]).toContain('<Text>STEEL</Text>');
+    expect(dual![1]).not.toContain('MAYA');
+  });
+
+  it('numbers scene headings and carries summaries into scene properties', () => {
+    const xml = FDXExporter.toFDX(SCRIPT, {
+      scenes: [scene({ heading: 'INT. VAULT - NIGHT', summary: 'Maya cracks the vault.' })],
+    });
+
+    expect(xml).toContain('<Paragraph Type="Scene Heading" Number="4">');
+    expect(xml).toContain('<Paragraph Type="Scene Heading" Number="4A">');
+    expect(xml).toContain('<SceneProperties Length="" Page="1" Title="">');
+    expect(xml).toContain('<Text>Maya cracks the vault.</Text>');
+  });
+
+  it('builds the title page and cast list', () => {
+    const xml = FDXExporter.toFDX(SCRIPT, { characters: [character('Maya', 'A safecracker')] });
+
+    expect(xml).toContain('<Paragraph Alignment="Center" Type="General"><Text>THE HEIST</Text></Paragraph>');
+    expect(xml).toContain('<Paragraph Alignment="Right" Type="General"><Text>1/3/24</Text></Paragraph>');
+    expect(xml).toContain('<Member Character="MAYA" Description="A safecracker"/>');
+  });
+
+  it('round-trips through the importer', () => {
+    const { content } = FDXImporter.toFountain(FDXExporter.toFDX(SCRIPT));
+    const original = parseFountain(SCRIPT);
+    const doc = parseFountain(content);
+
+    const elements = (d: typeof doc) => d.nodes.filter(n => n.type !== 'blank').map(n => `${n.type}: ${n.text}`);
+    expect(elements(doc)).toEqual(elements(original));
+    expect(doc.scenes.map(s => s.sceneNumber)).toEqual(['4', '4A']);
+    expect(getTitlePageValue(doc, 'title')).toBe('THE HEIST');
+    expect(getTitlePageValue(doc, 'author')).toBe('Jane Doe');
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { HTMLExporter } from '../html-exporter';
+
+const SCRIPT = [
+  'Title: The Heist',
+  'Author: Jane Doe',
+  '',
+  'INT. VAULT - NIGHT',
+  '',
+  'Alarms blare & lights **flash**.',
+  '',
+  'MAYA',
+  '(whispering)',
+  'Keep moving.',
+  '',
+  'EXT. ROOFTOP - CONTINUOUS',
+  '',
+  'BRICK',
+  'Hi.',
+  '',
+  'MAYA ^',
+  'Hello.',
+].join('\n');
+
+describe('HTMLExporter', () => {
+  it('links every scene from the index to its heading', () => {
+    const html = HTMLExporter.toHTML(SCRIPT);
+
+    expect(html).toContain('<a href="#scene-1"><span class="number">1</span>INT. VAULT - NIGHT</a>');
+    expect(html).toContain('<a href="#scene-2"><span class="number">2</span>EXT. ROOFTOP - CONTINUOUS</a>');
+    expect(html).toContain('<h2 class="scene-heading" id="scene-1">INT. VAULT - NIGHT</h2>');
+    expect(html).toContain('<h2 class="scene-heading" id="scene-2">');
+  });
+
+  it('groups dialogue by character for highlighting', () => {
+    const html = HTMLExporter.toHTML(SCRIPT);
+
+    expect(html).toContain('<option value="MAYA">MAYA</option>');
+    expect(html).toContain('<option value="BRICK">BRICK</option>');
+    expect(html).toContain(
+      '<div class="dialogue-block" data-character="MAYA"><p class="character">MAYA</p>'
+      + '<p class="parenthetical join">(whispering)</p><p class="dialogue join">Keep moving.</p></div>'
+    );
+    // Dual dialogue sits side by side, each half still highlightable
+    expect(html).toMatch(/<div class="dual"><div class="dialogue-block" data-character="BRICK">.*<div class="dialogue-block" data-character="MAYA">/);
+  });
+
+  it('renders the title page and inline emphasis', () => {
+    const html = HTMLExporter.toHTML(SCRIPT);
+
+    expect(html).toContain('<title>The Heist</title>');
+    expect(html.indexOf('<section class="title-page">')).toBeLessThan(html.indexOf('id="scene-1"'));
+    expect(html).toContain('<p>Written by</p>');
+    expect(html).toContain('Alarms blare &amp; lights <strong>flash</strong>.');
+  });
+
+  it('numbers headings only when asked or written', () => {
+    expect(HTMLExporter.toHTML(SCRIPT)).not.toContain('class="scene-number"');
+    expect(HTMLExporter.toHTML(SCRIPT, { sceneNumbers: true })).toContain('<span class="scene-number">1</span>');
+    expect(HTMLExporter.toHTML(SCRIPT.replace('INT. VAULT - NIGHT', 'INT. VAULT - NIGHT #4A#'))).toContain('<span class="scene-number">4A</span>');
+  });
+
+  it('highlights actor lines after a cover page', () => {
+    const html = HTMLExporter.toHTML(SCRIPT, { actors: [{ name: 'BRICK' }] });
+
+    expect(html.indexOf('<section class="actor-cover">')).toBeLessThan(html.indexOf('<section class="title-page">'));
+    expect(html).toContain('<h2>BRICK</h2>');
+    expect(html).toContain('<p>1 scene, 1 line</p>');
+    expect(html).toContain('<div class="dialogue-block actor-line" data-character="BRICK">');
+    expect(html).toContain('<div class="dialogue-block" data-character="MAYA">');
+  });
+
+  it('is self-contained', () => {
+    const html = HTMLExporter.toHTML(SCRIPT);
+
+    expect(html).not.toMatch(/(src|href)="(https?:)?\/\//);
+    expect(html).not.toMatch(/@import|url\(/);
+    expect(html).toContain('<style>');
+    expect(html).toContain('<script>');
+  });
+});
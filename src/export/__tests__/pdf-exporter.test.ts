@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PDFExporter } from '../pdf-exporter';
+import { FountainParserAdapter } from '../../renderer/fountain/parser';
+import { parseFountain } from '../../screenplay/fountain-ast';
+import { paginate } from '../../screenplay/pagination';
+
+const SCRIPT = [
+  'INT. VAULT - NIGHT',
+  '',
+  'MAYA',
+  'Keep moving.',
+].join('\n');
+
+describe('PDFExporter.exportDistribution', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'distribution-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('writes one PDF per distinct recipient', async () => {
+    const copies = await PDFExporter.exportDistribution(SCRIPT, dir, ['Jane Producer', ' Sam Reader ', 'Jane Producer', ''], {
+      baseName: 'The Heist',
+      confidential: true,
+    });
+
+    expect(copies.map(copy => copy.recipient)).toEqual(['Jane Producer', 'Sam Reader']);
+    expect(copies.map(copy => path.basename(copy.filePath))).toEqual([
+      'The Heist - Jane Producer.pdf',
+      'The Heist - Sam Reader.pdf',
+    ]);
+    for (const copy of copies) {
+      expect(fs.readFileSync(copy.filePath).subarray(0, 5).toString()).toBe('%PDF-');
+    }
+  });
+
+  it('keeps names that clash as file names apart', async () => {
+    const copies = await PDFExporter.exportDistribution(SCRIPT, dir, ['A/B', 'A:B']);
+
+    expect(copies.map(copy => path.basename(copy.filePath))).toEqual([
+      'Screenplay - AB.pdf',
+      'Screenplay - AB (2).pdf',
+    ]);
+    expect(fs.readdirSync(dir)).toHaveLength(2);
+  });
+
+  it('refuses an empty recipient list', async () => {
+    await expect(PDFExporter.exportDistribution(SCRIPT, dir, ['  '])).rejects.toThrow('No recipients');
+  });
+});
+
+describe('PDFExporter.export', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'export-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('prints as many script pages as the editor counts, plus the title page', async () => {
+    const beats = Array.from({ length: 50 }, (_, i) => `Beat ${i + 1}.`).join('\n\n');
+    const content = `Title: The Heist\nAuthor: Jane Doe\nDraft date: 1/3/24\n\n${SCRIPT}\n\n${beats}`;
+    const filePath = path.join(dir, 'script.pdf');
+    await PDFExporter.export(content, filePath);
+
+    // The editor paginates the text it shows, which is the script line for line
+    const shown = FountainParserAdapter.tokensToText(FountainParserAdapter.parse(content).tokens);
+    const editorPages = paginate(parseFountain(shown)).pages.length;
+    const pdfPages = fs.readFileSync(filePath, 'latin1').match(/\/Type \/Page\b(?!s)/g)?.length;
+
+    expect(editorPages).toBe(2);
+    expect(pdfPages).toBe(editorPages + 1);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ReportExporter, doodTable, reportTable, toCSV } from '../report-exporter';
+import { buildProductionReport } from '../../screenplay/production-reports';
+import type { DayOutOfDays } from '../../screenplay/dood';
+
+const SCRIPT = [
+  'INT. DINER, BACK ROOM - DAY',
+  '',
+  'MAYA',
+  'Say "cheese".',
+  '',
+  'EXT. ROOF - NIGHT',
+  '',
+  'Wind.',
+].join('\n');
+
+describe('toCSV', () => {
+  it('quotes fields with commas, quotes and line breaks', () => {
+    expect(toCSV([['a', 'b,c'], ['say "hi"', 'two\nlines']])).toBe('a,"b,c"\r\n"say ""hi""","two\nlines"\r\n');
+  });
+});
+
+describe('ReportExporter', () => {
+  const report = buildProductionReport(SCRIPT, []);
+
+  it('ends the day/night summary with totals', () => {
+    const { rows } = reportTable(report, 'day-night');
+    expect(rows).toEqual([
+      ['DAY', '1', '0', '0', '1', expect.any(String)],
+      ['NIGHT', '0', '1', '0', '1', expect.any(String)],
+      ['TOTAL', '1', '1', '0', '2', expect.any(String)],
+    ]);
+  });
+
+  it('writes the location report as CSV', () => {
+    const lines = ReportExporter.toCSV(report, 'locations').trim().split('\r\n');
+    expect(lines[0]).toBe('Location,INT/EXT,Time,Scenes,Count,Pages');
+    expect(lines[1]).toBe('"DINER, BACK ROOM",INT,DAY,1,1,1/8');
+  });
+
+  it('writes breakdown sheets and tables as PDF', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'reports-'));
+    try {
+      for (const kind of ['breakdown', 'cast'] as const) {
+        const file = path.join(dir, `${kind}.pdf`);
+        await ReportExporter.exportPDF(report, kind, file, 'The Heist');
+        expect(fs.readFileSync(file).subarray(0, 5).toString()).toBe('%PDF-');
+      }
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('day out of days', () => {
+  const codes = Array.from({ length: 25 }, (_, i) => (i === 0 ? 'SW' : i === 24 ? 'WF' : 'H'));
+  const dood: DayOutOfDays = {
+    days: 25,
+    cast: [{ id: 1, name: 'MAYA', codes, work: 2, hold: 23, drop: 0, start: 1, finish: 25, total: 25 }],
+  };
+
+  it('puts totals after the last run of day columns only', () => {
+    expect(doodTable(dood, 1, 20).columns.slice(-1)).toEqual(['20']);
+    const { columns, rows } = doodTable(dood, 21, 25);
+    expect(columns).toEqual(['ID', 'Character', '21', '22', '23', '24', '25', 'Work', 'Hold', 'Drop', 'Start', 'Finish', 'Total']);
+    expect(rows[0]).toEqual(['1', 'MAYA', 'H', 'H', 'H', 'H', 'WF', '2', '23', '', '1', '25', '25']);
+  });
+
+  it('writes the grid as PDF', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'reports-'));
+    try {
+      const file = path.join(dir, 'dood.pdf');
+      await ReportExporter.exportDOODPDF(dood, file, 'The Heist');
+      expect(fs.readFileSync(file).subarray(0, 5).toString()).toBe('%PDF-');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
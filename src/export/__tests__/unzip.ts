@@ -0,0 +1,34 @@
+import zlib from 'zlib';
+
+export interface UnzippedEntry {
+  /** 0 for stored, 8 for deflated */
+  method: number;
+  text: string;
+}
+
+/** Read a ZIP's entries, in order, through its central directory */
+export function unzipEntries(buffer: Buffer): Map<string, UnzippedEntry> {
+  const files = new Map<string, UnzippedEntry>();
+  const end = buffer.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  let offset = buffer.readUInt32LE(end + 16);
+
+  for (let n = buffer.readUInt16LE(end + 10); n > 0; n--) {
+    const method = buffer.readUInt16LE(offset + 10);
+    const size = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const local = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf-8', offset + 46, offset + 46 + nameLength);
+
+    const start = local + 30 + buffer.readUInt16LE(local + 26) + buffer.readUInt16LE(local + 28);
+    const data = buffer.subarray(start, start + size);
+    files.set(name, { method, text: (method === 8 ? zlib.inflateRawSync(data) : data).toString('utf-8') });
+    offset += 46 + nameLength;
+  }
+
+  return files;
+}
+
+/** File name to text content */
+export function unzip(buffer: Buffer): Map<string, string> {
+  return new Map([...unzipEntries(buffer)].map(([name, entry]) => [name, entry.text]));
+}
@@ -0,0 +1,224 @@
+import fs from 'fs/promises';
+import type { TitlePage } from '../shared/types';
+import {
+  parseFountain,
+  dualDialogueEnd,
+  isPrintable,
+  type FountainDocument,
+  type FountainNode,
+  type FountainNodeType,
+} from '../screenplay/fountain-ast';
+import {
+  DUAL_COLUMN_START,
+  DUAL_LAYOUT,
+  ELEMENT_LAYOUT,
+  PAGE_WIDTH_CHARS,
+} from '../screenplay/pagination';
+import { parseEmphasis } from '../screenplay/emphasis';
+import { isTitlePageEmpty, layoutTitlePage, readTitlePage } from '../screenplay/title-page';
+import {
+  buildDocx,
+  TWIPS_PER_CHAR,
+  TWIPS_PER_LINE,
+  type DocxBlock,
+  type DocxParagraph,
+  type DocxSection,
+  type DocxStyle,
+} from './docx-writer';
+
+export interface DOCXExportOptions {
+  /** Print scene numbers in both margins. Scripts with "#12#" numbers always print them. */
+  sceneNumbers?: boolean;
+  /** Fallbacks when the script has no title page */
+  title?: string;
+  author?: string;
+}
+
+/** Word paragraph style for each printed Fountain element */
+const STYLE_NAMES: Partial<Record<FountainNodeType, string>> = {
+  'scene-heading': 'Scene Heading',
+  'action': 'Action',
+  'character': 'Character',
+  'parenthetical': 'Parenthetical',
+  'dialogue': 'Dialogue',
+  'lyrics': 'Lyrics',
+  'transition': 'Transition',
+  'centered': 'Centered',
+};
+
+const styleId = (name: string) => name.replace(/\s+/g, '');
+
+const PAGE_WIDTH = PAGE_WIDTH_CHARS * TWIPS_PER_CHAR;
+/** Gap between the left-margin scene number and the heading */
+const SCENE_NUMBER_GAP = 4 * TWIPS_PER_CHAR;
+
+/**
+ * Paragraph styles with the same margins as the printed page, so the
+ * document stays a screenplay while it is edited in Word
+ */
+function screenplayStyles(): DocxStyle[] {
+  const styles: DocxStyle[] = [{ id: 'TitlePage', name: 'Title Page' }];
+
+  for (const [type, name] of Object.entries(STYLE_NAMES) as [FountainNodeType, string][]) {
+    const layout = ELEMENT_LAYOUT[type]!;
+    styles.push({
+      id: styleId(name),
+      name,
+      indentLeft: layout.indent * TWIPS_PER_CHAR,
+      indentRight: (PAGE_WIDTH_CHARS - layout.indent - layout.width) * TWIPS_PER_CHAR,
+      alignment: layout.align,
+      bold: type === 'scene-heading',
+      italic: type === 'lyrics',
+      keepNext: type === 'scene-heading' || type === 'character' || type === 'parenthetical',
+    });
+
+    const dual = DUAL_LAYOUT[type];
+    if (dual) {
+      styles.push({
+        id: `Dual${styleId(name)}`,
+        name: `Dual ${name}`,
+        indentLeft: dual.indent * TWIPS_PER_CHAR,
+        italic: type === 'lyrics',
+        keepNext: type !== 'dialogue' && type !== 'lyrics',
+      });
+    }
+  }
+
+  return styles;
+}
+
+export class DOCXExporter {
+  static async export(content: string, outputPath: string, options: DOCXExportOptions = {}): Promise<void> {
+    await fs.writeFile(outputPath, this.toDOCX(content, options));
+  }
+
+  /**
+   * Word document for a Fountain screenplay
+   */
+  static toDOCX(content: string, options: DOCXExportOptions = {}): Buffer {
+    const doc = parseFountain(content);
+    const titlePage = readTitlePage(doc);
+    titlePage.title ||= options.title ?? '';
+    titlePage.authors ||= options.author ?? '';
+
+    const sections: DocxSection[] = [];
+    if (!isTitlePageEmpty(titlePage)) {
+      sections.push({ blocks: this.buildTitlePage(titlePage) });
+    }
+    sections.push({ blocks: this.buildBody(doc, options), pageNumbers: true, unnumberedFirstPage: true });
+
+    return buildDocx({
+      title: titlePage.title.replace(/\n/g, ' '),
+      author: titlePage.authors.replace(/\n/g, ', '),
+      styles: screenplayStyles(),
+      sections,
+    });
+  }
+
+  /** One paragraph per row of the shared title page layout */
+  private static buildTitlePage(titlePage: TitlePage): DocxParagraph[] {
+    const layout = layoutTitlePage(titlePage);
+    const lastRow = Math.max(...layout.map(line => line.row));
+    const paragraphs: DocxParagraph[] = [];
+
+    for (let row = 0; row <= lastRow; row++) {
+      const onRow = layout.filter(line => line.row === row);
+      const center = onRow.find(line => line.align === 'center');
+      if (center) {
+        paragraphs.push({ style: 'TitlePage', alignment: 'center', runs: [{ text: center.text }] });
+        continue;
+      }
+
+      // The bottom corners share rows: left text, then a right tab for the right text
+      const left = onRow.find(line => line.align === 'left')?.text ?? '';
+      const right = onRow.find(line => line.align === 'right')?.text;
+      paragraphs.push({
+        style: 'TitlePage',
+        runs: [{ text: right ? `${left}\t${right}` : left }],
+        tabs: right ? [{ position: PAGE_WIDTH, align: 'right' }] : undefined,
+      });
+    }
+
+    return paragraphs;
+  }
+
+  private static buildBody(doc: FountainDocument, options: DOCXExportOptions): DocxBlock[] {
+    const numbered = options.sceneNumbers || doc.nodes.some(node => node.sceneNumber);
+    const blocks: DocxBlock[] = [];
+    let pageBreak = false;
+    let startsBlock = true;
+
+    for (let i = 0; i < doc.nodes.length; i++) {
+      const node = doc.nodes[i];
+      if (node.type === 'page-break') {
+        pageBreak = true;
+        continue;
+      }
+      if (node.type === 'blank') {
+        startsBlock = true;
+        continue;
+      }
+      if (!isPrintable(node)) continue;
+
+      if (node.dual === 'left' && node.type === 'character') {
+        const end = dualDialogueEnd(doc.nodes, i);
+        const pair = doc.nodes.slice(i, end + 1).filter(n => n.type !== 'blank');
+        // Tables carry no spacing of their own; an empty line stands in for it
+        if (startsBlock || pageBreak) blocks.push({ runs: [], pageBreakBefore: pageBreak || undefined });
+        blocks.push({
+          columnWidths: [
+            DUAL_COLUMN_START.right * TWIPS_PER_CHAR,
+            (PAGE_WIDTH_CHARS - DUAL_COLUMN_START.right) * TWIPS_PER_CHAR,
+          ],
+          rows: [[
+            pair.filter(n => n.dual === 'left').map(n => this.dualParagraph(n)),
+            pair.filter(n => n.dual === 'right').map(n => this.dualParagraph(n)),
+          ]],
+        });
+        pageBreak = false;
+        startsBlock = false;
+        i = end;
+        continue;
+      }
+
+      const sceneNumber = numbered && node.sceneIndex !== undefined && node.type === 'scene-heading'
+        ? doc.scenes[node.sceneIndex].sceneNumber
+        : undefined;
+      blocks.push(this.paragraph(node, { pageBreak, startsBlock, sceneNumber }));
+      pageBreak = false;
+      startsBlock = false;
+    }
+
+    return blocks;
+  }
+
+  private static paragraph(
+    node: FountainNode,
+    { pageBreak, startsBlock, sceneNumber }: { pageBreak: boolean; startsBlock: boolean; sceneNumber?: string }
+  ): DocxParagraph {
+    const name = STYLE_NAMES[node.type] ?? 'Action';
+    const layout = ELEMENT_LAYOUT[node.type] ?? ELEMENT_LAYOUT.action!;
+    const paragraph: DocxParagraph = {
+      style: styleId(name),
+      runs: parseEmphasis(node.text),
+      spaceBefore: startsBlock && !pageBreak ? layout.spaceBefore * TWIPS_PER_LINE : 0,
+      pageBreakBefore: pageBreak || undefined,
+    };
+
+    // "12  INT. HOUSE - DAY  12": the first number hangs in the left margin,
+    // the second is tabbed into the right one
+    if (sceneNumber) {
+      const numberWidth = sceneNumber.length * TWIPS_PER_CHAR;
+      paragraph.indent = { left: 0, right: -(numberWidth + 2 * TWIPS_PER_CHAR), hanging: numberWidth + SCENE_NUMBER_GAP };
+      paragraph.tabs = [{ position: PAGE_WIDTH + 2 * TWIPS_PER_CHAR, align: 'left' }];
+      paragraph.runs = [{ text: `${sceneNumber}\t` }, ...paragraph.runs, { text: `\t${sceneNumber}` }];
+    }
+
+    return paragraph;
+  }
+
+  private static dualParagraph(node: FountainNode): DocxParagraph {
+    const name = STYLE_NAMES[node.type] ?? 'Dialogue';
+    return { style: `Dual${styleId(name)}`, runs: parseEmphasis(node.text) };
+  }
+}
@@ -0,0 +1,260 @@
+import { createZip } from './zip';
+import type { StyledRun } from '../screenplay/emphasis';
+
+/**
+ * DOCX Writer
+ *
+ * Builds a Word (.docx) package from paragraphs and tables. Everything is
+ * Courier New 12pt on exact 12pt lines, so six lines fill an inch just as on
+ * the printed page. Measurements are in twips (1/1440 inch); one Courier
+ * character is 144 twips.
+ */
+
+export const TWIPS_PER_CHAR = 144;
+export const TWIPS_PER_LINE = 240;
+
+export interface DocxStyle {
+  id: string;
+  name: string;
+  indentLeft?: number;
+  indentRight?: number;
+  alignment?: 'left' | 'center' | 'right';
+  bold?: boolean;
+  italic?: boolean;
+  /** Keep on the same page as the next paragraph */
+  keepNext?: boolean;
+}
+
+export interface DocxParagraph {
+  style?: string;
+  /** A tab character in a run's text becomes a tab */
+  runs: StyledRun[];
+  alignment?: 'left' | 'center' | 'right';
+  spaceBefore?: number;
+  pageBreakBefore?: boolean;
+  /** Overrides the style's indents; `hanging` pulls the first line left */
+  indent?: { left?: number; right?: number; hanging?: number };
+  tabs?: { position: number; align: 'left' | 'center' | 'right' }[];
+}
+
+export interface DocxTable {
+  columnWidths: number[];
+  /** rows -> cells -> paragraphs */
+  rows: DocxParagraph[][][];
+  borders?: boolean;
+  /** Left/right padding inside each cell */
+  cellMargin?: number;
+}
+
+export type DocxBlock = DocxParagraph | DocxTable;
+
+export interface DocxSection {
+  blocks: DocxBlock[];
+  /** Page number in the top right corner */
+  pageNumbers?: boolean;
+  /** Leave the number off the section's first page, as screenplays do */
+  unnumberedFirstPage?: boolean;
+}
+
+export interface DocxDocument {
+  title?: string;
+  author?: string;
+  styles: DocxStyle[];
+  sections: DocxSection[];
+}
+
+/** US Letter with screenplay margins: 1.5" left, 1" elsewhere, header at 0.5" */
+const PAGE = { width: 12240, height: 15840, top: 1440, right: 1440, bottom: 1440, left: 2160, header: 720 };
+
+const NS = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" '
+  + 'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+
+export function buildDocx(document: DocxDocument): Buffer {
+  return createZip([
+    { name: '[Content_Types].xml', data: CONTENT_TYPES },
+    { name: '_rels/.rels', data: ROOT_RELS },
+    { name: 'docProps/core.xml', data: coreProperties(document) },
+    { name: 'word/_rels/document.xml.rels', data: DOCUMENT_RELS },
+    { name: 'word/styles.xml', data: stylesXml(document.styles) },
+    { name: 'word/header1.xml', data: headerXml(true) },
+    { name: 'word/header2.xml', data: headerXml(false) },
+    { name: 'word/document.xml', data: documentXml(document.sections) },
+  ]);
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function isTable(block: DocxBlock): block is DocxTable {
+  return 'rows' in block;
+}
+
+function runXml(run: StyledRun): string {
+  const props = [run.bold && '<w:b/>', run.italic && '<w:i/>', run.underline && '<w:u w:val="single"/>']
+    .filter(Boolean)
+    .join('');
+  const content = run.text
+    .split('\t')
+    .map(part => (part ? `<w:t xml:space="preserve">${escapeXml(part)}</w:t>` : ''))
+    .join('<w:tab/>');
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}${content}</w:r>`;
+}
+
+function paragraphXml(paragraph: DocxParagraph, sectionProperties = ''): string {
+  const props: string[] = [];
+  if (paragraph.style) props.push(`<w:pStyle w:val="${paragraph.style}"/>`);
+  if (paragraph.pageBreakBefore) props.push('<w:pageBreakBefore/>');
+  if (paragraph.tabs?.length) {
+    props.push(`<w:tabs>${paragraph.tabs.map(tab => `<w:tab w:val="${tab.align}" w:pos="${tab.position}"/>`).join('')}</w:tabs>`);
+  }
+  if (paragraph.spaceBefore !== undefined) props.push(`<w:spacing w:before="${paragraph.spaceBefore}"/>`);
+  if (paragraph.indent) {
+    const { left, right, hanging } = paragraph.indent;
+    const attributes = [
+      left !== undefined && `w:left="${left}"`,
+      right !== undefined && `w:right="${right}"`,
+      hanging !== undefined && `w:hanging="${hanging}"`,
+    ].filter(Boolean).join(' ');
+    props.push(`<w:ind ${attributes}/>`);
+  }
+  if (paragraph.alignment) props.push(`<w:jc w:val="${paragraph.alignment}"/>`);
+  props.push(sectionProperties);
+
+  const pPr = props.join('');
+  return `<w:p>${pPr ? `<w:pPr>${pPr}</w:pPr>` : ''}${paragraph.runs.map(runXml).join('')}</w:p>`;
+}
+
+function tableXml(table: DocxTable): string {
+  const border = table.borders ? 'single' : 'nil';
+  const borders = ['top', 'left', 'bottom', 'right', 'insideH', 'insideV']
+    .map(side => `<w:${side} w:val="${border}"${table.borders ? ' w:sz="4" w:space="0" w:color="000000"' : ''}/>`)
+    .join('');
+  const margin = table.cellMargin ?? 0;
+
+  const rows = table.rows.map(row => {
+    const cells = row.map((paragraphs, i) => {
+      const body = paragraphs.length > 0 ? paragraphs.map(p => paragraphXml(p)).join('') : '<w:p/>';
+      return `<w:tc><w:tcPr><w:tcW w:w="${table.columnWidths[i]}" w:type="dxa"/></w:tcPr>${body}</w:tc>`;
+    });
+    return `<w:tr><w:trPr><w:cantSplit/></w:trPr>${cells.join('')}</w:tr>`;
+  });
+
+  return [
+    '<w:tbl>',
+    '<w:tblPr>',
+    `<w:tblW w:w="${table.columnWidths.reduce((a, b) => a + b, 0)}" w:type="dxa"/>`,
+    `<w:tblBorders>${borders}</w:tblBorders>`,
+    '<w:tblLayout w:type="fixed"/>',
+    `<w:tblCellMar><w:left w:w="${margin}" w:type="dxa"/><w:right w:w="${margin}" w:type="dxa"/></w:tblCellMar>`,
+    '</w:tblPr>',
+    `<w:tblGrid>${table.columnWidths.map(w => `<w:gridCol w:w="${w}"/>`).join('')}</w:tblGrid>`,
+    ...rows,
+    '</w:tbl>',
+  ].join('');
+}
+
+function sectionXml(section: DocxSection): string {
+  const headers = section.pageNumbers
+    ? '<w:headerReference w:type="default" r:id="rIdHeaderNumbered"/>'
+      + (section.unnumberedFirstPage ? '<w:headerReference w:type="first" r:id="rIdHeaderBlank"/>' : '')
+    : '<w:headerReference w:type="default" r:id="rIdHeaderBlank"/>';
+
+  return [
+    '<w:sectPr>',
+    headers,
+    '<w:type w:val="nextPage"/>',
+    `<w:pgSz w:w="${PAGE.width}" w:h="${PAGE.height}"/>`,
+    `<w:pgMar w:top="${PAGE.top}" w:right="${PAGE.right}" w:bottom="${PAGE.bottom}" w:left="${PAGE.left}" `
+      + `w:header="${PAGE.header}" w:footer="${PAGE.header}" w:gutter="0"/>`,
+    '<w:pgNumType w:start="1"/>',
+    section.pageNumbers && section.unnumberedFirstPage ? '<w:titlePg/>' : '',
+    '</w:sectPr>',
+  ].join('');
+}
+
+function documentXml(sections: DocxSection[]): string {
+  const body: string[] = [];
+
+  sections.forEach((section, index) => {
+    for (const block of section.blocks) {
+      body.push(isTable(block) ? tableXml(block) : paragraphXml(block));
+    }
+    // Every section but the last closes with a paragraph that carries its properties
+    if (index < sections.length - 1) {
+      body.push(paragraphXml({ runs: [] }, sectionXml(section)));
+    }
+  });
+
+  const last = sections[sections.length - 1] ?? { blocks: [] };
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<w:document ${NS}><w:body>${body.join('')}${sectionXml(last)}</w:body></w:document>`;
+}
+
+function stylesXml(styles: DocxStyle[]): string {
+  const style = (s: DocxStyle) => {
+    const pPr = [
+      s.keepNext ? '<w:keepNext/>' : '',
+      s.indentLeft || s.indentRight ? `<w:ind w:left="${s.indentLeft ?? 0}" w:right="${s.indentRight ?? 0}"/>` : '',
+      s.alignment && s.alignment !== 'left' ? `<w:jc w:val="${s.alignment}"/>` : '',
+    ].join('');
+    const rPr = [s.bold ? '<w:b/>' : '', s.italic ? '<w:i/>' : ''].join('');
+    return `<w:style w:type="paragraph" w:customStyle="1" w:styleId="${s.id}"><w:name w:val="${escapeXml(s.name)}"/>`
+      + `<w:basedOn w:val="Normal"/><w:qFormat/>${pPr ? `<w:pPr>${pPr}</w:pPr>` : ''}${rPr ? `<w:rPr>${rPr}</w:rPr>` : ''}</w:style>`;
+  };
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles ${NS}>
+<w:docDefaults>
+<w:rPrDefault><w:rPr><w:rFonts w:ascii="Courier New" w:hAnsi="Courier New" w:cs="Courier New" w:eastAsia="Courier New"/><w:sz w:val="24"/><w:szCs w:val="24"/></w:rPr></w:rPrDefault>
+<w:pPrDefault><w:pPr><w:spacing w:before="0" w:after="0" w:line="${TWIPS_PER_LINE}" w:lineRule="exact"/></w:pPr></w:pPrDefault>
+</w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+${styles.map(style).join('\n')}
+</w:styles>`;
+}
+
+function headerXml(numbered: boolean): string {
+  const body = numbered
+    ? '<w:p><w:pPr><w:jc w:val="right"/></w:pPr>'
+      + '<w:r><w:fldChar w:fldCharType="begin"/></w:r><w:r><w:instrText xml:space="preserve"> PAGE </w:instrText></w:r>'
+      + '<w:r><w:fldChar w:fldCharType="separate"/></w:r><w:r><w:t>1</w:t></w:r><w:r><w:fldChar w:fldCharType="end"/></w:r>'
+      + '<w:r><w:t>.</w:t></w:r></w:p>'
+    : '<w:p/>';
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<w:hdr ${NS}>${body}</w:hdr>`;
+}
+
+function coreProperties(document: DocxDocument): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:title>${escapeXml(document.title ?? '')}</dc:title>
+<dc:creator>${escapeXml(document.author ?? '')}</dc:creator>
+</cp:coreProperties>`;
+}
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+<Override PartName="/word/header1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml"/>
+<Override PartName="/word/header2.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml"/>
+<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>`;
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>`;
+
+const DOCUMENT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rIdStyles" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+<Relationship Id="rIdHeaderNumbered" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/header" Target="header1.xml"/>
+<Relationship Id="rIdHeaderBlank" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/header" Target="header2.xml"/>
+</Relationships>`;
@@ -0,0 +1,122 @@
+import fs from 'fs/promises';
+import { v4 as uuidv4 } from 'uuid';
+import { parseFountain } from '../screenplay/fountain-ast';
+import { isTitlePageEmpty, readTitlePage } from '../screenplay/title-page';
+import { createZip } from './zip';
+import {
+  SCREENPLAY_CSS,
+  escapeHtml,
+  sceneAnchors,
+  screenplayBodyHtml,
+  titlePageHtml,
+  type ScreenplayHtmlOptions,
+} from './screenplay-html';
+
+export interface EPUBExportOptions extends ScreenplayHtmlOptions {
+  /** Fallbacks when the script has no title page */
+  title?: string;
+  author?: string;
+  /** Book identifier; a fresh urn:uuid when omitted */
+  identifier?: string;
+}
+
+const CONTAINER_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>`;
+
+function xhtmlPage(title: string, body: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="en" xml:lang="en">
+<head>
+<meta charset="utf-8"/>
+<title>${escapeHtml(title)}</title>
+<link rel="stylesheet" type="text/css" href="style.css"/>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+}
+
+export class EPUBExporter {
+  static async export(content: string, outputPath: string, options: EPUBExportOptions = {}): Promise<void> {
+    await fs.writeFile(outputPath, this.toEPUB(content, options));
+  }
+
+  /**
+   * EPUB 3 book for a Fountain screenplay: a title page, the script as one
+   * chapter and a navigation document listing every scene
+   */
+  static toEPUB(content: string, options: EPUBExportOptions = {}): Buffer {
+    const doc = parseFountain(content);
+    const titlePage = readTitlePage(doc);
+    titlePage.title ||= options.title ?? '';
+    titlePage.authors ||= options.author ?? '';
+
+    const title = titlePage.title.replace(/\n/g, ' ') || 'Screenplay';
+    const authors = titlePage.authors.split('\n').map(name => name.trim()).filter(Boolean);
+    const hasTitlePage = !isTitlePageEmpty(titlePage);
+    const identifier = options.identifier ?? `urn:uuid:${uuidv4()}`;
+    // dcterms:modified wants whole seconds
+    const modified = new Date().toISOString().replace(/\.\d+Z$/, 'Z');
+
+    const chapters = [
+      ...(hasTitlePage ? [{ id: 'title', href: 'title.xhtml' }] : []),
+      { id: 'script', href: 'script.xhtml' },
+    ];
+
+    const opf = `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="en">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">${escapeHtml(identifier)}</dc:identifier>
+    <dc:title>${escapeHtml(title)}</dc:title>
+${authors.map(name => `    <dc:creator>${escapeHtml(name)}</dc:creator>`).join('\n')}
+    <dc:language>en</dc:language>
+    <meta property="dcterms:modified">${modified}</meta>
+  </metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+    <item id="style" href="style.css" media-type="text/css"/>
+${chapters.map(c => `    <item id="${c.id}" href="${c.href}" media-type="application/xhtml+xml"/>`).join('\n')}
+  </manifest>
+  <spine>
+${chapters.map(c => `    <itemref idref="${c.id}"/>`).join('\n')}
+  </spine>
+</package>`;
+
+    const sceneLinks = sceneAnchors(doc)
+      .map(scene => {
+        const label = scene.number ? `${scene.number}. ${scene.heading}` : scene.heading;
+        return `<li><a href="script.xhtml#${scene.id}">${escapeHtml(label)}</a></li>`;
+      })
+      .join('\n');
+    const nav = xhtmlPage(title, `<nav epub:type="toc" id="toc">
+<h1>${escapeHtml(title)}</h1>
+<ol>
+${hasTitlePage ? '<li><a href="title.xhtml">Title Page</a></li>\n' : ''}<li><a href="script.xhtml">Screenplay</a>
+<ol>
+${sceneLinks}
+</ol>
+</li>
+</ol>
+</nav>`);
+
+    return createZip([
+      // Must come first and uncompressed so readers can sniff the type
+      { name: 'mimetype', data: 'application/epub+zip', store: true },
+      { name: 'META-INF/container.xml', data: CONTAINER_XML },
+      { name: 'OEBPS/content.opf', data: opf },
+      { name: 'OEBPS/nav.xhtml', data: nav },
+      { name: 'OEBPS/style.css', data: SCREENPLAY_CSS },
+      ...(hasTitlePage ? [{ name: 'OEBPS/title.xhtml', data: xhtmlPage(title, titlePageHtml(titlePage)) }] : []),
+      {
+        name: 'OEBPS/script.xhtml',
+        data: xhtmlPage(title, `<article class="screenplay">\n${screenplayBodyHtml(doc, options)}\n</article>`),
+      },
+    ]);
+  }
+}
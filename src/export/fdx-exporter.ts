@@ -1,69 +1,225 @@
 import fs from 'fs/promises';
-import { FountainParser } from '../screenplay/fountain-parser';
+import type { Character, Scene } from '../shared/types';
+import {
+  parseFountain,
+  dualDialogueEnd,
+  type FountainDocument,
+  type FountainNode,
+  type FountainNodeType,
+} from '../screenplay/fountain-ast';
+import { paginate } from '../screenplay/pagination';
+import { parseEmphasis } from '../screenplay/emphasis';
+import { isTitlePageEmpty, layoutTitlePage, readTitlePage } from '../screenplay/title-page';
 
-export class FDXExporter {
-  static async export(content: string, outputPath: string): Promise<void> {
-    const parsed = FountainParser.parse(content);
+// Final Draft paragraph type for each Fountain element
+export const FDX_PARAGRAPH_TYPES: Partial<Record<FountainNodeType, string>> = {
+  'scene-heading': 'Scene Heading',
+  'action': 'Action',
+  'character': 'Character',
+  'dialogue': 'Dialogue',
+  'parenthetical': 'Parenthetical',
+  'transition': 'Transition',
+  'centered': 'Action',
+  'lyrics': 'Dialogue',
+};
+
+export interface FDXExportOptions {
+  /** Fallbacks when the script has no title page */
+  title?: string;
+  author?: string;
+  /** Database scenes; their summaries become scene properties */
+  scenes?: Scene[];
+  /** Database characters, written to the cast list */
+  characters?: Character[];
+}
 
-    const fdx = this.buildFDX(content, parsed.title, parsed.author);
+const INDENT = '    ';
 
-    await fs.writeFile(outputPath, fdx, 'utf-8');
+export class FDXExporter {
+  static async export(content: string, outputPath: string, options: FDXExportOptions = {}): Promise<void> {
+    await fs.writeFile(outputPath, this.toFDX(content, options), 'utf-8');
   }
 
-  private static buildFDX(content: string, title?: string, author?: string): string {
-    const lines = content.split('\n');
+  /**
+   * Final Draft XML for a Fountain screenplay
+   */
+  static toFDX(content: string, options: FDXExportOptions = {}): string {
+    const doc = parseFountain(content);
 
-    let fdxContent = `<?xml version="1.0" encoding="UTF-8"?>
-<FinalDraft DocumentType="Script" Template="No" Version="5">
-  <Content>
-    <Paragraph Type="Title">
-      <Text>${this.escapeXml(title || 'Untitled')}</Text>
-    </Paragraph>
-    <Paragraph Type="Author">
-      <Text>${this.escapeXml(author || 'Unknown')}</Text>
-    </Paragraph>
-`;
+    return [
+      '<?xml version="1.0" encoding="UTF-8" standalone="no" ?>',
+      '<FinalDraft DocumentType="Script" Template="No" Version="5">',
+      '  <Content>',
+      ...this.buildContent(doc, options.scenes ?? []),
+      '  </Content>',
+      ...this.buildTitlePage(doc, options),
+      ...this.buildCastList(doc, options.characters ?? []),
+      ...this.buildSmartType(doc),
+      '</FinalDraft>',
+      '',
+    ].join('\n');
+  }
 
-    for (const line of lines) {
-      const trimmed = line.trim();
+  private static buildContent(doc: FountainDocument, dbScenes: Scene[]): string[] {
+    const { elementPages } = paginate(doc);
+    const summaries = this.sceneSummaries(doc, dbScenes);
+    const lines: string[] = [];
+    let startsNewPage = false;
 
-      if (!trimmed) {
+    for (let i = 0; i < doc.nodes.length; i++) {
+      const node = doc.nodes[i];
+      if (node.type === 'page-break') {
+        startsNewPage = true;
         continue;
       }
 
-      if (FountainParser['isSceneHeading'](trimmed)) {
-        fdxContent += `    <Paragraph Type="Scene Heading">
-      <Text>${this.escapeXml(trimmed.toUpperCase())}</Text>
-    </Paragraph>
-`;
-      } else if (this.isCharacterName(trimmed)) {
-        fdxContent += `    <Paragraph Type="Character">
-      <Text>${this.escapeXml(trimmed)}</Text>
-    </Paragraph>
-`;
-      } else if (this.isParenthetical(trimmed)) {
-        fdxContent += `    <Paragraph Type="Parenthetical">
-      <Text>${this.escapeXml(trimmed)}</Text>
-    </Paragraph>
-`;
-      } else if (this.isTransition(trimmed)) {
-        fdxContent += `    <Paragraph Type="Transition">
-      <Text>${this.escapeXml(trimmed)}</Text>
-    </Paragraph>
-`;
-      } else {
-        // Default to action
-        fdxContent += `    <Paragraph Type="Action">
-      <Text>${this.escapeXml(trimmed)}</Text>
-    </Paragraph>
-`;
+      // Both columns of a dual dialogue go into one DualDialogue paragraph
+      if (node.dual === 'left' && node.type === 'character') {
+        const end = dualDialogueEnd(doc.nodes, i);
+        lines.push(`${INDENT}<Paragraph${startsNewPage ? ' StartsNewPage="Yes"' : ''}>`);
+        lines.push(`${INDENT}  <DualDialogue>`);
+        for (const inner of doc.nodes.slice(i, end + 1)) {
+          const paragraph = this.paragraph(inner, '');
+          if (paragraph) lines.push(...paragraph.map(line => `${INDENT}    ${line}`));
+        }
+        lines.push(`${INDENT}  </DualDialogue>`);
+        lines.push(`${INDENT}</Paragraph>`);
+        startsNewPage = false;
+        i = end;
+        continue;
+      }
+
+      let attributes = startsNewPage ? ' StartsNewPage="Yes"' : '';
+      let properties: string[] = [];
+      if (node.type === 'scene-heading' && node.sceneIndex !== undefined) {
+        const scene = doc.scenes[node.sceneIndex];
+        attributes = ` Number="${this.escapeXml(scene.sceneNumber)}"${attributes}`;
+        properties = this.sceneProperties(elementPages[i], summaries[node.sceneIndex]);
+      }
+
+      const paragraph = this.paragraph(node, attributes, properties);
+      if (!paragraph) continue;
+      lines.push(...paragraph.map(line => `${INDENT}${line}`));
+      startsNewPage = false;
+    }
+
+    return lines;
+  }
+
+  /**
+   * One <Paragraph>, or null for elements Final Draft has no place for
+   * (sections, synopses, notes, boneyard)
+   */
+  private static paragraph(node: FountainNode, attributes: string, properties: string[] = []): string[] | null {
+    const type = FDX_PARAGRAPH_TYPES[node.type];
+    if (!type) return null;
+
+    const alignment = node.type === 'centered' ? ' Alignment="Center"' : '';
+    let runs = parseEmphasis(node.text);
+    if (node.type === 'lyrics') runs = runs.map(run => ({ ...run, italic: true }));
+
+    return [
+      `<Paragraph Type="${type}"${alignment}${attributes}>`,
+      ...properties.map(line => `  ${line}`),
+      ...runs.map(run => {
+        const style = [run.bold && 'Bold', run.italic && 'Italic', run.underline && 'Underline'].filter(Boolean).join('+');
+        return `  <Text${style ? ` Style="${style}"` : ''}>${this.escapeXml(run.text)}</Text>`;
+      }),
+      '</Paragraph>',
+    ];
+  }
+
+  private static sceneProperties(page: number | undefined, summary: string | undefined): string[] {
+    const open = `<SceneProperties Length="" Page="${page ?? ''}" Title="">`;
+    if (!summary) return [open.replace(/>$/, '/>')];
+    return [
+      open,
+      '  <Summary>',
+      '    <Paragraph Type="General">',
+      `      <Text>${this.escapeXml(summary)}</Text>`,
+      '    </Paragraph>',
+      '  </Summary>',
+      '</SceneProperties>',
+    ];
+  }
+
+  /**
+   * Summary per parsed scene: the database summary of the matching scene
+   * (same heading, in order), else the Fountain synopsis under the heading
+   */
+  private static sceneSummaries(doc: FountainDocument, dbScenes: Scene[]): (string | undefined)[] {
+    const used = new Set<Scene>();
+    return doc.scenes.map((scene, index) => {
+      const sameHeading = (s: Scene) => !used.has(s) && s.heading.trim().toUpperCase() === scene.heading;
+      const match = (dbScenes[index] && sameHeading(dbScenes[index]) ? dbScenes[index] : undefined)
+        ?? dbScenes.find(sameHeading);
+      if (match) used.add(match);
+      return match?.summary?.trim() || scene.synopsis;
+    });
+  }
+
+  /**
+   * Title page paragraphs, one per row of the shared title page layout;
+   * blank rows become empty paragraphs so the blocks keep their positions
+   */
+  private static buildTitlePage(doc: FountainDocument, options: FDXExportOptions): string[] {
+    const titlePage = readTitlePage(doc);
+    titlePage.title ||= options.title ?? '';
+    titlePage.authors ||= options.author ?? '';
+    if (isTitlePageEmpty(titlePage)) return [];
+
+    const layout = layoutTitlePage(titlePage);
+    const paragraphs: string[] = [];
+    const add = (text: string, alignment: string) => {
+      const run = text ? `<Text>${this.escapeXml(text)}</Text>` : '<Text></Text>';
+      paragraphs.push(`${INDENT}  <Paragraph Alignment="${alignment}" Type="General">${run}</Paragraph>`);
+    };
+
+    const lastRow = Math.max(...layout.map(line => line.row));
+    for (let row = 0; row <= lastRow; row++) {
+      const onRow = layout.filter(line => line.row === row);
+      if (onRow.length === 0) add('', 'Center');
+      for (const line of onRow) {
+        add(line.text, line.align === 'center' ? 'Center' : line.align === 'left' ? 'Left' : 'Right');
       }
     }
 
-    fdxContent += `  </Content>
-</FinalDraft>`;
+    return ['  <TitlePage>', `${INDENT}<Content>`, ...paragraphs, `${INDENT}</Content>`, '  </TitlePage>'];
+  }
+
+  /**
+   * Cast list from the characters table; without one, the speaking characters
+   */
+  private static buildCastList(doc: FountainDocument, characters: Character[]): string[] {
+    const members = characters.length > 0
+      ? characters.map(c => ({ name: c.name.toUpperCase(), description: c.description || '' }))
+      : doc.characters.map(name => ({ name, description: '' }));
+    if (members.length === 0) return [];
+
+    return [
+      '  <CastList>',
+      ...members.map(member =>
+        `${INDENT}<Member Character="${this.escapeXml(member.name)}" Description="${this.escapeXml(member.description)}"/>`
+      ),
+      '  </CastList>',
+    ];
+  }
+
+  /** SmartType lists feed Final Draft's autocomplete */
+  private static buildSmartType(doc: FountainDocument): string[] {
+    const list = (tag: string, item: string, values: string[]) => [
+      `${INDENT}<${tag}>`,
+      ...[...new Set(values.filter(Boolean))].map(value => `${INDENT}  <${item}>${this.escapeXml(value)}</${item}>`),
+      `${INDENT}</${tag}>`,
+    ];
 
-    return fdxContent;
+    return [
+      '  <SmartType>',
+      ...list('Characters', 'Character', doc.characters),
+      ...list('Locations', 'Location', doc.scenes.map(scene => scene.location)),
+      ...list('TimesOfDay', 'TimeOfDay', doc.scenes.map(scene => scene.timeOfDay)),
+      '  </SmartType>',
+    ];
   }
 
   private static escapeXml(text: string): string {
@@ -74,17 +230,4 @@ export class FDXExporter {
       .replace(/"/g, '&quot;')
       .replace(/'/g, '&apos;');
   }
-
-  private static isCharacterName(line: string): boolean {
-    return line === line.toUpperCase() && line.length > 0 && line.length < 40 && !line.endsWith('TO:');
-  }
-
-  private static isParenthetical(line: string): boolean {
-    return line.startsWith('(') && line.endsWith(')');
-  }
-
-  private static isTransition(line: string): boolean {
-    return line.endsWith('TO:') || line === 'FADE IN:' || line === 'FADE OUT.';
-  }
 }
-
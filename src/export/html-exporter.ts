@@ -0,0 +1,139 @@
+import fs from 'fs/promises';
+import { parseFountain } from '../screenplay/fountain-ast';
+import { readTitlePage } from '../screenplay/title-page';
+import { actorReports, type ActorReport } from '../screenplay/actor-script';
+import {
+  SCREENPLAY_CSS,
+  escapeHtml,
+  sceneAnchors,
+  screenplayBodyHtml,
+  titlePageHtml,
+  type ScreenplayHtmlOptions,
+} from './screenplay-html';
+
+export interface HTMLExportOptions extends ScreenplayHtmlOptions {
+  /** Fallbacks when the script has no title page */
+  title?: string;
+  author?: string;
+}
+
+/** Reader chrome: a toolbar, the slide-out scene index and highlighted dialogue */
+const READER_CSS = `
+body { margin: 0; background: #fff; color: #111; }
+.toolbar { position: sticky; top: 0; z-index: 2; display: flex; gap: 1em; align-items: center; padding: 0.6em 1em; background: #f4f4f5; border-bottom: 1px solid #ddd; font: 14px system-ui, sans-serif; }
+.toolbar button, .toolbar select { font: inherit; padding: 0.3em 0.6em; }
+.toolbar .title { flex: 1; font-weight: 600; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+.scene-index { position: fixed; top: 0; bottom: 0; left: 0; z-index: 3; width: min(24em, 85vw); overflow-y: auto; background: #fff; border-right: 1px solid #ddd; box-shadow: 0 0 24px rgba(0,0,0,0.15); transform: translateX(-105%); transition: transform 0.2s; font: 14px system-ui, sans-serif; }
+.show-index .scene-index { transform: none; }
+.scene-index h2 { font-size: 1em; margin: 1em; }
+.scene-index ol { list-style: none; margin: 0; padding: 0; }
+.scene-index a { display: block; padding: 0.5em 1em; color: inherit; text-decoration: none; border-top: 1px solid #eee; }
+.scene-index a:hover { background: #f4f4f5; }
+.scene-index .number { display: inline-block; min-width: 3em; color: #888; }
+main { padding: 2em 0 6em; }
+.dialogue-block.highlight { background: #fff3a3; box-shadow: 0 0 0 0.4em #fff3a3; }
+.actor-cover { max-width: 60ch; margin: 0 auto 4em; padding: 0 7ch 2em; font-family: "Courier Prime", "Courier New", Courier, monospace; border-bottom: 1px solid #ddd; }
+.actor-cover h1, .actor-cover h2, .actor-cover .aliases { text-align: center; font-size: 1em; margin: 0.5em 0; }
+.actor-cover h2 { font-size: 1.4em; }
+.actor-cover table { width: 100%; border-collapse: collapse; margin-top: 2em; }
+.actor-cover th, .actor-cover td { text-align: left; padding: 0.2em 0.5em; border-bottom: 1px solid #eee; }
+.actor-cover .lines { text-align: right; }
+@media print { .toolbar, .scene-index { display: none; } .actor-cover { break-after: page; border: none; } }
+`;
+
+/** Runs in the reading copy; kept to ES5 for older tablet browsers */
+const READER_SCRIPT = `
+(function () {
+  var body = document.body;
+  document.getElementById('toggle-index').addEventListener('click', function () {
+    body.classList.toggle('show-index');
+  });
+  var links = document.querySelectorAll('.scene-index a');
+  for (var i = 0; i < links.length; i++) {
+    links[i].addEventListener('click', function () { body.classList.remove('show-index'); });
+  }
+  document.getElementById('highlight').addEventListener('change', function (event) {
+    var name = event.target.value;
+    var blocks = document.querySelectorAll('.dialogue-block');
+    for (var j = 0; j < blocks.length; j++) {
+      blocks[j].classList.toggle('highlight', name !== '' && blocks[j].getAttribute('data-character') === name);
+    }
+  });
+})();
+`;
+
+/** Scenes and line counts for one actor, ahead of the script */
+function actorCoverHtml(report: ActorReport, title: string): string {
+  const rows = report.scenes
+    .map(scene => `<tr><td>${escapeHtml(scene.sceneNumber)}</td><td>${escapeHtml(scene.heading)}</td><td class="lines">${scene.lines}</td></tr>`)
+    .join('\n');
+  return `<section class="actor-cover">
+<h1>ACTOR SCRIPT</h1>
+<h2>${escapeHtml(report.name)}</h2>
+${report.aliases.length > 0 ? `<p class="aliases">(also ${escapeHtml(report.aliases.join(', '))})</p>\n` : ''}<h1>${escapeHtml(title.toUpperCase())}</h1>
+<p>${report.scenes.length} ${report.scenes.length === 1 ? 'scene' : 'scenes'}, ${report.totalLines} ${report.totalLines === 1 ? 'line' : 'lines'}</p>
+<table>
+<thead><tr><th>Scene</th><th>Heading</th><th class="lines">Lines</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+</section>`;
+}
+
+export class HTMLExporter {
+  static async export(content: string, outputPath: string, options: HTMLExportOptions = {}): Promise<void> {
+    await fs.writeFile(outputPath, this.toHTML(content, options), 'utf-8');
+  }
+
+  /**
+   * A single self-contained HTML reading copy: styles and script are inline
+   * and nothing is loaded from the network
+   */
+  static toHTML(content: string, options: HTMLExportOptions = {}): string {
+    const doc = parseFountain(content);
+    const titlePage = readTitlePage(doc);
+    titlePage.title ||= options.title ?? '';
+    titlePage.authors ||= options.author ?? '';
+    const title = titlePage.title.replace(/\n/g, ' ') || 'Screenplay';
+
+    const index = sceneAnchors(doc)
+      .map(scene => `<li><a href="#${scene.id}"><span class="number">${escapeHtml(scene.number)}</span>${escapeHtml(scene.heading)}</a></li>`)
+      .join('\n');
+    const characters = doc.characters
+      .map(name => `<option value="${escapeHtml(name)}">${escapeHtml(name)}</option>`)
+      .join('');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8"/>
+<meta name="viewport" content="width=device-width, initial-scale=1"/>
+<title>${escapeHtml(title)}</title>
+<style>${SCREENPLAY_CSS}${READER_CSS}</style>
+</head>
+<body>
+<div class="toolbar">
+<button type="button" id="toggle-index">Scenes</button>
+<span class="title">${escapeHtml(title)}</span>
+<label>Highlight <select id="highlight"><option value="">Nobody</option>${characters}</select></label>
+</div>
+<nav class="scene-index">
+<h2>Scenes</h2>
+<ol>
+${index}
+</ol>
+</nav>
+<main>
+${actorReports(doc, options.actors ?? []).map(report => actorCoverHtml(report, title)).join('\n')}
+${titlePageHtml(titlePage)}
+<article class="screenplay">
+${screenplayBodyHtml(doc, options)}
+</article>
+</main>
+<script>${READER_SCRIPT}</script>
+</body>
+</html>
+`;
+  }
+}
@@ -1,93 +1,167 @@
 import PDFDocument from 'pdfkit';
 import fs from 'fs';
-import { FountainParser } from '../screenplay/fountain-parser';
+import path from 'path';
+import type { RevisionState, TitlePage } from '../shared/types';
+import { CHARS_PER_INCH, LINES_PER_INCH, PAGE_WIDTH_CHARS, type Page, type PaginationOptions } from '../screenplay/pagination';
+import { formatRevisionDate, paginateRevised } from '../screenplay/revisions';
+import { isTitlePageEmpty, layoutTitlePage, readTitlePage } from '../screenplay/title-page';
+import { layoutSides, type SidesOptions, type SidesPage } from '../screenplay/sides';
+import { parseFountain } from '../screenplay/fountain-ast';
+import {
+  actorNodes,
+  actorReports,
+  layoutActorCover,
+  pageHighlights,
+  type Actor,
+  type HighlightedLine,
+} from '../screenplay/actor-script';
+
+const POINTS_PER_INCH = 72;
+const MARGIN_LEFT = 108;  // 1.5 inches
+const MARGIN_TOP = 72;    // 1 inch
+const CHAR_WIDTH = POINTS_PER_INCH / CHARS_PER_INCH;
+const LINE_HEIGHT = POINTS_PER_INCH / LINES_PER_INCH;
+const HEADER_Y = POINTS_PER_INCH / 2;
+/** Right-margin columns (from the left margin) for scene numbers and revision asterisks */
+const SCENE_NUMBER_COLUMN = 62;
+const REVISION_MARK_COLUMN = 66;
+const HIGHLIGHT_COLOR = '#fff176';
+const WATERMARK_OPACITY = 0.1;
+
+export interface PDFExportOptions extends PaginationOptions {
+  /** When the script is locked, pages and scenes keep their locked numbers */
+  revisions?: RevisionState | null;
+  /** Actor script: highlight these characters' lines, after a cover page for each */
+  actors?: Actor[];
+  /** Mark every page as one reader's copy */
+  watermark?: Watermark;
+}
+
+export interface Watermark {
+  recipient: string;
+  /** Also print CONFIDENTIAL at the foot of each page */
+  confidential?: boolean;
+}
+
+export interface DistributionOptions extends PDFExportOptions {
+  /** File name before " - Recipient.pdf" */
+  baseName?: string;
+  confidential?: boolean;
+}
+
+export interface DistributionCopy {
+  recipient: string;
+  filePath: string;
+}
+
+/** Recipient names as they can appear in a file name */
+function fileSafe(name: string): string {
+  return name.replace(/[\\/:*?"<>|]/g, '').replace(/\s+/g, ' ').trim() || 'Reader';
+}
 
 export class PDFExporter {
-  static async export(content: string, outputPath: string): Promise<void> {
+  static async export(content: string, outputPath: string, options: PDFExportOptions = {}): Promise<void> {
+    return this.write(outputPath, doc => {
+      const watermark = options.watermark;
+      if (watermark) {
+        doc.on('pageAdded', () => this.renderWatermark(doc, watermark));
+      }
+
+      const titlePage = readTitlePage(content);
+      const parsed = parseFountain(content);
+      const actors = options.actors ?? [];
+      for (const report of actorReports(parsed, actors)) {
+        for (const rows of layoutActorCover(report, titlePage.title.replace(/\n/g, ' '))) {
+          doc.addPage();
+          this.renderRows(doc, rows);
+        }
+      }
+
+      // The title page is its own sheet and doesn't count toward page numbers
+      if (!isTitlePageEmpty(titlePage)) {
+        doc.addPage();
+        this.renderTitlePage(doc, titlePage);
+      }
+
+      const highlighted = actorNodes(parsed, actors);
+      const { pages } = paginateRevised(content, options.revisions ?? null, options);
+      for (const page of pages) {
+        doc.addPage();
+        this.renderHighlights(doc, pageHighlights(page, element => highlighted.has(element)));
+        this.renderPage(doc, page, options.revisions ?? null);
+      }
+    });
+  }
+
+  /**
+   * One watermarked copy per recipient, written to `outputDir`. Recipients
+   * are trimmed and de-duplicated; returns where each copy went.
+   */
+  static async exportDistribution(
+    content: string,
+    outputDir: string,
+    recipients: string[],
+    options: DistributionOptions = {}
+  ): Promise<DistributionCopy[]> {
+    const names = [...new Set(recipients.map(name => name.trim()).filter(Boolean))];
+    if (names.length === 0) {
+      throw new Error('No recipients for distribution');
+    }
+
+    const { baseName = 'Screenplay', confidential, ...pdfOptions } = options;
+    const copies: DistributionCopy[] = [];
+    const used = new Set<string>();
+
+    for (const recipient of names) {
+      // Names that only differ in characters a file name can't hold still get their own file
+      let fileName = `${fileSafe(baseName)} - ${fileSafe(recipient)}`;
+      for (let n = 2; used.has(fileName.toLowerCase()); n++) {
+        fileName = `${fileSafe(baseName)} - ${fileSafe(recipient)} (${n})`;
+      }
+      used.add(fileName.toLowerCase());
+
+      const filePath = path.join(outputDir, `${fileName}.pdf`);
+      await this.export(content, filePath, { ...pdfOptions, watermark: { recipient, confidential } });
+      copies.push({ recipient, filePath });
+    }
+
+    return copies;
+  }
+
+  /**
+   * Sides: only the pages holding the chosen scenes, numbered as in the full
+   * script, with other material crossed out
+   */
+  static async exportSides(content: string, outputPath: string, options: SidesOptions): Promise<void> {
+    const sides = layoutSides(content, options);
+    if (sides.length === 0) {
+      throw new Error('No scenes selected for sides');
+    }
+
+    return this.write(outputPath, doc => {
+      for (const side of sides) {
+        doc.addPage();
+        this.renderHighlights(doc, side.highlights);
+        this.renderPage(doc, side.page, options.revisions ?? null);
+        this.renderStruck(doc, side);
+      }
+    });
+  }
+
+  private static write(outputPath: string, render: (doc: PDFKit.PDFDocument) => void): Promise<void> {
     return new Promise((resolve, reject) => {
       try {
+        // Positions come from the pagination engine, so pdfkit must never
+        // wrap or add pages on its own
         const doc = new PDFDocument({
           size: 'LETTER',
-          margins: {
-            top: 72,    // 1 inch
-            bottom: 72,
-            left: 108,  // 1.5 inches
-            right: 72,
-          },
+          margins: { top: 0, bottom: 0, left: 0, right: 0 },
+          autoFirstPage: false,
         });
 
         const stream = fs.createWriteStream(outputPath);
         doc.pipe(stream);
-
-        // Set up screenplay font
-        doc.font('Courier');
-        doc.fontSize(12);
-
-        const lines = content.split('\n');
-        let currentY = doc.y;
-
-        for (const line of lines) {
-          const trimmed = line.trim();
-
-          // Check if new page is needed
-          if (currentY > doc.page.height - 100) {
-            doc.addPage();
-            currentY = doc.y;
-          }
-
-          if (FountainParser['isSceneHeading'](trimmed)) {
-            // Scene heading
-            doc.moveDown(1);
-            doc.font('Courier-Bold');
-            doc.text(trimmed.toUpperCase(), {
-              align: 'left',
-            });
-            doc.font('Courier');
-            doc.moveDown(0.5);
-          } else if (this.isCharacterName(trimmed)) {
-            // Character name
-            doc.moveDown(0.5);
-            doc.text(trimmed, {
-              indent: 144, // 2 inches from left
-              align: 'left',
-            });
-          } else if (this.isParenthetical(trimmed)) {
-            // Parenthetical
-            doc.text(trimmed, {
-              indent: 108, // 1.5 inches from left
-              align: 'left',
-            });
-          } else if (this.isTransition(trimmed)) {
-            // Transition
-            doc.moveDown(0.5);
-            doc.text(trimmed, {
-              align: 'right',
-            });
-            doc.moveDown(0.5);
-          } else if (trimmed) {
-            // Action or dialogue
-            const isDialogue = this.isLikelyDialogue(trimmed, lines, lines.indexOf(line));
-            
-            if (isDialogue) {
-              doc.text(trimmed, {
-                indent: 72,  // 1 inch from left
-                width: 252,  // 3.5 inches wide
-                align: 'left',
-              });
-            } else {
-              // Action
-              doc.text(trimmed, {
-                align: 'left',
-              });
-            }
-          } else {
-            // Empty line
-            doc.moveDown(0.5);
-          }
-
-          currentY = doc.y;
-        }
-
+        render(doc);
         doc.end();
 
         stream.on('finish', () => resolve());
@@ -98,27 +172,105 @@ export class PDFExporter {
     });
   }
 
-  private static isCharacterName(line: string): boolean {
-    return line === line.toUpperCase() && line.length > 0 && line.length < 40 && !line.endsWith('TO:');
+  private static renderTitlePage(doc: PDFKit.PDFDocument, titlePage: TitlePage): void {
+    doc.fontSize(12).font('Courier');
+    for (const line of layoutTitlePage(titlePage)) {
+      doc.text(line.text, MARGIN_LEFT + line.column * CHAR_WIDTH, MARGIN_TOP + line.row * LINE_HEIGHT, { lineBreak: false });
+    }
   }
 
-  private static isParenthetical(line: string): boolean {
-    return line.startsWith('(') && line.endsWith(')');
+  /**
+   * The recipient's name across the page diagonal and in the top left
+   * corner, plus an optional CONFIDENTIAL footer. Drawn as each page is added,
+   * so it sits under the page text.
+   */
+  private static renderWatermark(doc: PDFKit.PDFDocument, watermark: Watermark): void {
+    const { width, height } = doc.page;
+    const text = watermark.recipient.toUpperCase();
+
+    // As large as fits along 80% of the diagonal, capped for short names
+    doc.font('Helvetica-Bold').fontSize(1);
+    const angle = Math.atan2(height, width) * 180 / Math.PI;
+    const size = Math.min(120, (Math.hypot(width, height) * 0.8) / doc.widthOfString(text));
+
+    doc.save();
+    doc.rotate(-angle, { origin: [width / 2, height / 2] });
+    doc.fontSize(size).fillColor('black', WATERMARK_OPACITY);
+    doc.text(text, (width - doc.widthOfString(text)) / 2, (height - size) / 2, { lineBreak: false });
+    doc.restore();
+
+    doc.fillColor('black', 1).font('Courier').fontSize(12);
+    doc.text(`Copy for: ${watermark.recipient}`, MARGIN_LEFT, HEADER_Y, { lineBreak: false });
+    if (watermark.confidential) {
+      const footer = 'CONFIDENTIAL';
+      doc.text(footer, (width - footer.length * CHAR_WIDTH) / 2, height - HEADER_Y - LINE_HEIGHT, { lineBreak: false });
+    }
   }
 
-  private static isTransition(line: string): boolean {
-    return line.endsWith('TO:') || line === 'FADE IN:' || line === 'FADE OUT.';
+  private static renderRows(doc: PDFKit.PDFDocument, rows: string[]): void {
+    doc.fontSize(12).font('Courier');
+    rows.forEach((text, row) => {
+      if (text) doc.text(text, MARGIN_LEFT, MARGIN_TOP + row * LINE_HEIGHT, { lineBreak: false });
+    });
   }
 
-  private static isLikelyDialogue(_line: string, allLines: string[], index: number): boolean {
-    // Check if previous non-empty line was a character name or parenthetical
-    for (let i = index - 1; i >= 0; i--) {
-      const prevLine = allLines[i].trim();
-      if (prevLine) {
-        return this.isCharacterName(prevLine) || this.isParenthetical(prevLine);
+  private static renderPage(doc: PDFKit.PDFDocument, page: Page, revisions: RevisionState | null): void {
+    doc.fontSize(12).font('Courier');
+
+    // Page numbers sit in the top right corner, half an inch down; page 1 is unnumbered
+    const label = page.label ?? String(page.number);
+    const numberX = doc.page.width - POINTS_PER_INCH - (label.length + 1) * CHAR_WIDTH;
+    if (label !== '1') {
+      doc.text(`${label}.`, numberX, HEADER_Y, { lineBreak: false });
+    }
+
+    // Revised pages carry the color and date of their latest revision
+    const set = page.revision ? revisions?.sets[page.revision - 1] : undefined;
+    if (set) {
+      const header = `${set.color} Rev. ${formatRevisionDate(set.createdAt)}`;
+      doc.text(header, numberX - (header.length + 4) * CHAR_WIDTH, HEADER_Y, { lineBreak: false });
+    }
+
+    for (const line of page.lines) {
+      const y = MARGIN_TOP + line.row * LINE_HEIGHT;
+      doc.font(line.type === 'scene-heading' ? 'Courier-Bold' : line.type === 'lyrics' ? 'Courier-Oblique' : 'Courier');
+      doc.text(line.text, MARGIN_LEFT + line.column * CHAR_WIDTH, y, { lineBreak: false });
+
+      doc.font('Courier');
+      if (line.sceneNumber) {
+        const width = line.sceneNumber.length * CHAR_WIDTH;
+        doc.text(line.sceneNumber, MARGIN_LEFT - width - 4 * CHAR_WIDTH, y, { lineBreak: false });
+        doc.text(line.sceneNumber, MARGIN_LEFT + SCENE_NUMBER_COLUMN * CHAR_WIDTH, y, { lineBreak: false });
+      }
+      if (line.revision) {
+        doc.text('*', MARGIN_LEFT + REVISION_MARK_COLUMN * CHAR_WIDTH, y, { lineBreak: false });
       }
     }
-    return false;
   }
-}
 
+  /** Marker-pen bands behind the highlighted character's lines */
+  private static renderHighlights(doc: PDFKit.PDFDocument, highlights: HighlightedLine[]): void {
+    for (const line of highlights) {
+      doc
+        .rect(MARGIN_LEFT + (line.column - 0.5) * CHAR_WIDTH, MARGIN_TOP + line.row * LINE_HEIGHT - 1, (line.length + 1) * CHAR_WIDTH, LINE_HEIGHT)
+        .fill(HIGHLIGHT_COLOR);
+    }
+    doc.fillColor('black');
+  }
+
+  /** A rule above and below each region of other scenes' material, and an X through it */
+  private static renderStruck(doc: PDFKit.PDFDocument, side: SidesPage): void {
+    const left = MARGIN_LEFT;
+    const right = MARGIN_LEFT + PAGE_WIDTH_CHARS * CHAR_WIDTH;
+    doc.save().lineWidth(1).strokeColor('black');
+    for (const region of side.struck) {
+      const top = MARGIN_TOP + region.from * LINE_HEIGHT - 2;
+      const bottom = MARGIN_TOP + (region.to + 1) * LINE_HEIGHT - 2;
+      doc.moveTo(left, top).lineTo(right, top).stroke();
+      doc.moveTo(left, bottom).lineTo(right, bottom).stroke();
+      doc.moveTo(left, top).lineTo(right, bottom).stroke();
+      doc.moveTo(left, bottom).lineTo(right, top).stroke();
+    }
+    doc.restore();
+  }
+}
@@ -0,0 +1,299 @@
+import PDFDocument from 'pdfkit';
+import fs from 'fs';
+import { BREAKDOWN_CATEGORIES, categoryInfo } from '../screenplay/breakdown';
+import { formatEighths, type ProductionReport, type SceneReport } from '../screenplay/production-reports';
+import type { DayOutOfDays } from '../screenplay/dood';
+
+export type ReportKind = 'breakdown' | 'locations' | 'cast' | 'day-night';
+
+export const REPORT_TITLES: Record<ReportKind, string> = {
+  'breakdown': 'Breakdown Sheets',
+  'locations': 'Location Report',
+  'cast': 'Cast List',
+  'day-night': 'Day/Night Summary',
+};
+
+export interface ReportTable {
+  columns: string[];
+  rows: string[][];
+  /** Relative column widths for PDF */
+  widths: number[];
+}
+
+const PAGE_MARGIN = 54;
+const FONT_SIZE = 9;
+const CELL_PADDING = 3;
+const BOX_GAP = 12;
+/** Day columns per PDF page; longer schedules continue on following pages */
+const DOOD_DAYS_PER_PAGE = 20;
+const DOOD_LEGEND = 'SW start work  W work  H hold  WD work/drop  PW pick up/work  WF work finish';
+
+/** The report as rows and columns, shared by CSV and the PDF tables */
+export function reportTable(report: ProductionReport, kind: ReportKind): ReportTable {
+  switch (kind) {
+    case 'breakdown':
+      return {
+        columns: ['Scene', 'Page', 'INT/EXT', 'Location', 'Time', 'Pages', ...BREAKDOWN_CATEGORIES.map(c => c.label)],
+        rows: report.scenes.map(scene => [
+          scene.sceneNumber,
+          scene.page,
+          scene.setting,
+          scene.location,
+          scene.timeOfDay,
+          formatEighths(scene.eighths),
+          ...BREAKDOWN_CATEGORIES.map(({ id }) =>
+            (scene.categories.find(entry => entry.category === id)?.names ?? []).join('; ')
+          ),
+        ]),
+        widths: [1, 1, 1, 3, 1.5, 1, ...BREAKDOWN_CATEGORIES.map(() => 2)],
+      };
+    case 'locations':
+      return {
+        columns: ['Location', 'INT/EXT', 'Time', 'Scenes', 'Count', 'Pages'],
+        rows: report.locations.map(location => [
+          location.location,
+          location.settings.join(', '),
+          location.times.join(', '),
+          location.scenes.join(', '),
+          String(location.scenes.length),
+          formatEighths(location.eighths),
+        ]),
+        widths: [4, 1.5, 2, 4, 1, 1],
+      };
+    case 'cast':
+      return {
+        columns: ['ID', 'Character', 'Scenes', 'Pages', 'Scene Numbers'],
+        rows: report.cast.map(member => [
+          String(member.id),
+          member.name,
+          String(member.scenes.length),
+          formatEighths(member.eighths),
+          member.scenes.join(', '),
+        ]),
+        widths: [0.6, 3, 1, 1, 6],
+      };
+    case 'day-night': {
+      const rows = report.dayNight.map(time => [
+        time.timeOfDay,
+        String(time.interior),
+        String(time.exterior),
+        String(time.other),
+        String(time.interior + time.exterior + time.other),
+        formatEighths(time.eighths),
+      ]);
+      const sum = (key: 'interior' | 'exterior' | 'other') => report.dayNight.reduce((total, time) => total + time[key], 0);
+      rows.push([
+        'TOTAL',
+        String(sum('interior')),
+        String(sum('exterior')),
+        String(sum('other')),
+        String(report.scenes.length),
+        formatEighths(report.totalEighths),
+      ]);
+      return {
+        columns: ['Time of Day', 'INT', 'EXT', 'Other', 'Scenes', 'Pages'],
+        rows,
+        widths: [3, 1, 1, 1, 1, 1],
+      };
+    }
+  }
+}
+
+/**
+ * Day out of days grid: a column per shoot day, then totals. firstDay and
+ * lastDay (one-based, inclusive) pick a run of day columns for paging; the
+ * totals only go with the last run.
+ */
+export function doodTable(dood: DayOutOfDays, firstDay = 1, lastDay = dood.days): ReportTable {
+  const days: number[] = [];
+  for (let day = firstDay; day <= lastDay; day++) days.push(day);
+  const last = lastDay >= dood.days;
+  const totals = last ? ['Work', 'Hold', 'Drop', 'Start', 'Finish', 'Total'] : [];
+
+  return {
+    columns: ['ID', 'Character', ...days.map(String), ...totals],
+    rows: dood.cast.map(member => [
+      String(member.id),
+      member.name,
+      ...days.map(day => member.codes[day - 1]),
+      ...(last
+        ? [member.work, member.hold, member.drop, member.start, member.finish, member.total].map(n => (n ? String(n) : ''))
+        : []),
+    ]),
+    widths: [0.6, 3, ...days.map(() => 0.75), ...totals.map(() => 0.9)],
+  };
+}
+
+/** RFC 4180: quote fields holding commas, quotes or line breaks */
+export function toCSV(rows: string[][]): string {
+  const field = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+  return rows.map(row => row.map(field).join(',')).join('\r\n') + '\r\n';
+}
+
+export class ReportExporter {
+  static toCSV(report: ProductionReport, kind: ReportKind): string {
+    const { columns, rows } = reportTable(report, kind);
+    return toCSV([columns, ...rows]);
+  }
+
+  static async exportCSV(report: ProductionReport, kind: ReportKind, outputPath: string): Promise<void> {
+    // BOM so spreadsheet apps read accented names as UTF-8
+    await fs.promises.writeFile(outputPath, '\uFEFF' + this.toCSV(report, kind), 'utf-8');
+  }
+
+  static async exportPDF(report: ProductionReport, kind: ReportKind, outputPath: string, scriptTitle = ''): Promise<void> {
+    return new Promise((resolve, reject) => {
+      try {
+        const doc = new PDFDocument({
+          size: 'LETTER',
+          layout: kind === 'breakdown' ? 'portrait' : 'landscape',
+          margin: PAGE_MARGIN,
+          autoFirstPage: false,
+        });
+        const stream = fs.createWriteStream(outputPath);
+        doc.pipe(stream);
+
+        if (kind === 'breakdown') {
+          for (const scene of report.scenes) this.renderSheet(doc, scene, scriptTitle);
+          if (report.scenes.length === 0) this.renderHeader(doc, REPORT_TITLES[kind], scriptTitle);
+        } else {
+          this.renderTable(doc, reportTable(report, kind), REPORT_TITLES[kind], scriptTitle);
+        }
+
+        doc.end();
+        stream.on('finish', () => resolve());
+        stream.on('error', reject);
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  static async exportDOODCSV(dood: DayOutOfDays, outputPath: string): Promise<void> {
+    const { columns, rows } = doodTable(dood);
+    await fs.promises.writeFile(outputPath, '\uFEFF' + toCSV([columns, ...rows]), 'utf-8');
+  }
+
+  static async exportDOODPDF(dood: DayOutOfDays, outputPath: string, scriptTitle = ''): Promise<void> {
+    return new Promise((resolve, reject) => {
+      try {
+        const doc = new PDFDocument({ size: 'LETTER', layout: 'landscape', margin: PAGE_MARGIN, autoFirstPage: false });
+        const stream = fs.createWriteStream(outputPath);
+        doc.pipe(stream);
+
+        const title = 'Day Out of Days';
+        for (let first = 1; first <= Math.max(dood.days, 1); first += DOOD_DAYS_PER_PAGE) {
+          this.renderTable(doc, doodTable(dood, first, Math.min(first + DOOD_DAYS_PER_PAGE - 1, dood.days)), title, scriptTitle);
+        }
+        // Legend in the bottom margin, without pdfkit breaking to a new page for it
+        doc.page.margins.bottom = 0;
+        doc.font('Helvetica').fontSize(7).fillColor('#555555')
+          .text(DOOD_LEGEND, PAGE_MARGIN, doc.page.height - PAGE_MARGIN + 12, { lineBreak: false })
+          .fillColor('#000000');
+
+        doc.end();
+        stream.on('finish', () => resolve());
+        stream.on('error', reject);
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  /** New page with the report title; returns the y to continue from */
+  private static renderHeader(doc: PDFKit.PDFDocument, title: string, scriptTitle: string): number {
+    doc.addPage();
+    doc.font('Helvetica-Bold').fontSize(14).text(title.toUpperCase(), PAGE_MARGIN, PAGE_MARGIN);
+    if (scriptTitle) {
+      doc.font('Helvetica').fontSize(10).text(scriptTitle, PAGE_MARGIN, PAGE_MARGIN + 18);
+    }
+    return PAGE_MARGIN + 40;
+  }
+
+  private static renderTable(doc: PDFKit.PDFDocument, table: ReportTable, title: string, scriptTitle: string): void {
+    const pageBottom = () => doc.page.height - PAGE_MARGIN;
+    const usable = () => doc.page.width - PAGE_MARGIN * 2;
+    const weight = table.widths.reduce((sum, w) => sum + w, 0);
+
+    const drawRow = (cells: string[], y: number, bold: boolean): number => {
+      const widths = table.widths.map(w => (w / weight) * usable());
+      doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(FONT_SIZE);
+      const height = Math.max(...cells.map((cell, i) => doc.heightOfString(cell || ' ', { width: widths[i] - CELL_PADDING * 2 })));
+      let x = PAGE_MARGIN;
+      cells.forEach((cell, i) => {
+        doc.text(cell, x + CELL_PADDING, y + CELL_PADDING, { width: widths[i] - CELL_PADDING * 2 });
+        x += widths[i];
+      });
+      const bottom = y + height + CELL_PADDING * 2;
+      doc.moveTo(PAGE_MARGIN, bottom).lineTo(PAGE_MARGIN + usable(), bottom).lineWidth(0.5).strokeColor('#cccccc').stroke();
+      return bottom;
+    };
+
+    let y = drawRow(table.columns, this.renderHeader(doc, title, scriptTitle), true);
+    for (const row of table.rows) {
+      doc.font('Helvetica').fontSize(FONT_SIZE);
+      const widths = table.widths.map(w => (w / weight) * usable());
+      const height = Math.max(...row.map((cell, i) => doc.heightOfString(cell || ' ', { width: widths[i] - CELL_PADDING * 2 })));
+      // Start a new page, repeating the column headings, when the row won't fit
+      if (y + height + CELL_PADDING * 2 > pageBottom()) {
+        y = drawRow(table.columns, this.renderHeader(doc, title, scriptTitle), true);
+      }
+      y = drawRow(row, y, false);
+    }
+  }
+
+  /** One breakdown sheet: scene details, then a box per category */
+  private static renderSheet(doc: PDFKit.PDFDocument, scene: SceneReport, scriptTitle: string): void {
+    let y = this.renderHeader(doc, 'Breakdown Sheet', scriptTitle);
+    const width = doc.page.width - PAGE_MARGIN * 2;
+
+    const details = [
+      ['Scene', scene.sceneNumber],
+      ['Page', scene.page],
+      ['INT/EXT', scene.setting || '-'],
+      ['Time', scene.timeOfDay || '-'],
+      ['Length', `${formatEighths(scene.eighths)} pgs`],
+    ];
+    const cell = width / details.length;
+    details.forEach(([label, value], i) => {
+      const x = PAGE_MARGIN + i * cell;
+      doc.rect(x, y, cell, 32).lineWidth(0.75).strokeColor('#000000').stroke();
+      doc.font('Helvetica').fontSize(7).fillColor('#555555').text(label.toUpperCase(), x + 4, y + 4, { width: cell - 8 });
+      doc.font('Helvetica-Bold').fontSize(11).fillColor('#000000').text(value, x + 4, y + 15, { width: cell - 8 });
+    });
+    y += 44;
+    doc.font('Helvetica-Bold').fontSize(11).text(scene.heading, PAGE_MARGIN, y, { width });
+    y += doc.heightOfString(scene.heading, { width }) + BOX_GAP;
+
+    if (scene.categories.length === 0) {
+      doc.font('Helvetica').fontSize(FONT_SIZE).fillColor('#555555').text('No elements tagged.', PAGE_MARGIN, y);
+      doc.fillColor('#000000');
+      return;
+    }
+
+    // Two columns of boxes, each box going under the shorter column
+    const boxWidth = (width - BOX_GAP) / 2;
+    const columns = [y, y];
+    for (const { category, names } of scene.categories) {
+      const info = categoryInfo(category);
+      const body = names.join('\n');
+      doc.font('Helvetica').fontSize(FONT_SIZE);
+      const height = 18 + doc.heightOfString(body, { width: boxWidth - 12 }) + 8;
+
+      let column = columns[0] <= columns[1] ? 0 : 1;
+      if (columns[column] + height > doc.page.height - PAGE_MARGIN) {
+        y = this.renderHeader(doc, 'Breakdown Sheet (continued)', scriptTitle);
+        columns[0] = columns[1] = y;
+        column = 0;
+      }
+      const x = PAGE_MARGIN + column * (boxWidth + BOX_GAP);
+      const top = columns[column];
+
+      doc.rect(x, top, boxWidth, 14).fillOpacity(0.25).fill(info.color).fillOpacity(1);
+      doc.rect(x, top, boxWidth, height).lineWidth(0.75).strokeColor('#000000').stroke();
+      doc.font('Helvetica-Bold').fontSize(8).fillColor('#000000').text(info.label.toUpperCase(), x + 6, top + 4, { width: boxWidth - 12 });
+      doc.font('Helvetica').fontSize(FONT_SIZE).text(body, x + 6, top + 18, { width: boxWidth - 12 });
+      columns[column] = top + height + BOX_GAP;
+    }
+  }
+}
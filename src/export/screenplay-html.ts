@@ -0,0 +1,209 @@
+import type { TitlePage } from '../shared/types';
+import {
+  characterNameFromCue,
+  dualDialogueEnd,
+  isPrintable,
+  type FountainDocument,
+  type FountainNode,
+} from '../screenplay/fountain-ast';
+import { DUAL_LAYOUT, ELEMENT_LAYOUT, PAGE_WIDTH_CHARS } from '../screenplay/pagination';
+import { parseEmphasis } from '../screenplay/emphasis';
+import { isTitlePageEmpty, layoutTitlePage } from '../screenplay/title-page';
+import type { Actor } from '../screenplay/actor-script';
+
+/**
+ * Screenplay HTML
+ *
+ * Markup and CSS shared by the HTML and EPUB reading copies. Output is
+ * well-formed XHTML so EPUB can use it unchanged. Indents and widths come
+ * from the pagination layout in `ch`, so a monospace font reproduces the
+ * printed page.
+ */
+
+export interface ScreenplayHtmlOptions {
+  /** Show scene numbers beside headings. Scripts with "#12#" numbers always show them. */
+  sceneNumbers?: boolean;
+  /** Characters whose dialogue is marked as theirs, for actor scripts */
+  actors?: Actor[];
+}
+
+export interface SceneAnchor {
+  id: string;
+  number: string;
+  heading: string;
+}
+
+const LINE = 1.2;
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/** Fountain emphasis as <strong>, <em> and underline spans */
+function inlineHtml(text: string): string {
+  return parseEmphasis(text)
+    .map(run => {
+      let html = escapeHtml(run.text);
+      if (run.underline) html = `<span class="underline">${html}</span>`;
+      if (run.italic) html = `<em>${html}</em>`;
+      if (run.bold) html = `<strong>${html}</strong>`;
+      return html;
+    })
+    .join('');
+}
+
+function elementCss(): string {
+  const rules: string[] = [];
+  for (const [type, layout] of Object.entries(ELEMENT_LAYOUT)) {
+    rules.push(
+      `.screenplay .${type} { margin: ${layout.spaceBefore * LINE}em 0 0 ${layout.indent}ch; `
+      + `max-width: ${layout.width}ch; text-align: ${layout.align}; }`
+    );
+  }
+  for (const [type, layout] of Object.entries(DUAL_LAYOUT)) {
+    rules.push(`.screenplay .dual .${type} { margin-left: ${layout.indent}ch; max-width: ${layout.width}ch; }`);
+  }
+  return rules.join('\n');
+}
+
+export const SCREENPLAY_CSS = `
+.screenplay, .title-page {
+  font-family: "Courier Prime", "Courier New", Courier, monospace;
+  font-size: 12pt;
+  line-height: ${LINE};
+  max-width: ${PAGE_WIDTH_CHARS}ch;
+  margin: 0 auto;
+  padding: 0 7ch;
+}
+.screenplay p, .screenplay h2 { font-size: 1em; font-weight: normal; white-space: pre-wrap; }
+${elementCss()}
+.screenplay .scene-heading { position: relative; font-weight: bold; }
+.screenplay .lyrics { font-style: italic; }
+.screenplay .join { margin-top: 0; }
+.screenplay .scene-number { position: absolute; left: -6ch; font-weight: normal; }
+.screenplay .scene-number.right { left: auto; right: -6ch; }
+.screenplay .dual { display: flex; gap: 4ch; margin-top: ${LINE}em; }
+.screenplay .dual .dialogue-block { flex: 1; }
+.screenplay .dual .character { margin-top: 0; }
+.screenplay .page-break { border: none; border-top: 1px dashed #bbb; margin: 2em 0; }
+.screenplay .actor-line { background: #fff176; }
+.underline { text-decoration: underline; }
+.title-page { min-height: 60vh; display: flex; flex-direction: column; justify-content: space-between; padding-top: 20vh; }
+.title-page p { margin: 0; white-space: pre-wrap; }
+.title-page .center { text-align: center; }
+.title-page .corners { display: flex; justify-content: space-between; margin-top: 6em; }
+.title-page .right { text-align: right; }
+`;
+
+/** Stack layout lines, keeping blank rows between them as empty lines */
+function linesWithGaps(lines: { text: string; row: number }[]): string {
+  const html: string[] = [];
+  lines.forEach((line, i) => {
+    const gap = i > 0 ? line.row - lines[i - 1].row - 1 : 0;
+    for (let n = 0; n < gap; n++) html.push('<p>&#160;</p>');
+    html.push(`<p>${escapeHtml(line.text)}</p>`);
+  });
+  return html.join('\n');
+}
+
+/**
+ * Title page markup, or '' when the script has none. Uses the shared title
+ * page layout for what goes where.
+ */
+export function titlePageHtml(titlePage: TitlePage): string {
+  if (isTitlePageEmpty(titlePage)) return '';
+  const layout = layoutTitlePage(titlePage);
+  const block = (align: 'center' | 'left' | 'right') => linesWithGaps(layout.filter(line => line.align === align));
+
+  return [
+    '<section class="title-page">',
+    `<div class="center">\n${block('center')}\n</div>`,
+    `<div class="corners"><div class="left">\n${block('left')}\n</div><div class="right">\n${block('right')}\n</div></div>`,
+    '</section>',
+  ].join('\n');
+}
+
+export function sceneAnchors(doc: FountainDocument): SceneAnchor[] {
+  return doc.scenes.map(scene => ({ id: `scene-${scene.number}`, number: scene.sceneNumber, heading: scene.heading }));
+}
+
+function elementHtml(node: FountainNode, join: boolean): string {
+  const classes = [node.type, join ? 'join' : ''].filter(Boolean).join(' ');
+  return `<p class="${classes}">${inlineHtml(node.text)}</p>`;
+}
+
+/** Character cue plus the parentheticals and dialogue under it */
+function dialogueBlockHtml(nodes: FountainNode[], actorNames: Set<string>): string {
+  if (nodes.length === 0) return '';
+  const name = characterNameFromCue(nodes[0].text);
+  const inner = nodes.map((node, i) => elementHtml(node, i > 0)).join('');
+  const classes = actorNames.has(name.toUpperCase()) ? 'dialogue-block actor-line' : 'dialogue-block';
+  return `<div class="${classes}" data-character="${escapeHtml(name)}">${inner}</div>`;
+}
+
+const DIALOGUE_TYPES = new Set(['parenthetical', 'dialogue', 'lyrics']);
+
+/**
+ * The screenplay body: one element per printed line of Fountain, dialogue
+ * grouped by speaker so it can be highlighted, headings anchored as
+ * "scene-N" for the scene index
+ */
+export function screenplayBodyHtml(doc: FountainDocument, options: ScreenplayHtmlOptions = {}): string {
+  const numbered = options.sceneNumbers || doc.nodes.some(node => node.sceneNumber);
+  const actorNames = new Set((options.actors ?? []).flatMap(actor => [actor.name, ...(actor.aliases ?? [])]).map(name => name.toUpperCase()));
+  const html: string[] = [];
+  let startsBlock = true;
+
+  for (let i = 0; i < doc.nodes.length; i++) {
+    const node = doc.nodes[i];
+    if (node.type === 'blank') {
+      startsBlock = true;
+      continue;
+    }
+    if (!isPrintable(node)) continue;
+
+    if (node.type === 'page-break') {
+      html.push('<hr class="page-break"/>');
+      startsBlock = true;
+      continue;
+    }
+
+    if (node.type === 'scene-heading' && node.sceneIndex !== undefined) {
+      const scene = doc.scenes[node.sceneIndex];
+      const number = numbered ? escapeHtml(scene.sceneNumber) : '';
+      html.push(
+        `<h2 class="scene-heading" id="scene-${scene.number}">`
+        + (number ? `<span class="scene-number">${number}</span>` : '')
+        + inlineHtml(node.text)
+        + (number ? `<span class="scene-number right">${number}</span>` : '')
+        + '</h2>'
+      );
+    } else if (node.type === 'character') {
+      if (node.dual === 'left') {
+        const end = dualDialogueEnd(doc.nodes, i);
+        const pair = doc.nodes.slice(i, end + 1).filter(n => n.type !== 'blank' && isPrintable(n));
+        html.push(
+          '<div class="dual">'
+          + dialogueBlockHtml(pair.filter(n => n.dual === 'left'), actorNames)
+          + dialogueBlockHtml(pair.filter(n => n.dual === 'right'), actorNames)
+          + '</div>'
+        );
+        i = end;
+      } else {
+        let end = i;
+        while (end + 1 < doc.nodes.length && DIALOGUE_TYPES.has(doc.nodes[end + 1].type)) end++;
+        html.push(dialogueBlockHtml(doc.nodes.slice(i, end + 1), actorNames));
+        i = end;
+      }
+    } else {
+      html.push(elementHtml(node, !startsBlock));
+    }
+    startsBlock = false;
+  }
+
+  return html.join('\n');
+}
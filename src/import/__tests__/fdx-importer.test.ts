@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { FDXImporter } from '../fdx-importer';
+import { parseFountain, getTitlePageValue } from '../../screenplay/fountain-ast';
+
+const paragraph = (type: string, text: string, attributes = '') =>
+  `<Paragraph Type="${type}"${attributes}><Text>${text}</Text></Paragraph>`;
+
+function fdx(body: string, titlePage = ''): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="no" ?>
+<FinalDraft DocumentType="Script" Template="No" Version="5">
+  <Content>${body}</Content>
+  ${titlePage}
+</FinalDraft>`;
+}
+
+describe('FDXImporter', () => {
+  it('maps paragraph types onto Fountain elements', () => {
+    const { content } = FDXImporter.toFountain(fdx([
+      paragraph('Scene Heading', 'INT. VAULT - NIGHT', ' Number="12"'),
+      paragraph('Action', 'Alarms blare &amp; lights flash.'),
+      paragraph('Character', 'MAYA'),
+      paragraph('Parenthetical', '(whispering)'),
+      paragraph('Dialogue', 'Keep moving.'),
+      paragraph('Transition', 'CUT TO:'),
+      paragraph('Shot', 'close on the lock'),
+      paragraph('General', 'Silence.'),
+    ].join('')));
+
+    const doc = parseFountain(content);
+    expect(doc.nodes.filter(n => n.type !== 'blank').map(n => `${n.type}: ${n.text}`)).toEqual([
+      'scene-heading: INT. VAULT - NIGHT',
+      'action: Alarms blare & lights flash.',
+      'character: MAYA',
+      'parenthetical: (whispering)',
+      'dialogue: Keep moving.',
+      'transition: CUT TO:',
+      'action: CLOSE ON THE LOCK',
+      'action: Silence.',
+    ]);
+    expect(doc.scenes[0].sceneNumber).toBe('12');
+  });
+
+  it('forces elements Fountain would otherwise misread', () => {
+    const { content } = FDXImporter.toFountain(fdx([
+      paragraph('Scene Heading', 'Flashback'),
+      paragraph('Action', 'BOOM.'),
+      paragraph('Character', 'McCLANE'),
+      paragraph('Dialogue', 'Yippee.'),
+      paragraph('Transition', 'Fade out.'),
+    ].join('')));
+
+    expect(parseFountain(content).nodes.filter(n => n.type !== 'blank').map(n => n.type)).toEqual([
+      'scene-heading', 'action', 'character', 'dialogue', 'transition',
+    ]);
+  });
+
+  it('keeps dual dialogue, styles and page breaks', () => {
+    const { content } = FDXImporter.toFountain(fdx([
+      paragraph('Action', 'Before.'),
+      `<Paragraph><DualDialogue>${[
+        paragraph('Character', 'BRICK'),
+        paragraph('Dialogue', 'Hi.'),
+        paragraph('Character', 'STEEL'),
+        paragraph('Dialogue', 'Hello.'),
+      ].join('')}</DualDialogue></Paragraph>`,
+      '<Paragraph Type="Action" StartsNewPage="Yes"><Text>A </Text><Text Style="Bold+Underline">loud</Text><Text> noise.</Text></Paragraph>',
+    ].join('')));
+
+    expect(content).toContain('STEEL ^');
+    expect(content).toContain('===\n\nA _**loud**_ noise.');
+    const cues = parseFountain(content).nodes.filter(n => n.type === 'character');
+    expect(cues.map(n => n.dual)).toEqual(['left', 'right']);
+  });
+
+  it('reads the title page', () => {
+    const center = (text: string) => `<Paragraph Alignment="Center"><Text>${text}</Text></Paragraph>`;
+    const left = (text: string) => `<Paragraph Alignment="Left"><Text>${text}</Text></Paragraph>`;
+    const result = FDXImporter.toFountain(fdx(
+      paragraph('Action', 'Hello.'),
+      `<TitlePage><Content>${[
+        center('THE HEIST'), center(''), center('Written by'), center('Jane Doe'),
+        left('Second Draft - 1/3/24'), left('jane@example.com'),
+      ].join('')}</Content></TitlePage>`
+    ));
+
+    const doc = parseFountain(result.content);
+    expect(getTitlePageValue(doc, 'title')).toBe('THE HEIST');
+    expect(getTitlePageValue(doc, 'author')).toBe('Jane Doe');
+    expect(getTitlePageValue(doc, 'draft date')).toBe('Second Draft - 1/3/24');
+    expect(getTitlePageValue(doc, 'contact')).toBe('jane@example.com');
+    expect(result).toMatchObject({ title: 'THE HEIST', author: 'Jane Doe' });
+  });
+
+  it('rejects files that are not Final Draft documents', () => {
+    expect(() => FDXImporter.toFountain('<html></html>')).toThrow(/Final Draft/);
+  });
+});
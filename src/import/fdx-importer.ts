@@ -0,0 +1,305 @@
+import fs from 'fs/promises';
+import { classifyLine, SCENE_HEADING_PATTERN } from '../screenplay/fountain-ast';
+import { withSceneNumber } from '../screenplay/scene-numbers';
+import { formatTitlePageFields } from '../screenplay/title-page';
+
+/**
+ * Final Draft (.fdx) import: converts FDX paragraphs, dual dialogue, scene
+ * numbers and the title page into Fountain. Anything the Fountain parser
+ * would read differently is written with a forcing prefix (".", "@", "!", ">").
+ */
+
+export interface FDXImportResult {
+  /** Fountain text, including a title page when the FDX had one */
+  content: string;
+  title?: string;
+  author?: string;
+}
+
+interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+}
+
+type XmlNode = XmlElement | string;
+
+const XML_TOKEN_PATTERN =
+  /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<\/([^\s>]+)\s*>|<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+const XML_ATTRIBUTE_PATTERN = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return XML_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Minimal XML reader for FDX files: elements, attributes, text and CDATA
+ */
+function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [] };
+  const stack: XmlElement[] = [root];
+
+  for (const match of xml.matchAll(XML_TOKEN_PATTERN)) {
+    const [, cdata, closing, opening, attributeText, selfClosing, text] = match;
+    const parent = stack[stack.length - 1];
+
+    if (cdata !== undefined) {
+      parent.children.push(cdata);
+    } else if (closing) {
+      // Tolerate stray closing tags by unwinding to the matching element
+      const index = stack.map(el => el.name).lastIndexOf(closing);
+      if (index > 0) stack.length = index;
+    } else if (opening) {
+      const attributes: Record<string, string> = {};
+      for (const attr of (attributeText || '').matchAll(XML_ATTRIBUTE_PATTERN)) {
+        attributes[attr[1]] = decodeEntities(attr[2] ?? attr[3] ?? '');
+      }
+      const element: XmlElement = { name: opening, attributes, children: [] };
+      parent.children.push(element);
+      if (!selfClosing) stack.push(element);
+    } else if (text !== undefined) {
+      parent.children.push(decodeEntities(text));
+    }
+  }
+
+  return root;
+}
+
+function elements(parent: XmlElement, name: string): XmlElement[] {
+  return parent.children.filter((node): node is XmlElement => typeof node !== 'string' && node.name === name);
+}
+
+function element(parent: XmlElement | undefined, name: string): XmlElement | undefined {
+  return parent ? elements(parent, name)[0] : undefined;
+}
+
+function innerText(el: XmlElement): string {
+  return el.children.map(node => (typeof node === 'string' ? node : innerText(node))).join('');
+}
+
+/** Wrap styled text in Fountain emphasis, leaving surrounding spaces outside the markers */
+function emphasize(text: string, style: string): string {
+  const styles = style.split('+');
+  let marker = '';
+  if (styles.includes('Underline')) marker += '_';
+  if (styles.includes('Bold')) marker += '**';
+  if (styles.includes('Italic')) marker += '*';
+  if (!marker || !text.trim()) return text;
+
+  const [, lead, core, trail] = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  const closing = marker.split('').reverse().join('');
+  return `${lead}${marker}${core}${closing}${trail}`;
+}
+
+/**
+ * Text of a paragraph's <Text> runs, optionally with Fountain emphasis
+ */
+function paragraphText(paragraph: XmlElement, withStyles: boolean): string {
+  return elements(paragraph, 'Text')
+    .map(run => {
+      const text = innerText(run).replace(/\t/g, ' ');
+      return withStyles && run.attributes.Style ? emphasize(text, run.attributes.Style) : text;
+    })
+    .join('')
+    .replace(/\r\n?/g, '\n')
+    .trim();
+}
+
+/** Paragraph types written as dialogue block lines rather than blocks of their own */
+const DIALOGUE_PARAGRAPHS = new Set(['Dialogue', 'Parenthetical']);
+
+class FountainWriter {
+  private blocks: string[][] = [];
+  private inDialogue = false;
+  private pendingPageBreak = false;
+
+  pageBreak(): void {
+    this.pendingPageBreak = true;
+  }
+
+  paragraph(paragraph: XmlElement, dual?: 'left' | 'right'): void {
+    const type = paragraph.attributes.Type || 'Action';
+    if (paragraph.attributes.StartsNewPage === 'Yes') this.pageBreak();
+
+    if (DIALOGUE_PARAGRAPHS.has(type) && this.inDialogue) {
+      const text = paragraphText(paragraph, true);
+      if (!text) return;
+      const line = type === 'Parenthetical' && !text.startsWith('(') ? `(${text})` : text;
+      // Blank lines inside a speech need two spaces to stay in the block
+      this.blocks[this.blocks.length - 1].push(...line.split('\n').map(l => (l.trim() ? l : '  ')));
+      return;
+    }
+
+    const text = paragraphText(paragraph, type !== 'Scene Heading' && type !== 'Character' && type !== 'Transition');
+    if (!text) return;
+    this.inDialogue = false;
+
+    switch (type) {
+      case 'Scene Heading': {
+        const heading = text.replace(/\s+/g, ' ').toUpperCase();
+        const line = SCENE_HEADING_PATTERN.test(heading) ? heading : `.${heading}`;
+        const number = paragraph.attributes.Number?.trim();
+        this.push([number ? withSceneNumber(line, number) : line]);
+        break;
+      }
+      case 'Character': {
+        const cue = text.replace(/\s+/g, ' ');
+        const forced = classifyLine(cue, { inDialogue: false, previousBlank: true, nextBlank: false }).type !== 'character';
+        this.push([`${forced ? '@' : ''}${cue}${dual === 'right' ? ' ^' : ''}`]);
+        this.inDialogue = true;
+        break;
+      }
+      case 'Transition': {
+        const transition = text.toUpperCase();
+        const natural = classifyLine(transition, { inDialogue: false, previousBlank: true, nextBlank: true }).type === 'transition';
+        this.push([natural ? transition : `>${transition}`]);
+        break;
+      }
+      case 'Dialogue':
+      case 'Parenthetical':
+        // Dialogue without a cue has nowhere to go but action
+        this.action(text);
+        break;
+      case 'Shot':
+        this.action(text.toUpperCase());
+        break;
+      default:
+        // Action, General and anything Fountain has no element for
+        if (paragraph.attributes.Alignment === 'Center') {
+          this.push(text.split('\n').map(line => `>${line.trim()}<`));
+        } else {
+          this.action(text);
+        }
+    }
+  }
+
+  toString(): string {
+    return this.blocks.map(block => block.join('\n')).join('\n\n');
+  }
+
+  private action(text: string): void {
+    const lines = text.split('\n');
+    const classified = classifyLine(lines[0], {
+      inDialogue: false,
+      previousBlank: true,
+      nextBlank: lines.length === 1,
+    });
+    if (classified.type !== 'action' || /^[!@~=#.>]|^\[\[/.test(lines[0].trim())) {
+      lines[0] = `!${lines[0]}`;
+    }
+    this.push(lines);
+  }
+
+  private push(lines: string[]): void {
+    if (this.pendingPageBreak && this.blocks.length > 0) {
+      this.blocks.push(['===']);
+    }
+    this.pendingPageBreak = false;
+    this.blocks.push(lines);
+  }
+}
+
+const CREDIT_PATTERN = /^(written by|screenplay by|teleplay by|story by|script by|by)$/i;
+const SOURCE_PATTERN = /^(based on|adapted from)\b/i;
+const DATE_PATTERN =
+  /draft|\b\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}\b|\b(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?\s+\d{1,2}|\b\d{4}\b/i;
+
+/**
+ * Final Draft title pages are free-form paragraphs. Read them the way a
+ * person would: the first centered line is the title, "Written by" is the
+ * credit with the author(s) under it, and the left/right-aligned block at
+ * the bottom holds the draft date and contact details.
+ */
+function readTitlePage(finalDraft: XmlElement): { key: string; value: string }[] {
+  const content = element(element(finalDraft, 'TitlePage'), 'Content');
+  if (!content) return [];
+
+  const lines = elements(content, 'Paragraph')
+    .map(p => ({ text: paragraphText(p, false), centered: p.attributes.Alignment === 'Center' }))
+    .filter(line => line.text);
+  if (lines.length === 0) return [];
+
+  const fields: { key: string; value: string }[] = [];
+  const used = new Set<number>();
+  const add = (key: string, indices: number[]) => {
+    if (indices.length === 0) return;
+    indices.forEach(i => used.add(i));
+    fields.push({ key, value: indices.map(i => lines[i].text).join('\n') });
+  };
+
+  const titleIndex = Math.max(0, lines.findIndex(line => line.centered));
+  const creditIndex = lines.findIndex((line, i) => i > titleIndex && CREDIT_PATTERN.test(line.text));
+  const titleEnd = creditIndex > titleIndex ? creditIndex : titleIndex + 1;
+  add('Title', range(titleIndex, titleEnd).filter(i => i === titleIndex || lines[i].centered));
+
+  if (creditIndex > titleIndex) {
+    add('Credit', [creditIndex]);
+    const authors: number[] = [];
+    for (let i = creditIndex + 1; i < lines.length && lines[i].centered && !SOURCE_PATTERN.test(lines[i].text); i++) {
+      authors.push(i);
+    }
+    add('Author', authors);
+  }
+
+  const sourceIndex = lines.findIndex((line, i) => !used.has(i) && SOURCE_PATTERN.test(line.text));
+  if (sourceIndex >= 0) add('Source', [sourceIndex]);
+
+  const rest = range(0, lines.length).filter(i => !used.has(i));
+  const dateIndex = rest.find(i => DATE_PATTERN.test(lines[i].text) && lines[i].text.length < 40);
+  if (dateIndex !== undefined) add('Draft date', [dateIndex]);
+  add('Contact', rest.filter(i => i !== dateIndex));
+
+  return fields;
+}
+
+function range(start: number, end: number): number[] {
+  return Array.from({ length: Math.max(0, end - start) }, (_, i) => start + i);
+}
+
+export class FDXImporter {
+  static async import(fdxPath: string): Promise<FDXImportResult> {
+    const xml = await fs.readFile(fdxPath, 'utf-8');
+    return this.toFountain(xml);
+  }
+
+  static toFountain(xml: string): FDXImportResult {
+    const finalDraft = element(parseXml(xml), 'FinalDraft');
+    const content = element(finalDraft, 'Content');
+    if (!finalDraft || !content) {
+      throw new Error('Not a Final Draft document: missing <FinalDraft><Content>');
+    }
+
+    const writer = new FountainWriter();
+    for (const paragraph of elements(content, 'Paragraph')) {
+      const dual = element(paragraph, 'DualDialogue');
+      if (dual) {
+        if (paragraph.attributes.StartsNewPage === 'Yes') writer.pageBreak();
+        let cues = 0;
+        for (const inner of elements(dual, 'Paragraph')) {
+          if (inner.attributes.Type === 'Character') cues++;
+          writer.paragraph(inner, cues > 1 ? 'right' : 'left');
+        }
+        continue;
+      }
+      writer.paragraph(paragraph);
+    }
+
+    const fields = readTitlePage(finalDraft);
+    const body = writer.toString();
+    const titlePage = formatTitlePageFields(fields);
+
+    return {
+      content: `${titlePage ? `${titlePage}\n\n===\n\n` : ''}${body}\n`,
+      title: fields.find(field => field.key === 'Title')?.value.replace(/\n/g, ' '),
+      author: fields.find(field => field.key === 'Author')?.value.replace(/\n/g, ', '),
+    };
+  }
+}
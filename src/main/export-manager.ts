@@ -1,11 +1,39 @@
 import fs from 'fs';
 import type { Scene, Character } from '../shared/types';
+import { parseFountain, isPrintable } from '../screenplay/fountain-ast';
+import { withSceneNumber } from '../screenplay/scene-numbers';
+import { emptyTitlePage, isTitlePageEmpty, readTitlePage, renderTitlePageText } from '../screenplay/title-page';
+import { FDXExporter, type FDXExportOptions } from '../export/fdx-exporter';
+import type { DistributionCopy, DistributionOptions, PDFExportOptions } from '../export/pdf-exporter';
+import type { DOCXExportOptions } from '../export/docx-exporter';
+import type { SidesOptions } from '../screenplay/sides';
+import { HTMLExporter, type HTMLExportOptions } from '../export/html-exporter';
+import { EPUBExporter, type EPUBExportOptions } from '../export/epub-exporter';
+import type { ReportKind } from '../export/report-exporter';
+import { buildProductionReport, type ProductionReportOptions } from '../screenplay/production-reports';
+import { buildDayOutOfDays } from '../screenplay/dood';
+import type { BreakdownElement, ScheduleItem } from '../shared/types';
 
 export interface ExportOptions {
   title?: string;
   author?: string;
   includeSceneNumbers?: boolean;
   includeCharacterList?: boolean;
+  pdf?: PDFExportOptions;
+  fdx?: FDXExportOptions;
+  docx?: DOCXExportOptions;
+  html?: HTMLExportOptions;
+  epub?: EPUBExportOptions;
+  sides?: SidesOptions;
+  report?: ReportOptions;
+}
+
+export interface ReportOptions extends ProductionReportOptions {
+  kind: ReportKind | 'dood';
+  format: 'csv' | 'pdf';
+  breakdown?: BreakdownElement[];
+  /** Shooting schedule, for the day out of days */
+  schedule?: ScheduleItem[];
 }
 
 export class ExportManager {
@@ -37,11 +65,12 @@ export class ExportManager {
     
     // Write each scene
     for (const scene of sortedScenes) {
-      // Scene heading (must be uppercase, start with INT./EXT.)
-      if (options.includeSceneNumbers && scene.number) {
-        content += `#${scene.number}#\n`;
-      }
-      content += `${scene.heading.toUpperCase()}\n\n`;
+      // Scene heading (must be uppercase, start with INT./EXT.); numbers go
+      // at the end of the heading, "INT. HOUSE - DAY #12#"
+      const heading = scene.heading.toUpperCase();
+      const number = scene.sceneNumber || (scene.number ? String(scene.number) : '');
+      content += options.includeSceneNumbers && number ? withSceneNumber(heading, number) : heading;
+      content += '\n\n';
       
       // Scene content
       if (scene.content) {
@@ -66,14 +95,10 @@ export class ExportManager {
   ): Promise<void> {
     let content = '';
     
-    // Title
+    // Title page on its own sheet
     if (options.title) {
-      content += `${options.title.toUpperCase()}\n`;
-      content += '='.repeat(options.title.length) + '\n';
-      if (options.author) {
-        content += `by ${options.author}\n`;
-      }
-      content += '\n\n';
+      const titlePage = { ...emptyTitlePage(), title: options.title, authors: options.author || '' };
+      content += renderTitlePageText(titlePage).join('\n') + '\n\f\n';
     }
     
     // Character list if requested
@@ -96,13 +121,13 @@ export class ExportManager {
     // Write scenes
     for (const scene of sortedScenes) {
       if (options.includeSceneNumbers && scene.number) {
-        content += `Scene ${scene.number}: `;
+        content += `Scene ${scene.sceneNumber || scene.number}: `;
       }
       content += `${scene.heading}\n`;
       content += '-'.repeat(40) + '\n\n';
       
       if (scene.content) {
-        content += scene.content;
+        content += this.toPrintableLines(scene.content).join('\n');
         content += '\n\n';
       }
     }
@@ -113,69 +138,36 @@ export class ExportManager {
 
   /**
    * Export to Final Draft XML format (.fdx)
+   * Scenes are reassembled into Fountain; summaries and the cast list come
+   * from the database rows passed in
    */
   async exportToFinalDraft(
     scenes: Scene[],
-    _characters: Character[],
+    characters: Character[],
     outputPath: string,
     options: ExportOptions = {}
   ): Promise<void> {
-    // FDX is XML-based format
-    let xml = '<?xml version="1.0" encoding="UTF-8"?>\n';
-    xml += '<FinalDraft DocumentType="Script" Template="No" Version="1">\n';
-    
-    // Document content
-    xml += '  <Content>\n';
-    
-    // Title page
-    if (options.title) {
-      xml += '    <Paragraph Type="Scene Heading">\n';
-      xml += `      <Text>${this.escapeXml(options.title.toUpperCase())}</Text>\n`;
-      xml += '    </Paragraph>\n';
-    }
-    
-    // Sort scenes
     const sortedScenes = [...scenes].sort((a, b) => (a.order || a.number) - (b.order || b.number));
-    
-    for (const scene of sortedScenes) {
-      // Scene heading
-      xml += '    <Paragraph Type="Scene Heading">\n';
-      xml += `      <Text>${this.escapeXml(scene.heading.toUpperCase())}</Text>\n`;
-      xml += '    </Paragraph>\n';
-      
-      // Parse scene content into FDX paragraphs
-      if (scene.content) {
-        const paragraphs = this.parseContentToParagraphs(scene.content);
-        for (const para of paragraphs) {
-          xml += `    <Paragraph Type="${para.type}">\n`;
-          xml += `      <Text>${this.escapeXml(para.text)}</Text>\n`;
-          xml += '    </Paragraph>\n';
-        }
-      }
-    }
-    
-    xml += '  </Content>\n';
-    
-    // Title page info
-    xml += '  <TitlePage>\n';
-    if (options.title) {
-      xml += `    <Content><Paragraph><Text>${this.escapeXml(options.title)}</Text></Paragraph></Content>\n`;
-    }
-    if (options.author) {
-      xml += `    <Content><Paragraph><Text>Written by</Text></Paragraph></Content>\n`;
-      xml += `    <Content><Paragraph><Text>${this.escapeXml(options.author)}</Text></Paragraph></Content>\n`;
-    }
-    xml += '  </TitlePage>\n';
-    
-    xml += '</FinalDraft>\n';
-    
-    fs.writeFileSync(outputPath, xml, 'utf8');
+    // Stored numbers are written into the headings so they survive reparsing
+    const content = sortedScenes
+      .map(scene => {
+        const heading = scene.heading.toUpperCase();
+        return `${scene.sceneNumber ? withSceneNumber(heading, scene.sceneNumber) : heading}\n\n${scene.content || ''}`.trimEnd();
+      })
+      .join('\n\n');
+
+    await FDXExporter.export(content, outputPath, {
+      title: options.title,
+      author: options.author,
+      scenes,
+      characters,
+    });
     console.log(`[Export] Exported Final Draft to: ${outputPath}`);
   }
 
   /**
    * Export to PDF format
-   * Note: This creates a basic PDF. For production use, consider a proper PDF library.
+   * Scenes are reassembled into Fountain and laid out by the pagination engine
    */
   async exportToPDF(
     scenes: Scene[],
@@ -183,34 +175,27 @@ export class ExportManager {
     outputPath: string,
     options: ExportOptions = {}
   ): Promise<void> {
-    // For now, we'll create a simple PDF using a basic approach
-    // In a real implementation, you'd use pdfkit or similar
-    
-    // Build the content first
     let content = '';
-    
+
     if (options.title) {
-      content += options.title.toUpperCase() + '\n\n';
+      content += `Title: ${options.title}\n`;
       if (options.author) {
-        content += 'Written by\n' + options.author + '\n\n';
+        content += `Author: ${options.author}\n`;
       }
-      content += '\n\n\n';
+      content += '\n';
     }
-    
+
     const sortedScenes = [...scenes].sort((a, b) => (a.order || a.number) - (b.order || b.number));
-    
+
     for (const scene of sortedScenes) {
       content += scene.heading.toUpperCase() + '\n\n';
       if (scene.content) {
         content += scene.content + '\n\n';
       }
     }
-    
-    // Create a simple PDF
-    // This is a minimal PDF structure - for better quality, use pdfkit
-    const pdfContent = this.createSimplePDF(content, options.title || 'Screenplay');
-    
-    fs.writeFileSync(outputPath, pdfContent);
+
+    const { PDFExporter } = await import('../export/pdf-exporter');
+    await PDFExporter.export(content, outputPath, options.pdf);
     console.log(`[Export] Exported PDF to: ${outputPath}`);
   }
 
@@ -222,201 +207,196 @@ export class ExportManager {
     outputPath: string,
     options: ExportOptions = {}
   ): Promise<void> {
-    const pdfContent = this.createSimplePDF(content, options.title || 'Screenplay');
-    fs.writeFileSync(outputPath, pdfContent);
+    const { PDFExporter } = await import('../export/pdf-exporter');
+    await PDFExporter.export(content, outputPath, options.pdf);
     console.log(`[Export] Exported content to PDF: ${outputPath}`);
   }
 
   /**
-   * Export raw screenplay content to Final Draft XML
+   * Export one watermarked PDF per recipient into a folder
    */
-  async exportContentToFinalDraft(
+  async exportDistribution(
+    content: string,
+    outputDir: string,
+    recipients: string[],
+    options: DistributionOptions = {}
+  ): Promise<DistributionCopy[]> {
+    const { PDFExporter } = await import('../export/pdf-exporter');
+    const copies = await PDFExporter.exportDistribution(content, outputDir, recipients, options);
+    console.log(`[Export] Exported ${copies.length} distribution copies to: ${outputDir}`);
+    return copies;
+  }
+
+  /**
+   * Export sides: the pages of the chosen scenes, as numbered in the full script
+   */
+  async exportContentToSides(
     content: string,
     outputPath: string,
     options: ExportOptions = {}
   ): Promise<void> {
-    let xml = '<?xml version="1.0" encoding="UTF-8"?>\n';
-    xml += '<FinalDraft DocumentType="Script" Template="No" Version="1">\n';
-    xml += '  <Content>\n';
+    const { PDFExporter } = await import('../export/pdf-exporter');
+    await PDFExporter.exportSides(content, outputPath, { ...options.pdf, ...options.sides });
+    console.log(`[Export] Exported sides to: ${outputPath}`);
+  }
 
-    // Parse the content into paragraphs
-    const paragraphs = this.parseContentToParagraphs(content);
-    for (const para of paragraphs) {
-      xml += `    <Paragraph Type="${para.type}">\n`;
-      xml += `      <Text>${this.escapeXml(para.text)}</Text>\n`;
-      xml += '    </Paragraph>\n';
+  /**
+   * Export a production report (breakdown sheets, locations, cast, day/night,
+   * day out of days) as CSV or PDF
+   */
+  async exportContentToReport(content: string, outputPath: string, options: ReportOptions): Promise<void> {
+    const { ReportExporter } = await import('../export/report-exporter');
+    const { kind, format, breakdown = [], schedule = [], ...reportOptions } = options;
+    const scriptTitle = readTitlePage(content).title.replace(/\n/g, ' ');
+
+    if (kind === 'dood') {
+      const dood = buildDayOutOfDays(content, schedule, { ...reportOptions, breakdown });
+      if (format === 'csv') {
+        await ReportExporter.exportDOODCSV(dood, outputPath);
+      } else {
+        await ReportExporter.exportDOODPDF(dood, outputPath, scriptTitle);
+      }
+    } else {
+      const report = buildProductionReport(content, breakdown, reportOptions);
+      if (format === 'csv') {
+        await ReportExporter.exportCSV(report, kind, outputPath);
+      } else {
+        await ReportExporter.exportPDF(report, kind, outputPath, scriptTitle);
+      }
     }
+    console.log(`[Export] Exported ${kind} report to: ${outputPath}`);
+  }
 
-    xml += '  </Content>\n';
+  /**
+   * Export to Word (.docx)
+   * Scenes are reassembled into Fountain, as for PDF
+   */
+  async exportToDOCX(
+    scenes: Scene[],
+    _characters: Character[],
+    outputPath: string,
+    options: ExportOptions = {}
+  ): Promise<void> {
+    const content = this.scenesToFountain(scenes);
+    const { DOCXExporter } = await import('../export/docx-exporter');
+    await DOCXExporter.export(content, outputPath, { ...options.docx, title: options.title, author: options.author });
+    console.log(`[Export] Exported DOCX to: ${outputPath}`);
+  }
 
-    // Title page
-    xml += '  <TitlePage>\n';
-    if (options.title) {
-      xml += `    <Content><Paragraph><Text>${this.escapeXml(options.title)}</Text></Paragraph></Content>\n`;
-    }
-    if (options.author) {
-      xml += `    <Content><Paragraph><Text>Written by</Text></Paragraph></Content>\n`;
-      xml += `    <Content><Paragraph><Text>${this.escapeXml(options.author)}</Text></Paragraph></Content>\n`;
-    }
-    xml += '  </TitlePage>\n';
-    xml += '</FinalDraft>\n';
+  /**
+   * Export raw screenplay content to Word (.docx)
+   */
+  async exportContentToDOCX(
+    content: string,
+    outputPath: string,
+    options: ExportOptions = {}
+  ): Promise<void> {
+    const { DOCXExporter } = await import('../export/docx-exporter');
+    await DOCXExporter.export(content, outputPath, { ...options.docx, title: options.title, author: options.author });
+    console.log(`[Export] Exported content to DOCX: ${outputPath}`);
+  }
 
-    fs.writeFileSync(outputPath, xml, 'utf8');
-    console.log(`[Export] Exported content to Final Draft: ${outputPath}`);
+  /**
+   * Export a self-contained HTML reading copy
+   * Scenes are reassembled into Fountain, as for PDF
+   */
+  async exportToHTML(
+    scenes: Scene[],
+    _characters: Character[],
+    outputPath: string,
+    options: ExportOptions = {}
+  ): Promise<void> {
+    const content = this.scenesToFountain(scenes);
+    await HTMLExporter.export(content, outputPath, { ...options.html, title: options.title, author: options.author });
+    console.log(`[Export] Exported HTML to: ${outputPath}`);
   }
 
   /**
-   * Helper: Escape XML special characters
+   * Export raw screenplay content to a self-contained HTML reading copy
    */
-  private escapeXml(text: string): string {
-    return text
-      .replace(/&/g, '&amp;')
-      .replace(/</g, '&lt;')
-      .replace(/>/g, '&gt;')
-      .replace(/"/g, '&quot;')
-      .replace(/'/g, '&apos;');
+  async exportContentToHTML(
+    content: string,
+    outputPath: string,
+    options: ExportOptions = {}
+  ): Promise<void> {
+    await HTMLExporter.export(content, outputPath, { ...options.html, title: options.title, author: options.author });
+    console.log(`[Export] Exported content to HTML: ${outputPath}`);
   }
 
   /**
-   * Helper: Parse screenplay content into paragraph types
+   * Export to EPUB
+   * Scenes are reassembled into Fountain, as for PDF
    */
-  private parseContentToParagraphs(content: string): { type: string; text: string }[] {
-    const paragraphs: { type: string; text: string }[] = [];
-    const lines = content.split('\n');
-    
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim();
-      if (!line) continue;
-      
-      // Detect paragraph type based on Fountain conventions
-      if (line.match(/^(INT\.|EXT\.|INT\/EXT\.|I\/E\.)/i)) {
-        paragraphs.push({ type: 'Scene Heading', text: line });
-      } else if (line.match(/^[A-Z][A-Z\s]+$/)) {
-        // All caps = character name
-        paragraphs.push({ type: 'Character', text: line });
-      } else if (line.startsWith('(') && line.endsWith(')')) {
-        // Parenthetical
-        paragraphs.push({ type: 'Parenthetical', text: line });
-      } else if (line.startsWith('>') || line.endsWith('<')) {
-        // Transition
-        paragraphs.push({ type: 'Transition', text: line.replace(/[><]/g, '').trim() });
-      } else {
-        // Check if previous was character name = this is dialogue
-        const prevPara = paragraphs[paragraphs.length - 1];
-        if (prevPara && (prevPara.type === 'Character' || prevPara.type === 'Parenthetical')) {
-          paragraphs.push({ type: 'Dialogue', text: line });
-        } else {
-          paragraphs.push({ type: 'Action', text: line });
-        }
-      }
-    }
-    
-    return paragraphs;
+  async exportToEPUB(
+    scenes: Scene[],
+    _characters: Character[],
+    outputPath: string,
+    options: ExportOptions = {}
+  ): Promise<void> {
+    const content = this.scenesToFountain(scenes);
+    await EPUBExporter.export(content, outputPath, { ...options.epub, title: options.title, author: options.author });
+    console.log(`[Export] Exported EPUB to: ${outputPath}`);
   }
 
   /**
-   * Create a multi-page PDF
-   * Handles full screenplay export with proper pagination
+   * Export raw screenplay content to EPUB
    */
-  private createSimplePDF(content: string, _title: string): Buffer {
-    const textLines = content.split('\n');
-    const linesPerPage = 55; // Standard screenplay lines per page
-    const totalPages = Math.ceil(textLines.length / linesPerPage);
-    
-    // Build page objects
-    const pageRefs: string[] = [];
-    const pageObjects: string[] = [];
-    const contentObjects: string[] = [];
-    
-    let objNum = 3; // Start after catalog and pages objects
-    
-    for (let page = 0; page < totalPages; page++) {
-      const startLine = page * linesPerPage;
-      const endLine = Math.min(startLine + linesPerPage, textLines.length);
-      const pageLines = textLines.slice(startLine, endLine);
-      
-      // Create content stream for this page
-      let stream = 'BT\n/F1 10 Tf\n72 720 Td\n12 TL\n';
-      
-      for (const line of pageLines) {
-        const escapedLine = line
-          .replace(/\\/g, '\\\\')
-          .replace(/\(/g, '\\(')
-          .replace(/\)/g, '\\)');
-        stream += `(${escapedLine}) Tj T*\n`;
+  async exportContentToEPUB(
+    content: string,
+    outputPath: string,
+    options: ExportOptions = {}
+  ): Promise<void> {
+    await EPUBExporter.export(content, outputPath, { ...options.epub, title: options.title, author: options.author });
+    console.log(`[Export] Exported content to EPUB: ${outputPath}`);
+  }
+
+  /**
+   * Export raw screenplay content to plain text
+   */
+  async exportContentToText(content: string, outputPath: string): Promise<void> {
+    fs.writeFileSync(outputPath, this.toPrintableLines(content).join('\n'), 'utf8');
+    console.log(`[Export] Exported content to Text: ${outputPath}`);
+  }
+
+  /**
+   * Export raw screenplay content to Final Draft XML
+   */
+  async exportContentToFinalDraft(
+    content: string,
+    outputPath: string,
+    options: ExportOptions = {}
+  ): Promise<void> {
+    await FDXExporter.export(content, outputPath, { ...options.fdx, title: options.title, author: options.author });
+    console.log(`[Export] Exported content to Final Draft: ${outputPath}`);
+  }
+
+  /**
+   * Helper: Printed lines for content - title page laid out on its own
+   * sheet, markup removed, non-printing elements dropped and page breaks
+   * written as form feeds
+   */
+  /** Scenes in story order as Fountain: each heading followed by its content */
+  private scenesToFountain(scenes: Scene[]): string {
+    return [...scenes]
+      .sort((a, b) => (a.order || a.number) - (b.order || b.number))
+      .map(scene => `${scene.heading.toUpperCase()}\n\n${scene.content || ''}`.trimEnd())
+      .join('\n\n');
+  }
+
+  private toPrintableLines(content: string): string[] {
+    const doc = parseFountain(content);
+    const titlePage = readTitlePage(doc);
+    const lines: string[] = isTitlePageEmpty(titlePage) ? [] : [...renderTitlePageText(titlePage), '\f'];
+
+    for (const node of doc.nodes) {
+      if (!isPrintable(node)) continue;
+      if (node.type === 'page-break') {
+        lines.push('\f');
+        continue;
       }
-      
-      // Add page number
-      stream += `(Page ${page + 1} of ${totalPages}) Tj\n`;
-      stream += 'ET';
-      
-      const contentObjNum = objNum++;
-      const pageObjNum = objNum++;
-      
-      contentObjects.push(`${contentObjNum} 0 obj\n<< /Length ${stream.length} >>\nstream\n${stream}\nendstream\nendobj\n`);
-      pageObjects.push(`${pageObjNum} 0 obj\n<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents ${contentObjNum} 0 R /Resources << /Font << /F1 ${objNum} 0 R >> >> >>\nendobj\n`);
-      pageRefs.push(`${pageObjNum} 0 R`);
-    }
-    
-    // Font object
-    const fontObjNum = objNum++;
-    const fontObj = `${fontObjNum} 0 obj\n<< /Type /Font /Subtype /Type1 /BaseFont /Courier >>\nendobj\n`;
-    
-    // Build PDF
-    let pdf = '%PDF-1.4\n';
-    const objectOffsets: number[] = [];
-    let currentOffset = pdf.length;
-    
-    // Object 1: Catalog
-    objectOffsets.push(currentOffset);
-    const obj1 = '1 0 obj\n<< /Type /Catalog /Pages 2 0 R >>\nendobj\n';
-    pdf += obj1;
-    currentOffset += obj1.length;
-    
-    // Object 2: Pages (with all page references)
-    objectOffsets.push(currentOffset);
-    const obj2 = `2 0 obj\n<< /Type /Pages /Kids [${pageRefs.join(' ')}] /Count ${totalPages} >>\nendobj\n`;
-    pdf += obj2;
-    currentOffset += obj2.length;
-    
-    // Add all content and page objects
-    for (const contentObj of contentObjects) {
-      objectOffsets.push(currentOffset);
-      pdf += contentObj;
-      currentOffset += contentObj.length;
+      lines.push(node.text);
     }
-    
-    for (const pageObj of pageObjects) {
-      objectOffsets.push(currentOffset);
-      pdf += pageObj;
-      currentOffset += pageObj.length;
-    }
-    
-    // Font object
-    objectOffsets.push(currentOffset);
-    pdf += fontObj;
-    currentOffset += fontObj.length;
-    
-    // Cross-reference table
-    const xrefOffset = currentOffset;
-    const totalObjects = objectOffsets.length + 1;
-    pdf += 'xref\n';
-    pdf += `0 ${totalObjects}\n`;
-    pdf += '0000000000 65535 f \n';
-    for (const offset of objectOffsets) {
-      pdf += offset.toString().padStart(10, '0') + ' 00000 n \n';
-    }
-    
-    // Trailer
-    pdf += 'trailer\n';
-    pdf += `<< /Size ${totalObjects} /Root 1 0 R >>\n`;
-    pdf += 'startxref\n';
-    pdf += xrefOffset + '\n';
-    pdf += '%%EOF';
-    
-    console.log(`[Export] Created PDF with ${totalPages} pages, ${textLines.length} lines`);
-    
-    return Buffer.from(pdf, 'utf8');
+
+    return lines;
   }
 }
-
@@ -4,12 +4,21 @@ import fs from 'fs';
 import { ProjectManager } from './project-manager';
 import { DatabaseManager } from '../database/db-manager';
 import { AIClient } from '../ai/openai-client';
+import { LLMProvider } from '../ai/llm-provider';
+import { normalizeProviderSettings } from '../ai/provider-settings';
 import { FountainParser } from '../screenplay/fountain-parser';
 import { setupAutoUpdater, checkForUpdatesManually } from './auto-updater';
 import { BackupManager } from './backup-manager';
 import { ExportManager } from './export-manager';
 import Store from 'electron-store';
-import type { SystemActions } from '../shared/types';
+import type { AIContext, BreakdownElement, ChangeRecord, DistributionExportOptions, ExportOptions, LLMProviderSettings, ReportExportOptions, ScheduleItem, SidesExportOptions, SystemActions } from '../shared/types';
+import type { PDFExportOptions } from '../export/pdf-exporter';
+import type { FDXExportOptions } from '../export/fdx-exporter';
+import { lockPageStarts } from '../screenplay/revisions';
+import { resolveActors, type Actor } from '../screenplay/actor-script';
+import { parseShootDaysCSV, scheduleFromShootDays } from '../screenplay/dood';
+import { FDXImporter } from '../import/fdx-importer';
+import { v4 as uuidv4 } from 'uuid';
 
 let mainWindow: BrowserWindow | null = null;
 let projectManager: ProjectManager | null = null;
@@ -21,6 +30,59 @@ const store = new Store();
 
 const isDev = process.env.NODE_ENV === 'development' || !app.isPackaged;
 
+// Pagination choices stored with the open project, plus its revision state
+async function getPDFOptions(): Promise<PDFExportOptions> {
+  const options: PDFExportOptions = {};
+  if (projectManager) {
+    const settings = await projectManager.getSettings();
+    options.autoContd = settings.autoContd;
+  }
+  if (dbManager) {
+    options.revisions = await dbManager.getRevisionState();
+  }
+  return options;
+}
+
+// The OpenAI API key, kept encrypted with safeStorage
+function getApiKey(): string {
+  const encryptedKey = store.get('openaiApiKey_encrypted', '') as string;
+  if (!encryptedKey || !safeStorage.isEncryptionAvailable()) return '';
+  try {
+    return safeStorage.decryptString(Buffer.from(encryptedKey, 'base64'));
+  } catch (error) {
+    console.error('[Main] Failed to decrypt API key:', error);
+    return '';
+  }
+}
+
+// The configured model server, or null while AI features can't run
+function getLLMProvider(): LLMProvider | null {
+  const apiKey = getApiKey();
+  const settings = normalizeProviderSettings(store.get('llmProvider') as Partial<LLMProviderSettings> | undefined);
+  if (settings.kind === 'openai' && apiKey.length <= 20) return null;
+  try {
+    return new LLMProvider(settings, apiKey);
+  } catch (error) {
+    console.error('[Main] Invalid LLM provider settings:', error);
+    return null;
+  }
+}
+
+// Actor script characters, with the aliases recorded on the cast list
+async function getActors(names?: string[]): Promise<Actor[] | undefined> {
+  if (!names?.length) return undefined;
+  return resolveActors(names, dbManager ? await dbManager.getCharacters() : []);
+}
+
+// Scene summaries and the cast list for Final Draft export
+async function getFDXOptions(): Promise<FDXExportOptions> {
+  if (!dbManager) return {};
+  return {
+    scenes: await dbManager.getScenes(),
+    characters: await dbManager.getCharacters(),
+  };
+}
+
 function createWindow() {
   mainWindow = new BrowserWindow({
     width: 1400,
@@ -154,6 +216,24 @@ function createMenu() {
                 mainWindow?.webContents.send('menu:export', 'fdx');
               },
             },
+            {
+              label: 'Export as Word (.docx)',
+              click: () => {
+                mainWindow?.webContents.send('menu:export', 'docx');
+              },
+            },
+            {
+              label: 'Export as HTML (.html)',
+              click: () => {
+                mainWindow?.webContents.send('menu:export', 'html');
+              },
+            },
+            {
+              label: 'Export as EPUB (.epub)',
+              click: () => {
+                mainWindow?.webContents.send('menu:export', 'epub');
+              },
+            },
             {
               label: 'Export as Plain Text (.txt)',
               click: () => {
@@ -367,20 +447,10 @@ Date: ${today}
   const dbPath = path.join(metaPath, 'project.db');
   dbManager = new DatabaseManager(dbPath);
 
-  // Decrypt and use stored API key
-  const encryptedKey = store.get('openaiApiKey_encrypted', '') as string;
-  let apiKey = '';
-
-  if (encryptedKey && safeStorage.isEncryptionAvailable()) {
-    try {
-      const buffer = Buffer.from(encryptedKey, 'base64');
-      apiKey = safeStorage.decryptString(buffer);
-    } catch (error) {
-      console.error('[Main] Failed to decrypt API key:', error);
-    }
-  }
+  // Connect to the configured model server, if there is one
+  const provider = getLLMProvider();
 
-  if (apiKey && apiKey.length > 20) {
+  if (provider) {
     const systemActions: SystemActions = {
       saveScreenplay: async () => {
         if (projectManager) {
@@ -395,10 +465,13 @@ Date: ${today}
           const exportPath = path.join(basePath, `screenplay.${format}`);
           if (format === 'pdf') {
             const { PDFExporter } = require('../export/pdf-exporter');
-            await PDFExporter.export(content, exportPath);
+            await PDFExporter.export(content, exportPath, await getPDFOptions());
           } else if (format === 'fdx') {
             const { FDXExporter } = require('../export/fdx-exporter');
-            await FDXExporter.export(content, exportPath);
+            await FDXExporter.export(content, exportPath, await getFDXOptions());
+          } else if (format === 'docx') {
+            const { DOCXExporter } = await import('../export/docx-exporter');
+            await DOCXExporter.export(content, exportPath);
           }
         }
       },
@@ -415,10 +488,10 @@ Date: ${today}
         mainWindow?.webContents.send('screenplay:setAuthor', author);
       }
     };
-    aiClient = new AIClient(apiKey, dbManager, systemActions);
-    console.log('[Main] AI client initialized');
+    aiClient = new AIClient(provider, dbManager, systemActions);
+    console.log(`[Main] AI client initialized (${provider.isLocal ? 'local server' : 'OpenAI'})`);
   } else {
-    console.log('[Main] No valid API key. AI features disabled.');
+    console.log('[Main] No valid API key or local server. AI features disabled.');
   }
 
   const project = {
@@ -457,20 +530,10 @@ ipcMain.handle('project:open', async (_, projectPath: string) => {
     throw dbError;
   }
 
-  // Decrypt and use stored API key
-  const encryptedKey = store.get('openaiApiKey_encrypted', '') as string;
-  let apiKey = '';
-
-  if (encryptedKey && safeStorage.isEncryptionAvailable()) {
-    try {
-      const buffer = Buffer.from(encryptedKey, 'base64');
-      apiKey = safeStorage.decryptString(buffer);
-    } catch (error) {
-      console.error('[Main] Failed to decrypt API key:', error);
-    }
-  }
+  // Connect to the configured model server, if there is one
+  const provider = getLLMProvider();
 
-  if (apiKey && apiKey.length > 20) {
+  if (provider) {
     const systemActions: SystemActions = {
       saveScreenplay: async () => {
         if (projectManager) {
@@ -485,10 +548,13 @@ ipcMain.handle('project:open', async (_, projectPath: string) => {
           const exportPath = path.join(basePath, `screenplay.${format}`);
           if (format === 'pdf') {
             const { PDFExporter } = require('../export/pdf-exporter');
-            await PDFExporter.export(content, exportPath);
+            await PDFExporter.export(content, exportPath, await getPDFOptions());
           } else if (format === 'fdx') {
             const { FDXExporter } = require('../export/fdx-exporter');
-            await FDXExporter.export(content, exportPath);
+            await FDXExporter.export(content, exportPath, await getFDXOptions());
+          } else if (format === 'docx') {
+            const { DOCXExporter } = await import('../export/docx-exporter');
+            await DOCXExporter.export(content, exportPath);
           }
         }
       },
@@ -505,10 +571,10 @@ ipcMain.handle('project:open', async (_, projectPath: string) => {
         mainWindow?.webContents.send('screenplay:setAuthor', author);
       }
     };
-    aiClient = new AIClient(apiKey, dbManager, systemActions);
-    console.log('[Main] AI client initialized');
+    aiClient = new AIClient(provider, dbManager, systemActions);
+    console.log(`[Main] AI client initialized (${provider.isLocal ? 'local server' : 'OpenAI'})`);
   } else {
-    console.log('[Main] No valid API key. AI features disabled.');
+    console.log('[Main] No valid API key or local server. AI features disabled.');
   }
 
   const name = path.basename(projectPath);
@@ -655,10 +721,68 @@ ipcMain.handle('db:getAIHistoryForConversation', async (_, conversationId: strin
   return await dbManager.getAIHistoryForConversation(conversationId);
 });
 
+// Agent change sets
+ipcMain.handle('db:getChangeSets', async (_, ids: string[]) => {
+  if (!dbManager) throw new Error('No database open');
+  return await dbManager.getChangeSets(ids);
+});
+
+ipcMain.handle('db:addChangeSetEdit', async (_, id: string, change: ChangeRecord) => {
+  if (!dbManager) throw new Error('No database open');
+  return await dbManager.addChangeSetEdit(id, change);
+});
+
+ipcMain.handle('db:revertChangeSet', async (_, id: string) => {
+  if (!dbManager) throw new Error('No database open');
+  return await dbManager.revertChangeSet(id);
+});
+
 // AI Operations
-ipcMain.handle('ai:chat', async (_, message: string, context: any) => {
+
+// Chat replies in progress, by the id the renderer gave them, so they can be stopped
+const chatRequests = new Map<string, AbortController>();
+// Tool calls waiting for the user to allow them, by request and tool call id
+const toolConfirmations = new Map<string, (allowed: boolean) => void>();
+
+ipcMain.handle('ai:chat', async (event, message: string, context: AIContext, requestId?: string) => {
   if (!aiClient) throw new Error('AI client not initialized');
-  return await aiClient.chat(message, context);
+  if (!requestId) return await aiClient.chat(message, context);
+
+  const controller = new AbortController();
+  chatRequests.set(requestId, controller);
+  try {
+    const toolPolicy = projectManager ? (await projectManager.getSettings()).toolPolicy : undefined;
+    return await aiClient.chat(message, context, {
+      signal: controller.signal,
+      onEvent: (chatEvent) => {
+        if (!event.sender.isDestroyed()) event.sender.send('ai:chatEvent', requestId, chatEvent);
+      },
+      toolPolicy,
+      // Wait for the chat panel's answer; stopping the reply declines
+      confirmTool: (toolCallId) => new Promise<boolean>(resolve => {
+        const key = `${requestId}:${toolCallId}`;
+        const answer = (allowed: boolean) => {
+          toolConfirmations.delete(key);
+          controller.signal.removeEventListener('abort', decline);
+          resolve(allowed);
+        };
+        const decline = () => answer(false);
+        if (controller.signal.aborted) return resolve(false);
+        controller.signal.addEventListener('abort', decline);
+        toolConfirmations.set(key, answer);
+      }),
+    });
+  } finally {
+    chatRequests.delete(requestId);
+  }
+});
+
+ipcMain.handle('ai:stopChat', async (_, requestId: string) => {
+  chatRequests.get(requestId)?.abort();
+});
+
+ipcMain.handle('ai:answerToolConfirmation', async (_, requestId: string, toolCallId: string, allowed: boolean) => {
+  toolConfirmations.get(`${requestId}:${toolCallId}`)?.(allowed);
 });
 
 ipcMain.handle('ai:generateDialogue', async (_, character: string, context: string) => {
@@ -710,22 +834,11 @@ ipcMain.handle('db:saveConversationSummary', async (_, id: string, summary: stri
 ipcMain.handle('ai:summarizeConversation', async (_, conversationId: string) => {
   if (!dbManager) throw new Error('No database open');
 
-  // Get API key from encrypted storage
-  const encryptedApiKey = store.get('openaiApiKey_encrypted', '') as string;
-  if (!encryptedApiKey) throw new Error('OpenAI API key not configured');
-
-  let decryptedApiKey = '';
-  try {
-    const keyBuffer = Buffer.from(encryptedApiKey, 'base64');
-    decryptedApiKey = safeStorage.decryptString(keyBuffer);
-  } catch (err) {
-    throw new Error('Failed to decrypt API key');
-  }
-
-  if (!decryptedApiKey || decryptedApiKey.length < 20) throw new Error('Invalid API key');
+  const provider = getLLMProvider();
+  if (!provider) throw new Error('AI is not configured: add an OpenAI API key or a local server in Settings');
 
   const { ContextSummarizer } = await import('../ai/context-summarizer');
-  const summarizer = new ContextSummarizer(decryptedApiKey);
+  const summarizer = new ContextSummarizer(provider);
 
   const messages = await dbManager.getAIHistoryForConversation(conversationId);
   const result = await summarizer.summarize(messages);
@@ -738,20 +851,9 @@ ipcMain.handle('ai:summarizeConversation', async (_, conversationId: string) =>
 
 // Settings
 ipcMain.handle('settings:getGlobal', async () => {
-  const encryptedKey = store.get('openaiApiKey_encrypted', '') as string;
-  let decryptedKey = '';
-
-  if (encryptedKey && safeStorage.isEncryptionAvailable()) {
-    try {
-      const buffer = Buffer.from(encryptedKey, 'base64');
-      decryptedKey = safeStorage.decryptString(buffer);
-    } catch (error) {
-      console.error('[Main] Failed to decrypt API key:', error);
-    }
-  }
-
   return {
-    openaiApiKey: decryptedKey,
+    openaiApiKey: getApiKey(),
+    llmProvider: normalizeProviderSettings(store.get('llmProvider') as Partial<LLMProviderSettings> | undefined),
     defaultTheme: store.get('defaultTheme', 'dark') as 'light' | 'dark',
     recentProjects: store.get('recentProjects', []) as string[],
     defaultExportFormat: store.get('defaultExportFormat', 'pdf') as 'pdf' | 'fdx' | 'fountain',
@@ -773,61 +875,65 @@ ipcMain.handle('settings:setGlobal', async (_, settings: any) => {
     delete settings.openaiApiKey; // Don't store plain text
   }
 
+  if (settings.llmProvider !== undefined) {
+    settings.llmProvider = normalizeProviderSettings(settings.llmProvider);
+  }
+
   // Store other settings
   for (const [key, value] of Object.entries(settings)) {
     store.set(key, value);
   }
 
-  // Reinitialize AI client with decrypted key
-  const encryptedKey = store.get('openaiApiKey_encrypted', '') as string;
-  if (encryptedKey && dbManager && safeStorage.isEncryptionAvailable()) {
-    try {
-      const buffer = Buffer.from(encryptedKey, 'base64');
-      const decryptedKey = safeStorage.decryptString(buffer);
-      if (decryptedKey.length > 20) {
-        // Re-create system actions for re-init
-        const systemActions: SystemActions = {
-          saveScreenplay: async () => {
-            if (projectManager) {
-              const content = await projectManager.loadScreenplay();
-              await projectManager.saveScreenplay(content);
-            }
-          },
-          exportScreenplay: async (format) => {
-            if (projectManager) {
-              const content = await projectManager.loadScreenplay();
-              // Use project path if available, otherwise default to docs
-              const basePath = projectManager.getProjectPath() || app.getPath('documents');
-              const exportPath = path.join(basePath, `screenplay.${format}`);
-              if (format === 'pdf') {
-                const { PDFExporter } = require('../export/pdf-exporter');
-                await PDFExporter.export(content, exportPath);
-              } else if (format === 'fdx') {
-                const { FDXExporter } = require('../export/fdx-exporter');
-                await FDXExporter.export(content, exportPath);
-              }
-            }
-          },
-          notifyUpdate: () => {
-            mainWindow?.webContents.send('data:update');
-          },
-          previewUpdate: (edit) => {
-            mainWindow?.webContents.send('editor:previewUpdate', edit);
-          },
-          setScreenplayTitle: (title: string) => {
-            mainWindow?.webContents.send('screenplay:setTitle', title);
-          },
-          setScreenplayAuthor: (author: string) => {
-            mainWindow?.webContents.send('screenplay:setAuthor', author);
-          }
-        };
-        aiClient = new AIClient(decryptedKey, dbManager, systemActions);
-        console.log('[Main] AI client reinitialized with decrypted key');
+  // Reinitialize AI client for the new key or provider
+  if (!dbManager) return;
+  const provider = getLLMProvider();
+  if (!provider) {
+    aiClient = null;
+    console.log('[Main] AI features disabled');
+    return;
+  }
+
+  // Re-create system actions for re-init
+  const systemActions: SystemActions = {
+    saveScreenplay: async () => {
+      if (projectManager) {
+        const content = await projectManager.loadScreenplay();
+        await projectManager.saveScreenplay(content);
       }
-    } catch (error) {
-      console.error('[Main] Failed to decrypt API key:', error);
+    },
+    exportScreenplay: async (format) => {
+      if (projectManager) {
+        const content = await projectManager.loadScreenplay();
+        // Use project path if available, otherwise default to docs
+        const basePath = projectManager.getProjectPath() || app.getPath('documents');
+        const exportPath = path.join(basePath, `screenplay.${format}`);
+        if (format === 'pdf') {
+          const { PDFExporter } = require('../export/pdf-exporter');
+          await PDFExporter.export(content, exportPath, await getPDFOptions());
+        } else if (format === 'fdx') {
+          const { FDXExporter } = require('../export/fdx-exporter');
+          await FDXExporter.export(content, exportPath, await getFDXOptions());
+        } else if (format === 'docx') {
+          const { DOCXExporter } = await import('../export/docx-exporter');
+          await DOCXExporter.export(content, exportPath);
+        }
+      }
+    },
+    notifyUpdate: () => {
+      mainWindow?.webContents.send('data:update');
+    },
+    previewUpdate: (edit) => {
+      mainWindow?.webContents.send('editor:previewUpdate', edit);
+    },
+    setScreenplayTitle: (title: string) => {
+      mainWindow?.webContents.send('screenplay:setTitle', title);
+    },
+    setScreenplayAuthor: (author: string) => {
+      mainWindow?.webContents.send('screenplay:setAuthor', author);
     }
-  }
+  };
+  aiClient = new AIClient(provider, dbManager, systemActions);
+  console.log('[Main] AI client reinitialized');
 });
 
 ipcMain.handle('settings:getProject', async () => {
@@ -851,12 +957,12 @@ ipcMain.handle('file:selectFolder', async () => {
 
 ipcMain.handle('file:exportPDF', async (_, content: string, exportPath: string) => {
   const { PDFExporter } = require('../export/pdf-exporter');
-  await PDFExporter.export(content, exportPath);
+  await PDFExporter.export(content, exportPath, await getPDFOptions());
 });
 
 ipcMain.handle('file:exportFDX', async (_, content: string, exportPath: string) => {
   const { FDXExporter } = require('../export/fdx-exporter');
-  await FDXExporter.export(content, exportPath);
+  await FDXExporter.export(content, exportPath, await getFDXOptions());
 });
 
 ipcMain.handle('file:saveDialog', async (_, defaultPath: string, filters: any[]) => {
@@ -914,11 +1020,96 @@ ipcMain.handle('version:delete', async (_, id: string) => {
   return await dbManager.deleteVersion(id);
 });
 
+ipcMain.handle('version:distributions', async (_, versionId?: string) => {
+  if (!dbManager) throw new Error('No database open');
+  return await dbManager.getDistributions(versionId);
+});
+
 ipcMain.handle('version:count', async () => {
   if (!dbManager) throw new Error('No database open');
   return await dbManager.getVersionCount();
 });
 
+// ============================================
+// SCRIPT BREAKDOWN
+// ============================================
+
+ipcMain.handle('breakdown:list', async () => {
+  if (!dbManager) throw new Error('No database open');
+  return await dbManager.getBreakdownElements();
+});
+
+ipcMain.handle('breakdown:save', async (_, element: BreakdownElement) => {
+  if (!dbManager) throw new Error('No database open');
+  return await dbManager.saveBreakdownElement(element);
+});
+
+ipcMain.handle('breakdown:delete', async (_, id: string) => {
+  if (!dbManager) throw new Error('No database open');
+  return await dbManager.deleteBreakdownElement(id);
+});
+
+ipcMain.handle('breakdown:saveAnchors', async (_, elements: BreakdownElement[]) => {
+  if (!dbManager) throw new Error('No database open');
+  return await dbManager.saveBreakdownAnchors(elements);
+});
+
+// ============================================
+// SHOOTING SCHEDULE
+// ============================================
+
+ipcMain.handle('schedule:get', async () => {
+  if (!dbManager) throw new Error('No database open');
+  return await dbManager.getSchedule();
+});
+
+ipcMain.handle('schedule:save', async (_, items: ScheduleItem[]) => {
+  if (!dbManager) throw new Error('No database open');
+  return await dbManager.saveSchedule(items);
+});
+
+/**
+ * Replace the schedule with shoot days from a CSV of day and scene numbers.
+ * Scene numbers that don't match the script are passed back as skipped.
+ */
+ipcMain.handle('schedule:importCSV', async (_, csvPath: string, content?: string) => {
+  if (!dbManager) throw new Error('No database open');
+  if (!projectManager) throw new Error('No project open');
+
+  const text = fs.readFileSync(csvPath, 'utf-8');
+  const { items, skipped } = scheduleFromShootDays(content ?? await projectManager.loadScreenplay(), parseShootDaysCSV(text));
+  return { schedule: await dbManager.saveSchedule(items), skipped };
+});
+
+// ============================================
+// PRODUCTION REVISIONS
+// ============================================
+
+ipcMain.handle('revision:getState', async () => {
+  if (!dbManager) throw new Error('No database open');
+  return await dbManager.getRevisionState();
+});
+
+ipcMain.handle('revision:lock', async () => {
+  if (!dbManager) throw new Error('No database open');
+  if (!projectManager) throw new Error('No project open');
+
+  const content = await projectManager.loadScreenplay();
+  const { autoContd } = await projectManager.getSettings();
+  return await dbManager.lockScript(content, lockPageStarts(content, { autoContd }));
+});
+
+ipcMain.handle('revision:startNext', async () => {
+  if (!dbManager) throw new Error('No database open');
+  if (!projectManager) throw new Error('No project open');
+  return await dbManager.startRevisionSet(await projectManager.loadScreenplay());
+});
+
+ipcMain.handle('revision:unlock', async () => {
+  if (!dbManager) throw new Error('No database open');
+  return await dbManager.unlockScript();
+});
+
 // ============================================
 // BACKUP SYSTEM
 // ============================================
@@ -948,6 +1139,68 @@ ipcMain.handle('backup:getDir', async () => {
   return backupManager.getBackupDir();
 });
 
+// ============================================
+// IMPORT
+// ============================================
+
+ipcMain.handle('import:showOpenDialog', async (_, format: string) => {
+  const filters: Record<string, { name: string; extensions: string[] }> = {
+    fdx: { name: 'Final Draft', extensions: ['fdx'] },
+    csv: { name: 'CSV', extensions: ['csv'] },
+  };
+
+  const result = await dialog.showOpenDialog(mainWindow!, {
+    properties: ['openFile'],
+    filters: [filters[format] || { name: 'All Files', extensions: ['*'] }],
+  });
+
+  return result.canceled ? null : result.filePaths[0];
+});
+
+/**
+ * Convert a Final Draft file into a new project next to the other projects
+ * in folderPath. Returns the project path; the renderer then opens it.
+ */
+ipcMain.handle('import:fdx', async (_, fdxPath: string, folderPath: string) => {
+  const imported = await FDXImporter.import(fdxPath);
+  const name = path.basename(fdxPath, path.extname(fdxPath));
+  const projectPath = path.join(folderPath, name);
+
+  if (fs.existsSync(path.join(projectPath, 'screenplay.fountain'))) {
+    throw new Error(`A project named "${name}" already exists in this folder`);
+  }
+  fs.mkdirSync(path.join(projectPath, '.screenplay-ai'), { recursive: true });
+
+  const importManager = new ProjectManager(projectPath);
+  const importDb = new DatabaseManager(path.join(projectPath, '.screenplay-ai', 'project.db'));
+  try {
+    await importManager.saveScreenplay(imported.content);
+
+    const parsed = FountainParser.parse(imported.content);
+    for (const scene of parsed.scenes) {
+      await importDb.saveScene(scene);
+    }
+    for (const characterName of parsed.characters) {
+      await importDb.saveCharacter({
+        id: uuidv4(),
+        name: characterName,
+        description: '',
+        arc: '',
+        relationships: {},
+        appearances: parsed.scenes
+          .filter(scene => scene.characters.includes(characterName))
+          .map(scene => scene.id),
+      });
+    }
+    console.log(`[Import] Imported ${fdxPath}: ${parsed.scenes.length} scenes, ${parsed.characters.size} characters`);
+  } finally {
+    importManager.destroy();
+    importDb.close();
+  }
+
+  return projectPath;
+});
+
 // ============================================
 // EXPORT SYSTEM
 // ============================================
@@ -970,9 +1223,11 @@ ipcMain.handle('export:fountain', async (_, outputPath: string, options?: any) =
 });
 
 ipcMain.handle('export:pdf', async (_, outputPath: string, options?: any) => {
+  const actors = await getActors(options?.highlightCharacters);
   // If raw content is provided, export it directly
   if (options?.content) {
-    await exportManager.exportContentToPDF(options.content, outputPath, options);
+    const pdf = { ...await getPDFOptions(), sceneNumbers: Boolean(options.includeSceneNumbers), actors };
+    await exportManager.exportContentToPDF(options.content, outputPath, { ...options, pdf });
     return outputPath;
   }
   
@@ -980,14 +1235,65 @@ ipcMain.handle('export:pdf', async (_, outputPath: string, options?: any) => {
   if (!dbManager) throw new Error('No database open');
   const scenes = await dbManager.getScenes();
   const characters = await dbManager.getCharacters();
-  await exportManager.exportToPDF(scenes, characters, outputPath, options);
+  const pdf = { ...await getPDFOptions(), sceneNumbers: Boolean(options?.includeSceneNumbers), actors };
+  await exportManager.exportToPDF(scenes, characters, outputPath, { ...options, pdf });
+  return outputPath;
+});
+
+ipcMain.handle('export:sides', async (_, outputPath: string, options?: SidesExportOptions) => {
+  const content = options?.content ?? await projectManager?.loadScreenplay();
+  if (!content) throw new Error('No project open');
+  const sides = {
+    sceneIds: options?.sceneIds,
+    character: options?.character,
+    highlight: options?.highlight,
+  };
+  await exportManager.exportContentToSides(content, outputPath, { pdf: await getPDFOptions(), sides });
+  return outputPath;
+});
+
+// Watermarked copies for a list of readers, logged against the version they received
+ipcMain.handle('export:distribution', async (_, outputDir: string, options?: DistributionExportOptions) => {
+  if (!dbManager) throw new Error('No database open');
+  if (!projectManager) throw new Error('No project open');
+
+  // A past version is sent as it was; otherwise the current text is snapshotted first
+  const version = options?.versionId
+    ? await dbManager.getVersion(options.versionId)
+    : await dbManager.createVersion(
+      `Distribution to ${options?.recipients?.length ?? 0} reader(s)`,
+      options?.content ?? await projectManager.loadScreenplay()
+    );
+  if (!version) throw new Error('Version not found');
+
+  const copies = await exportManager.exportDistribution(version.content, outputDir, options?.recipients ?? [], {
+    ...await getPDFOptions(),
+    sceneNumbers: Boolean(options?.includeSceneNumbers),
+    baseName: options?.baseName,
+    confidential: Boolean(options?.confidential),
+  });
+  return await dbManager.logDistribution(version.id, copies);
+});
+
+ipcMain.handle('export:report', async (_, outputPath: string, options: ReportExportOptions) => {
+  if (!dbManager) throw new Error('No database open');
+  if (!projectManager) throw new Error('No project open');
+
+  const content = options?.content ?? await projectManager.loadScreenplay();
+  await exportManager.exportContentToReport(content, outputPath, {
+    ...await getPDFOptions(),
+    kind: options.kind,
+    format: options.format,
+    breakdown: await dbManager.getBreakdownElements(),
+    schedule: (await dbManager.getSchedule())?.items ?? [],
+  });
   return outputPath;
 });
 
 ipcMain.handle('export:fdx', async (_, outputPath: string, options?: any) => {
   // If raw content is provided, export it directly
   if (options?.content) {
-    await exportManager.exportContentToFinalDraft(options.content, outputPath, options);
+    await exportManager.exportContentToFinalDraft(options.content, outputPath, { ...options, fdx: await getFDXOptions() });
     return outputPath;
   }
   
@@ -999,12 +1305,58 @@ ipcMain.handle('export:fdx', async (_, outputPath: string, options?: any) => {
   return outputPath;
 });
 
+ipcMain.handle('export:docx', async (_, outputPath: string, options?: ExportOptions) => {
+  const docx = { sceneNumbers: Boolean(options?.includeSceneNumbers) };
+  // If raw content is provided, export it directly
+  if (options?.content) {
+    await exportManager.exportContentToDOCX(options.content, outputPath, { ...options, docx });
+    return outputPath;
+  }
+
+  // Fallback to database export
+  if (!dbManager) throw new Error('No database open');
+  const scenes = await dbManager.getScenes();
+  const characters = await dbManager.getCharacters();
+  await exportManager.exportToDOCX(scenes, characters, outputPath, { ...options, docx });
+  return outputPath;
+});
+
+ipcMain.handle('export:html', async (_, outputPath: string, options?: ExportOptions) => {
+  const html = { sceneNumbers: Boolean(options?.includeSceneNumbers), actors: await getActors(options?.highlightCharacters) };
+  // If raw content is provided, export it directly
+  if (options?.content) {
+    await exportManager.exportContentToHTML(options.content, outputPath, { ...options, html });
+    return outputPath;
+  }
+
+  // Fallback to database export
+  if (!dbManager) throw new Error('No database open');
+  const scenes = await dbManager.getScenes();
+  const characters = await dbManager.getCharacters();
+  await exportManager.exportToHTML(scenes, characters, outputPath, { ...options, html });
+  return outputPath;
+});
+
+ipcMain.handle('export:epub', async (_, outputPath: string, options?: ExportOptions) => {
+  const epub = { sceneNumbers: Boolean(options?.includeSceneNumbers) };
+  // If raw content is provided, export it directly
+  if (options?.content) {
+    await exportManager.exportContentToEPUB(options.content, outputPath, { ...options, epub });
+    return outputPath;
+  }
+
+  // Fallback to database export
+  if (!dbManager) throw new Error('No database open');
+  const scenes = await dbManager.getScenes();
+  const characters = await dbManager.getCharacters();
+  await exportManager.exportToEPUB(scenes, characters, outputPath, { ...options, epub });
+  return outputPath;
+});
+
 ipcMain.handle('export:txt', async (_, outputPath: string, options?: any) => {
-  // If raw content is provided, write it directly
+  // If raw content is provided, export it directly (Fountain markup removed)
   if (options?.content) {
-    const fs = await import('fs');
-    fs.writeFileSync(outputPath, options.content, 'utf8');
-    console.log(`[Export] Exported raw Text to: ${outputPath}`);
+    await exportManager.exportContentToText(options.content, outputPath);
     return outputPath;
   }
   
@@ -1029,9 +1381,21 @@ ipcMain.handle('export:showSaveDialog', async (_, format: string, defaultName?:
     case 'fdx':
       filters.push({ name: 'Final Draft', extensions: ['fdx'] });
       break;
+    case 'docx':
+      filters.push({ name: 'Word Document', extensions: ['docx'] });
+      break;
+    case 'html':
+      filters.push({ name: 'HTML', extensions: ['html'] });
+      break;
+    case 'epub':
+      filters.push({ name: 'EPUB', extensions: ['epub'] });
+      break;
     case 'txt':
       filters.push({ name: 'Text', extensions: ['txt'] });
       break;
+    case 'csv':
+      filters.push({ name: 'CSV', extensions: ['csv'] });
+      break;
   }
 
   const result = await dialog.showSaveDialog(mainWindow!, {
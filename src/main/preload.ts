@@ -1,5 +1,5 @@
 import { contextBridge, ipcRenderer } from 'electron';
-import type { WindowAPI } from '../shared/types';
+import type { ChangeRecord, ChatStreamEvent, DistributionExportOptions, ExportOptions, ReportExportOptions, SidesExportOptions, WindowAPI } from '../shared/types';
 
 const api: WindowAPI = {
   project: {
@@ -25,6 +25,9 @@ const api: WindowAPI = {
     getAIHistory: () => ipcRenderer.invoke('db:getAIHistory'),
     getAIHistoryForConversation: (conversationId: string) => 
       ipcRenderer.invoke('db:getAIHistoryForConversation', conversationId),
+    getChangeSets: (ids: string[]) => ipcRenderer.invoke('db:getChangeSets', ids),
+    addChangeSetEdit: (id: string, change: ChangeRecord) => ipcRenderer.invoke('db:addChangeSetEdit', id, change),
+    revertChangeSet: (id: string) => ipcRenderer.invoke('db:revertChangeSet', id),
     saveAIMessage: (message) => ipcRenderer.invoke('db:saveAIMessage', message),
     clearDatabase: () => ipcRenderer.invoke('db:clearDatabase'),
     
@@ -42,7 +45,15 @@ const api: WindowAPI = {
   },
   
   ai: {
-    chat: (message: string, context) => ipcRenderer.invoke('ai:chat', message, context),
+    chat: (message: string, context, requestId?: string) => ipcRenderer.invoke('ai:chat', message, context, requestId),
+    stopChat: (requestId: string) => ipcRenderer.invoke('ai:stopChat', requestId),
+    answerToolConfirmation: (requestId: string, toolCallId: string, allowed: boolean) =>
+      ipcRenderer.invoke('ai:answerToolConfirmation', requestId, toolCallId, allowed),
+    onChatEvent: (callback) => {
+      const listener = (_: Electron.IpcRendererEvent, requestId: string, event: ChatStreamEvent) => callback(requestId, event);
+      ipcRenderer.on('ai:chatEvent', listener);
+      return () => ipcRenderer.removeListener('ai:chatEvent', listener);
+    },
     generateDialogue: (character: string, context: string) => 
       ipcRenderer.invoke('ai:generateDialogue', character, context),
     expandScene: (outline: string) => ipcRenderer.invoke('ai:expandScene', outline),
@@ -77,6 +88,30 @@ const api: WindowAPI = {
     restore: (id: string) => ipcRenderer.invoke('version:restore', id),
     delete: (id: string) => ipcRenderer.invoke('version:delete', id),
     count: () => ipcRenderer.invoke('version:count'),
+    distributions: (versionId?: string) => ipcRenderer.invoke('version:distributions', versionId),
+  },
+
+  // Shooting schedule
+  schedule: {
+    get: () => ipcRenderer.invoke('schedule:get'),
+    save: (items) => ipcRenderer.invoke('schedule:save', items),
+    importCSV: (csvPath, content) => ipcRenderer.invoke('schedule:importCSV', csvPath, content),
+  },
+
+  // Script breakdown
+  breakdown: {
+    list: () => ipcRenderer.invoke('breakdown:list'),
+    save: (element) => ipcRenderer.invoke('breakdown:save', element),
+    delete: (id: string) => ipcRenderer.invoke('breakdown:delete', id),
+    saveAnchors: (elements) => ipcRenderer.invoke('breakdown:saveAnchors', elements),
+  },
+
+  // Production revisions
+  revision: {
+    getState: () => ipcRenderer.invoke('revision:getState'),
+    lock: () => ipcRenderer.invoke('revision:lock'),
+    startNext: () => ipcRenderer.invoke('revision:startNext'),
+    unlock: () => ipcRenderer.invoke('revision:unlock'),
   },
   
   // Backup system
@@ -88,11 +123,23 @@ const api: WindowAPI = {
     getDir: () => ipcRenderer.invoke('backup:getDir'),
   },
   
+  // Import system
+  import: {
+    fdx: (fdxPath: string, folderPath: string) => ipcRenderer.invoke('import:fdx', fdxPath, folderPath),
+    showOpenDialog: (format: string) => ipcRenderer.invoke('import:showOpenDialog', format),
+  },
+
   // Export system
   export: {
     fountain: (outputPath: string, options?: any) => ipcRenderer.invoke('export:fountain', outputPath, options),
     pdf: (outputPath: string, options?: any) => ipcRenderer.invoke('export:pdf', outputPath, options),
+    sides: (outputPath: string, options: SidesExportOptions) => ipcRenderer.invoke('export:sides', outputPath, options),
+    distribution: (outputDir: string, options: DistributionExportOptions) => ipcRenderer.invoke('export:distribution', outputDir, options),
+    report: (outputPath: string, options: ReportExportOptions) => ipcRenderer.invoke('export:report', outputPath, options),
     fdx: (outputPath: string, options?: any) => ipcRenderer.invoke('export:fdx', outputPath, options),
+    docx: (outputPath: string, options?: ExportOptions) => ipcRenderer.invoke('export:docx', outputPath, options),
+    html: (outputPath: string, options?: ExportOptions) => ipcRenderer.invoke('export:html', outputPath, options),
+    epub: (outputPath: string, options?: ExportOptions) => ipcRenderer.invoke('export:epub', outputPath, options),
     txt: (outputPath: string, options?: any) => ipcRenderer.invoke('export:txt', outputPath, options),
     showSaveDialog: (format: string, defaultName?: string) => 
       ipcRenderer.invoke('export:showSaveDialog', format, defaultName),
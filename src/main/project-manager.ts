@@ -4,6 +4,15 @@ import path from 'path';
 import chokidar from 'chokidar';
 import type { ProjectSettings } from '../shared/types';
 
+const DEFAULT_PROJECT_SETTINGS: ProjectSettings = {
+  aiModel: 'gpt-5-mini',
+  theme: 'dark',
+  autoSave: true,
+  characterNamingConvention: 'uppercase',
+  autoContd: true,
+  toolPolicy: {},
+};
+
 export class ProjectManager {
   private projectPath: string;
   private screenplayPath: string;
@@ -82,15 +91,11 @@ export class ProjectManager {
   async getSettings(): Promise<ProjectSettings> {
     try {
       const content = await fs.readFile(this.settingsPath, 'utf-8');
-      return JSON.parse(content);
+      // Settings files from older versions may lack newer keys
+      return { ...DEFAULT_PROJECT_SETTINGS, ...JSON.parse(content) };
     } catch (error) {
       // Return default settings if file doesn't exist
-      return {
-        aiModel: 'gpt-5-mini',
-        theme: 'dark',
-        autoSave: true,
-        characterNamingConvention: 'uppercase',
-      };
+      return { ...DEFAULT_PROJECT_SETTINGS };
     }
   }
 
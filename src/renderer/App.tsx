@@ -88,6 +88,12 @@ function App() {
             await window.api.export.pdf(outputPath);
           } else if (format === 'fdx') {
             await window.api.export.fdx(outputPath);
+          } else if (format === 'docx') {
+            await window.api.export.docx(outputPath);
+          } else if (format === 'html') {
+            await window.api.export.html(outputPath);
+          } else if (format === 'epub') {
+            await window.api.export.epub(outputPath);
           } else if (format === 'txt') {
             await window.api.export.txt(outputPath);
           }
@@ -123,18 +129,18 @@ function App() {
     // Listen for AI edit previews
     window.api.on('editor:previewUpdate', (edit: any) => {
       console.log('[App] Received edit preview from AI:', edit.description);
-      useAppStore.getState().setPendingEdit(edit);
+      useAppStore.getState().addPendingEdit(edit);
     });
 
     // Listen for screenplay metadata updates
     window.api.on('screenplay:setTitle', (title: string) => {
       console.log('[App] AI set screenplay title:', title);
-      useAppStore.getState().setScreenplayTitle(title);
+      useAppStore.getState().updateTitlePage({ title });
     });
 
     window.api.on('screenplay:setAuthor', (author: string) => {
       console.log('[App] AI set screenplay author:', author);
-      useAppStore.getState().setScreenplayAuthor(author);
+      useAppStore.getState().updateTitlePage({ authors: author });
     });
 
     return () => {
@@ -4,9 +4,12 @@ import remarkGfm from 'remark-gfm';
 import { useAppStore } from '../store/app-store';
 import { 
   Bot, X, Send, Plus, Trash2, MessageSquare, 
-  ChevronLeft, ChevronRight, Loader2, BarChart3, ChevronUp
+  ChevronLeft, ChevronRight, Loader2, BarChart3, ChevronUp,
+  Square, Check, AlertCircle, Wrench, RotateCcw, ShieldAlert
 } from 'lucide-react';
 import type { Conversation, AIMessage } from '../../shared/types';
+import type { StreamingReply, ToolActivity } from '../../ai/chat-stream';
+import { summarizeChanges } from '../../ai/change-set';
 
 // Helper to format token counts (e.g., 1234 -> "1.2k")
 function formatTokens(tokens: number): string {
@@ -60,6 +63,57 @@ function groupConversations(conversations: Conversation[]) {
   return groups.filter(g => g.conversations.length > 0);
 }
 
+// What an agent turn changed, with a button to undo all of it.
+// Reads its change set from the store so the memoized bubble needn't re-render.
+function ChangeSetSummary({ id }: { id: string }) {
+  const changeSet = useAppStore(state => state.changeSets[id]);
+  const revertChangeSet = useAppStore(state => state.revertChangeSet);
+  const [isReverting, setIsReverting] = useState(false);
+
+  // A turn that only proposed edits shows nothing until one is accepted
+  if (!changeSet || changeSet.changes.length === 0) return null;
+
+  const handleRevert = async () => {
+    if (!window.confirm('Undo everything the assistant changed in this reply?')) return;
+    setIsReverting(true);
+    try {
+      const skipped = await revertChangeSet(id);
+      if (skipped.length > 0) {
+        alert('These were changed again after the reply, so they were left as they are:\n\n' + summarizeChanges(skipped).join('\n'));
+      }
+    } catch (error) {
+      alert('Failed to undo changes: ' + error);
+    } finally {
+      setIsReverting(false);
+    }
+  };
+
+  return (
+    <div className="mt-2 pt-2 border-t border-gray-200 dark:border-gray-700 text-xs text-gray-500 dark:text-gray-400">
+      <ul className={`space-y-0.5 ${changeSet.revertedAt ? 'line-through opacity-60' : ''}`}>
+        {summarizeChanges(changeSet.changes).map((line, i) => (
+          <li key={i} className="flex items-center gap-1.5">
+            <Wrench className="w-3 h-3 flex-shrink-0" />
+            <span className="truncate">{line}</span>
+          </li>
+        ))}
+      </ul>
+      {changeSet.revertedAt ? (
+        <div className="mt-1.5 italic">Undone</div>
+      ) : (
+        <button
+          onClick={handleRevert}
+          disabled={isReverting}
+          className="mt-1.5 flex items-center gap-1 text-primary-600 dark:text-primary-400 hover:underline disabled:opacity-50"
+        >
+          {isReverting ? <Loader2 className="w-3 h-3 animate-spin" /> : <RotateCcw className="w-3 h-3" />}
+          Undo all
+        </button>
+      )}
+    </div>
+  );
+}
+
 // Memoized message bubble component to prevent re-renders
 // Key optimization: Only parse markdown for assistant messages, user messages are plain text
 const MessageBubble = memo(function MessageBubble({ 
@@ -96,6 +150,8 @@ const MessageBubble = memo(function MessageBubble({
             <ReactMarkdown remarkPlugins={[remarkGfm]}>{msg.content}</ReactMarkdown>
           </div>
         )}
+        {/* What the agent changed on this turn */}
+        {!isUser && msg.changeSetId && <ChangeSetSummary id={msg.changeSetId} />}
         {/* Token usage for AI responses */}
         {!isUser && msg.tokenUsage && (
           <div className="mt-2 pt-2 border-t border-gray-200 dark:border-gray-700 flex items-center gap-2 text-xs text-gray-400 dark:text-gray-500">
@@ -113,9 +169,89 @@ const MessageBubble = memo(function MessageBubble({
 }, (prevProps, nextProps) => {
   // Custom comparison - only re-render if the message content actually changed
   return prevProps.msg.id === nextProps.msg.id && 
-         prevProps.msg.content === nextProps.msg.content;
+         prevProps.msg.content === nextProps.msg.content &&
+         prevProps.msg.changeSetId === nextProps.msg.changeSetId;
 });
 
+// A tool the project's policy says to ask about, with what it would touch
+function ToolConfirmationCard({ tool }: { tool: ToolActivity }) {
+  const answerToolConfirmation = useAppStore(state => state.answerToolConfirmation);
+  if (!tool.confirmation) return null;
+
+  return (
+    <div className="my-2 rounded-lg border border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/20 p-3 text-xs">
+      <div className="flex items-center gap-1.5 font-medium text-amber-800 dark:text-amber-300">
+        <ShieldAlert className="w-3.5 h-3.5" />
+        {tool.confirmation.summary}
+      </div>
+      {tool.confirmation.affected.length > 0 && (
+        <ul className="mt-1.5 ml-5 list-disc space-y-0.5 text-gray-700 dark:text-gray-300">
+          {tool.confirmation.affected.map((item, i) => (
+            <li key={i}>{item}</li>
+          ))}
+        </ul>
+      )}
+      <div className="mt-2 flex gap-2">
+        <button
+          onClick={() => answerToolConfirmation(tool.id, true)}
+          className="px-3 py-1 rounded-md bg-amber-600 text-white hover:bg-amber-700 transition-colors"
+        >
+          Allow
+        </button>
+        <button
+          onClick={() => answerToolConfirmation(tool.id, false)}
+          className="px-3 py-1 rounded-md border border-gray-300 dark:border-dark-border hover:bg-gray-100 dark:hover:bg-dark-bg transition-colors"
+        >
+          Decline
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// The reply while it streams: tool calls as they run, then the text so far
+function StreamingBubble({ reply }: { reply: StreamingReply }) {
+  return (
+    <div className="flex justify-start">
+      <div className="max-w-[85%] rounded-2xl px-4 py-3 bg-gray-100 dark:bg-dark-bg text-gray-800 dark:text-gray-200">
+        {reply.tools.length > 0 && (
+          <ul className="mb-2 space-y-1">
+            {reply.tools.map((tool) => (
+              <li key={tool.id} className="flex items-center gap-1.5 text-xs text-gray-500 dark:text-gray-400">
+                {tool.status === 'running' ? (
+                  <Loader2 className="w-3 h-3 animate-spin" />
+                ) : tool.status === 'waiting' ? (
+                  <ShieldAlert className="w-3 h-3 text-amber-500" />
+                ) : tool.status === 'failed' ? (
+                  <AlertCircle className="w-3 h-3 text-red-500" />
+                ) : (
+                  <Check className="w-3 h-3 text-green-500" />
+                )}
+                <Wrench className="w-3 h-3" />
+                <span className="truncate">{tool.label}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+        {reply.tools.filter(tool => tool.status === 'waiting').map(tool => (
+          <ToolConfirmationCard key={tool.id} tool={tool} />
+        ))}
+        {reply.content ? (
+          <div className="text-sm prose prose-sm dark:prose-invert max-w-none 
+            prose-p:my-2 prose-p:leading-relaxed
+            prose-p:text-gray-800 dark:prose-p:text-gray-200">
+            <ReactMarkdown remarkPlugins={[remarkGfm]}>{reply.content}</ReactMarkdown>
+          </div>
+        ) : (
+          reply.tools.every(tool => tool.status === 'done' || tool.status === 'failed') && (
+            <Loader2 className="w-4 h-4 animate-spin text-gray-400" />
+          )
+        )}
+      </div>
+    </div>
+  );
+}
+
 // How many messages to show initially (recent ones)
 const INITIAL_MESSAGES_TO_SHOW = 20;
 
@@ -123,6 +259,8 @@ export default function AIChat() {
   const { 
     aiHistory, 
     sendAIMessage, 
+    stopAIMessage,
+    streamingReply,
     toggleAIChat,
     conversations,
     currentConversationId,
@@ -186,6 +324,11 @@ export default function AIChat() {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [aiHistory]);
 
+  // Follow the reply as it streams (no smooth scrolling, it would lag behind)
+  useEffect(() => {
+    if (streamingReply) messagesEndRef.current?.scrollIntoView();
+  }, [streamingReply]);
+
   const handleSend = async () => {
     if (!message.trim() || isSending) return;
 
@@ -331,6 +474,7 @@ export default function AIChat() {
                   formatTokens={formatTokensCallback}
                 />
               ))}
+              {streamingReply && <StreamingBubble reply={streamingReply} />}
             </>
         )}
         <div ref={messagesEndRef} />
@@ -348,17 +492,24 @@ export default function AIChat() {
               rows={2}
             disabled={isSending}
           />
-          <button
-            onClick={handleSend}
-            disabled={!message.trim() || isSending}
+          {isSending ? (
+            <button
+              onClick={() => stopAIMessage()}
+              disabled={!streamingReply}
+              title="Stop generating"
+              className="px-4 py-2 bg-gray-700 hover:bg-gray-800 dark:bg-gray-600 dark:hover:bg-gray-500 text-white rounded-xl transition-colors disabled:opacity-50 disabled:cursor-not-allowed self-end"
+            >
+              <Square className="w-5 h-5 fill-current" />
+            </button>
+          ) : (
+            <button
+              onClick={handleSend}
+              disabled={!message.trim()}
               className="px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-xl transition-colors disabled:opacity-50 disabled:cursor-not-allowed self-end"
             >
-              {isSending ? (
-                <Loader2 className="w-5 h-5 animate-spin" />
-              ) : (
-                <Send className="w-5 h-5" />
-              )}
+              <Send className="w-5 h-5" />
             </button>
+          )}
           </div>
         </div>
       </div>
@@ -0,0 +1,198 @@
+import { useMemo, useState } from 'react';
+import { X } from 'lucide-react';
+import { useAppStore } from '../store/app-store';
+import { BREAKDOWN_CATEGORIES, buildBreakdownSheets, categoryInfo, type ResolvedBreakdownElement } from '../../screenplay/breakdown';
+import type { BreakdownCategory, ReportExportOptions } from '../../shared/types';
+
+const REPORTS: Array<{ kind: ReportExportOptions['kind']; label: string }> = [
+  { kind: 'breakdown', label: 'Breakdown sheets' },
+  { kind: 'locations', label: 'Location report' },
+  { kind: 'cast', label: 'Cast list' },
+  { kind: 'day-night', label: 'Day/night summary' },
+];
+
+interface BreakdownModalProps {
+  onClose: () => void;
+}
+
+export default function BreakdownModal({ onClose }: BreakdownModalProps) {
+  const { currentProject, screenplayContent, breakdownElements, saveBreakdownElement, deleteBreakdownElement } = useAppStore();
+  const [selectedScene, setSelectedScene] = useState(0);
+  const [reportKind, setReportKind] = useState<ReportExportOptions['kind']>('breakdown');
+  const [isExporting, setIsExporting] = useState(false);
+
+  const { sheets, orphaned } = useMemo(
+    () => buildBreakdownSheets(screenplayContent, breakdownElements),
+    [screenplayContent, breakdownElements]
+  );
+  const sheet = sheets[Math.min(selectedScene, sheets.length - 1)];
+
+  const handleRename = async (element: ResolvedBreakdownElement, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed || trimmed === element.name) return;
+    await saveBreakdownElement({ ...stripRange(element), name: trimmed });
+  };
+
+  const handleRecategorize = async (element: ResolvedBreakdownElement, category: BreakdownCategory) => {
+    await saveBreakdownElement({ ...stripRange(element), category });
+  };
+
+  const handleExportReport = async (format: ReportExportOptions['format']) => {
+    setIsExporting(true);
+    try {
+      const label = REPORTS.find(report => report.kind === reportKind)!.label;
+      const savePath = await window.api.export.showSaveDialog(format, `${currentProject?.name ?? 'Screenplay'} - ${label}.${format}`);
+      if (savePath) {
+        await window.api.export.report(savePath, { kind: reportKind, format, content: screenplayContent });
+        alert('Report exported!');
+      }
+    } catch (error) {
+      console.error('Report export error:', error);
+      alert('Failed to export report: ' + error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const renderElement = (element: ResolvedBreakdownElement) => (
+    <div key={element.id} className="flex items-center gap-2 py-1 text-sm">
+      <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: categoryInfo(element.category).color }} />
+      <input
+        defaultValue={element.name}
+        onBlur={(e) => handleRename(element, e.target.value)}
+        className="flex-1 min-w-0 px-2 py-0.5 bg-transparent border border-transparent hover:border-gray-300 dark:hover:border-dark-border rounded focus:outline-none focus:ring-1 focus:ring-primary-500"
+      />
+      <select
+        value={element.category}
+        onChange={(e) => handleRecategorize(element, e.target.value as BreakdownCategory)}
+        className="px-1 py-0.5 text-xs border border-gray-300 dark:border-dark-border rounded bg-white dark:bg-dark-bg"
+      >
+        {BREAKDOWN_CATEGORIES.map(({ id, label }) => (
+          <option key={id} value={id}>{label}</option>
+        ))}
+      </select>
+      <button
+        onClick={() => deleteBreakdownElement(element.id)}
+        title="Remove tag"
+        className="p-1 text-gray-400 hover:text-red-500"
+      >
+        <X className="w-3.5 h-3.5" />
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-dark-surface rounded-xl p-8 max-w-4xl w-full mx-4 shadow-2xl h-[85vh] flex flex-col">
+        <h2 className="text-2xl font-bold mb-2">Breakdown Sheets</h2>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-6">
+          Select text in the script and right-click (or press ⌘⇧B) to tag props, wardrobe, vehicles and other elements. Tags follow their text as you edit.
+        </p>
+
+        <div className="flex-1 flex gap-4 min-h-0">
+          <div className="w-64 flex-shrink-0 overflow-y-auto border border-gray-200 dark:border-dark-border rounded-lg divide-y divide-gray-100 dark:divide-dark-border">
+            {sheets.length === 0 && (
+              <div className="p-4 text-sm text-gray-500 dark:text-gray-400">No scenes in this screenplay yet.</div>
+            )}
+            {sheets.map((s, i) => (
+              <button
+                key={s.number}
+                onClick={() => setSelectedScene(i)}
+                className={`w-full flex items-center gap-2 px-3 py-2 text-left text-sm ${
+                  s === sheet ? 'bg-primary-50 dark:bg-primary-900/20' : 'hover:bg-gray-50 dark:hover:bg-dark-bg'
+                }`}
+              >
+                <span className="w-8 text-gray-500 dark:text-gray-400 font-mono">{s.sceneNumber}</span>
+                <span className="flex-1 truncate">{s.heading}</span>
+                {s.elements.length > 0 && (
+                  <span className="text-xs text-gray-500 dark:text-gray-400">{s.elements.length}</span>
+                )}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex-1 overflow-y-auto">
+            {sheet && (
+              <>
+                <div className="mb-4">
+                  <div className="text-xs text-gray-500 dark:text-gray-400">Scene {sheet.sceneNumber}</div>
+                  <div className="font-mono font-bold">{sheet.heading}</div>
+                </div>
+
+                {sheet.categories.length === 0 && (
+                  <div className="text-sm text-gray-500 dark:text-gray-400">Nothing tagged in this scene yet.</div>
+                )}
+                <div className="grid grid-cols-2 gap-4">
+                  {sheet.categories.map(({ category, names }) => (
+                    <div key={category} className="border border-gray-200 dark:border-dark-border rounded-lg p-3">
+                      <div className="flex items-center gap-2 mb-1 text-xs font-semibold uppercase tracking-wide">
+                        <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: categoryInfo(category).color }} />
+                        {categoryInfo(category).label}
+                      </div>
+                      <ul className="text-sm">
+                        {names.map(name => <li key={name}>{name}</li>)}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+
+                {sheet.elements.length > 0 && (
+                  <div className="mt-6">
+                    <h3 className="text-sm font-medium mb-1">Tags in this scene</h3>
+                    {sheet.elements.map(renderElement)}
+                  </div>
+                )}
+              </>
+            )}
+
+            {orphaned.length > 0 && (
+              <div className="mt-6">
+                <h3 className="text-sm font-medium mb-1 text-amber-600 dark:text-amber-400">Not found in the script</h3>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">
+                  The tagged words were rewritten or deleted. These tags come back if the words do.
+                </p>
+                {orphaned.map(renderElement)}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center gap-3 mt-6">
+          <select
+            value={reportKind}
+            onChange={(e) => setReportKind(e.target.value as ReportExportOptions['kind'])}
+            className="px-3 py-2 border border-gray-300 dark:border-dark-border rounded-lg bg-white dark:bg-dark-bg focus:outline-none focus:ring-2 focus:ring-primary-500 text-sm"
+          >
+            {REPORTS.map(({ kind, label }) => (
+              <option key={kind} value={kind}>{label}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => handleExportReport('csv')}
+            disabled={isExporting || sheets.length === 0}
+            className="px-4 py-2 border border-gray-300 dark:border-dark-border rounded-lg hover:bg-gray-50 dark:hover:bg-dark-bg transition-colors disabled:opacity-50"
+          >
+            Export CSV
+          </button>
+          <button
+            onClick={() => handleExportReport('pdf')}
+            disabled={isExporting || sheets.length === 0}
+            className="px-4 py-2 border border-gray-300 dark:border-dark-border rounded-lg hover:bg-gray-50 dark:hover:bg-dark-bg transition-colors disabled:opacity-50"
+          >
+            Export PDF
+          </button>
+          <button
+            onClick={onClose}
+            className="ml-auto px-4 py-2 border border-gray-300 dark:border-dark-border rounded-lg hover:bg-gray-50 dark:hover:bg-dark-bg transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function stripRange({ range: _range, ...element }: ResolvedBreakdownElement) {
+  return element;
+}
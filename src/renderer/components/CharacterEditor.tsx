@@ -362,7 +362,7 @@ function CharacterEditor({
                       <div className="flex-1 min-w-0">
                         <div className="flex items-center justify-between gap-2">
                           <p className="text-sm font-semibold text-gray-900 dark:text-gray-100 truncate">
-                            {scene.number}. {scene.heading}
+                            {scene.sceneNumber}. {scene.heading}
                           </p>
                           <span className="text-xs text-gray-500 dark:text-gray-400 flex-shrink-0">
                             line {scene.startLineIndex}
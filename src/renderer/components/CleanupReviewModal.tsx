@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { X, AlertTriangle, Check, Merge, Trash2, Loader2, Sparkles, Plus, RefreshCw } from 'lucide-react';
 import type { Character, Scene } from '../../shared/types';
+import { isSceneHeadingLine } from '../../screenplay/fountain-ast';
 
 interface CleanupSuggestion {
   type: 'merge' | 'delete' | 'rename' | 'add';
@@ -154,7 +155,7 @@ export function CleanupReviewModal({
         const nameUpper = name.toUpperCase().trim();
         
         // Scene headings (with or without ! prefix)
-        if (/^!?(INT\.|EXT\.|INT\/EXT\.|I\/E\.|EST\.)/i.test(nameUpper)) {
+        if (isSceneHeadingLine(nameUpper.replace(/^!/, ''))) {
           return { invalid: true, reason: 'This is a scene heading, not a character' };
         }
         
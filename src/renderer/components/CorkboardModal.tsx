@@ -0,0 +1,265 @@
+import { useMemo, useState } from 'react';
+import {
+  DndContext,
+  KeyboardSensor,
+  PointerSensor,
+  closestCenter,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+} from '@dnd-kit/core';
+import { SortableContext, rectSortingStrategy, sortableKeyboardCoordinates, useSortable } from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import { useAppStore } from '../store/app-store';
+import { setSceneSynopsis, toStoreScene } from '../../screenplay/scene-indexer';
+import {
+  buildCorkboard,
+  filterCorkboard,
+  matchStoredScene,
+  tagColor,
+  type CorkboardCard,
+  type CorkboardFilter,
+} from '../../screenplay/corkboard';
+
+interface CorkboardModalProps {
+  onClose: () => void;
+  /** Puts rewritten text in the editor, so moves and synopsis edits can be undone there */
+  applyContent?: (content: string) => void;
+}
+
+/** Synopsis lines as written to the script: trimmed, without blank lines */
+const synopsisLines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean).join('\n');
+
+interface CardDraft {
+  synopsis: string;
+  tags: string;
+  mood: string;
+}
+
+function IndexCard({
+  card,
+  draggable,
+  draft,
+  onEdit,
+  onDraftChange,
+  onSave,
+  onCancel,
+}: {
+  card: CorkboardCard;
+  draggable: boolean;
+  draft: CardDraft | null;
+  onEdit: () => void;
+  onDraftChange: (draft: CardDraft) => void;
+  onSave: () => void;
+  onCancel: () => void;
+}) {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
+    id: card.scene.id,
+    disabled: !draggable || draft !== null,
+  });
+  const color = card.tags.length > 0 ? tagColor(card.tags[0]) : '#d1d5db';
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{ transform: CSS.Transform.toString(transform), transition, opacity: isDragging ? 0.5 : 1, borderTopColor: color }}
+      className="flex flex-col h-56 bg-amber-50 dark:bg-dark-bg border border-gray-300 dark:border-dark-border border-t-8 rounded shadow-sm"
+      {...attributes}
+      {...listeners}
+    >
+      <div className="flex items-baseline gap-2 px-3 pt-2 pb-1 border-b border-red-200 dark:border-red-900/40">
+        <span className="font-mono text-xs font-bold text-gray-500">{card.scene.sceneNumber}</span>
+        <span className="flex-1 text-xs font-bold uppercase truncate" title={card.scene.heading}>{card.scene.heading}</span>
+      </div>
+
+      {draft ? (
+        <div className="flex-1 flex flex-col gap-1.5 p-2" onKeyDown={(e) => e.stopPropagation()}>
+          <textarea
+            autoFocus
+            value={draft.synopsis}
+            onChange={(e) => onDraftChange({ ...draft, synopsis: e.target.value })}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') onCancel();
+              if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) onSave();
+            }}
+            placeholder="What happens in this scene"
+            className="flex-1 w-full px-2 py-1 text-sm border border-gray-300 dark:border-dark-border rounded bg-white dark:bg-dark-surface resize-none focus:outline-none focus:ring-2 focus:ring-primary-500"
+          />
+          <input
+            value={draft.tags}
+            onChange={(e) => onDraftChange({ ...draft, tags: e.target.value })}
+            placeholder="Tags, comma separated"
+            className="px-2 py-1 text-xs border border-gray-300 dark:border-dark-border rounded bg-white dark:bg-dark-surface"
+          />
+          <div className="flex gap-1.5">
+            <input
+              value={draft.mood}
+              onChange={(e) => onDraftChange({ ...draft, mood: e.target.value })}
+              placeholder="Mood"
+              className="flex-1 min-w-0 px-2 py-1 text-xs border border-gray-300 dark:border-dark-border rounded bg-white dark:bg-dark-surface"
+            />
+            <button onClick={onCancel} className="px-2 py-1 text-xs text-gray-600 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-dark-border rounded">
+              Cancel
+            </button>
+            <button onClick={onSave} className="px-2 py-1 text-xs bg-primary-600 text-white rounded hover:bg-primary-700">
+              Save
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex-1 flex flex-col min-h-0 p-3 cursor-grab" onDoubleClick={onEdit} title="Double-click to edit">
+          <p className={`flex-1 overflow-hidden text-sm whitespace-pre-line ${card.fromSummary ? 'italic text-gray-500 dark:text-gray-400' : ''}`}>
+            {card.synopsis || <span className="text-gray-400">No synopsis</span>}
+          </p>
+          <div className="flex flex-wrap items-center gap-1 mt-2">
+            {card.tags.map(tag => (
+              <span key={tag} className="px-1.5 py-0.5 text-[10px] font-medium text-white rounded" style={{ backgroundColor: tagColor(tag) }}>
+                {tag}
+              </span>
+            ))}
+            {card.mood && <span className="text-[10px] text-gray-500 dark:text-gray-400 italic">{card.mood}</span>}
+            <span className="ml-auto text-[10px] text-gray-400">
+              {card.scene.characters.length} {card.scene.characters.length === 1 ? 'character' : 'characters'}
+            </span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function CorkboardModal({ onClose, applyContent }: CorkboardModalProps) {
+  const { parsedScenes, scenes, screenplayContent, setScreenplayContent, saveScreenplay, moveScene, loadScenes } = useAppStore();
+  const [filter, setFilter] = useState<CorkboardFilter>({});
+  const [editing, setEditing] = useState<{ id: string; draft: CardDraft } | null>(null);
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+  );
+
+  const cards = useMemo(() => buildCorkboard(parsedScenes, scenes), [parsedScenes, scenes]);
+  const visible = useMemo(() => filterCorkboard(cards, filter), [cards, filter]);
+  const isFiltered = Boolean(filter.character || filter.location || filter.tag);
+
+  const options = useMemo(() => {
+    const unique = (values: string[]) => {
+      const byKey = new Map(values.filter(Boolean).map(value => [value.toUpperCase(), value]));
+      return [...byKey.values()].sort((a, b) => a.localeCompare(b));
+    };
+    return {
+      characters: unique(cards.flatMap(card => card.scene.characters)),
+      locations: unique(cards.map(card => card.scene.location)),
+      tags: unique(cards.flatMap(card => card.tags)),
+    };
+  }, [cards]);
+
+  const handleDragEnd = async ({ active, over }: DragEndEvent) => {
+    if (!over || active.id === over.id) return;
+    const from = parsedScenes.findIndex(scene => scene.id === active.id);
+    const to = parsedScenes.findIndex(scene => scene.id === over.id);
+    if (from === -1 || to === -1) return;
+
+    try {
+      await moveScene(from, to, applyContent);
+    } catch (error) {
+      alert('Failed to move scene: ' + error);
+    }
+  };
+
+  const startEditing = (card: CorkboardCard) => {
+    setEditing({
+      id: card.scene.id,
+      draft: { synopsis: card.synopsis, tags: card.tags.join(', '), mood: card.mood },
+    });
+  };
+
+  const handleSave = async (card: CorkboardCard) => {
+    if (!editing) return;
+    const { synopsis, tags, mood } = editing.draft;
+    setEditing(null);
+
+    try {
+      // The synopsis goes into the script; a summary shown in its place only moves there once edited
+      if (synopsisLines(synopsis) !== synopsisLines(card.fromSummary ? card.synopsis : card.scene.synopsis ?? '')) {
+        (applyContent ?? setScreenplayContent)(setSceneSynopsis(screenplayContent, card.index, synopsis));
+        await saveScreenplay();
+      }
+
+      const tagList = tags.split(',').map(tag => tag.trim()).filter(Boolean);
+      if (tagList.join(',') !== card.tags.join(',') || mood.trim() !== card.mood) {
+        // Saving the script rewrites the stored scenes, so match again
+        const stored = matchStoredScene(card.scene, useAppStore.getState().scenes) ?? toStoreScene(card.scene);
+        await window.api.db.saveScene({ ...stored, tags: tagList, mood: mood.trim() });
+        await loadScenes();
+      }
+    } catch (error) {
+      console.error('Failed to save card:', error);
+      alert('Failed to save card: ' + error);
+    }
+  };
+
+  const select = (key: keyof CorkboardFilter, label: string, values: string[]) => (
+    <select
+      value={filter[key] ?? ''}
+      onChange={(e) => setFilter({ ...filter, [key]: e.target.value || undefined })}
+      className="px-3 py-1.5 border border-gray-300 dark:border-dark-border rounded-lg bg-white dark:bg-dark-bg focus:outline-none focus:ring-2 focus:ring-primary-500 text-sm"
+    >
+      <option value="">{label}</option>
+      {values.map(value => <option key={value} value={value}>{value}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-dark-surface rounded-xl p-8 max-w-7xl w-full mx-4 shadow-2xl h-[90vh] flex flex-col">
+        <div className="flex items-center gap-3 mb-2">
+          <h2 className="text-2xl font-bold mr-auto">Corkboard</h2>
+          {select('character', 'All characters', options.characters)}
+          {select('location', 'All locations', options.locations)}
+          {options.tags.length > 0 && select('tag', 'All tags', options.tags)}
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+          {isFiltered
+            ? `Showing ${visible.length} of ${cards.length} scenes. Clear the filters to rearrange cards.`
+            : 'Drag cards to move scenes in the script. Double-click a card to edit its synopsis, tags and mood.'}
+        </p>
+
+        <div className="flex-1 overflow-y-auto p-1">
+          <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
+            <SortableContext items={visible.map(card => card.scene.id)} strategy={rectSortingStrategy}>
+              <div className="grid grid-cols-[repeat(auto-fill,minmax(14rem,1fr))] gap-4">
+                {visible.map(card => (
+                  <IndexCard
+                    key={card.scene.id}
+                    card={card}
+                    draggable={!isFiltered}
+                    draft={editing?.id === card.scene.id ? editing.draft : null}
+                    onEdit={() => startEditing(card)}
+                    onDraftChange={(draft) => setEditing({ id: card.scene.id, draft })}
+                    onSave={() => handleSave(card)}
+                    onCancel={() => setEditing(null)}
+                  />
+                ))}
+              </div>
+            </SortableContext>
+          </DndContext>
+          {visible.length === 0 && (
+            <div className="p-4 text-sm text-gray-500 dark:text-gray-400">
+              {cards.length === 0 ? 'No scenes yet.' : 'No scenes match these filters.'}
+            </div>
+          )}
+        </div>
+
+        <div className="flex mt-6">
+          <button
+            onClick={onClose}
+            className="ml-auto px-4 py-2 border border-gray-300 dark:border-dark-border rounded-lg hover:bg-gray-50 dark:hover:bg-dark-bg transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import React, { useMemo } from 'react';
+import { computeLineDiff, type DiffLine } from '../../screenplay/line-diff';
 
 interface DiffViewerProps {
   oldText: string;
@@ -7,61 +8,6 @@ interface DiffViewerProps {
   newTitle?: string;
 }
 
-interface DiffLine {
-  type: 'unchanged' | 'added' | 'removed';
-  content: string;
-  lineNumber?: number;
-}
-
-/**
- * Simple line-by-line diff algorithm
- * Uses Longest Common Subsequence (LCS) approach
- */
-function computeDiff(oldLines: string[], newLines: string[]): DiffLine[] {
-  const result: DiffLine[] = [];
-  
-  // Build LCS matrix
-  const m = oldLines.length;
-  const n = newLines.length;
-  const lcs: number[][] = Array(m + 1).fill(null).map(() => Array(n + 1).fill(0));
-  
-  for (let i = 1; i <= m; i++) {
-    for (let j = 1; j <= n; j++) {
-      if (oldLines[i - 1] === newLines[j - 1]) {
-        lcs[i][j] = lcs[i - 1][j - 1] + 1;
-      } else {
-        lcs[i][j] = Math.max(lcs[i - 1][j], lcs[i][j - 1]);
-      }
-    }
-  }
-  
-  // Backtrack to find diff
-  let i = m;
-  let j = n;
-  const diffStack: DiffLine[] = [];
-  
-  while (i > 0 || j > 0) {
-    if (i > 0 && j > 0 && oldLines[i - 1] === newLines[j - 1]) {
-      diffStack.push({ type: 'unchanged', content: oldLines[i - 1] });
-      i--;
-      j--;
-    } else if (j > 0 && (i === 0 || lcs[i][j - 1] >= lcs[i - 1][j])) {
-      diffStack.push({ type: 'added', content: newLines[j - 1] });
-      j--;
-    } else {
-      diffStack.push({ type: 'removed', content: oldLines[i - 1] });
-      i--;
-    }
-  }
-  
-  // Reverse to get correct order
-  while (diffStack.length > 0) {
-    result.push(diffStack.pop()!);
-  }
-  
-  return result;
-}
-
 export const DiffViewer: React.FC<DiffViewerProps> = ({
   oldText,
   newText,
@@ -71,7 +17,7 @@ export const DiffViewer: React.FC<DiffViewerProps> = ({
   const diff = useMemo(() => {
     const oldLines = oldText.split('\n');
     const newLines = newText.split('\n');
-    return computeDiff(oldLines, newLines);
+    return computeLineDiff(oldLines, newLines);
   }, [oldText, newText]);
 
   // Separate into old and new panels
@@ -0,0 +1,142 @@
+import { useEffect, useState } from 'react';
+import { useAppStore } from '../store/app-store';
+import type { DistributionRecord, VersionSummary } from '../../shared/types';
+
+interface DistributionModalProps {
+  includeSceneNumbers?: boolean;
+  onClose: () => void;
+}
+
+export default function DistributionModal({ includeSceneNumbers, onClose }: DistributionModalProps) {
+  const { currentProject, screenplayContent, screenplayTitle } = useAppStore();
+  const [recipients, setRecipients] = useState('');
+  const [confidential, setConfidential] = useState(true);
+  const [versionId, setVersionId] = useState('');
+  const [versions, setVersions] = useState<VersionSummary[]>([]);
+  const [log, setLog] = useState<DistributionRecord[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const loadLog = async () => {
+    try {
+      setLog(await window.api.version.distributions());
+    } catch (error) {
+      console.error('Failed to load distribution log:', error);
+    }
+  };
+
+  useEffect(() => {
+    window.api.version.list().then(setVersions).catch(error => console.error('Failed to load versions:', error));
+    loadLog();
+  }, []);
+
+  const names = recipients.split('\n').map(name => name.trim()).filter(Boolean);
+  const versionLabel = (id: string) => {
+    const version = versions.find(v => v.id === id);
+    return version ? `${version.message} (${new Date(version.createdAt).toLocaleDateString()})` : id;
+  };
+
+  const handleSend = async () => {
+    setIsExporting(true);
+    try {
+      const outputDir = await window.api.file.selectFolder();
+      if (outputDir) {
+        const records = await window.api.export.distribution(outputDir, {
+          recipients: names,
+          versionId: versionId || undefined,
+          content: versionId ? undefined : screenplayContent,
+          baseName: screenplayTitle || currentProject?.name,
+          confidential,
+          includeSceneNumbers,
+        });
+        alert(`Wrote ${records.length} watermarked ${records.length === 1 ? 'copy' : 'copies'} to ${outputDir}`);
+        setRecipients('');
+        await loadLog();
+      }
+    } catch (error) {
+      console.error('Distribution export error:', error);
+      alert('Distribution failed: ' + error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-dark-surface rounded-xl p-8 max-w-xl w-full mx-4 shadow-2xl max-h-[85vh] overflow-y-auto">
+        <h2 className="text-2xl font-bold mb-2">Distribution Copies</h2>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-6">
+          Writes one PDF per reader with their name watermarked on every page, and records who received which version.
+        </p>
+
+        <label className="block text-sm font-medium mb-1">Recipients (one per line)</label>
+        <textarea
+          value={recipients}
+          onChange={(e) => setRecipients(e.target.value)}
+          rows={5}
+          placeholder={'Jane Producer\nSam Reader'}
+          className="w-full px-3 py-2 border border-gray-300 dark:border-dark-border rounded-lg bg-white dark:bg-dark-bg focus:outline-none focus:ring-2 focus:ring-primary-500 text-sm resize-none mb-4"
+        />
+
+        <label className="block text-sm font-medium mb-1">Draft</label>
+        <select
+          value={versionId}
+          onChange={(e) => setVersionId(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 dark:border-dark-border rounded-lg bg-white dark:bg-dark-bg focus:outline-none focus:ring-2 focus:ring-primary-500 text-sm mb-4"
+        >
+          <option value="">Current draft (saved as a new version)</option>
+          {versions.map(version => (
+            <option key={version.id} value={version.id}>{versionLabel(version.id)}</option>
+          ))}
+        </select>
+
+        <label className="flex items-center gap-2 mb-6 text-sm cursor-pointer">
+          <input
+            type="checkbox"
+            checked={confidential}
+            onChange={(e) => setConfidential(e.target.checked)}
+            className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+          />
+          Print "CONFIDENTIAL" at the foot of each page
+        </label>
+
+        {log.length > 0 && (
+          <div className="mb-6">
+            <h3 className="text-sm font-medium mb-2">Sent</h3>
+            <div className="max-h-40 overflow-y-auto border border-gray-200 dark:border-dark-border rounded-lg text-xs">
+              <table className="w-full">
+                <tbody>
+                  {log.map(record => (
+                    <tr key={record.id} className="border-b border-gray-100 dark:border-dark-border last:border-0">
+                      <td className="px-3 py-1.5 font-medium">{record.recipient}</td>
+                      <td className="px-3 py-1.5 text-gray-500 dark:text-gray-400 truncate">{versionLabel(record.versionId)}</td>
+                      <td className="px-3 py-1.5 text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                        {new Date(record.createdAt).toLocaleDateString()}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        <div className="flex gap-3">
+          <button
+            onClick={onClose}
+            disabled={isExporting}
+            className="flex-1 px-4 py-2 border border-gray-300 dark:border-dark-border rounded-lg hover:bg-gray-50 dark:hover:bg-dark-bg transition-colors disabled:opacity-50"
+          >
+            Close
+          </button>
+          <button
+            onClick={handleSend}
+            disabled={isExporting || names.length === 0}
+            className="flex-1 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50"
+          >
+            {isExporting ? 'Writing...' : `Write ${names.length || ''} ${names.length === 1 ? 'Copy' : 'Copies'}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+import { useState } from 'react';
+import { useAppStore } from '../store/app-store';
+import { Check, X, Pencil, AlertCircle, Sparkles } from 'lucide-react';
+import type { EditHunk } from '../../shared/types';
+import { resolveHunk } from '../../screenplay/edit-hunks';
+import DiffViewer from './DiffViewer';
+
+interface EditReviewProps {
+  /** Puts accepted text into the editor so it can be undone there */
+  applyContent: (content: string) => void;
+}
+
+function HunkCard({ hunk, applyContent }: { hunk: EditHunk; applyContent: (content: string) => void }) {
+  const { screenplayContent, acceptEdit, rejectEdit } = useAppStore();
+  const [draft, setDraft] = useState<string | null>(null);
+
+  // Where the hunk is now; earlier accepts may have moved it
+  const resolved = resolveHunk(screenplayContent, hunk);
+  const modified = draft ?? hunk.modified;
+
+  const handleAccept = async () => {
+    try {
+      await acceptEdit(hunk.id, modified, applyContent);
+    } catch (error) {
+      alert('Failed to apply edit: ' + error);
+    }
+  };
+
+  const lines = resolved
+    ? resolved.startLine === resolved.endLine
+      ? `Line ${resolved.startLine + 1}`
+      : `Lines ${resolved.startLine + 1}–${resolved.endLine + 1}`
+    : null;
+
+  return (
+    <div className="rounded-lg border border-gray-200 dark:border-dark-border bg-white dark:bg-dark-surface shadow-sm overflow-hidden">
+      <div className="flex items-start justify-between gap-4 px-4 py-3 border-b border-gray-200 dark:border-dark-border">
+        <div className="min-w-0">
+          <p className="text-sm font-medium text-gray-900 dark:text-gray-100">{hunk.description}</p>
+          <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+            {[hunk.sceneHeading, lines].filter(Boolean).join(' · ')}
+          </p>
+        </div>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          <button
+            onClick={() => rejectEdit(hunk.id)}
+            className="px-3 py-1.5 text-sm text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-dark-border rounded-lg hover:bg-gray-50 dark:hover:bg-dark-bg flex items-center gap-1.5 transition-colors"
+          >
+            <X className="w-4 h-4" />
+            Reject
+          </button>
+          {resolved && (
+            <>
+              <button
+                onClick={() => setDraft(draft === null ? hunk.modified : null)}
+                className={`px-3 py-1.5 text-sm border rounded-lg flex items-center gap-1.5 transition-colors ${
+                  draft !== null
+                    ? 'border-primary-600 text-primary-700 dark:text-primary-300 bg-primary-50 dark:bg-primary-900/20'
+                    : 'border-gray-300 dark:border-dark-border text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-dark-bg'
+                }`}
+                title={draft !== null ? 'Go back to the suggested text' : 'Change the suggested text before accepting'}
+              >
+                <Pencil className="w-4 h-4" />
+                Edit
+              </button>
+              <button
+                onClick={handleAccept}
+                className="px-3 py-1.5 text-sm text-white bg-primary-600 hover:bg-primary-700 rounded-lg flex items-center gap-1.5 shadow-sm transition-colors"
+              >
+                <Check className="w-4 h-4" />
+                Accept
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {resolved ? (
+        <>
+          {draft !== null && (
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              rows={Math.min(12, draft.split('\n').length + 1)}
+              className="w-full px-4 py-3 font-mono text-sm bg-gray-50 dark:bg-dark-bg border-b border-gray-200 dark:border-dark-border focus:outline-none focus:ring-2 focus:ring-inset focus:ring-primary-500 resize-y"
+            />
+          )}
+          <div className="h-56">
+            <DiffViewer oldText={hunk.original} newText={modified} oldTitle="Original" newTitle={draft !== null ? 'Your version' : 'Suggested'} />
+          </div>
+        </>
+      ) : (
+        <div className="px-4 py-3 flex items-start gap-2 text-sm text-amber-700 dark:text-amber-400">
+          <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <div>
+            <p>The text this edit changes isn't in the script any more, so it can only be rejected.</p>
+            <pre className="mt-2 whitespace-pre-wrap font-mono text-xs text-gray-600 dark:text-gray-400">{hunk.original}</pre>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * The queue of edits the assistant has proposed, one card per hunk, each
+ * accepted, rejected or edited on its own
+ */
+export default function EditReview({ applyContent }: EditReviewProps) {
+  const { pendingEdits, rejectAllEdits } = useAppStore();
+
+  if (pendingEdits.length === 0) return null;
+
+  return (
+    <div className="absolute inset-0 z-20 bg-gray-50/95 dark:bg-dark-bg/95 overflow-y-auto backdrop-blur-sm">
+      <div className="max-w-4xl mx-auto p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-primary-100 dark:bg-primary-800 rounded-full">
+              <Sparkles className="w-5 h-5 text-primary-600 dark:text-primary-400" />
+            </div>
+            <div>
+              <h3 className="font-semibold text-gray-900 dark:text-gray-100">
+                AI Suggested {pendingEdits.length === 1 ? 'Change' : `Changes (${pendingEdits.length})`}
+              </h3>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Accept, edit or reject each change. Accepted changes can be undone in the editor.
+              </p>
+            </div>
+          </div>
+          {pendingEdits.length > 1 && (
+            <button
+              onClick={rejectAllEdits}
+              className="px-3 py-1.5 text-sm text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-dark-border rounded-lg hover:bg-white dark:hover:bg-dark-surface flex items-center gap-1.5 transition-colors"
+            >
+              <X className="w-4 h-4" />
+              Reject all
+            </button>
+          )}
+        </div>
+
+        {pendingEdits.map(hunk => (
+          <HunkCard key={hunk.id} hunk={hunk} applyContent={applyContent} />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useEffect, useState, useRef, useCallback } from 'react';
 import { useAppStore } from '../store/app-store';
-import { Check, X, AlertCircle, Upload, Users, Film, BarChart3, Save, MessageSquare, Sparkles, Loader2 } from 'lucide-react';
+import { Upload, Users, Film, BarChart3, Save, MessageSquare, Sparkles, Loader2, Scissors, ClipboardList, CalendarDays, LayoutGrid } from 'lucide-react';
 import ScreenplayEditor, { type ScreenplayEditorHandle, type EditorStatus } from './ScreenplayEditor';
 import FormattingToolbar from './FormattingToolbar';
 import AIChat from './AIChat';
@@ -8,8 +8,16 @@ import CharacterPanel from './CharacterPanel';
 import ScenePanel from './ScenePanel';
 import StorylinePanel from './StorylinePanel';
 import AgenticAssistant from './AgenticAssistant';
+import TitlePageEditor from './TitlePageEditor';
+import SidesModal from './SidesModal';
+import BreakdownModal from './BreakdownModal';
+import StripboardModal from './StripboardModal';
+import CorkboardModal from './CorkboardModal';
+import EditReview from './EditReview';
 import { CleanupReviewModal, type CleanupSuggestion, type LLMAnalysisResult } from './CleanupReviewModal';
-import type { ElementType } from '../../shared/types';
+import type { BreakdownCategory, ElementType, TextAnchor } from '../../shared/types';
+import { parseSceneHeading } from '../../screenplay/fountain-ast';
+import { isAIConfigured } from '../../ai/provider-settings';
 
 export default function Editor() {
   console.log('[Editor] Component rendering');
@@ -23,24 +31,29 @@ export default function Editor() {
     activePanel,
     setActivePanel,
     globalSettings,
-    pendingEdit,
-    applyEdit,
-    rejectEdit,
     characters,
     scenes, // Legacy DB scenes - kept for backward compatibility with cleanup modal
     loadCharacters,
     loadScenes,
     screenplayAuthor,
     screenplayTitle,
+    breakdownElements,
+    tagBreakdownElement,
   } = useAppStore();
 
   console.log('[Editor] Project:', currentProject?.name, 'Content length:', screenplayContent?.length);
 
   const editorRef = useRef<ScreenplayEditorHandle>(null);
+  const aiConfigured = isAIConfigured(globalSettings);
   const [isSaving, setIsSaving] = useState(false);
   const [currentElement, setCurrentElement] = useState<ElementType>('action');
   const [isFormatLocked, setIsFormatLocked] = useState(false);
   const [showCleanupModal, setShowCleanupModal] = useState(false);
+  const [showTitlePageEditor, setShowTitlePageEditor] = useState(false);
+  const [showSidesModal, setShowSidesModal] = useState(false);
+  const [showBreakdownModal, setShowBreakdownModal] = useState(false);
+  const [showStripboardModal, setShowStripboardModal] = useState(false);
+  const [showCorkboardModal, setShowCorkboardModal] = useState(false);
   const [editorStatus, setEditorStatus] = useState<EditorStatus>({
     elementType: 'action',
     lineNumber: 1,
@@ -129,9 +142,9 @@ export default function Editor() {
       // Need project and screenplay content
       if (!currentProject || !screenplayContent || screenplayContent.trim().length === 0) return;
       
-      // Need API key configured
-      if (!globalSettings?.openaiApiKey) {
-        console.log('[Editor] No API key configured, skipping auto-analysis');
+      // Need an API key or a local model server
+      if (!aiConfigured) {
+        console.log('[Editor] AI not configured, skipping auto-analysis');
         setHasCheckedForNewProject(true);
         return;
       }
@@ -188,7 +201,7 @@ export default function Editor() {
     };
     
     checkAndAnalyzeNewProject();
-  }, [currentProject, screenplayContent, hasLoadedInitialData, globalSettings?.openaiApiKey, hasCheckedForNewProject, loadCharacters, loadScenes]);
+  }, [currentProject, screenplayContent, hasLoadedInitialData, aiConfigured, hasCheckedForNewProject, loadCharacters, loadScenes]);
 
   // Reset flags when project changes
   useEffect(() => {
@@ -215,6 +228,23 @@ export default function Editor() {
     }
   };
 
+  const handleTagSelection = async (anchor: TextAnchor, category: BreakdownCategory) => {
+    try {
+      await tagBreakdownElement(anchor, category);
+    } catch (error) {
+      alert('Failed to tag element: ' + error);
+    }
+  };
+
+  // Whole-text rewrites (scene moves, synopses) go through the editor so they can be undone there
+  const applyContent = (content: string) => {
+    if (editorRef.current) {
+      editorRef.current.replaceContent(content);
+    } else {
+      setScreenplayContent(content);
+    }
+  };
+
   // Handle scene click from ScenePanel - receives zero-based line index from SceneIndexer
   const handleSceneClick = useCallback((sceneStartLineIndex: number) => {
     if (editorRef.current) {
@@ -278,11 +308,16 @@ export default function Editor() {
             
             // Merge all appearances into the keeper
             let mergedAppearances = [...(keepChar.appearances || [])];
+            // Merged names stay known as aliases, so actor scripts still find their lines
+            const mergedAliases = new Set((keepChar.aliases || []).map(a => a.toUpperCase()));
             
             for (const char of charsToMerge) {
               if (char.id !== keepChar.id) {
                 // Merge appearances
                 mergedAppearances = [...new Set([...mergedAppearances, ...(char.appearances || [])])];
+                for (const name of [char.name, ...(char.aliases || [])]) {
+                  mergedAliases.add(name.toUpperCase().trim());
+                }
                 
                 console.log('[Cleanup] Deleting duplicate character:', char.name, 'ID:', char.id);
                 await window.api.db.deleteCharacter(char.id);
@@ -297,9 +332,14 @@ export default function Editor() {
             }
             
             // Update the keeper with merged appearances
+            for (const itemName of suggestion.items) {
+              mergedAliases.add(itemName.toUpperCase().trim());
+            }
+            mergedAliases.delete(keepChar.name.toUpperCase().trim());
             await window.api.db.saveCharacter({
               ...keepChar,
               appearances: mergedAppearances,
+              aliases: [...mergedAliases],
             });
             console.log('[Cleanup] Kept character:', keepChar.name, 'with', mergedAppearances.length, 'appearances');
           }
@@ -382,10 +422,7 @@ export default function Editor() {
             console.log('[Cleanup] Adding new scene:', sceneHeading);
             // Parse location and time from heading
             const headingUpper = sceneHeading.toUpperCase();
-            const withoutPrefix = headingUpper.replace(/^(INT|EXT|INT\.\/EXT|INT\/EXT|I\/E|EST)[\.\s]*/i, '');
-            const parts = withoutPrefix.split(/\s*[-–—]\s*/);
-            const location = parts[0]?.trim() || '';
-            const timeOfDay = parts[1]?.trim() || '';
+            const { location, timeOfDay } = parseSceneHeading(headingUpper);
             
             const newScene = {
               id: `scene-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
@@ -417,7 +454,7 @@ export default function Editor() {
 
   // Handle "Sync All from AI" - completely replace database with LLM analysis
   const handleSyncFromLLM = async (analysis: {
-    characters: Array<{ name: string; normalizedName: string; dialogueCount: number; firstAppearance: number }>;
+    characters: Array<{ name: string; normalizedName: string; aliases?: string[]; dialogueCount: number; firstAppearance: number }>;
     scenes: Array<{ number: number; heading: string; location: string; timeOfDay: string; lineNumber: number }>;
   }) => {
     console.log('[Cleanup] Syncing all data from LLM analysis...');
@@ -453,6 +490,7 @@ export default function Editor() {
         goals: '',
         role: '',
         relationships: {},
+        aliases: (llmChar.aliases || []).map(a => a.toUpperCase()),
       };
       await window.api.db.saveCharacter(newCharacter);
     }
@@ -528,7 +566,11 @@ export default function Editor() {
       {/* Header - Distinct from content areas */}
       <div className="h-14 bg-gradient-to-b from-gray-50 to-gray-100 dark:from-dark-surface dark:to-dark-bg border-b-2 border-gray-300 dark:border-dark-border flex items-center justify-between px-6 shadow-md">
         <div className="flex items-center gap-4">
-          <div className="flex flex-col">
+          <button
+            onClick={() => setShowTitlePageEditor(true)}
+            title="Edit title page"
+            className="flex flex-col items-start text-left rounded-lg px-2 -mx-2 hover:bg-gray-200/60 dark:hover:bg-dark-surface transition-colors"
+          >
             <h2 className="text-lg font-bold text-gray-900 dark:text-gray-100">
               {screenplayTitle || currentProject?.name}
             </h2>
@@ -537,7 +579,7 @@ export default function Editor() {
                 by {screenplayAuthor}
               </span>
             )}
-          </div>
+          </button>
           {isSaving && (
             <span className="text-xs font-medium text-primary-600 dark:text-primary-400 bg-primary-50 dark:bg-primary-900/20 px-3 py-1 rounded-full border border-primary-200 dark:border-primary-800">
               Saving...
@@ -593,11 +635,11 @@ export default function Editor() {
           </button>
           <button
             onClick={() => setShowCleanupModal(true)}
-            disabled={!screenplayContent || !globalSettings?.openaiApiKey}
-            title={!globalSettings?.openaiApiKey 
-              ? "Configure API key in Settings first" 
+            disabled={!screenplayContent || !aiConfigured}
+            title={!aiConfigured
+              ? "Configure an API key or local model server in Settings first"
               : "AI analyzes your screenplay to detect characters & scenes, find duplicates, and sync database"}
-            className={`px-4 py-2 text-sm font-medium rounded-lg transition-all duration-200 flex items-center gap-2 border ${!screenplayContent || !globalSettings?.openaiApiKey
+            className={`px-4 py-2 text-sm font-medium rounded-lg transition-all duration-200 flex items-center gap-2 border ${!screenplayContent || !aiConfigured
                 ? 'bg-gray-200 text-gray-400 border-gray-300 cursor-not-allowed'
                 : 'bg-gradient-to-r from-purple-600 to-amber-500 text-white border-purple-700 hover:from-purple-700 hover:to-amber-600 shadow-md'
               }`}
@@ -614,9 +656,45 @@ export default function Editor() {
             <Save className="w-4 h-4" />
             <span>Save</span>
           </button>
+          <button
+            onClick={() => setShowSidesModal(true)}
+            disabled={!screenplayContent}
+            title="Generate sides: selected scenes for auditions and shoot days"
+            className="px-4 py-2 text-sm font-medium bg-white dark:bg-dark-surface text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-dark-bg rounded-lg transition-all duration-200 hover:shadow-md flex items-center gap-2 border border-gray-300 dark:border-dark-border disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Scissors className="w-4 h-4" />
+            <span>Sides</span>
+          </button>
+          <button
+            onClick={() => setShowCorkboardModal(true)}
+            disabled={!screenplayContent}
+            title="Corkboard: scenes as index cards with synopses"
+            className="px-4 py-2 text-sm font-medium bg-white dark:bg-dark-surface text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-dark-bg rounded-lg transition-all duration-200 hover:shadow-md flex items-center gap-2 border border-gray-300 dark:border-dark-border disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <LayoutGrid className="w-4 h-4" />
+            <span>Corkboard</span>
+          </button>
+          <button
+            onClick={() => setShowBreakdownModal(true)}
+            disabled={!screenplayContent}
+            title="Breakdown sheets: props, wardrobe, vehicles and other elements per scene"
+            className="px-4 py-2 text-sm font-medium bg-white dark:bg-dark-surface text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-dark-bg rounded-lg transition-all duration-200 hover:shadow-md flex items-center gap-2 border border-gray-300 dark:border-dark-border disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <ClipboardList className="w-4 h-4" />
+            <span>Breakdown</span>
+          </button>
+          <button
+            onClick={() => setShowStripboardModal(true)}
+            disabled={!screenplayContent}
+            title="Stripboard: arrange scenes into shooting days"
+            className="px-4 py-2 text-sm font-medium bg-white dark:bg-dark-surface text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-dark-bg rounded-lg transition-all duration-200 hover:shadow-md flex items-center gap-2 border border-gray-300 dark:border-dark-border disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <CalendarDays className="w-4 h-4" />
+            <span>Stripboard</span>
+          </button>
           <button
             onClick={() => useAppStore.getState().setShowExportModal(true)}
-            title="Export to PDF, Final Draft, or Fountain"
+            title="Export to PDF, Final Draft, Word, HTML, EPUB, or Fountain"
             className="px-4 py-2 text-sm font-medium bg-white dark:bg-dark-surface text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-dark-bg rounded-lg transition-all duration-200 hover:shadow-md flex items-center gap-2 border border-gray-300 dark:border-dark-border"
           >
             <Upload className="w-4 h-4" />
@@ -625,41 +703,6 @@ export default function Editor() {
         </div>
       </div>
 
-      {/* Pending Edit Banner */}
-      {pendingEdit && (
-        <div className="bg-primary-50 dark:bg-primary-900/20 border-b border-primary-200 dark:border-primary-800 p-4 flex items-center justify-between shadow-sm z-10">
-          <div className="flex items-center gap-3">
-            <div className="p-2 bg-primary-100 dark:bg-primary-800 rounded-full">
-              <AlertCircle className="w-5 h-5 text-primary-600 dark:text-primary-400" />
-            </div>
-            <div>
-              <h3 className="font-semibold text-gray-900 dark:text-gray-100">
-                AI Suggested Change
-              </h3>
-              <p className="text-sm text-gray-600 dark:text-gray-400">
-                {pendingEdit.description}
-              </p>
-            </div>
-          </div>
-          <div className="flex items-center gap-2">
-            <button
-              onClick={rejectEdit}
-              className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-white dark:hover:bg-dark-surface border border-gray-300 dark:border-dark-border rounded-lg flex items-center gap-2 transition-colors"
-            >
-              <X className="w-4 h-4" />
-              Reject
-            </button>
-            <button
-              onClick={applyEdit}
-              className="px-4 py-2 text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 rounded-lg flex items-center gap-2 shadow-sm transition-colors"
-            >
-              <Check className="w-4 h-4" />
-              Accept Change
-            </button>
-          </div>
-        </div>
-      )}
-
       {/* Main Content */}
       <div className="flex-1 flex overflow-hidden bg-gray-50 dark:bg-dark-bg relative">
         {/* Side Panel */}
@@ -670,7 +713,12 @@ export default function Editor() {
               style={{ width: leftPanelWidth }}
             >
               {activePanel === 'characters' && <CharacterPanel onSceneClick={handleSceneClick} />}
-              {activePanel === 'scenes' && <ScenePanel onSceneClick={handleSceneClick} />}
+              {activePanel === 'scenes' && (
+                <ScenePanel
+                  onSceneClick={handleSceneClick}
+                  applyContent={applyContent}
+                />
+              )}
               {activePanel === 'storyline' && <StorylinePanel />}
             </div>
             {/* Resize Handle Left */}
@@ -683,24 +731,8 @@ export default function Editor() {
 
         {/* Editor */}
         <div className="flex-1 flex flex-col overflow-hidden min-w-0 relative">
-          {/* Diff Overlay */}
-          {pendingEdit && (
-            <div className="absolute inset-0 z-20 bg-white/95 dark:bg-dark-bg/95 p-8 overflow-y-auto font-mono text-sm leading-relaxed backdrop-blur-sm">
-              <div className="max-w-3xl mx-auto space-y-6">
-                <div className="p-4 rounded-lg border border-red-200 bg-red-50 dark:bg-red-900/10 dark:border-red-900/30">
-                  <h4 className="text-xs font-bold text-red-600 dark:text-red-400 uppercase tracking-wider mb-2">Original</h4>
-                  <pre className="whitespace-pre-wrap text-red-800 dark:text-red-300">{pendingEdit.original}</pre>
-                </div>
-                <div className="flex justify-center">
-                  <div className="h-8 w-px bg-gray-300 dark:bg-gray-700"></div>
-                </div>
-                <div className="p-4 rounded-lg border border-green-200 bg-green-50 dark:bg-green-900/10 dark:border-green-900/30">
-                  <h4 className="text-xs font-bold text-green-600 dark:text-green-400 uppercase tracking-wider mb-2">Proposed Change</h4>
-                  <pre className="whitespace-pre-wrap text-green-800 dark:text-green-300">{pendingEdit.modified}</pre>
-                </div>
-              </div>
-            </div>
-          )}
+          {/* AI edits waiting for review */}
+          <EditReview applyContent={applyContent} />
 
           {/* Formatting Toolbar */}
           <FormattingToolbar
@@ -725,6 +757,8 @@ export default function Editor() {
               onSave={handleSave}
               onStatusChange={setEditorStatus}
               theme={theme}
+              breakdownElements={breakdownElements}
+              onTagSelection={handleTagSelection}
             />
           </div>
 
@@ -773,6 +807,13 @@ export default function Editor() {
         onApplyCleanup={handleApplyCleanup}
         onSyncFromLLM={handleSyncFromLLM}
       />
+
+      {/* Title Page Editor */}
+      {showTitlePageEditor && <TitlePageEditor onClose={() => setShowTitlePageEditor(false)} />}
+      {showSidesModal && <SidesModal onClose={() => setShowSidesModal(false)} />}
+      {showBreakdownModal && <BreakdownModal onClose={() => setShowBreakdownModal(false)} />}
+      {showStripboardModal && <StripboardModal onClose={() => setShowStripboardModal(false)} />}
+      {showCorkboardModal && <CorkboardModal onClose={() => setShowCorkboardModal(false)} applyContent={applyContent} />}
     </div>
   );
 }
@@ -1,6 +1,8 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { useAppStore } from '../store/app-store';
-import { FileText, File, Droplet } from 'lucide-react';
+import { buildCharacterSceneCountMap } from '../utils/character-scenes';
+import DistributionModal from './DistributionModal';
+import { FileText, File, FileType, Globe, BookOpen, Droplet } from 'lucide-react';
 
 interface ExportModalProps {
   isOpen: boolean;
@@ -8,12 +10,29 @@ interface ExportModalProps {
 }
 
 export default function ExportModal({ isOpen, onClose }: ExportModalProps) {
-  const { currentProject, screenplayContent } = useAppStore();
-  const [format, setFormat] = useState<'pdf' | 'fdx' | 'fountain'>('pdf');
+  const { currentProject, screenplayContent, parsedScenes } = useAppStore();
+  const [format, setFormat] = useState<'pdf' | 'fdx' | 'docx' | 'html' | 'epub' | 'fountain'>('pdf');
   const [isExporting, setIsExporting] = useState(false);
+  const [includeSceneNumbers, setIncludeSceneNumbers] = useState(false);
+  const [highlightCharacters, setHighlightCharacters] = useState<string[]>([]);
+  const [showDistribution, setShowDistribution] = useState(false);
+
+  // Speaking characters, most scenes first
+  const characterNames = useMemo(
+    () => [...buildCharacterSceneCountMap(parsedScenes)].sort((a, b) => b[1] - a[1]).map(([name]) => name),
+    [parsedScenes]
+  );
 
   if (!isOpen) return null;
 
+  if (showDistribution) {
+    return <DistributionModal includeSceneNumbers={includeSceneNumbers} onClose={() => setShowDistribution(false)} />;
+  }
+
+  const toggleHighlight = (name: string) => {
+    setHighlightCharacters(prev => prev.includes(name) ? prev.filter(n => n !== name) : [...prev, name]);
+  };
+
   const handleExport = async () => {
     if (!currentProject) return;
 
@@ -27,9 +46,15 @@ export default function ExportModal({ isOpen, onClose }: ExportModalProps) {
       if (savePath) {
         // Use the export API methods which handle everything
         if (format === 'pdf') {
-          await window.api.export.pdf(savePath, { content: screenplayContent });
+          await window.api.export.pdf(savePath, { content: screenplayContent, includeSceneNumbers, highlightCharacters });
         } else if (format === 'fdx') {
           await window.api.export.fdx(savePath, { content: screenplayContent });
+        } else if (format === 'docx') {
+          await window.api.export.docx(savePath, { content: screenplayContent, includeSceneNumbers });
+        } else if (format === 'html') {
+          await window.api.export.html(savePath, { content: screenplayContent, includeSceneNumbers, highlightCharacters });
+        } else if (format === 'epub') {
+          await window.api.export.epub(savePath, { content: screenplayContent, includeSceneNumbers });
         } else if (format === 'fountain') {
           await window.api.export.fountain(savePath, { content: screenplayContent });
         }
@@ -47,7 +72,7 @@ export default function ExportModal({ isOpen, onClose }: ExportModalProps) {
 
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
-      <div className="bg-white dark:bg-dark-surface rounded-xl p-8 max-w-md w-full mx-4 shadow-2xl">
+      <div className="bg-white dark:bg-dark-surface rounded-xl p-8 max-w-md w-full mx-4 shadow-2xl max-h-[90vh] overflow-y-auto">
         <h2 className="text-2xl font-bold mb-6">Export Screenplay</h2>
 
         <div className="mb-6">
@@ -91,6 +116,63 @@ export default function ExportModal({ isOpen, onClose }: ExportModalProps) {
               </div>
             </button>
 
+            <button
+              onClick={() => setFormat('docx')}
+              className={`w-full text-left p-4 rounded-lg border-2 transition-colors ${
+                format === 'docx'
+                  ? 'border-primary-600 bg-primary-50 dark:bg-primary-900/20'
+                  : 'border-gray-300 dark:border-dark-border'
+              }`}
+            >
+              <div className="flex items-center gap-3">
+                <FileType className="w-8 h-8 text-primary-600 dark:text-primary-400" />
+                <div>
+                  <div className="font-semibold">Word (DOCX)</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    Editable document with screenplay styles
+                  </div>
+                </div>
+              </div>
+            </button>
+
+            <button
+              onClick={() => setFormat('html')}
+              className={`w-full text-left p-4 rounded-lg border-2 transition-colors ${
+                format === 'html'
+                  ? 'border-primary-600 bg-primary-50 dark:bg-primary-900/20'
+                  : 'border-gray-300 dark:border-dark-border'
+              }`}
+            >
+              <div className="flex items-center gap-3">
+                <Globe className="w-8 h-8 text-primary-600 dark:text-primary-400" />
+                <div>
+                  <div className="font-semibold">HTML</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    Single-file reading copy with a scene index
+                  </div>
+                </div>
+              </div>
+            </button>
+
+            <button
+              onClick={() => setFormat('epub')}
+              className={`w-full text-left p-4 rounded-lg border-2 transition-colors ${
+                format === 'epub'
+                  ? 'border-primary-600 bg-primary-50 dark:bg-primary-900/20'
+                  : 'border-gray-300 dark:border-dark-border'
+              }`}
+            >
+              <div className="flex items-center gap-3">
+                <BookOpen className="w-8 h-8 text-primary-600 dark:text-primary-400" />
+                <div>
+                  <div className="font-semibold">EPUB</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    E-book for tablets and readers
+                  </div>
+                </div>
+              </div>
+            </button>
+
             <button
               onClick={() => setFormat('fountain')}
               className={`w-full text-left p-4 rounded-lg border-2 transition-colors ${
@@ -112,6 +194,52 @@ export default function ExportModal({ isOpen, onClose }: ExportModalProps) {
           </div>
         </div>
 
+        {(format === 'pdf' || format === 'docx' || format === 'html' || format === 'epub') && (
+          <label className="flex items-center gap-2 mb-6 text-sm cursor-pointer">
+            <input
+              type="checkbox"
+              checked={includeSceneNumbers}
+              onChange={(e) => setIncludeSceneNumbers(e.target.checked)}
+              className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+            />
+            Print scene numbers
+            <span className="text-xs text-gray-500 dark:text-gray-400">(always on when numbers are locked)</span>
+          </label>
+        )}
+
+        {(format === 'pdf' || format === 'html') && characterNames.length > 0 && (
+          <div className="mb-6">
+            <label className="block text-sm font-medium mb-2">
+              Actor script
+              <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">Highlight lines and add a cover page for:</span>
+            </label>
+            <div className="flex flex-wrap gap-2 max-h-24 overflow-y-auto">
+              {characterNames.map(name => (
+                <button
+                  key={name}
+                  onClick={() => toggleHighlight(name)}
+                  className={`px-2 py-1 text-xs rounded-full border transition-colors ${
+                    highlightCharacters.includes(name)
+                      ? 'bg-yellow-200 border-yellow-400 text-gray-900'
+                      : 'border-gray-300 dark:border-dark-border hover:bg-gray-50 dark:hover:bg-dark-bg'
+                  }`}
+                >
+                  {name}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {format === 'pdf' && (
+          <button
+            onClick={() => setShowDistribution(true)}
+            className="mb-6 text-sm text-primary-600 dark:text-primary-400 hover:underline"
+          >
+            Watermarked copies for readers...
+          </button>
+        )}
+
         <div className="flex gap-3">
           <button
             onClick={onClose}
@@ -1,10 +1,28 @@
 import { useMemo, useState, useCallback } from 'react';
+import {
+  DndContext,
+  KeyboardSensor,
+  PointerSensor,
+  closestCenter,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+} from '@dnd-kit/core';
+import { SortableContext, sortableKeyboardCoordinates, useSortable, verticalListSortingStrategy } from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
 import { useAppStore } from '../store/app-store';
-import { Film, Plus, ChevronRight, Search } from 'lucide-react';
-import type { IndexedScene } from '../../screenplay/scene-indexer';
+import { Film, Plus, ChevronRight, Search, Lock, Unlock } from 'lucide-react';
+import {
+  hasLockedSceneNumbers,
+  lockSceneNumbers,
+  unlockSceneNumbers,
+  type IndexedScene,
+} from '../../screenplay/scene-indexer';
 
 interface ScenePanelProps {
   onSceneClick?: (sceneStartLineIndex: number) => void;
+  /** Puts reordered text in the editor, so the move can be undone there */
+  applyContent?: (content: string) => void;
 }
 
 /**
@@ -46,7 +64,7 @@ function SceneCard({
               : 'bg-primary-600 dark:bg-primary-700'
           }`}>
             <span className="text-lg font-bold text-white">
-              {scene.number}
+              {scene.sceneNumber}
             </span>
           </div>
         </div>
@@ -83,6 +101,26 @@ function SceneCard({
   );
 }
 
+/**
+ * Drag a scene card to move the scene's text in the screenplay
+ */
+function SortableSceneCard(props: { scene: IndexedScene; onClick: () => void; isSelected: boolean; disabled: boolean }) {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
+    id: props.scene.id,
+    disabled: props.disabled,
+  });
+  return (
+    <div
+      ref={setNodeRef}
+      style={{ transform: CSS.Transform.toString(transform), transition, opacity: isDragging ? 0.5 : 1 }}
+      {...attributes}
+      {...listeners}
+    >
+      <SceneCard scene={props.scene} onClick={props.onClick} isSelected={props.isSelected} />
+    </div>
+  );
+}
+
 /**
  * ScenePanel - Displays all scenes parsed from screenplay content
  * 
@@ -90,12 +128,13 @@ function SceneCard({
  * DB-backed scenes. Scene counts and navigation are deterministic and
  * always match what's in the screenplay text.
  */
-export default function ScenePanel({ onSceneClick }: ScenePanelProps) {
-  const { parsedScenes, screenplayContent, setScreenplayContent, saveScreenplay } = useAppStore();
+export default function ScenePanel({ onSceneClick, applyContent }: ScenePanelProps) {
+  const { parsedScenes, screenplayContent, setScreenplayContent, saveScreenplay, moveScene } = useAppStore();
   const [selectedSceneId, setSelectedSceneId] = useState<string | null>(null);
   const [isCreating, setIsCreating] = useState(false);
   const [newSceneHeading, setNewSceneHeading] = useState('');
   const [searchQuery, setSearchQuery] = useState('');
+  const numbersLocked = useMemo(() => hasLockedSceneNumbers(screenplayContent), [screenplayContent]);
 
   const filteredScenes = useMemo(() => {
     const q = searchQuery.trim().toLowerCase();
@@ -109,6 +148,27 @@ export default function ScenePanel({ onSceneClick }: ScenePanelProps) {
     });
   }, [parsedScenes, searchQuery]);
 
+  // A small drag distance keeps plain clicks working for navigation
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+  );
+  const isFiltered = searchQuery.trim() !== '';
+
+  const handleDragEnd = async ({ active, over }: DragEndEvent) => {
+    if (!over || active.id === over.id) return;
+    const from = parsedScenes.findIndex(scene => scene.id === active.id);
+    const to = parsedScenes.findIndex(scene => scene.id === over.id);
+    if (from === -1 || to === -1) return;
+
+    try {
+      await moveScene(from, to, applyContent);
+      setSelectedSceneId(null);
+    } catch (error) {
+      alert('Failed to move scene: ' + error);
+    }
+  };
+
   const handleSceneClick = useCallback((scene: IndexedScene) => {
     setSelectedSceneId(scene.id);
     if (onSceneClick) {
@@ -150,6 +210,18 @@ export default function ScenePanel({ onSceneClick }: ScenePanelProps) {
     }
   };
 
+  // Locking writes each number into its heading (#12#); unlocking removes them
+  const handleToggleNumberLock = async () => {
+    if (numbersLocked) {
+      const confirm = window.confirm('Unlock scene numbers? Scenes will be renumbered 1, 2, 3... by position.');
+      if (!confirm) return;
+    }
+    setScreenplayContent(
+      numbersLocked ? unlockSceneNumbers(screenplayContent) : lockSceneNumbers(screenplayContent)
+    );
+    await saveScreenplay();
+  };
+
   const handleCreateCancel = () => {
     setIsCreating(false);
     setNewSceneHeading('');
@@ -193,17 +265,30 @@ export default function ScenePanel({ onSceneClick }: ScenePanelProps) {
           <h3 className="font-semibold text-gray-900 dark:text-gray-100">
             Scenes ({filteredScenes.length}{searchQuery.trim() ? `/${parsedScenes.length}` : ''})
           </h3>
-          <button
-            onClick={() => setIsCreating(true)}
-            className="px-3 py-1.5 text-sm bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors flex items-center gap-1.5 shadow-md"
-            title="Add new scene"
-          >
-            <Plus className="w-4 h-4" />
-            New
-          </button>
+          <div className="flex items-center gap-1.5">
+            <button
+              onClick={handleToggleNumberLock}
+              className={`p-1.5 rounded-lg transition-colors ${
+                numbersLocked
+                  ? 'text-amber-600 hover:bg-amber-50 dark:hover:bg-amber-900/20'
+                  : 'text-gray-500 hover:bg-gray-100 dark:hover:bg-dark-border'
+              }`}
+              title={numbersLocked ? 'Scene numbers locked (new scenes get 12A, 12B...). Click to unlock' : 'Lock scene numbers'}
+            >
+              {numbersLocked ? <Lock className="w-4 h-4" /> : <Unlock className="w-4 h-4" />}
+            </button>
+            <button
+              onClick={() => setIsCreating(true)}
+              className="px-3 py-1.5 text-sm bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors flex items-center gap-1.5 shadow-md"
+              title="Add new scene"
+            >
+              <Plus className="w-4 h-4" />
+              New
+            </button>
+          </div>
         </div>
         <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
-          Click to navigate to scene
+          Click to navigate to scene{isFiltered ? '' : ', drag to move it in the script'}
         </p>
 
         {/* Search */}
@@ -250,18 +335,23 @@ export default function ScenePanel({ onSceneClick }: ScenePanelProps) {
         </div>
       )}
 
-      {/* Scenes List - Simple list, no drag-and-drop since scene order is determined by screenplay text */}
+      {/* Scenes List - dragging moves the scene's text; off while searching, since the list is partial */}
       <div className="flex-1 overflow-y-auto p-4">
+        <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
+          <SortableContext items={filteredScenes.map(scene => scene.id)} strategy={verticalListSortingStrategy}>
             <div className="space-y-3">
-          {filteredScenes.map((scene) => (
-            <SceneCard
+              {filteredScenes.map((scene) => (
+                <SortableSceneCard
                   key={scene.id}
                   scene={scene}
-              onClick={() => handleSceneClick(scene)}
-              isSelected={selectedSceneId === scene.id}
+                  onClick={() => handleSceneClick(scene)}
+                  isSelected={selectedSceneId === scene.id}
+                  disabled={isFiltered}
                 />
               ))}
             </div>
+          </SortableContext>
+        </DndContext>
       </div>
     </div>
   );
@@ -1,7 +1,10 @@
-import { useEffect, useRef, useState, KeyboardEvent, useCallback, forwardRef, useImperativeHandle } from 'react';
+import { useEffect, useRef, useState, KeyboardEvent, MouseEvent, useCallback, forwardRef, useImperativeHandle } from 'react';
 import { AutoFormatter } from '../../screenplay/auto-formatter';
-import { FountainParserAdapter } from '../fountain/parser';
-import type { ElementType } from '../../shared/types';
+import { FountainParserAdapter, type FountainToken } from '../fountain/parser';
+import { parseFountain } from '../../screenplay/fountain-ast';
+import { paginate, sourceLinePages } from '../../screenplay/pagination';
+import { BREAKDOWN_CATEGORIES, createAnchor, resolveAnchor } from '../../screenplay/breakdown';
+import type { BreakdownCategory, BreakdownElement, ElementType, TextAnchor } from '../../shared/types';
 import '../styles/screenplay.css';
 
 interface ScreenplayEditorProps {
@@ -13,6 +16,10 @@ interface ScreenplayEditorProps {
   onSave?: () => void;
   onStatusChange?: (status: EditorStatus) => void;
   theme?: 'light' | 'dark';
+  /** Tags to highlight in the text */
+  breakdownElements?: BreakdownElement[];
+  /** Enables tagging the selection from the context menu or Cmd+Shift+B */
+  onTagSelection?: (anchor: TextAnchor, category: BreakdownCategory) => void;
 }
 
 interface CursorPosition {
@@ -20,6 +27,18 @@ interface CursorPosition {
   offset: number;
 }
 
+/** A whole-text edit made through replaceContent, for undo and redo */
+interface ContentEdit {
+  before: string;
+  after: string;
+}
+
+interface TagMenu {
+  x: number;
+  y: number;
+  anchor: TextAnchor;
+}
+
 export interface ScreenplayEditorHandle {
   /**
    * Scroll to a specific line by its zero-based index.
@@ -28,6 +47,11 @@ export interface ScreenplayEditorHandle {
    */
   scrollToLine: (lineIndex: number) => void;
   applyFormat: (type: ElementType) => void;
+  /**
+   * Replace the whole text as one edit that Cmd+Z takes back, e.g. for
+   * moving a scene. Typing keeps the browser's own undo.
+   */
+  replaceContent: (content: string) => void;
 }
 
 export interface EditorStatus {
@@ -37,6 +61,44 @@ export interface EditorStatus {
   totalPages: number;
 }
 
+/** Offset into the editor text (lines joined by \n) of a DOM position inside a line */
+function textOffset(lines: HTMLElement[], node: Node, offset: number): number | null {
+  const index = lines.findIndex(line => line.contains(node));
+  if (index === -1) return null;
+
+  const range = document.createRange();
+  range.selectNodeContents(lines[index]);
+  range.setEnd(node, offset);
+  const before = lines.slice(0, index).reduce((sum, line) => sum + (line.textContent?.length ?? 0) + 1, 0);
+  return before + range.toString().length;
+}
+
+/** DOM position of an offset into the editor text */
+function domPosition(lines: HTMLElement[], offset: number): { node: Node; offset: number } | null {
+  let remaining = offset;
+  for (const line of lines) {
+    const length = line.textContent?.length ?? 0;
+    if (remaining <= length) {
+      const walker = document.createTreeWalker(line, NodeFilter.SHOW_TEXT);
+      for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+        const nodeLength = node.textContent?.length ?? 0;
+        if (remaining <= nodeLength) return { node, offset: remaining };
+        remaining -= nodeLength;
+      }
+      return { node: line, offset: 0 };
+    }
+    remaining -= length + 1;
+  }
+  return null;
+}
+
+function clearBreakdownHighlights() {
+  if (typeof CSS === 'undefined' || !CSS.highlights) return;
+  for (const { id } of BREAKDOWN_CATEGORIES) {
+    CSS.highlights.delete(`breakdown-${id}`);
+  }
+}
+
 const ScreenplayEditor = forwardRef<ScreenplayEditorHandle, ScreenplayEditorProps>(({
   value,
   onChange,
@@ -46,13 +108,21 @@ const ScreenplayEditor = forwardRef<ScreenplayEditorHandle, ScreenplayEditorProp
   onSave,
   onStatusChange,
   theme = 'dark',
+  breakdownElements,
+  onTagSelection,
 }, ref) => {
   const editorRef = useRef<HTMLDivElement>(null);
   const [lineCount, setLineCount] = useState(1);
   const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  // Page number per editor line, from the same engine the PDF export uses
+  const linePagesRef = useRef<number[]>([]);
   const [_activeLineIndex, setActiveLineIndex] = useState<number | null>(null);
   const isUpdatingRef = useRef(false);
   const lastValueRef = useRef(value);
+  const [tagMenu, setTagMenu] = useState<TagMenu | null>(null);
+  const undoStackRef = useRef<ContentEdit[]>([]);
+  const redoStackRef = useRef<ContentEdit[]>([]);
 
   // Initialize editor with content on mount and when value changes
   useEffect(() => {
@@ -69,32 +139,66 @@ const ScreenplayEditor = forwardRef<ScreenplayEditorHandle, ScreenplayEditorProp
     }
   }, [value]);
 
-  // Update page count based on line count
+  useEffect(() => () => clearBreakdownHighlights(), []);
+
+  // Edit > Undo/Redo in the app menu arrives as a history beforeinput, not a key
   useEffect(() => {
-    const LINES_PER_PAGE = 55;
-    // const totalPages = Math.max(1, Math.ceil(lineCount / LINES_PER_PAGE));
+    const editor = editorRef.current;
+    if (!editor) return;
+    const handleBeforeInput = (e: InputEvent) => {
+      if ((e.inputType === 'historyUndo' || e.inputType === 'historyRedo') && undoContentEdit(e.inputType === 'historyRedo')) {
+        e.preventDefault();
+      }
+    };
+    editor.addEventListener('beforeinput', handleBeforeInput);
+    return () => editor.removeEventListener('beforeinput', handleBeforeInput);
+  });
 
+  useEffect(() => {
+    if (!tagMenu) return;
+    const handleEscape = (e: globalThis.KeyboardEvent) => {
+      if (e.key === 'Escape') setTagMenu(null);
+    };
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [tagMenu]);
+
+  // Update current page when the line count changes
+  useEffect(() => {
     // Calculate current page based on cursor position
     const cursor = saveCursorPosition();
     if (cursor) {
-      const currentPageNum = Math.max(1, Math.ceil((cursor.lineIndex + 1) / LINES_PER_PAGE));
-      setCurrentPage(currentPageNum);
+      setCurrentPage(pageForLine(cursor.lineIndex));
     } else {
       // Default to page 1 if no cursor (initial load)
       setCurrentPage(1);
     }
   }, [lineCount]);
 
+  /**
+   * Paginate the text exactly as it will be saved. Editor lines map one-to-one
+   * to source lines of that text. Like the PDF, only the body is paginated: the
+   * title page prints on its own unnumbered sheet.
+   */
+  const repaginate = (content: string) => {
+    const doc = parseFountain(content);
+    const result = paginate(doc);
+    linePagesRef.current = sourceLinePages(doc, result);
+    setTotalPages(result.pages.length);
+  };
+
+  const pageForLine = (lineIndex: number): number => {
+    const pages = linePagesRef.current;
+    return pages[Math.min(lineIndex, pages.length - 1)] ?? 1;
+  };
+
   const initializeContent = (content: string) => {
     if (!editorRef.current) return;
 
     console.log('[ScreenplayEditor] Initializing content, length:', content?.length);
 
-    // Normalize content to fix excessive blank lines
-    const normalizedContent = FountainParserAdapter.normalizeContent(content || '');
-    
-    // Parse for better element detection
-    const parsed = FountainParserAdapter.parse(normalizedContent);
+    // One line per source line, so the editor text is the content as given
+    const parsed = FountainParserAdapter.parse(content || '');
     
     editorRef.current.innerHTML = '';
 
@@ -112,7 +216,9 @@ const ScreenplayEditor = forwardRef<ScreenplayEditorHandle, ScreenplayEditorProp
       setLineCount(parsed.tokens.length);
     }
 
-    console.log('[ScreenplayEditor] Created', parsed.tokens.length, 'lines from normalized content');
+    repaginate(content || '');
+
+    console.log('[ScreenplayEditor] Created', parsed.tokens.length, 'lines from content');
 
     // Scroll to top after initializing content
     requestAnimationFrame(() => {
@@ -124,14 +230,22 @@ const ScreenplayEditor = forwardRef<ScreenplayEditorHandle, ScreenplayEditorProp
   };
 
   // Create line element from parsed token (more accurate)
-  const createLineElementFromToken = (token: { type: ElementType; text: string }, index: number): HTMLDivElement => {
+  const createLineElementFromToken = (token: FountainToken, index: number): HTMLDivElement => {
     const div = document.createElement('div');
     div.className = 'screenplay-line';
     div.setAttribute('data-line-index', index.toString());
     div.setAttribute('data-element-type', token.type);
     
     applyElementFormatting(div, token.type);
-    div.textContent = token.text || '';
+    if (token.dual) {
+      div.classList.add(`dual-${token.dual}`);
+    }
+    if (token.type === 'section' && token.depth) {
+      div.setAttribute('data-depth', token.depth.toString());
+    }
+    // Show source lines as written so Fountain markup (#, =, ~, ^, [[ ]]), title page
+    // keys and continuation indents survive the round trip through syncContentToState
+    div.textContent = token.raw;
     
     return div;
   };
@@ -159,8 +273,7 @@ const ScreenplayEditor = forwardRef<ScreenplayEditorHandle, ScreenplayEditorProp
       }
     }
 
-    const LINES_PER_PAGE = 55;
-    const newPage = Math.max(1, Math.ceil((firstVisibleLineIndex + 1) / LINES_PER_PAGE));
+    const newPage = pageForLine(firstVisibleLineIndex);
     if (newPage !== currentPage) {
       setCurrentPage(newPage);
     }
@@ -174,7 +287,7 @@ const ScreenplayEditor = forwardRef<ScreenplayEditorHandle, ScreenplayEditorProp
     // Detect element type
     const previousLine = index > 0 ? editorRef.current?.children[index - 1] : null;
     const previousType = previousLine?.getAttribute('data-element-type') as ElementType | undefined;
-    const elementType = AutoFormatter.detectElementType(text, previousType);
+    const elementType = AutoFormatter.detectElementType(text, previousType, previousLine?.textContent ?? undefined);
 
     div.setAttribute('data-element-type', elementType);
     applyElementFormatting(div, elementType);
@@ -260,12 +373,125 @@ const ScreenplayEditor = forwardRef<ScreenplayEditorHandle, ScreenplayEditorProp
       lastValueRef.current = content;
       onChange(content);
       setLineCount(lines.length);
+      repaginate(content);
       requestAnimationFrame(() => {
         isUpdatingRef.current = false;
       });
     }
   };
 
+  const getText = (): string => getLines().map(line => line.textContent || '').join('\n');
+
+  /** Redraw the editor with new text and report that text, keeping the scroll position */
+  const setText = (content: string) => {
+    if (!editorRef.current) return;
+    const scrollTop = editorRef.current.scrollTop;
+    initializeContent(content);
+    // initializeContent scrolls to the top in the next frame; come back after it
+    requestAnimationFrame(() => requestAnimationFrame(() => {
+      if (editorRef.current) editorRef.current.scrollTop = scrollTop;
+    }));
+
+    lastValueRef.current = content;
+    onChange(content);
+  };
+
+  // The imperative handle keeps one replaceContent, which reaches this render's helpers here
+  const textHelpersRef = useRef({ getText, setText });
+  textHelpersRef.current = { getText, setText };
+
+  const replaceContent = useCallback((content: string) => {
+    const { getText, setText } = textHelpersRef.current;
+    const before = getText();
+    if (content === before) return;
+    setText(content);
+    undoStackRef.current.push({ before, after: content });
+    redoStackRef.current = [];
+  }, []);
+
+  /**
+   * Undo or redo a replaceContent edit if the text is still as it left it;
+   * otherwise the key goes on to the browser's typing undo
+   */
+  const undoContentEdit = (redo: boolean): boolean => {
+    const [from, to] = redo ? [redoStackRef.current, undoStackRef.current] : [undoStackRef.current, redoStackRef.current];
+    const edit = from[from.length - 1];
+    if (!edit || getText() !== (redo ? edit.before : edit.after)) return false;
+
+    from.pop();
+    to.push(edit);
+    setText(redo ? edit.after : edit.before);
+    return true;
+  };
+
+  const getLines = useCallback((): HTMLElement[] =>
+    editorRef.current ? Array.from(editorRef.current.querySelectorAll<HTMLElement>('.screenplay-line')) : [], []);
+
+  const refreshBreakdownHighlights = useCallback(() => {
+    clearBreakdownHighlights();
+    if (!editorRef.current || !breakdownElements?.length || typeof CSS === 'undefined' || !CSS.highlights) return;
+
+    const lines = getLines();
+    const text = lines.map(line => line.textContent || '').join('\n');
+    const ranges = new Map<BreakdownCategory, Range[]>();
+
+    for (const element of breakdownElements) {
+      const found = resolveAnchor(text, element.anchor);
+      const start = found && domPosition(lines, found.start);
+      const end = found && domPosition(lines, found.end);
+      if (!start || !end) continue;
+
+      const range = document.createRange();
+      range.setStart(start.node, start.offset);
+      range.setEnd(end.node, end.offset);
+      ranges.set(element.category, [...(ranges.get(element.category) ?? []), range]);
+    }
+
+    for (const [category, list] of ranges) {
+      CSS.highlights.set(`breakdown-${category}`, new Highlight(...list));
+    }
+  }, [breakdownElements, getLines]);
+
+  // Redraw breakdown highlights whenever the text or the tags change
+  useEffect(() => {
+    refreshBreakdownHighlights();
+  }, [value, refreshBreakdownHighlights]);
+
+  /** Anchor for the current selection, trimmed of surrounding whitespace */
+  const selectionAnchor = (): TextAnchor | null => {
+    const selection = window.getSelection();
+    if (!selection || selection.isCollapsed || selection.rangeCount === 0) return null;
+
+    const lines = getLines();
+    const range = selection.getRangeAt(0);
+    let start = textOffset(lines, range.startContainer, range.startOffset);
+    let end = textOffset(lines, range.endContainer, range.endOffset);
+    if (start === null || end === null) return null;
+
+    const text = lines.map(line => line.textContent || '').join('\n');
+    while (start < end && /\s/.test(text[start])) start++;
+    while (end > start && /\s/.test(text[end - 1])) end--;
+    return end > start ? createAnchor(text, start, end) : null;
+  };
+
+  const openTagMenu = (x: number, y: number): boolean => {
+    const anchor = selectionAnchor();
+    if (!anchor) return false;
+    setTagMenu({ x, y, anchor });
+    return true;
+  };
+
+  const handleContextMenu = (e: MouseEvent<HTMLDivElement>) => {
+    if (onTagSelection && openTagMenu(e.clientX, e.clientY)) {
+      e.preventDefault();
+    }
+  };
+
+  const handleTag = (category: BreakdownCategory) => {
+    if (tagMenu) onTagSelection?.(tagMenu.anchor, category);
+    setTagMenu(null);
+  };
+
   const getCurrentLine = (): HTMLElement | null => {
     const selection = window.getSelection();
     if (!selection || !selection.anchorNode) return null;
@@ -301,20 +527,15 @@ const ScreenplayEditor = forwardRef<ScreenplayEditorHandle, ScreenplayEditorProp
       
       setActiveLineIndex(lineIndex);
       
-      // Calculate page info
-      const LINES_PER_PAGE = 55;
-      const pageNumber = Math.max(1, Math.ceil((lineIndex + 1) / LINES_PER_PAGE));
-      const totalPages = Math.max(1, Math.ceil(lineCount / LINES_PER_PAGE));
-      
       // Report status to parent
       onStatusChange?.({
         elementType,
         lineNumber: lineIndex + 1,
-        pageNumber,
+        pageNumber: pageForLine(lineIndex),
         totalPages,
       });
     }
-  }, [lineCount, onStatusChange]);
+  }, [totalPages, onStatusChange]);
 
   const updateCurrentLineFormatting = useCallback((type: ElementType) => {
     const currentLine = getCurrentLine();
@@ -343,7 +564,7 @@ const ScreenplayEditor = forwardRef<ScreenplayEditorHandle, ScreenplayEditorProp
       const previousLine = lineIndex > 0 ? editorRef.current.children[lineIndex - 1] : null;
       const previousType = previousLine?.getAttribute('data-element-type') as ElementType | undefined;
 
-      const detectedType = AutoFormatter.detectElementType(text, previousType);
+      const detectedType = AutoFormatter.detectElementType(text, previousType, previousLine?.textContent ?? undefined);
       const currentType = currentLine.getAttribute('data-element-type') as ElementType;
 
       if (detectedType !== currentType) {
@@ -377,6 +598,14 @@ const ScreenplayEditor = forwardRef<ScreenplayEditorHandle, ScreenplayEditorProp
       return;
     }
 
+    // Undo/redo of whole-text edits such as scene moves
+    if ((e.metaKey || e.ctrlKey) && (e.key.toLowerCase() === 'z' || e.key === 'y')) {
+      if (undoContentEdit(e.shiftKey || e.key === 'y')) {
+        e.preventDefault();
+        return;
+      }
+    }
+
     // Formatting shortcuts
     if ((e.metaKey || e.ctrlKey) && e.shiftKey) {
       let newType: ElementType | null = null;
@@ -394,6 +623,15 @@ const ScreenplayEditor = forwardRef<ScreenplayEditorHandle, ScreenplayEditorProp
         case 'd':
           newType = 'dialogue';
           break;
+        case 'b': {
+          // Tag the selection for the breakdown
+          const rect = window.getSelection()?.getRangeAt(0).getBoundingClientRect();
+          if (onTagSelection && rect) {
+            e.preventDefault();
+            openTagMenu(rect.left, rect.bottom + 4);
+          }
+          return;
+        }
       }
 
       if (newType) {
@@ -512,7 +750,8 @@ const ScreenplayEditor = forwardRef<ScreenplayEditorHandle, ScreenplayEditorProp
   useImperativeHandle(ref, () => ({
     scrollToLine,
     applyFormat,
-  }), [scrollToLine, applyFormat]);
+    replaceContent,
+  }), [scrollToLine, applyFormat, replaceContent]);
 
   // Handle click to update active line
   const handleClick = () => {
@@ -537,7 +776,7 @@ const ScreenplayEditor = forwardRef<ScreenplayEditorHandle, ScreenplayEditorProp
     <div className={`screenplay-container ${theme === 'dark' ? 'dark' : ''}`}>
       <div className="screenplay-page">
         <div className="screenplay-page-header">
-          Page {currentPage} of {Math.max(1, Math.ceil(lineCount / 55))}
+          Page {currentPage} of {totalPages}
         </div>
         <div
           ref={editorRef}
@@ -547,10 +786,34 @@ const ScreenplayEditor = forwardRef<ScreenplayEditorHandle, ScreenplayEditorProp
           onKeyDown={handleKeyDown}
           onScroll={handleScroll}
           onClick={handleClick}
+          onContextMenu={handleContextMenu}
           data-placeholder="Start writing your screenplay..."
           suppressContentEditableWarning
         />
       </div>
+      {tagMenu && (
+        <>
+          <div className="fixed inset-0 z-40" onMouseDown={() => setTagMenu(null)} />
+          <div
+            className="fixed z-50 w-56 py-1 bg-white dark:bg-dark-surface border border-gray-200 dark:border-dark-border rounded-lg shadow-xl text-sm font-sans"
+            style={{ left: Math.min(tagMenu.x, window.innerWidth - 232), top: Math.min(tagMenu.y, window.innerHeight - 420) }}
+          >
+            <div className="px-3 py-1.5 text-xs text-gray-500 dark:text-gray-400 truncate">
+              Tag "{tagMenu.anchor.text}" as
+            </div>
+            {BREAKDOWN_CATEGORIES.map(({ id, label, color }) => (
+              <button
+                key={id}
+                onClick={() => handleTag(id)}
+                className="w-full flex items-center gap-2 px-3 py-1 text-left text-gray-900 dark:text-gray-100 hover:bg-gray-100 dark:hover:bg-dark-bg"
+              >
+                <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: color }} />
+                {label}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
     </div>
   );
 });
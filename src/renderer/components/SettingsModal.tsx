@@ -1,29 +1,76 @@
 import { useState, useEffect } from 'react';
 import { useAppStore } from '../store/app-store';
-import { Sun, Moon } from 'lucide-react';
+import { Sun, Moon, Cloud, HardDrive } from 'lucide-react';
+import type { LLMProviderSettings, LLMTask, ToolPermission } from '../../shared/types';
+import {
+  DEFAULT_LLM_PROVIDER,
+  LLM_TASKS,
+  LLM_TASK_LABELS,
+  LOCAL_PROVIDER_PRESETS,
+  normalizeProviderSettings,
+  validateProviderSettings,
+} from '../../ai/provider-settings';
+import { GUARDED_TOOLS, TOOL_PERMISSION_LABELS, toolPermission } from '../../ai/tool-policy';
 
 export default function SettingsModal() {
-  const { globalSettings, saveGlobalSettings, setIsSettingsOpen } = useAppStore();
+  const { globalSettings, saveGlobalSettings, projectSettings, saveProjectSettings, setIsSettingsOpen } = useAppStore();
   
   const [apiKey, setApiKey] = useState('');
+  const [provider, setProvider] = useState<LLMProviderSettings>(DEFAULT_LLM_PROVIDER);
   const [theme, setTheme] = useState<'light' | 'dark'>('dark');
   const [exportFormat, setExportFormat] = useState<'pdf' | 'fdx' | 'fountain'>('pdf');
+  const [autoContd, setAutoContd] = useState(true);
+  const [toolPolicy, setToolPolicy] = useState<Record<string, ToolPermission>>({});
 
   useEffect(() => {
     if (globalSettings) {
       setApiKey(globalSettings.openaiApiKey || '');
+      setProvider(normalizeProviderSettings(globalSettings.llmProvider));
       setTheme(globalSettings.defaultTheme || 'dark');
       setExportFormat(globalSettings.defaultExportFormat || 'pdf');
     }
   }, [globalSettings]);
 
+  useEffect(() => {
+    if (projectSettings) {
+      setAutoContd(projectSettings.autoContd ?? true);
+      setToolPolicy(projectSettings.toolPolicy ?? {});
+    }
+  }, [projectSettings]);
+
+  const providerError = validateProviderSettings(provider);
+
+  const switchProvider = (kind: LLMProviderSettings['kind']) => {
+    if (kind === provider.kind) return;
+    // Model names don't carry over between OpenAI and a local server
+    setProvider(kind === 'openai'
+      ? DEFAULT_LLM_PROVIDER
+      : normalizeProviderSettings({
+          kind,
+          baseURL: LOCAL_PROVIDER_PRESETS[0].baseURL,
+          capabilities: LOCAL_PROVIDER_PRESETS[0].capabilities,
+        }));
+  };
+
+  const setModel = (task: LLMTask, model: string) => {
+    setProvider({ ...provider, models: { ...provider.models, [task]: model } });
+  };
+
   const handleSave = async () => {
+    if (providerError) {
+      alert(providerError);
+      return;
+    }
     try {
       await saveGlobalSettings({
         openaiApiKey: apiKey,
+        llmProvider: provider,
         defaultTheme: theme,
         defaultExportFormat: exportFormat,
       });
+      if (projectSettings) {
+        await saveProjectSettings({ autoContd, toolPolicy });
+      }
       setIsSettingsOpen(false);
     } catch (error) {
       alert('Failed to save settings: ' + error);
@@ -36,8 +83,109 @@ export default function SettingsModal() {
         <h2 className="text-2xl font-bold mb-6">Settings</h2>
 
         <div className="space-y-6">
-          {/* OpenAI API Key */}
+          {/* AI Provider */}
           <div>
+            <label className="block text-sm font-medium mb-2">AI Provider</label>
+            <div className="flex gap-3">
+              {([
+                ['openai', 'OpenAI', Cloud],
+                ['local', 'Local server', HardDrive],
+              ] as const).map(([kind, label, Icon]) => (
+                <button
+                  key={kind}
+                  onClick={() => switchProvider(kind)}
+                  className={`flex-1 px-4 py-3 rounded-lg border-2 transition-colors flex items-center justify-center gap-2 ${
+                    provider.kind === kind
+                      ? 'border-primary-600 bg-primary-50 dark:bg-primary-900/20'
+                      : 'border-gray-300 dark:border-dark-border'
+                  }`}
+                >
+                  <Icon className="w-4 h-4" />
+                  {label}
+                </button>
+              ))}
+            </div>
+            {provider.kind === 'local' && (
+              <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                Any OpenAI-compatible server on this machine, such as llama.cpp or Ollama. Your script and
+                your API key are never sent anywhere else.
+              </p>
+            )}
+          </div>
+
+          {provider.kind === 'local' && (
+            <div>
+              <label className="block text-sm font-medium mb-2">Server URL</label>
+              <div className="flex gap-2">
+                <input
+                  value={provider.baseURL}
+                  onChange={(e) => setProvider({ ...provider, baseURL: e.target.value })}
+                  placeholder="http://localhost:11434/v1"
+                  className="flex-1 px-4 py-2 border border-gray-300 dark:border-dark-border rounded-lg bg-white dark:bg-dark-bg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                />
+                <select
+                  value=""
+                  onChange={(e) => {
+                    const preset = LOCAL_PROVIDER_PRESETS.find(p => p.id === e.target.value);
+                    if (preset) setProvider({ ...provider, baseURL: preset.baseURL, capabilities: preset.capabilities });
+                  }}
+                  className="px-3 py-2 border border-gray-300 dark:border-dark-border rounded-lg bg-white dark:bg-dark-bg focus:outline-none focus:ring-2 focus:ring-primary-500 text-sm"
+                >
+                  <option value="">Presets...</option>
+                  {LOCAL_PROVIDER_PRESETS.map(preset => (
+                    <option key={preset.id} value={preset.id}>{preset.label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+
+          {/* Models per task */}
+          <div>
+            <label className="block text-sm font-medium mb-2">Models</label>
+            <div className="grid grid-cols-[auto,1fr] items-center gap-x-3 gap-y-2">
+              {LLM_TASKS.map(task => (
+                <div key={task} className="contents">
+                  <span className="text-sm text-gray-600 dark:text-gray-400">{LLM_TASK_LABELS[task]}</span>
+                  <input
+                    value={provider.models[task]}
+                    onChange={(e) => setModel(task, e.target.value)}
+                    placeholder={task === 'chat' ? (provider.kind === 'local' ? 'e.g. llama3.1' : 'gpt-4o-mini') : 'Same as chat'}
+                    className="px-3 py-1.5 text-sm border border-gray-300 dark:border-dark-border rounded-lg bg-white dark:bg-dark-bg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-6 mt-3">
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={provider.capabilities.toolCalling}
+                  onChange={(e) => setProvider({ ...provider, capabilities: { ...provider.capabilities, toolCalling: e.target.checked } })}
+                  className="rounded border-gray-300 dark:border-dark-border"
+                />
+                Tool calling (agent mode)
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={provider.capabilities.jsonMode}
+                  onChange={(e) => setProvider({ ...provider, capabilities: { ...provider.capabilities, jsonMode: e.target.checked } })}
+                  className="rounded border-gray-300 dark:border-dark-border"
+                />
+                JSON mode
+              </label>
+            </div>
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Without tool calling the assistant can only suggest changes, not make them.
+            </p>
+            {providerError && (
+              <p className="mt-2 text-xs text-red-600 dark:text-red-400">{providerError}</p>
+            )}
+          </div>
+
+          {/* OpenAI API Key */}
+          {provider.kind === 'openai' && <div>
             <label className="block text-sm font-medium mb-2">
               OpenAI API Key
             </label>
@@ -60,7 +208,7 @@ export default function SettingsModal() {
               </a>
               . Your key is encrypted and stored securely using your system's keychain.
             </p>
-          </div>
+          </div>}
 
           {/* Theme */}
           <div>
@@ -112,6 +260,51 @@ export default function SettingsModal() {
               <option value="fdx">Final Draft (FDX)</option>
             </select>
           </div>
+
+          {/* Agent tool permissions */}
+          {projectSettings && (
+            <div>
+              <label className="block text-sm font-medium mb-2">Assistant permissions (this project)</label>
+              <div className="grid grid-cols-[1fr,auto] items-center gap-x-3 gap-y-2">
+                {GUARDED_TOOLS.map(tool => (
+                  <div key={tool.name} className="contents">
+                    <span className="text-sm text-gray-600 dark:text-gray-400">{tool.label}</span>
+                    <select
+                      value={toolPermission(toolPolicy, tool.name)}
+                      onChange={(e) => setToolPolicy({ ...toolPolicy, [tool.name]: e.target.value as ToolPermission })}
+                      className="px-3 py-1.5 text-sm border border-gray-300 dark:border-dark-border rounded-lg bg-white dark:bg-dark-bg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    >
+                      {(Object.keys(TOOL_PERMISSION_LABELS) as ToolPermission[]).map(permission => (
+                        <option key={permission} value={permission}>{TOOL_PERMISSION_LABELS[permission]}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                In agent mode, "Ask first" shows what would be deleted, merged or exported and waits for you.
+              </p>
+            </div>
+          )}
+
+          {/* Project pagination */}
+          {projectSettings && (
+            <div>
+              <label className="block text-sm font-medium mb-2">Pagination (this project)</label>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={autoContd}
+                  onChange={(e) => setAutoContd(e.target.checked)}
+                  className="rounded border-gray-300 dark:border-dark-border"
+                />
+                Automatic (CONT'D) when a character speaks again after action
+              </label>
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                Speeches split across pages always get (MORE) and (CONT'D).
+              </p>
+            </div>
+          )}
         </div>
 
         <div className="flex gap-3 mt-8">
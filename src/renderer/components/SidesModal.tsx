@@ -0,0 +1,127 @@
+import { useMemo, useState } from 'react';
+import { useAppStore } from '../store/app-store';
+import { buildCharacterSceneCountMap, getScenesForCharacter } from '../utils/character-scenes';
+
+interface SidesModalProps {
+  onClose: () => void;
+}
+
+export default function SidesModal({ onClose }: SidesModalProps) {
+  const { currentProject, screenplayContent, parsedScenes } = useAppStore();
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [character, setCharacter] = useState('');
+  const [highlight, setHighlight] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Speaking characters, most scenes first
+  const characterNames = useMemo(
+    () => [...buildCharacterSceneCountMap(parsedScenes)].sort((a, b) => b[1] - a[1]).map(([name]) => name),
+    [parsedScenes]
+  );
+
+  const handleCharacterChange = (name: string) => {
+    setCharacter(name);
+    setHighlight(name);
+    setSelected(new Set(getScenesForCharacter(parsedScenes, name).map(scene => scene.id)));
+  };
+
+  const toggleScene = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleGenerate = async () => {
+    setIsExporting(true);
+    try {
+      const label = character ? ` - ${character}` : '';
+      const savePath = await window.api.export.showSaveDialog('pdf', `${currentProject?.name ?? 'Screenplay'} Sides${label}.pdf`);
+      if (savePath) {
+        await window.api.export.sides(savePath, {
+          content: screenplayContent,
+          sceneIds: [...selected],
+          highlight: highlight || undefined,
+        });
+        alert('Sides exported!');
+        onClose();
+      }
+    } catch (error) {
+      console.error('Sides export error:', error);
+      alert('Failed to generate sides: ' + error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const selectClass = 'w-full px-3 py-2 border border-gray-300 dark:border-dark-border rounded-lg bg-white dark:bg-dark-bg focus:outline-none focus:ring-2 focus:ring-primary-500 text-sm';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-dark-surface rounded-xl p-8 max-w-xl w-full mx-4 shadow-2xl max-h-[85vh] flex flex-col">
+        <h2 className="text-2xl font-bold mb-2">Generate Sides</h2>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-6">
+          Prints only the pages with the chosen scenes, keeping the script's page and scene numbers. Other scenes sharing those pages are crossed out.
+        </p>
+
+        <div className="grid grid-cols-2 gap-4 mb-4">
+          <div>
+            <label className="block text-sm font-medium mb-1">Scenes for character</label>
+            <select value={character} onChange={(e) => handleCharacterChange(e.target.value)} className={selectClass}>
+              <option value="">Choose scenes below</option>
+              {characterNames.map(name => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">Highlight dialogue</label>
+            <select value={highlight} onChange={(e) => setHighlight(e.target.value)} className={selectClass}>
+              <option value="">None</option>
+              {characterNames.map(name => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto border border-gray-200 dark:border-dark-border rounded-lg divide-y divide-gray-100 dark:divide-dark-border">
+          {parsedScenes.length === 0 && (
+            <div className="p-4 text-sm text-gray-500 dark:text-gray-400">No scenes in this screenplay yet.</div>
+          )}
+          {parsedScenes.map(scene => (
+            <label key={scene.id} className="flex items-center gap-3 px-3 py-2 text-sm cursor-pointer hover:bg-gray-50 dark:hover:bg-dark-bg">
+              <input
+                type="checkbox"
+                checked={selected.has(scene.id)}
+                onChange={() => toggleScene(scene.id)}
+                className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+              />
+              <span className="w-10 text-gray-500 dark:text-gray-400 font-mono">{scene.sceneNumber}</span>
+              <span className="truncate">{scene.heading}</span>
+            </label>
+          ))}
+        </div>
+
+        <div className="flex gap-3 mt-6">
+          <button
+            onClick={onClose}
+            disabled={isExporting}
+            className="flex-1 px-4 py-2 border border-gray-300 dark:border-dark-border rounded-lg hover:bg-gray-50 dark:hover:bg-dark-bg transition-colors disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleGenerate}
+            disabled={isExporting || selected.size === 0}
+            className="flex-1 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50"
+          >
+            {isExporting ? 'Generating...' : `Generate Sides (${selected.size})`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,395 @@
+import { useEffect, useMemo, useState, type ReactNode } from 'react';
+import {
+  DndContext,
+  DragOverlay,
+  KeyboardSensor,
+  PointerSensor,
+  closestCenter,
+  useDroppable,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+  type DragStartEvent,
+} from '@dnd-kit/core';
+import { SortableContext, arrayMove, sortableKeyboardCoordinates, useSortable, verticalListSortingStrategy } from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import { AlertCircle, GripVertical, Plus, Upload, X } from 'lucide-react';
+import { useAppStore } from '../store/app-store';
+import { buildStripboard, refreshSchedule, sceneAnchor, type Strip } from '../../screenplay/schedule';
+import { formatEighths } from '../../screenplay/production-reports';
+import { buildDayOutOfDays, type DayOutOfDays } from '../../screenplay/dood';
+import type { ReportExportOptions, RevisionState, ScheduleItem } from '../../shared/types';
+
+interface StripboardModalProps {
+  onClose: () => void;
+}
+
+const SCHEDULE = 'schedule';
+const UNSCHEDULED = 'unscheduled';
+
+function SortableRow({ id, children }: { id: string; children: ReactNode }) {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({ id });
+  return (
+    <div
+      ref={setNodeRef}
+      style={{ transform: CSS.Transform.toString(transform), transition, opacity: isDragging ? 0.4 : 1 }}
+      {...attributes}
+      {...listeners}
+    >
+      {children}
+    </div>
+  );
+}
+
+function DropColumn({ id, children }: { id: string; children: ReactNode }) {
+  const { setNodeRef, isOver } = useDroppable({ id });
+  return (
+    <div
+      ref={setNodeRef}
+      className={`flex-1 overflow-y-auto border rounded-lg p-2 space-y-1 ${
+        isOver ? 'border-primary-500' : 'border-gray-200 dark:border-dark-border'
+      }`}
+    >
+      {children}
+    </div>
+  );
+}
+
+function DayOutOfDaysGrid({ dood }: { dood: DayOutOfDays }) {
+  const days = Array.from({ length: dood.days }, (_, i) => i + 1);
+  const cell = 'px-1.5 py-1 border border-gray-200 dark:border-dark-border text-center';
+  return (
+    <div className="flex-1 overflow-auto border border-gray-200 dark:border-dark-border rounded-lg">
+      <table className="text-xs border-collapse">
+        <thead className="sticky top-0 bg-gray-50 dark:bg-dark-bg">
+          <tr>
+            <th className={cell}>ID</th>
+            <th className={`${cell} text-left`}>Character</th>
+            {days.map(day => <th key={day} className={`${cell} w-9`}>{day}</th>)}
+            {['Work', 'Hold', 'Drop', 'Start', 'Finish', 'Total'].map(label => <th key={label} className={cell}>{label}</th>)}
+          </tr>
+        </thead>
+        <tbody>
+          {dood.cast.map(member => (
+            <tr key={member.id}>
+              <td className={cell}>{member.id}</td>
+              <td className={`${cell} text-left whitespace-nowrap`}>{member.name}</td>
+              {member.codes.map((code, i) => (
+                <td key={i} className={`${cell} font-mono ${code === 'H' ? 'text-gray-400' : code ? 'font-semibold bg-primary-50 dark:bg-primary-900/20' : ''}`}>
+                  {code}
+                </td>
+              ))}
+              {[member.work, member.hold, member.drop, member.start, member.finish, member.total].map((n, i) => (
+                <td key={i} className={cell}>{n || ''}</td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {dood.days === 0 && (
+        <div className="p-4 text-sm text-gray-500 dark:text-gray-400">Schedule some scenes to see who works which day.</div>
+      )}
+    </div>
+  );
+}
+
+function StripRow({ strip, onRemove }: { strip: Strip; onRemove?: () => void }) {
+  return (
+    <div
+      className="flex items-center gap-2 px-2 py-1.5 text-xs text-gray-900 rounded border border-gray-300 cursor-grab"
+      style={{ backgroundColor: strip.color }}
+    >
+      <GripVertical className="w-3.5 h-3.5 text-gray-400 flex-shrink-0" />
+      <span className="w-8 font-mono font-bold">{strip.sceneNumber}</span>
+      <span className="w-16">{strip.setting || '-'}/{strip.period === 'DAY' ? 'D' : 'N'}</span>
+      <span className="flex-1 truncate font-medium">{strip.location || strip.heading}</span>
+      <span className="w-12 text-right">{formatEighths(strip.eighths)}</span>
+      <span className="w-24 truncate text-gray-600" title="Cast IDs">{strip.cast.join(', ')}</span>
+      {onRemove && (
+        <button
+          onPointerDown={(e) => e.stopPropagation()}
+          onClick={onRemove}
+          title="Unschedule"
+          className="p-0.5 text-gray-500 hover:text-red-600"
+        >
+          <X className="w-3.5 h-3.5" />
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default function StripboardModal({ onClose }: StripboardModalProps) {
+  const { screenplayContent, breakdownElements, projectSettings, currentProject } = useAppStore();
+  const [view, setView] = useState<'strips' | 'dood'>('strips');
+  const [isExporting, setIsExporting] = useState(false);
+  const [items, setItems] = useState<ScheduleItem[]>([]);
+  const [revisions, setRevisions] = useState<RevisionState | null>(null);
+  const [activeId, setActiveId] = useState<string | null>(null);
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+  );
+
+  useEffect(() => {
+    window.api.schedule.get()
+      .then(schedule => setItems(schedule?.items ?? []))
+      .catch(error => console.error('Failed to load schedule:', error));
+    window.api.revision.getState()
+      .then(setRevisions)
+      .catch(error => console.error('Failed to load revision state:', error));
+  }, []);
+
+  const options = useMemo(
+    () => ({ breakdown: breakdownElements, revisions, autoContd: projectSettings?.autoContd }),
+    [breakdownElements, revisions, projectSettings]
+  );
+  const board = useMemo(() => buildStripboard(screenplayContent, items, options), [screenplayContent, items, options]);
+  const dood = useMemo(
+    () => (view === 'dood' ? buildDayOutOfDays(screenplayContent, items, options) : null),
+    [view, screenplayContent, items, options]
+  );
+
+  const strips = useMemo(() => {
+    const byId = new Map<string, Strip>();
+    for (const strip of [...board.days.flatMap(day => day.strips), ...board.unscheduled]) byId.set(strip.id, strip);
+    return byId;
+  }, [board]);
+  const missing = new Set(board.missing.map(item => item.id));
+  const scheduledEighths = board.days.reduce((sum, day) => sum + day.eighths, 0);
+
+  const updateSchedule = async (next: ScheduleItem[]) => {
+    const refreshed = refreshSchedule(screenplayContent, next);
+    setItems(refreshed);
+    try {
+      await window.api.schedule.save(refreshed);
+    } catch (error) {
+      console.error('Failed to save schedule:', error);
+      alert('Failed to save schedule: ' + error);
+    }
+  };
+
+  const handleImportCSV = async () => {
+    if (items.length > 0 && !confirm('Replace the current schedule with the shoot days in a CSV file?')) return;
+    try {
+      const csvPath = await window.api.import.showOpenDialog('csv');
+      if (!csvPath) return;
+      const { schedule, skipped } = await window.api.schedule.importCSV(csvPath, screenplayContent);
+      setItems(schedule.items);
+      if (skipped.length > 0) {
+        alert(`These scene numbers weren't found in the script or were listed twice: ${skipped.join(', ')}`);
+      }
+    } catch (error) {
+      console.error('Failed to import shoot days:', error);
+      alert('Failed to import shoot days: ' + error);
+    }
+  };
+
+  const handleExportDOOD = async (format: ReportExportOptions['format']) => {
+    setIsExporting(true);
+    try {
+      const savePath = await window.api.export.showSaveDialog(format, `${currentProject?.name ?? 'Screenplay'} - Day Out of Days.${format}`);
+      if (savePath) {
+        await window.api.export.report(savePath, { kind: 'dood', format, content: screenplayContent });
+        alert('Report exported!');
+      }
+    } catch (error) {
+      console.error('Report export error:', error);
+      alert('Failed to export report: ' + error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const newId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+  const handleDragStart = (event: DragStartEvent) => setActiveId(String(event.active.id));
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    setActiveId(null);
+    if (!over) return;
+
+    const activeKey = String(active.id);
+    const overKey = String(over.id);
+    const from = items.findIndex(item => item.id === activeKey);
+    const to = items.findIndex(item => item.id === overKey);
+    const toSchedule = overKey === SCHEDULE || to !== -1;
+
+    if (from !== -1) {
+      if (!toSchedule) {
+        // Dragged back to the unscheduled column
+        updateSchedule(items.filter(item => item.id !== activeKey));
+      } else if (from !== to) {
+        updateSchedule(arrayMove(items, from, to === -1 ? items.length - 1 : to));
+      }
+    } else if (toSchedule) {
+      const sceneIndex = strips.get(activeKey)?.sceneIndex;
+      if (sceneIndex === undefined) return;
+      const item: ScheduleItem = { type: 'scene', id: newId('strip'), anchor: sceneAnchor(screenplayContent, sceneIndex) };
+      const next = [...items];
+      next.splice(to === -1 ? items.length : to, 0, item);
+      updateSchedule(next);
+    }
+  };
+
+  const renderItem = (item: ScheduleItem) => {
+    if (item.type === 'day-break') {
+      const day = board.days.find(d => d.breakId === item.id);
+      return (
+        <SortableRow key={item.id} id={item.id}>
+          <div className="flex items-center gap-2 px-2 py-1.5 text-xs font-semibold text-white bg-gray-800 rounded cursor-grab">
+            <GripVertical className="w-3.5 h-3.5 text-gray-400" />
+            <span className="flex-1">
+              END OF DAY {day?.number} &mdash; {day?.strips.length ?? 0} {day?.strips.length === 1 ? 'scene' : 'scenes'}, {formatEighths(day?.eighths ?? 0)} pgs
+            </span>
+            <button
+              onPointerDown={(e) => e.stopPropagation()}
+              onClick={() => updateSchedule(items.filter(i => i.id !== item.id))}
+              title="Remove day break"
+              className="p-0.5 text-gray-400 hover:text-red-400"
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        </SortableRow>
+      );
+    }
+
+    const remove = () => updateSchedule(items.filter(i => i.id !== item.id));
+    if (missing.has(item.id)) {
+      return (
+        <SortableRow key={item.id} id={item.id}>
+          <div className="flex items-center gap-2 px-2 py-1.5 text-xs rounded border border-red-300 bg-red-50 text-red-700 cursor-grab">
+            <AlertCircle className="w-3.5 h-3.5 flex-shrink-0" />
+            <span className="flex-1 truncate">Scene not found: {item.anchor.text}</span>
+            <button onPointerDown={(e) => e.stopPropagation()} onClick={remove} title="Remove strip" className="p-0.5 hover:text-red-900">
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        </SortableRow>
+      );
+    }
+
+    const strip = strips.get(item.id);
+    return strip ? (
+      <SortableRow key={item.id} id={item.id}>
+        <StripRow strip={strip} onRemove={remove} />
+      </SortableRow>
+    ) : null;
+  };
+
+  const openDay = board.days.find(day => !day.breakId);
+  const activeStrip = activeId ? strips.get(activeId) : undefined;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-dark-surface rounded-xl p-8 max-w-6xl w-full mx-4 shadow-2xl h-[90vh] flex flex-col">
+        <div className="flex items-start justify-between mb-2">
+          <div className="flex items-center gap-4">
+            <h2 className="text-2xl font-bold">Stripboard</h2>
+            <div className="flex text-sm border border-gray-300 dark:border-dark-border rounded-lg overflow-hidden">
+              {(['strips', 'dood'] as const).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setView(option)}
+                  className={`px-3 py-1 ${view === option ? 'bg-primary-600 text-white' : 'hover:bg-gray-50 dark:hover:bg-dark-bg'}`}
+                >
+                  {option === 'strips' ? 'Strips' : 'Day Out of Days'}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="text-sm text-gray-500 dark:text-gray-400 text-right">
+            {board.days.length} {board.days.length === 1 ? 'day' : 'days'} &middot; {formatEighths(scheduledEighths)} of {formatEighths(board.totalEighths)} pages scheduled
+          </div>
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+          Drag strips into shooting order and add day breaks. The schedule is kept separately; the screenplay keeps its order.
+        </p>
+
+        {dood && <DayOutOfDaysGrid dood={dood} />}
+
+        <DndContext sensors={sensors} collisionDetection={closestCenter} onDragStart={handleDragStart} onDragEnd={handleDragEnd}>
+          <div className={`flex-1 flex gap-4 min-h-0 ${view === 'strips' ? '' : 'hidden'}`}>
+            <div className="w-2/5 flex flex-col min-h-0">
+              <h3 className="text-sm font-medium mb-2">Unscheduled ({board.unscheduled.length})</h3>
+              <DropColumn id={UNSCHEDULED}>
+                <SortableContext items={board.unscheduled.map(strip => strip.id)} strategy={verticalListSortingStrategy}>
+                  {board.unscheduled.map(strip => (
+                    <SortableRow key={strip.id} id={strip.id}>
+                      <StripRow strip={strip} />
+                    </SortableRow>
+                  ))}
+                </SortableContext>
+                {board.unscheduled.length === 0 && (
+                  <div className="p-4 text-sm text-gray-500 dark:text-gray-400">Every scene is scheduled.</div>
+                )}
+              </DropColumn>
+            </div>
+
+            <div className="flex-1 flex flex-col min-h-0">
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-sm font-medium">Shooting schedule</h3>
+                <button
+                  onClick={() => updateSchedule([...items, { type: 'day-break', id: newId('day') }])}
+                  className="flex items-center gap-1 px-2 py-1 text-xs border border-gray-300 dark:border-dark-border rounded hover:bg-gray-50 dark:hover:bg-dark-bg"
+                >
+                  <Plus className="w-3.5 h-3.5" />
+                  Day break
+                </button>
+              </div>
+              <DropColumn id={SCHEDULE}>
+                <SortableContext items={items.map(item => item.id)} strategy={verticalListSortingStrategy}>
+                  {items.map(renderItem)}
+                </SortableContext>
+                {items.length === 0 && (
+                  <div className="p-4 text-sm text-gray-500 dark:text-gray-400">Drag strips here to start the schedule.</div>
+                )}
+                {openDay && (
+                  <div className="px-2 py-1.5 text-xs text-gray-500 dark:text-gray-400 border border-dashed border-gray-300 dark:border-dark-border rounded">
+                    Day {openDay.number} so far &mdash; {formatEighths(openDay.eighths)} pgs (add a day break to end it)
+                  </div>
+                )}
+              </DropColumn>
+            </div>
+          </div>
+
+          <DragOverlay>{activeStrip && <StripRow strip={activeStrip} />}</DragOverlay>
+        </DndContext>
+
+        <div className="flex items-center gap-3 mt-6">
+          <button
+            onClick={handleImportCSV}
+            title="Shoot days from a CSV: day number in the first column, scene numbers after it"
+            className="flex items-center gap-2 px-4 py-2 border border-gray-300 dark:border-dark-border rounded-lg hover:bg-gray-50 dark:hover:bg-dark-bg transition-colors"
+          >
+            <Upload className="w-4 h-4" />
+            Import days CSV
+          </button>
+          <span className="text-sm text-gray-500 dark:text-gray-400 ml-2">Day out of days:</span>
+          <button
+            onClick={() => handleExportDOOD('csv')}
+            disabled={isExporting || board.days.length === 0}
+            className="px-4 py-2 border border-gray-300 dark:border-dark-border rounded-lg hover:bg-gray-50 dark:hover:bg-dark-bg transition-colors disabled:opacity-50"
+          >
+            Export CSV
+          </button>
+          <button
+            onClick={() => handleExportDOOD('pdf')}
+            disabled={isExporting || board.days.length === 0}
+            className="px-4 py-2 border border-gray-300 dark:border-dark-border rounded-lg hover:bg-gray-50 dark:hover:bg-dark-bg transition-colors disabled:opacity-50"
+          >
+            Export PDF
+          </button>
+          <button
+            onClick={onClose}
+            className="ml-auto px-4 py-2 border border-gray-300 dark:border-dark-border rounded-lg hover:bg-gray-50 dark:hover:bg-dark-bg transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
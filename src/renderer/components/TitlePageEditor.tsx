@@ -0,0 +1,94 @@
+import { useState } from 'react';
+import { useAppStore } from '../store/app-store';
+import type { TitlePage } from '../../shared/types';
+import { TITLE_PAGE_FIELDS, readTitlePage, type TitlePageKey } from '../../screenplay/title-page';
+
+interface TitlePageEditorProps {
+  onClose: () => void;
+}
+
+const PLACEHOLDERS: Partial<Record<TitlePageKey, string>> = {
+  credit: 'Written by',
+  source: 'Based on the novel by...',
+  draftDate: 'First Draft - 1/3/24',
+  contact: 'Name\nPhone\nEmail',
+};
+
+export default function TitlePageEditor({ onClose }: TitlePageEditorProps) {
+  const { screenplayContent, updateTitlePage } = useAppStore();
+  const [titlePage, setTitlePage] = useState<TitlePage>(() => readTitlePage(screenplayContent));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleChange = (key: TitlePageKey, value: string) => {
+    setTitlePage(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await updateTitlePage(titlePage);
+      onClose();
+    } catch (error) {
+      alert('Failed to save title page: ' + error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-dark-border rounded-lg bg-white dark:bg-dark-bg focus:outline-none focus:ring-2 focus:ring-primary-500 text-sm';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-dark-surface rounded-xl p-8 max-w-xl w-full mx-4 shadow-2xl max-h-[85vh] overflow-y-auto">
+        <h2 className="text-2xl font-bold mb-2">Title Page</h2>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-6">
+          Written to the top of the script as Fountain title page keys and printed as the first page of every export.
+        </p>
+
+        <div className="space-y-4">
+          {TITLE_PAGE_FIELDS.map(field => (
+            <div key={field.key}>
+              <label className="block text-sm font-medium mb-1">
+                {field.key === 'authors' ? 'Author(s)' : field.label}
+              </label>
+              {field.multiline ? (
+                <textarea
+                  value={titlePage[field.key]}
+                  onChange={(e) => handleChange(field.key, e.target.value)}
+                  placeholder={PLACEHOLDERS[field.key]}
+                  rows={field.key === 'contact' || field.key === 'notes' ? 3 : 2}
+                  className={`${inputClass} resize-none`}
+                />
+              ) : (
+                <input
+                  type="text"
+                  value={titlePage[field.key]}
+                  onChange={(e) => handleChange(field.key, e.target.value)}
+                  placeholder={PLACEHOLDERS[field.key]}
+                  className={inputClass}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-3 mt-8">
+          <button
+            onClick={onClose}
+            disabled={isSaving}
+            className="flex-1 px-4 py-2 border border-gray-300 dark:border-dark-border rounded-lg hover:bg-gray-50 dark:hover:bg-dark-bg transition-colors disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="flex-1 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : 'Save Title Page'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,11 @@
 import React, { useState, useEffect } from 'react';
 import { 
   GitBranch, Plus, Trash2, RotateCcw, X, 
-  Clock, ChevronRight, ChevronDown, FileText
+  Clock, ChevronRight, ChevronDown, FileText, Lock, Unlock
 } from 'lucide-react';
-import type { VersionSummary, Version } from '../../shared/types';
+import type { VersionSummary, Version, RevisionState } from '../../shared/types';
+import { useAppStore } from '../store/app-store';
+import { revisionColor } from '../../screenplay/revisions';
 
 interface VersionHistoryProps {
   isOpen: boolean;
@@ -18,6 +20,8 @@ export const VersionHistory: React.FC<VersionHistoryProps> = ({ isOpen, onClose
   const [newVersionMessage, setNewVersionMessage] = useState('');
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [viewMode, setViewMode] = useState<'list' | 'view'>('list');
+  const [revisions, setRevisions] = useState<RevisionState | null>(null);
+  const saveScreenplay = useAppStore(state => state.saveScreenplay);
 
   // Load versions on mount
   useEffect(() => {
@@ -29,8 +33,12 @@ export const VersionHistory: React.FC<VersionHistoryProps> = ({ isOpen, onClose
   const loadVersions = async () => {
     try {
       setIsLoading(true);
-      const versionList = await window.api.version.list();
+      const [versionList, revisionState] = await Promise.all([
+        window.api.version.list(),
+        window.api.revision.getState(),
+      ]);
       setVersions(versionList);
+      setRevisions(revisionState);
     } catch (error) {
       console.error('Failed to load versions:', error);
     } finally {
@@ -102,6 +110,38 @@ export const VersionHistory: React.FC<VersionHistoryProps> = ({ isOpen, onClose
     }
   };
 
+  // Revision actions snapshot the text on disk, so save the editor first
+  const runRevisionAction = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      setIsLoading(true);
+      await saveScreenplay();
+      await action();
+      await loadVersions();
+    } catch (error) {
+      console.error(failure, error);
+      alert(failure);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const lockScript = () => {
+    const confirm = window.confirm(
+      'Lock the script? Page and scene numbers will be frozen and later changes tracked as revisions.'
+    );
+    if (confirm) runRevisionAction(() => window.api.revision.lock(), 'Failed to lock script');
+  };
+
+  const startNextRevision = () =>
+    runRevisionAction(() => window.api.revision.startNext(), 'Failed to start revision set');
+
+  const unlockScript = () => {
+    const confirm = window.confirm(
+      'Unlock the script? Locked page and scene numbers and all revision marks will be discarded.'
+    );
+    if (confirm) runRevisionAction(() => window.api.revision.unlock(), 'Failed to unlock script');
+  };
+
   const formatDate = (timestamp: number) => {
     const date = new Date(timestamp);
     return date.toLocaleDateString('en-US', {
@@ -185,6 +225,52 @@ export const VersionHistory: React.FC<VersionHistoryProps> = ({ isOpen, onClose
                 )}
               </div>
 
+              {/* Production revisions */}
+              {revisions && (
+                <div className="px-4 py-3 border-b border-gray-200 dark:border-dark-border flex items-center gap-3">
+                  {revisions.lock ? (
+                    <>
+                      <Lock className="w-4 h-4 text-amber-500" />
+                      <span className="flex-1 text-sm text-gray-700 dark:text-gray-300">
+                        Locked {formatDate(revisions.lock.lockedAt)}
+                        {revisions.sets.length > 0 && (
+                          <> &middot; {revisions.sets[revisions.sets.length - 1].color} revisions</>
+                        )}
+                      </span>
+                      <button
+                        onClick={startNextRevision}
+                        disabled={isLoading}
+                        className="px-3 py-1.5 text-sm bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 transition-colors"
+                      >
+                        Start {revisionColor(revisions.sets.length + 1)} Revisions
+                      </button>
+                      <button
+                        onClick={unlockScript}
+                        disabled={isLoading}
+                        className="flex items-center gap-1 px-3 py-1.5 text-sm text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-dark-border rounded-lg transition-colors"
+                      >
+                        <Unlock className="w-4 h-4" />
+                        Unlock
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <span className="flex-1 text-sm text-gray-500 dark:text-gray-400">
+                        Lock the script to freeze page and scene numbers for production
+                      </span>
+                      <button
+                        onClick={lockScript}
+                        disabled={isLoading}
+                        className="flex items-center gap-1 px-3 py-1.5 text-sm border border-gray-300 dark:border-dark-border rounded-lg hover:bg-gray-100 dark:hover:bg-dark-border disabled:opacity-50 transition-colors"
+                      >
+                        <Lock className="w-4 h-4" />
+                        Lock Script
+                      </button>
+                    </>
+                  )}
+                </div>
+              )}
+
               {/* Version List */}
               <div className="flex-1 overflow-y-auto p-4">
                 {isLoading ? (
@@ -1,7 +1,8 @@
 import { useState } from 'react';
 import { useAppStore } from '../store/app-store';
-import { FileText, FolderOpen, Settings as SettingsIcon, AlertCircle, Play } from 'lucide-react';
+import { FileText, FolderOpen, Settings as SettingsIcon, AlertCircle, Play, FileInput } from 'lucide-react';
 import { DEMO_SCREENPLAY, getDemoCharacters, getDemoScenes } from '../../data/demo-screenplay';
+import { isAIConfigured } from '../../ai/provider-settings';
 
 export default function WelcomeScreen() {
   const {
@@ -46,6 +47,22 @@ export default function WelcomeScreen() {
     }
   };
 
+  const handleImportFDX = async () => {
+    const fdxPath = await window.api.import.showOpenDialog('fdx');
+    if (!fdxPath) return;
+
+    // The imported project is created inside the chosen folder
+    const folder = await window.api.file.selectFolder();
+    if (!folder) return;
+
+    try {
+      const projectPath = await window.api.import.fdx(fdxPath, folder);
+      await openProject(projectPath);
+    } catch (error) {
+      alert('Failed to import Final Draft file: ' + error);
+    }
+  };
+
   const handleOpenRecent = async (path: string) => {
     try {
       await openProject(path);
@@ -185,7 +202,7 @@ export default function WelcomeScreen() {
 
   // Deduplicate recent projects
   const recentProjects = Array.from(new Set(globalSettings?.recentProjects || []));
-  const hasApiKey = globalSettings?.openaiApiKey && globalSettings.openaiApiKey.length > 0;
+  const aiConfigured = isAIConfigured(globalSettings);
 
   return (
     <div className="w-full h-full flex items-center justify-center bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-800">
@@ -199,12 +216,12 @@ export default function WelcomeScreen() {
           </p>
         </div>
 
-        {!hasApiKey && (
+        {!aiConfigured && (
           <div className="mb-8 p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg flex items-start gap-3">
             <AlertCircle className="w-5 h-5 text-yellow-600 dark:text-yellow-400 flex-shrink-0 mt-0.5" />
             <div>
               <p className="text-yellow-800 dark:text-yellow-200 text-sm">
-                Please configure your OpenAI API key in settings to use AI features.
+                Please configure your OpenAI API key or a local model server in settings to use AI features.
               </p>
               <button
                 onClick={() => setIsSettingsOpen(true)}
@@ -257,6 +274,16 @@ export default function WelcomeScreen() {
           </button>
         </div>
 
+        <div className="flex justify-center -mt-4 mb-8">
+          <button
+            onClick={handleImportFDX}
+            className="flex items-center gap-2 px-4 py-2 text-sm text-gray-600 dark:text-gray-400 hover:text-primary-600 dark:hover:text-primary-400 rounded-lg hover:bg-gray-100 dark:hover:bg-dark-border transition-colors"
+          >
+            <FileInput className="w-4 h-4" />
+            Import Final Draft (.fdx)
+          </button>
+        </div>
+
         {recentProjects.length > 0 && (
           <div className="bg-white dark:bg-dark-surface rounded-xl border border-gray-200 dark:border-dark-border p-6">
             <h3 className="font-semibold mb-4">Recent Projects</h3>
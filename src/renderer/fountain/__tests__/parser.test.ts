@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { FountainParserAdapter } from '../parser';
+import { emptyTitlePage, readTitlePage, writeTitlePage } from '../../../screenplay/title-page';
+
+const BODY = [
+  'INT. VAULT - NIGHT',
+  '',
+  'Alarms blare.',
+].join('\n');
+
+const PAGE = {
+  ...emptyTitlePage(),
+  title: 'The Heist',
+  credit: 'Written by',
+  authors: 'Jane Doe\nJohn Roe',
+  draftDate: '1/3/24',
+  contact: 'jane@example.com',
+};
+
+/** The editor shows one line per token, so its text is the tokens joined */
+function editorText(content: string): string {
+  return FountainParserAdapter.tokensToText(FountainParserAdapter.parse(content).tokens);
+}
+
+describe('FountainParserAdapter', () => {
+  it('shows the title page with its keys so the editor text reads back as the same page', () => {
+    const content = writeTitlePage(BODY, PAGE);
+    const text = editorText(content);
+
+    expect(text).toContain('Title: The Heist');
+    expect(readTitlePage(text)).toEqual(PAGE);
+    expect(readTitlePage(editorText(text))).toEqual(PAGE);
+  });
+
+  it('keeps a title page page break and its body lines', () => {
+    const content = writeTitlePage(BODY, PAGE).replace('\n\nINT.', '\n\n===\n\nINT.');
+    const parsed = FountainParserAdapter.parse(content);
+
+    expect(readTitlePage(FountainParserAdapter.tokensToText(parsed.tokens))).toEqual(PAGE);
+    expect(parsed.tokens.find(token => token.raw === '===')?.type).toBe('page-break');
+    expect(parsed.scenes[0].heading).toBe('INT. VAULT - NIGHT');
+    expect(parsed.tokens[parsed.scenes[0].startToken].raw).toBe('INT. VAULT - NIGHT');
+  });
+
+  it('gives the editor the content line for line, blank runs and indents included', () => {
+    const content = [
+      'Title: The Heist',
+      'Authors:',
+      '    Jane Doe',
+      '',
+      '',
+      '',
+      'INT. VAULT - NIGHT',
+      '',
+      '  Alarms blare.  ',
+      '',
+      '',
+      'EXT. STREET - NIGHT',
+      '',
+    ].join('\n');
+    const parsed = FountainParserAdapter.parse(content);
+
+    expect(FountainParserAdapter.tokensToText(parsed.tokens)).toBe(content);
+    parsed.scenes.forEach(scene => expect(parsed.tokens[scene.startToken].range?.start.line).toBe(scene.startToken));
+  });
+
+  it('gives every token a source range', () => {
+    const parsed = FountainParserAdapter.parse(writeTitlePage(BODY, PAGE));
+    parsed.tokens.forEach(token => expect(token.range).toBeDefined());
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { ChangeRecord, ChangeSet, Character, Scene, Storyline } from '../../../shared/types';
+import { FountainParser } from '../../../screenplay/fountain-parser';
+import { FountainParserAdapter } from '../../fountain/parser';
+import { useAppStore } from '../app-store';
+
+const SCRIPT = [
+  'INT. KITCHEN - DAY',
+  '',
+  'MAYA burns the toast.',
+  '',
+  'EXT. ROAD - NIGHT',
+  '',
+  'BRICK drives.',
+  '',
+  'INT. GARAGE - NIGHT',
+  '',
+  'MAYA waits.',
+].join('\n');
+
+const TITLE_PAGE = [
+  'Title: The Heist',
+  'Author: Jane Doe',
+  'Draft date: 1/3/24',
+  '',
+  '',
+].join('\n');
+
+// The parts of the preload API that saving the script touches, backed by maps
+function stubApi() {
+  const scenes = new Map<string, Scene>();
+  const characters = new Map<string, Character>();
+  const storylines: Storyline[] = [];
+  const changeSets = new Map<string, ChangeSet>();
+  const api = {
+    project: { save: async () => {} },
+    parse: { fountain: async (content: string) => FountainParser.parse(content) },
+    db: {
+      getScenes: async () => [...scenes.values()],
+      saveScene: async (scene: Scene) => { scenes.set(scene.id, scene); },
+      deleteScene: async (id: string) => { scenes.delete(id); },
+      getCharacters: async () => [...characters.values()],
+      saveCharacter: async (character: Character) => { characters.set(character.id, character); },
+      saveStoryline: async (storyline: Storyline) => { storylines.push(storyline); },
+      addChangeSetEdit: async (id: string, change: ChangeRecord) => {
+        const changeSet = changeSets.get(id) ?? { id, createdAt: 0, changes: [] };
+        changeSets.set(id, { ...changeSet, changes: [...changeSet.changes, change] });
+        return changeSets.get(id)!;
+      },
+      revertChangeSet: async (id: string) => ({ changeSet: { ...changeSets.get(id)!, revertedAt: 1 }, skipped: [] }),
+    },
+  };
+  vi.stubGlobal('window', { api });
+  return { scenes, storylines };
+}
+
+describe('moveScene', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('keeps plot points on the scene that moved', async () => {
+    const db = stubApi();
+    const store = useAppStore.getState();
+    store.setScreenplayContent(SCRIPT);
+    await store.saveScreenplay();
+
+    // A plot point on the garage scene, named by its stored id as the analysis returns it
+    const garage = useAppStore.getState().scenes.find(scene => scene.heading === 'INT. GARAGE - NIGHT')!;
+    store.setStoryline({
+      id: 'storyline',
+      act: 1,
+      plotPoints: [
+        { id: 'p1', name: 'Midpoint', description: 'Maya makes up her mind', sceneId: garage.id, timestamp: 0 },
+        { id: 'p2', name: 'Theme', description: 'Not tied to a scene', timestamp: 0 },
+      ],
+      themes: [],
+      narrativeStructure: '',
+    });
+
+    await store.moveScene(2, 0);
+
+    const { storyline, scenes, parsedScenes } = useAppStore.getState();
+    expect(parsedScenes[0].heading).toBe('INT. GARAGE - NIGHT');
+    const anchored = scenes.find(scene => scene.id === storyline!.plotPoints[0].sceneId);
+    expect(anchored?.heading).toBe('INT. GARAGE - NIGHT');
+    expect(storyline!.plotPoints[1].sceneId).toBeUndefined();
+    expect(db.storylines).toEqual([storyline]);
+  });
+});
+
+describe('acceptEdit', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('saves the accepted text so undoing the turn finds it again', async () => {
+    stubApi();
+    const store = useAppStore.getState();
+    const script = TITLE_PAGE + SCRIPT;
+    store.setScreenplayContent(script);
+    await store.saveScreenplay();
+
+    store.addPendingEdit({ original: 'BRICK drives.', modified: 'BRICK floors it.', description: 'Faster', changeSetId: 'turn' });
+    const [hunk] = useAppStore.getState().pendingEdits;
+    // The editor reports the text as it shows it
+    const applyContent = (content: string) =>
+      useAppStore.getState().setScreenplayContent(FountainParserAdapter.tokensToText(FountainParserAdapter.parse(content).tokens));
+    await store.acceptEdit(hunk.id, undefined, applyContent);
+
+    expect(useAppStore.getState().screenplayContent).toBe(script.replace('BRICK drives.', 'BRICK floors it.'));
+
+    await store.revertChangeSet('turn');
+    expect(useAppStore.getState().screenplayContent).toBe(script);
+  });
+});
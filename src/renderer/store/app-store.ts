@@ -5,13 +5,26 @@ import type {
   Scene,
   Storyline,
   AIMessage,
+  ChangeSet,
+  ChangeRecord,
   GlobalSettings,
   ProjectSettings,
   AIContext,
   PendingEdit,
-  Conversation
+  EditHunk,
+  Conversation,
+  TitlePage,
+  BreakdownCategory,
+  BreakdownElement,
+  TextAnchor
 } from '../../shared/types';
 import { SceneIndexer, type IndexedScene } from '../../screenplay/scene-indexer';
+import { readTitlePage, writeTitlePage } from '../../screenplay/title-page';
+import { reanchorBreakdown } from '../../screenplay/breakdown';
+import { acceptHunk, createHunk } from '../../screenplay/edit-hunks';
+import { applyChatEvent, type StreamingReply } from '../../ai/chat-stream';
+import { revertScriptChanges } from '../../ai/change-set';
+import { matchStoredScene } from '../../screenplay/corkboard';
 
 export interface UpdateState {
   status: 'idle' | 'checking' | 'available' | 'downloading' | 'downloaded' | 'error';
@@ -37,7 +50,14 @@ interface AppState {
   /** Parsed scenes from screenplay content - single source of truth for navigation */
   parsedScenes: IndexedScene[];
   storyline: Storyline | null;
+  breakdownElements: BreakdownElement[];
   aiHistory: AIMessage[];
+  /** The assistant reply arriving right now, with the tools it has called */
+  streamingReply: StreamingReply | null;
+  /** Id of the chat request in flight, for stopping it */
+  chatRequestId: string | null;
+  /** What the agent changed on each turn in aiHistory, by change set id */
+  changeSets: Record<string, ChangeSet>;
 
   // Conversation state
   conversations: Conversation[];
@@ -58,7 +78,8 @@ interface AppState {
   selectedCharacterId: string | null;
   selectedSceneId: string | null;
   activePanel: 'characters' | 'scenes' | 'storyline' | null;
-  pendingEdit: PendingEdit | null;
+  /** AI edits waiting for review, in the order they were proposed */
+  pendingEdits: EditHunk[];
   updateState: UpdateState;
   chatMode: 'ask' | 'agent';
 
@@ -86,10 +107,16 @@ interface AppState {
   setSelectedCharacterId: (id: string | null) => void;
   setSelectedSceneId: (id: string | null) => void;
   setActivePanel: (panel: 'characters' | 'scenes' | 'storyline' | null) => void;
-  setPendingEdit: (edit: PendingEdit | null) => void;
+  /** Queue an edit the assistant proposed, pinned to where its text is now */
+  addPendingEdit: (edit: PendingEdit) => void;
   setUpdateState: (state: Partial<UpdateState>) => void;
-  applyEdit: () => Promise<void>;
-  rejectEdit: () => void;
+  /**
+   * Apply one queued edit and save, with `modified` in place of the proposed
+   * text if the user changed it. `applyContent` works as for moveScene.
+   */
+  acceptEdit: (id: string, modified?: string, applyContent?: (content: string) => void) => Promise<void>;
+  rejectEdit: (id: string) => void;
+  rejectAllEdits: () => void;
 
   // Async actions
   createProject: (name: string, path: string) => Promise<void>;
@@ -97,6 +124,15 @@ interface AppState {
   closeProject: () => Promise<void>;
   saveScreenplay: () => Promise<void>;
   loadScreenplay: () => Promise<void>;
+  /** Rewrite the Fountain title page with the given fields changed, then save */
+  updateTitlePage: (changes: Partial<TitlePage>) => Promise<void>;
+  /**
+   * Move a scene's text to another position and save. `applyContent` puts the
+   * new text in place (the editor passes its own, so the move can be undone);
+   * by default it goes straight into the store. Plot points stay on their
+   * scenes.
+   */
+  moveScene: (from: number, to: number, applyContent?: (content: string) => void) => Promise<void>;
 
   loadCharacters: () => Promise<void>;
   saveCharacter: (character: Character) => Promise<void>;
@@ -105,7 +141,22 @@ interface AppState {
   loadScenes: () => Promise<void>;
   loadStoryline: () => Promise<void>;
 
+  loadBreakdown: () => Promise<void>;
+  /** Tag a range of the script as a production element */
+  tagBreakdownElement: (anchor: TextAnchor, category: BreakdownCategory) => Promise<void>;
+  saveBreakdownElement: (element: BreakdownElement) => Promise<void>;
+  deleteBreakdownElement: (id: string) => Promise<void>;
+
   sendAIMessage: (message: string) => Promise<void>;
+  /** Stop the reply in progress; what has arrived so far is kept */
+  stopAIMessage: () => Promise<void>;
+  /** Allow or decline a tool call the reply in progress is waiting on */
+  answerToolConfirmation: (toolCallId: string, allowed: boolean) => Promise<void>;
+  /**
+   * Undo everything one agent turn changed: characters, scenes and script
+   * edits. Returns the rows left alone because they were edited since.
+   */
+  revertChangeSet: (id: string) => Promise<ChangeRecord[]>;
   analyzeStoryline: () => Promise<void>;
   reloadData: () => Promise<void>;
 
@@ -132,7 +183,11 @@ export const useAppStore = create<AppState>((set, get) => ({
   scenes: [], // Legacy DB scenes - deprecated for navigation
   parsedScenes: [], // Single source of truth for scene navigation
   storyline: null,
+  breakdownElements: [],
   aiHistory: [],
+  streamingReply: null,
+  chatRequestId: null,
+  changeSets: {},
   conversations: [],
   currentConversationId: null,
   isLoadingConversations: false,
@@ -147,7 +202,7 @@ export const useAppStore = create<AppState>((set, get) => ({
   selectedCharacterId: null,
   selectedSceneId: null,
   activePanel: null,
-  pendingEdit: null,
+  pendingEdits: [],
   updateState: { status: 'idle' },
   chatMode: 'agent', // Default to agent mode for actions
 
@@ -191,27 +246,44 @@ export const useAppStore = create<AppState>((set, get) => ({
   setSelectedCharacterId: (id) => set({ selectedCharacterId: id }),
   setSelectedSceneId: (id) => set({ selectedSceneId: id }),
   setActivePanel: (panel) => set({ activePanel: panel }),
-  setPendingEdit: (edit) => set({ pendingEdit: edit }),
+  addPendingEdit: (edit) => {
+    const id = `edit-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const hunk = createHunk(get().screenplayContent, edit, id);
+    if (hunk.startLine < 0) console.warn('[Store] Proposed edit does not match the script:', edit.description);
+    set({ pendingEdits: [...get().pendingEdits, hunk] });
+  },
   setUpdateState: (updateState) => set((state) => ({
     updateState: { ...state.updateState, ...updateState }
   })),
 
-  applyEdit: async () => {
-    const { pendingEdit, screenplayContent, saveScreenplay } = get();
-    if (!pendingEdit) return;
-
-    // Simple string replacement for now - can be made more robust
-    const newContent = screenplayContent.replace(pendingEdit.original, pendingEdit.modified);
+  acceptEdit: async (id, modified, applyContent) => {
+    const { pendingEdits, screenplayContent, saveScreenplay } = get();
+    const hunk = pendingEdits.find(edit => edit.id === id);
+    if (!hunk) return;
 
-    set({
-      screenplayContent: newContent,
-      pendingEdit: null
-    });
+    const accepted = acceptHunk(screenplayContent, hunk, modified);
+    if (!accepted) throw new Error('The text this edit changes is no longer in the script');
 
+    // Save accepted.content itself, not the editor's copy: the undo anchor points into it
+    applyContent?.(accepted.content);
+    get().setScreenplayContent(accepted.content);
+    set({ pendingEdits: get().pendingEdits.filter(edit => edit.id !== id) });
     await saveScreenplay();
+
+    // Undoing the agent turn takes back exactly what was accepted, where it was accepted
+    if (hunk.changeSetId) {
+      const changeSet = await window.api.db.addChangeSetEdit(hunk.changeSetId, {
+        kind: 'text',
+        description: hunk.description,
+        undo: accepted.undo,
+      });
+      set({ changeSets: { ...get().changeSets, [changeSet.id]: changeSet } });
+    }
   },
 
-  rejectEdit: () => set({ pendingEdit: null }),
+  rejectEdit: (id) => set({ pendingEdits: get().pendingEdits.filter(edit => edit.id !== id) }),
+
+  rejectAllEdits: () => set({ pendingEdits: [] }),
 
   // Async actions
   createProject: async (name, path) => {
@@ -222,6 +294,7 @@ export const useAppStore = create<AppState>((set, get) => ({
       await get().loadCharacters();
       await get().loadScenes();
       await get().loadStoryline();
+      await get().loadBreakdown();
       await get().loadProjectSettings();
       
       // New project starts with empty conversations
@@ -241,6 +314,7 @@ export const useAppStore = create<AppState>((set, get) => ({
       await get().loadCharacters();
       await get().loadScenes();
       await get().loadStoryline();
+      await get().loadBreakdown();
       await get().loadProjectSettings();
       
       // Load project-specific conversations and reset selection
@@ -265,9 +339,12 @@ export const useAppStore = create<AppState>((set, get) => ({
       set({
         currentProject: null,
         screenplayContent: '',
+        screenplayTitle: null,
+        screenplayAuthor: null,
         characters: [],
         scenes: [],
         storyline: null,
+        breakdownElements: [],
         aiHistory: [],
         conversations: [],
         currentConversationId: null,
@@ -290,9 +367,21 @@ export const useAppStore = create<AppState>((set, get) => ({
       // Reindex parsed scenes (single source of truth for navigation)
       get().reindexScenes();
 
+      // Keep breakdown tags' stored context in step with the text around them
+      const reanchored = reanchorBreakdown(screenplayContent, get().breakdownElements);
+      if (reanchored.length > 0) {
+        await window.api.breakdown.saveAnchors(reanchored);
+        const byId = new Map(reanchored.map(element => [element.id, element]));
+        set({ breakdownElements: get().breakdownElements.map(element => byId.get(element.id) ?? element) });
+      }
+
       // LEGACY: Re-parse and update database scenes (for metadata/backup only, not navigation)
       // Scene navigation and counts now use parsedScenes from SceneIndexer
       const parsed = await window.api.parse.fountain(screenplayContent);
+      set({
+        screenplayTitle: parsed.titlePage.title.replace(/\n/g, ' ') || null,
+        screenplayAuthor: parsed.titlePage.authors.replace(/\n/g, ', ') || null,
+      });
 
       // Get current DB scenes to check for existing ones (legacy metadata)
       const currentScenes = get().scenes;
@@ -312,6 +401,7 @@ export const useAppStore = create<AppState>((set, get) => ({
           // Keep the existing ID and metadata, just update the content/heading
           return {
             ...existingScene,
+            sceneNumber: parsedScene.sceneNumber,
             heading: parsedScene.heading,
             content: parsedScene.content,
             startLine: parsedScene.startLine,
@@ -386,7 +476,12 @@ export const useAppStore = create<AppState>((set, get) => ({
   loadScreenplay: async () => {
     try {
       const content = await window.api.project.load();
-      set({ screenplayContent: content });
+      const titlePage = readTitlePage(content);
+      set({
+        screenplayContent: content,
+        screenplayTitle: titlePage.title.replace(/\n/g, ' ') || null,
+        screenplayAuthor: titlePage.authors.replace(/\n/g, ', ') || null,
+      });
       // Reindex scenes from loaded content
       get().reindexScenes();
     } catch (error) {
@@ -395,6 +490,13 @@ export const useAppStore = create<AppState>((set, get) => ({
     }
   },
 
+  updateTitlePage: async (changes) => {
+    const { screenplayContent, setScreenplayContent, saveScreenplay } = get();
+    const titlePage = { ...readTitlePage(screenplayContent), ...changes };
+    setScreenplayContent(writeTitlePage(screenplayContent, titlePage));
+    await saveScreenplay();
+  },
+
   loadCharacters: async () => {
     try {
       const characters = await window.api.db.getCharacters();
@@ -442,6 +544,87 @@ export const useAppStore = create<AppState>((set, get) => ({
     }
   },
 
+  loadBreakdown: async () => {
+    try {
+      const breakdownElements = await window.api.breakdown.list();
+      set({ breakdownElements });
+    } catch (error) {
+      console.error('Failed to load breakdown:', error);
+    }
+  },
+
+  tagBreakdownElement: async (anchor, category) => {
+    const element: BreakdownElement = {
+      id: `breakdown-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      category,
+      name: anchor.text.replace(/\s+/g, ' ').trim(),
+      anchor,
+      createdAt: Date.now(),
+    };
+    await get().saveBreakdownElement(element);
+  },
+
+  saveBreakdownElement: async (element) => {
+    try {
+      await window.api.breakdown.save(element);
+      await get().loadBreakdown();
+    } catch (error) {
+      console.error('Failed to save breakdown element:', error);
+      throw error;
+    }
+  },
+
+  deleteBreakdownElement: async (id) => {
+    try {
+      await window.api.breakdown.delete(id);
+      await get().loadBreakdown();
+    } catch (error) {
+      console.error('Failed to delete breakdown element:', error);
+      throw error;
+    }
+  },
+
+  moveScene: async (from, to, applyContent) => {
+    try {
+      const { screenplayContent, parsedScenes: before, scenes: storedBefore, storyline } = get();
+      const content = SceneIndexer.moveScene(screenplayContent, from, to);
+      if (content === screenplayContent) return;
+
+      // Plot points name a stored scene (or, from older analyses, a parsed
+      // one). Stored rows are matched by position when the script is saved,
+      // so note which scene each point is on before anything moves.
+      const anchors = new Map(storyline?.plotPoints.map(point => [
+        point.id,
+        point.sceneId
+          ? before.findIndex(scene => scene.id === point.sceneId || matchStoredScene(scene, storedBefore)?.id === point.sceneId)
+          : -1,
+      ]));
+
+      (applyContent ?? get().setScreenplayContent)(content);
+      await get().saveScreenplay();
+
+      if (!storyline) return;
+      const { parsedScenes: after, scenes: storedAfter } = get();
+      const order = before.map((_, i) => i);
+      order.splice(to, 0, ...order.splice(from, 1));
+      const plotPoints = storyline.plotPoints.map(point => {
+        const index = anchors.get(point.id) ?? -1;
+        const scene = index < 0 ? undefined : after[order.indexOf(index)];
+        if (!scene) return point;
+        const sceneId = before[index].id === point.sceneId ? scene.id : matchStoredScene(scene, storedAfter)?.id;
+        return sceneId ? { ...point, sceneId } : point;
+      });
+      if (plotPoints.some((point, i) => point.sceneId !== storyline.plotPoints[i].sceneId)) {
+        const updated = { ...storyline, plotPoints };
+        await window.api.db.saveStoryline(updated);
+        set({ storyline: updated });
+      }
+    } catch (error) {
+      console.error('Failed to move scene:', error);
+      throw error;
+    }
+  },
+
   sendAIMessage: async (message) => {
     try {
       const { screenplayContent, characters, parsedScenes, storyline, currentConversationId, chatMode } = get();
@@ -510,22 +693,59 @@ export const useAppStore = create<AppState>((set, get) => ({
       // Add user message to UI immediately (don't wait for AI response)
       set({ aiHistory: [...get().aiHistory, userMessage] });
 
-      const response = await window.api.ai.chat(message, context);
+      // Show the reply as it streams in
+      const requestId = `chat-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+      set({ chatRequestId: requestId, streamingReply: { content: '', tools: [] } });
+      const stopListening = window.api.ai.onChatEvent((id, event) => {
+        const { streamingReply } = get();
+        if (id === requestId && streamingReply) {
+          set({ streamingReply: applyChatEvent(streamingReply, event) });
+        }
+      });
+
+      let response;
+      try {
+        response = await window.api.ai.chat(message, context, requestId);
+      } catch (error) {
+        set({ chatRequestId: null, streamingReply: null });
+        throw error;
+      } finally {
+        stopListening();
+      }
+
+      const content = response.stopped
+        ? `${response.content}${response.content ? '\n\n' : ''}_Stopped._`
+        : response.content;
 
       // Don't store full context - it causes exponential storage growth
       // Store only minimal metadata to avoid RangeError: Invalid string length
       const assistantMessage: AIMessage = {
         id: (Date.now() + 1).toString(),
         role: 'assistant',
-        content: response.content,
+        content,
         timestamp: Date.now(),
         // contextUsed intentionally omitted - storing full screenplay/history causes DB bloat
         conversationId,
         tokenUsage: response.tokenUsage,
+        changeSetId: response.changeSet?.id,
       };
 
+      // Swap the streamed reply for the finished message
+      const { changeSet } = response;
+      set({
+        aiHistory: [...get().aiHistory, assistantMessage],
+        chatRequestId: null,
+        streamingReply: null,
+        ...(changeSet && { changeSets: { ...get().changeSets, [changeSet.id]: changeSet } }),
+      });
       await window.api.db.saveAIMessage(assistantMessage);
 
+      // The agent may have added, merged or deleted characters and scenes
+      if (changeSet) {
+        await get().loadCharacters();
+        await get().loadScenes();
+      }
+
       // Reload history for current conversation
       const history = await window.api.db.getAIHistoryForConversation(conversationId);
       set({ aiHistory: history });
@@ -547,8 +767,8 @@ export const useAppStore = create<AppState>((set, get) => ({
       const updatedConv = await window.api.db.getConversation(conversationId);
       if (updatedConv && updatedConv.totalTokensUsed && updatedConv.totalTokensUsed > 180000) {
         // Check if there's no pending edit before summarizing
-        const { pendingEdit } = get();
-        if (!pendingEdit) {
+        const { pendingEdits } = get();
+        if (pendingEdits.length === 0) {
           console.log('[Store] Token threshold exceeded, summarizing conversation...');
           try {
             await window.api.ai.summarizeConversation(conversationId);
@@ -568,6 +788,50 @@ export const useAppStore = create<AppState>((set, get) => ({
     }
   },
 
+  stopAIMessage: async () => {
+    const { chatRequestId } = get();
+    if (chatRequestId) await window.api.ai.stopChat(chatRequestId);
+  },
+
+  answerToolConfirmation: async (toolCallId, allowed) => {
+    const { chatRequestId, streamingReply } = get();
+    if (!chatRequestId) return;
+    // Take the card down straight away; tool-end follows once the tool has run or been declined
+    if (streamingReply) {
+      set({
+        streamingReply: {
+          ...streamingReply,
+          tools: streamingReply.tools.map(tool => (tool.id === toolCallId ? { ...tool, status: 'running' } : tool)),
+        },
+      });
+    }
+    await window.api.ai.answerToolConfirmation(chatRequestId, toolCallId, allowed);
+  },
+
+  revertChangeSet: async (id) => {
+    try {
+      const { changeSet, skipped } = await window.api.db.revertChangeSet(id);
+
+      // The database is back; now the script edits and title page
+      const { screenplayContent, pendingEdits } = get();
+      const reverted = revertScriptChanges(screenplayContent, changeSet.changes);
+      // Edits from this turn still waiting for review go too
+      set({ pendingEdits: pendingEdits.filter(edit => edit.changeSetId !== id) });
+      if (reverted !== screenplayContent) {
+        get().setScreenplayContent(reverted);
+        await get().saveScreenplay();
+      }
+
+      set({ changeSets: { ...get().changeSets, [id]: changeSet } });
+      await get().loadCharacters();
+      await get().loadScenes();
+      return skipped;
+    } catch (error) {
+      console.error('Failed to revert change set:', error);
+      throw error;
+    }
+  },
+
   analyzeStoryline: async () => {
     try {
       const analysis = await window.api.ai.analyzeStoryline();
@@ -683,7 +947,12 @@ export const useAppStore = create<AppState>((set, get) => ({
     try {
       set({ currentConversationId: id });
       const history = await window.api.db.getAIHistoryForConversation(id);
-      set({ aiHistory: history });
+      const changeSetIds = history.flatMap(message => (message.changeSetId ? [message.changeSetId] : []));
+      const changeSets = await window.api.db.getChangeSets(changeSetIds);
+      set({
+        aiHistory: history,
+        changeSets: Object.fromEntries(changeSets.map(changeSet => [changeSet.id, changeSet])),
+      });
     } catch (error) {
       console.error('Failed to select conversation:', error);
       throw error;
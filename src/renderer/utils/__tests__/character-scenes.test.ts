@@ -6,6 +6,7 @@ function makeScene(partial: Partial<IndexedScene>): IndexedScene {
   return {
     id: partial.id || 'scene-1',
     number: partial.number || 1,
+    sceneNumber: partial.sceneNumber || String(partial.number || 1),
     heading: partial.heading || 'INT. TEST - DAY',
     location: partial.location || '',
     timeOfDay: partial.timeOfDay || '',
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { parseFountain } from '../fountain-ast';
+import { actorNodes, actorReports, layoutActorCover, resolveActors } from '../actor-script';
+
+const SCRIPT = [
+  'INT. VAULT - NIGHT',
+  '',
+  'MAYA',
+  'Keep moving.',
+  '',
+  'BRICK',
+  'Going.',
+  '',
+  'YOUNG MAYA (V.O.)',
+  '(softly)',
+  'Remember this.',
+  '',
+  'EXT. ROOFTOP - DAY',
+  '',
+  'MAYA',
+  'Clear.',
+].join('\n');
+
+const ROSTER = [
+  { name: 'Maya', aliases: ['YOUNG MAYA'] },
+  { name: 'BRICK' },
+];
+
+describe('actor scripts', () => {
+  it('resolves names and aliases against the cast list', () => {
+    expect(resolveActors(['young maya', 'MAYA', 'STRANGER'], ROSTER)).toEqual([
+      { name: 'MAYA', aliases: ['YOUNG MAYA'] },
+      { name: 'STRANGER', aliases: [] },
+    ]);
+  });
+
+  it('counts lines per scene, including aliases', () => {
+    const [maya] = actorReports(parseFountain(SCRIPT), resolveActors(['MAYA'], ROSTER));
+
+    expect(maya.scenes).toEqual([
+      { sceneNumber: '1', heading: 'INT. VAULT - NIGHT', lines: 2 },
+      { sceneNumber: '2', heading: 'EXT. ROOFTOP - DAY', lines: 1 },
+    ]);
+    expect(maya.totalLines).toBe(3);
+  });
+
+  it("marks only the actor's cues, parentheticals and dialogue", () => {
+    const doc = parseFountain(SCRIPT);
+    const texts = [...actorNodes(doc, resolveActors(['MAYA'], ROSTER))].map(i => doc.nodes[i].text);
+
+    expect(texts).toEqual(['MAYA', 'Keep moving.', 'YOUNG MAYA (V.O.)', '(softly)', 'Remember this.', 'MAYA', 'Clear.']);
+  });
+
+  it('lays out a cover page listing scenes', () => {
+    const [report] = actorReports(parseFountain(SCRIPT), [{ name: 'BRICK' }]);
+    const [page] = layoutActorCover(report, 'The Heist');
+
+    expect(page.map(row => row.trim())).toEqual(expect.arrayContaining(['ACTOR SCRIPT', 'BRICK', 'THE HEIST', '1 scene, 1 line']));
+    expect(page[page.length - 1]).toMatch(/^1\s+INT\. VAULT - NIGHT\s+1$/);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import type { BreakdownCategory, BreakdownElement } from '../../shared/types';
+import { buildBreakdownSheets, createAnchor, reanchorBreakdown, resolveAnchor } from '../breakdown';
+
+const SCRIPT = [
+  'INT. GARAGE - NIGHT',
+  '',
+  'MAYA loads a revolver into the glovebox of a rusted pickup.',
+  '',
+  'MAYA',
+  'Keep the revolver close.',
+  '',
+  'EXT. ROAD - DAY',
+  '',
+  'The pickup speeds past a flock of sheep.',
+].join('\n');
+
+function tag(content: string, text: string, category: BreakdownCategory, occurrence = 0): BreakdownElement {
+  let start = -1;
+  for (let i = 0; i <= occurrence; i++) start = content.indexOf(text, start + 1);
+  return { id: `${category}-${text}-${occurrence}`, category, name: text, anchor: createAnchor(content, start, start + text.length), createdAt: 0 };
+}
+
+describe('resolveAnchor', () => {
+  it('follows its text when lines are added above', () => {
+    const anchor = tag(SCRIPT, 'rusted pickup', 'vehicles').anchor;
+    const edited = 'INT. SHED - DAY\n\nDust.\n\n' + SCRIPT;
+
+    const range = resolveAnchor(edited, anchor)!;
+    expect(edited.slice(range.start, range.end)).toBe('rusted pickup');
+  });
+
+  it('tells repeated words apart by their surroundings', () => {
+    const second = tag(SCRIPT, 'revolver', 'props', 1).anchor;
+    // Shift everything so the stored offset alone would point at the wrong one
+    const edited = SCRIPT.replace('MAYA loads', 'MAYA, shaking, slowly loads');
+
+    const range = resolveAnchor(edited, second)!;
+    expect(edited.slice(range.start - 9, range.end)).toBe('Keep the revolver');
+  });
+
+  it('survives a change of case and reports rewritten text as gone', () => {
+    const anchor = tag(SCRIPT, 'flock of sheep', 'animals').anchor;
+
+    expect(resolveAnchor(SCRIPT.replace('flock of sheep', 'FLOCK OF SHEEP'), anchor)).not.toBeNull();
+    expect(resolveAnchor(SCRIPT.replace('flock of sheep', 'herd of goats'), anchor)).toBeNull();
+  });
+});
+
+describe('buildBreakdownSheets', () => {
+  it('groups tags by scene and lists speaking cast', () => {
+    const elements = [
+      tag(SCRIPT, 'revolver', 'props'),
+      tag(SCRIPT, 'revolver', 'props', 1),
+      tag(SCRIPT, 'pickup', 'vehicles', 1),
+      tag(SCRIPT, 'sheep', 'animals'),
+    ];
+
+    const { sheets, orphaned } = buildBreakdownSheets(SCRIPT, elements);
+
+    expect(orphaned).toEqual([]);
+    expect(sheets.map(sheet => sheet.heading)).toEqual(['INT. GARAGE - NIGHT', 'EXT. ROAD - DAY']);
+    expect(sheets[0].categories).toEqual([
+      { category: 'cast', names: ['MAYA'] },
+      { category: 'props', names: ['revolver'] },
+    ]);
+    expect(sheets[1].categories).toEqual([
+      { category: 'vehicles', names: ['pickup'] },
+      { category: 'animals', names: ['sheep'] },
+    ]);
+  });
+
+  it('reports tags whose text is gone as orphaned', () => {
+    const sheep = tag(SCRIPT, 'flock of sheep', 'animals');
+    const { sheets, orphaned } = buildBreakdownSheets(SCRIPT.replace('a flock of sheep', 'a cyclist'), [sheep]);
+
+    expect(orphaned.map(element => element.id)).toEqual([sheep.id]);
+    expect(sheets[1].elements).toEqual([]);
+  });
+});
+
+describe('reanchorBreakdown', () => {
+  it('refreshes only anchors whose surroundings moved', () => {
+    const pickup = tag(SCRIPT, 'rusted pickup', 'vehicles');
+    const sheep = tag(SCRIPT, 'sheep', 'animals');
+    const edited = SCRIPT.replace('The pickup speeds', 'The pickup roars');
+
+    const changed = reanchorBreakdown(edited, [pickup, sheep]);
+
+    expect(changed.map(element => element.id)).toEqual([sheep.id]);
+    expect(changed[0].anchor.prefix).toContain('roars');
+  });
+});
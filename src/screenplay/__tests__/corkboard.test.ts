@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { indexScenes, setSceneSynopsis } from '../scene-indexer';
+import { buildCorkboard, filterCorkboard, tagColor } from '../corkboard';
+import { readTitlePage } from '../title-page';
+import { FountainParserAdapter } from '../../renderer/fountain/parser';
+import type { Scene } from '../../shared/types';
+
+const SCRIPT = [
+  'INT. KITCHEN - DAY',
+  '',
+  '= Maya burns the toast.',
+  '',
+  'MAYA',
+  'Again?',
+  '',
+  'EXT. ROAD - NIGHT',
+  '',
+  'BRICK drives.',
+].join('\n');
+
+function stored(number: number, heading: string, fields: Partial<Scene>): Scene {
+  return {
+    id: `db-${number}`, number, heading, location: '', timeOfDay: '', summary: '', characters: [],
+    startLine: 0, endLine: 0, content: '', ...fields,
+  };
+}
+
+describe('setSceneSynopsis', () => {
+  it('replaces the synopsis under the heading', () => {
+    const content = setSceneSynopsis(SCRIPT, 0, 'Maya burns the toast.\n\nBrick laughs.');
+    expect(content.split('\n').slice(0, 6)).toEqual([
+      'INT. KITCHEN - DAY',
+      '',
+      '= Maya burns the toast.',
+      '= Brick laughs.',
+      '',
+      'MAYA',
+    ]);
+    expect(indexScenes(content)[0].synopsis).toBe('Maya burns the toast.\nBrick laughs.');
+  });
+
+  it('adds and removes a synopsis', () => {
+    const added = setSceneSynopsis(SCRIPT, 1, 'On the run.');
+    expect(added.endsWith('EXT. ROAD - NIGHT\n\n= On the run.\n\nBRICK drives.')).toBe(true);
+    expect(setSceneSynopsis(added, 1, '')).toBe(SCRIPT);
+    expect(setSceneSynopsis(SCRIPT, 0, '')).toBe(SCRIPT.replace('= Maya burns the toast.\n\n', ''));
+  });
+
+  it('keeps the title page and spacing once the editor shows the edit', () => {
+    const script = `Title: The Heist\nAuthor: Jane Doe\n\n\n${SCRIPT}`;
+    const edited = setSceneSynopsis(script, 1, 'On the run.');
+    // The corkboard hands the edit to the editor, which saves the lines it shows
+    const shown = FountainParserAdapter.tokensToText(FountainParserAdapter.parse(edited).tokens);
+
+    expect(shown).toBe(edited);
+    expect(readTitlePage(shown).title).toBe('The Heist');
+    expect(readTitlePage(shown).authors).toBe('Jane Doe');
+    expect(indexScenes(shown)[1].synopsis).toBe('On the run.');
+  });
+});
+
+describe('buildCorkboard', () => {
+  const cards = buildCorkboard(indexScenes(SCRIPT), [
+    stored(1, 'INT. KITCHEN - DAY', { summary: 'Breakfast.', tags: ['Act 1'], mood: 'Tense' }),
+    stored(5, 'EXT. ROAD - NIGHT', { summary: 'The getaway.' }),
+  ]);
+
+  it('prefers the written synopsis and falls back to the summary', () => {
+    expect(cards.map(card => [card.synopsis, card.fromSummary, card.tags, card.mood])).toEqual([
+      ['Maya burns the toast.', false, ['Act 1'], 'Tense'],
+      ['The getaway.', true, [], ''],
+    ]);
+  });
+
+  it('filters by character, location and tag', () => {
+    expect(filterCorkboard(cards, { character: 'maya' }).map(card => card.index)).toEqual([0]);
+    expect(filterCorkboard(cards, { location: 'ROAD' }).map(card => card.index)).toEqual([1]);
+    expect(filterCorkboard(cards, { tag: 'act 1', location: 'ROAD' })).toEqual([]);
+  });
+
+  it('gives a tag the same color every time', () => {
+    expect(tagColor('Act 1')).toBe(tagColor('act 1'));
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { buildDayOutOfDays, castCodes, parseShootDaysCSV, scheduleFromShootDays } from '../dood';
+import { buildStripboard } from '../schedule';
+import { createAnchor } from '../breakdown';
+
+const SCRIPT = [
+  'INT. KITCHEN - DAY',
+  '',
+  'MAYA',
+  'Coffee?',
+  '',
+  'BRICK',
+  'Always.',
+  '',
+  'EXT. ROAD - NIGHT',
+  '',
+  'BRICK',
+  'Faster.',
+  '',
+  'INT. GARAGE - NIGHT',
+  '',
+  'MAYA',
+  'Late again.',
+  '',
+  'The DOG sleeps.',
+].join('\n');
+
+describe('castCodes', () => {
+  it('marks start, work, hold and finish', () => {
+    expect(castCodes([2, 3, 5], 6)).toEqual(['', 'SW', 'W', 'H', 'WF', '']);
+    expect(castCodes([1], 2)).toEqual(['SWF', '']);
+  });
+
+  it('drops and picks up over long gaps', () => {
+    expect(castCodes([1, 4, 5], 5, 2)).toEqual(['SWD', '', '', 'PW', 'WF']);
+    expect(castCodes([1, 4], 4, Infinity)).toEqual(['SW', 'H', 'H', 'WF']);
+  });
+});
+
+describe('parseShootDaysCSV', () => {
+  it('reads days and scene numbers, skipping the header', () => {
+    const csv = '\uFEFFDay,Scenes\r\nDay 2,"3, 1"\r\n1,2\nD2,4A\n';
+    expect(parseShootDaysCSV(csv)).toEqual([
+      { day: 1, sceneNumbers: ['2'] },
+      { day: 2, sceneNumbers: ['3', '1', '4A'] },
+    ]);
+  });
+});
+
+describe('scheduleFromShootDays', () => {
+  it('builds day breaks, keeping empty days, and skips unknown scenes', () => {
+    const { items, skipped } = scheduleFromShootDays(SCRIPT, [
+      { day: 1, sceneNumbers: ['2'] },
+      { day: 3, sceneNumbers: ['1', '3', '9', '1'] },
+    ]);
+
+    const board = buildStripboard(SCRIPT, items);
+    expect(board.days.map(day => day.strips.map(s => s.sceneNumber))).toEqual([['2'], [], ['1', '3']]);
+    expect(board.days.every(day => day.breakId)).toBe(true);
+    expect(skipped).toEqual(['9', '1']);
+  });
+});
+
+describe('buildDayOutOfDays', () => {
+  it('gives each cast member a code per shoot day, with totals', () => {
+    const dog = SCRIPT.indexOf('DOG');
+    const { items } = scheduleFromShootDays(SCRIPT, [
+      { day: 1, sceneNumbers: ['1'] },
+      { day: 2, sceneNumbers: ['2'] },
+      { day: 3, sceneNumbers: ['3'] },
+    ]);
+
+    const dood = buildDayOutOfDays(SCRIPT, items, {
+      breakdown: [{ id: 'd', category: 'cast', name: 'DOG', anchor: createAnchor(SCRIPT, dog, dog + 3), createdAt: 0 }],
+    });
+
+    expect(dood.days).toBe(3);
+    expect(dood.cast.map(member => [member.name, member.codes])).toEqual([
+      ['MAYA', ['SW', 'H', 'WF']],
+      ['BRICK', ['SW', 'WF', '']],
+      ['DOG', ['', '', 'SWF']],
+    ]);
+    expect(dood.cast[0]).toMatchObject({ work: 2, hold: 1, drop: 0, start: 1, finish: 3, total: 3 });
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { acceptHunk, applyHunk, createHunk, locateEdit, resolveHunk } from '../edit-hunks';
+
+const SCRIPT = [
+  'INT. GARAGE - NIGHT',
+  '',
+  'MAYA waits.',
+  '',
+  'MAYA',
+  'Not yet.',
+  '',
+  'EXT. ROAD - DAY',
+  '',
+  'MAYA waits.',
+  '',
+  'BRICK',
+  'Now?',
+].join('\n');
+
+describe('locateEdit', () => {
+  it('only pins down text that appears once', () => {
+    const start = SCRIPT.indexOf('Not yet.');
+    expect(locateEdit(SCRIPT, { original: 'Not yet.' })).toEqual({ status: 'found', range: { start, end: start + 8 } });
+    expect(locateEdit(SCRIPT, { original: 'MAYA waits.' })).toEqual({ status: 'ambiguous', count: 2 });
+    expect(locateEdit(SCRIPT, { original: 'MAYA leaves.' })).toEqual({ status: 'missing' });
+  });
+
+  it('tells repeated text apart by scene', () => {
+    const location = locateEdit(SCRIPT, { original: 'MAYA waits.', sceneNumber: 2 });
+    expect(location.status === 'found' && location.range.start).toBe(SCRIPT.lastIndexOf('MAYA waits.'));
+    expect(locateEdit(SCRIPT, { original: 'Now?', sceneNumber: 1 })).toEqual({ status: 'missing' });
+  });
+});
+
+describe('edit hunks', () => {
+  const garage = createHunk(SCRIPT, { original: 'MAYA waits.', modified: 'MAYA paces.', description: 'Restless', sceneNumber: 1 }, 'a');
+  const road = createHunk(SCRIPT, { original: 'MAYA waits.', modified: 'MAYA hides.', description: 'Cover', sceneNumber: 2 }, 'b');
+
+  it('records the lines and scene each hunk covers', () => {
+    expect([garage.startLine, garage.endLine, garage.sceneHeading]).toEqual([2, 2, 'INT. GARAGE - NIGHT']);
+    expect([road.startLine, road.sceneHeading]).toEqual([9, 'EXT. ROAD - DAY']);
+  });
+
+  it('applies queued hunks in any order, each at its own place', () => {
+    const afterRoad = applyHunk(SCRIPT, road)!;
+    const both = applyHunk(afterRoad, garage)!;
+    expect(both.split('\n')[2]).toBe('MAYA paces.');
+    expect(both.split('\n')[9]).toBe('MAYA hides.');
+  });
+
+  it('takes the user\'s version of the new text', () => {
+    expect(applyHunk(SCRIPT, road, 'MAYA ducks behind the car.')!.split('\n')[9]).toBe('MAYA ducks behind the car.');
+  });
+
+  it('gives back the hunk that undoes an accept, deletions included', () => {
+    const accepted = acceptHunk(SCRIPT, road, 'MAYA ducks.')!;
+    expect(applyHunk(accepted.content, accepted.undo)).toBe(SCRIPT);
+
+    const cut = acceptHunk(SCRIPT, garage, '')!;
+    expect(applyHunk(cut.content, cut.undo)).toBe(SCRIPT);
+  });
+
+  it('gives up on hunks whose text has gone', () => {
+    const rewritten = SCRIPT.replace('Not yet.', 'Wait.');
+    const hunk = createHunk(SCRIPT, { original: 'Not yet.', modified: 'Hold on.', description: 'Softer' }, 'c');
+    expect(resolveHunk(rewritten, hunk)).toBeNull();
+    expect(applyHunk(rewritten, hunk)).toBeNull();
+
+    // Proposed against text that was never there: queued, but never applied
+    const stray = createHunk(SCRIPT, { original: 'MAYA leaves.', modified: 'MAYA runs.', description: 'Faster' }, 'd');
+    expect(stray.startLine).toBe(-1);
+    expect(applyHunk(SCRIPT + '\n\nMAYA leaves.', stray)).toBeNull();
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest';
+import { parseFountain, getTitlePageValue, parseSceneHeading, findSceneAtLine } from '../fountain-ast';
+import { FountainParser } from '../fountain-parser';
+import { indexScenes } from '../scene-indexer';
+
+const SAMPLE = [
+  'Title: The Heist',
+  'Author: Jane Doe',
+  'Draft date: 1 March',
+  '',
+  '===',
+  '',
+  'INT. VAULT - NIGHT',
+  '',
+  'Alarms blare.',
+  '',
+  'MAYA (V.O.)',
+  '(whispering)',
+  'Keep moving.',
+  'Both of you.',
+  '',
+  '.FLASHBACK',
+  '',
+  '@McCLANE',
+  'Yippee.',
+  '',
+  'EST. CITY SKYLINE - DAWN',
+  '',
+  'CUT TO:',
+  '',
+  '>THE END<',
+].join('\n');
+
+describe('parseFountain', () => {
+  it('parses the title page and skips the separating page break', () => {
+    const doc = parseFountain(SAMPLE);
+    expect(getTitlePageValue(doc, 'title')).toBe('The Heist');
+    expect(getTitlePageValue(doc, 'draft date')).toBe('1 March');
+    expect(doc.titlePage?.range.end.line).toBe(4);
+    expect(doc.nodes[0].range.start.line).toBe(5);
+  });
+
+  it('detects standard, EST and forced scene headings', () => {
+    const doc = parseFountain(SAMPLE);
+    expect(doc.scenes.map(s => s.heading)).toEqual([
+      'INT. VAULT - NIGHT',
+      'FLASHBACK',
+      'EST. CITY SKYLINE - DAWN',
+    ]);
+    expect(doc.scenes[0].range.start).toEqual({ line: 6, column: 0 });
+  });
+
+  it('keeps multi-line dialogue and parentheticals in one block', () => {
+    const doc = parseFountain(SAMPLE);
+    const types = doc.nodes
+      .filter(n => n.range.start.line >= 10 && n.range.start.line <= 13)
+      .map(n => n.type);
+    expect(types).toEqual(['character', 'parenthetical', 'dialogue', 'dialogue']);
+  });
+
+  it('extracts character names, extensions and forced cues', () => {
+    const doc = parseFountain(SAMPLE);
+    const maya = doc.nodes.find(n => n.type === 'character');
+    expect(maya?.character).toBe('MAYA');
+    expect(maya?.extension).toBe('V.O.');
+    expect(doc.characters).toEqual(['MAYA', 'McCLANE']);
+    expect(doc.scenes[1].characters).toEqual(['McCLANE']);
+  });
+
+  it('does not treat caps action, transitions or cue words as characters', () => {
+    const doc = parseFountain('INT. ROOM - DAY\n\nBANG BANG\n\nCONTINUED\nmore text\n\nCUT TO:\n');
+    expect(doc.characters).toEqual([]);
+    expect(doc.nodes.find(n => n.text === 'CUT TO:')?.type).toBe('transition');
+  });
+
+  it('reports column ranges for indented lines', () => {
+    const doc = parseFountain('INT. ROOM - DAY\n\n    Indented action.');
+    const action = doc.nodes[2];
+    expect(action.range).toEqual({ start: { line: 2, column: 4 }, end: { line: 2, column: 20 } });
+    expect(findSceneAtLine(doc, 2)?.number).toBe(1);
+  });
+});
+
+describe('parseSceneHeading', () => {
+  it('splits location and time of day', () => {
+    expect(parseSceneHeading('INT./EXT. CAR - MOVING')).toEqual({ location: 'CAR', timeOfDay: 'MOVING' });
+    expect(parseSceneHeading('.FLASHBACK')).toEqual({ location: 'FLASHBACK', timeOfDay: '' });
+  });
+});
+
+describe('parser consumers', () => {
+  it('agree on scene counts and characters', () => {
+    const parsed = FountainParser.parse(SAMPLE);
+    const indexed = indexScenes(SAMPLE);
+
+    expect(parsed.scenes.map(s => s.heading)).toEqual(indexed.map(s => s.heading));
+    expect(parsed.scenes.map(s => s.characters)).toEqual(indexed.map(s => s.characters));
+    expect(parsed.title).toBe('The Heist');
+    expect(parsed.author).toBe('Jane Doe');
+  });
+});
+
+describe('Fountain 1.1 elements', () => {
+  const ELEMENTS = [
+    '# ACT I',
+    '',
+    '## Opening',
+    '',
+    'INT. STAGE - NIGHT',
+    '= The band plays its last show.',
+    '',
+    '[[Check the song rights]]',
+    '',
+    '/* Cut this:',
+    'INT. ALLEY - NIGHT',
+    '*/',
+    '',
+    'BRICK',
+    'Screw retirement.',
+    '',
+    'STEEL ^',
+    'Screw retirement.',
+    '',
+    'SINGER',
+    '~Hello darkness',
+    '',
+    '===',
+    '',
+    'The crowd roars. [[louder?]]',
+  ].join('\n');
+
+  it('types sections, synopses, notes, boneyard, lyrics and page breaks', () => {
+    const doc = parseFountain(ELEMENTS);
+    const typeAt = (line: number) => doc.nodes.find(n => n.range.start.line === line)?.type;
+
+    expect(typeAt(0)).toBe('section');
+    expect(doc.nodes[2].depth).toBe(2);
+    expect(typeAt(5)).toBe('synopsis');
+    expect(typeAt(7)).toBe('note');
+    expect([typeAt(9), typeAt(10), typeAt(11)]).toEqual(['boneyard', 'boneyard', 'boneyard']);
+    expect(typeAt(20)).toBe('lyrics');
+    expect(typeAt(22)).toBe('page-break');
+  });
+
+  it('ignores scene headings inside boneyard', () => {
+    const doc = parseFountain(ELEMENTS);
+    expect(doc.scenes).toHaveLength(1);
+    expect(doc.scenes[0].synopsis).toBe('The band plays its last show.');
+    expect(doc.scenes[0].section).toBe('Opening');
+  });
+
+  it('pairs dual dialogue blocks', () => {
+    const doc = parseFountain(ELEMENTS);
+    const brick = doc.nodes.filter(n => n.range.start.line === 13 || n.range.start.line === 14);
+    const steel = doc.nodes.filter(n => n.range.start.line === 16 || n.range.start.line === 17);
+
+    expect(brick.map(n => n.dual)).toEqual(['left', 'left']);
+    expect(steel.map(n => n.dual)).toEqual(['right', 'right']);
+    expect(steel[0].character).toBe('STEEL');
+    expect(steel[0].text).toBe('STEEL');
+  });
+
+  it('strips inline notes from printed text', () => {
+    const doc = parseFountain(ELEMENTS);
+    expect(doc.nodes[doc.nodes.length - 1].text).toBe('The crowd roars.');
+  });
+
+  it('carries synopsis and section through the scene indexer', () => {
+    const [scene] = indexScenes(ELEMENTS);
+    expect(scene.synopsis).toBe('The band plays its last show.');
+    expect(scene.section).toBe('Opening');
+    expect(scene.characters).toEqual(['BRICK', 'STEEL', 'SINGER']);
+  });
+});
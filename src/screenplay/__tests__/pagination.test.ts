@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest';
+import { parseFountain } from '../fountain-ast';
+import { paginate, paginateElements, sourceLinePages, wrapText, type PaginationElement } from '../pagination';
+
+const action = (text: string): PaginationElement => ({ type: 'action', text });
+const blank: PaginationElement = { type: 'blank', text: '' };
+
+/** n one-line action paragraphs separated by blanks: 2n - 1 rows */
+function actionRows(n: number): PaginationElement[] {
+  const elements: PaginationElement[] = [];
+  for (let i = 0; i < n; i++) {
+    if (i > 0) elements.push(blank);
+    elements.push(action(`Beat ${i + 1}.`));
+  }
+  return elements;
+}
+
+describe('wrapText', () => {
+  it('wraps at word boundaries within the column', () => {
+    const lines = wrapText('The quick brown fox jumps over the lazy dog and keeps on running', 35);
+    expect(lines).toEqual(['The quick brown fox jumps over the', 'lazy dog and keeps on running']);
+    expect(lines.every(line => line.length <= 35)).toBe(true);
+  });
+
+  it('hard-breaks words longer than the column', () => {
+    expect(wrapText('AAAAAAAAAA', 4)).toEqual(['AAAA', 'AAAA', 'AA']);
+  });
+});
+
+describe('paginate', () => {
+  it('wraps dialogue at its own column width and indent', () => {
+    const doc = parseFountain('INT. ROOM - DAY\n\nMAYA\n' + 'word '.repeat(20).trim());
+    const [page] = paginate(doc).pages;
+    const dialogue = page.lines.filter(line => line.type === 'dialogue');
+
+    expect(dialogue).toHaveLength(3);
+    expect(dialogue.every(line => line.column === 10 && line.text.length <= 35)).toBe(true);
+    expect(page.lines.find(line => line.type === 'character')?.column).toBe(22);
+  });
+
+  it('fills 54 lines per page', () => {
+    // 27 one-line paragraphs = 53 rows; the 28th needs a blank + 1 row
+    expect(paginateElements(actionRows(27)).pages).toHaveLength(1);
+    const { pages } = paginateElements(actionRows(28));
+    expect(pages).toHaveLength(2);
+    expect(pages[1].lines[0]).toMatchObject({ row: 0, text: 'Beat 28.' });
+  });
+
+  it('never leaves a scene heading at the bottom of a page', () => {
+    const elements = [
+      ...actionRows(26), // rows 0-50
+      blank,
+      { type: 'scene-heading', text: 'INT. ROOM - DAY' } as PaginationElement,
+      blank,
+      action('She waits.'),
+    ];
+    const { pages } = paginateElements(elements);
+
+    expect(pages).toHaveLength(2);
+    expect(pages[1].lines[0].type).toBe('scene-heading');
+  });
+
+  it('moves a character cue to the next page with its dialogue', () => {
+    const elements: PaginationElement[] = [
+      ...actionRows(26), // rows 0-50; the cue would land on row 52
+      blank,
+      { type: 'character', text: 'MAYA' },
+      { type: 'dialogue', text: 'One.' },
+      { type: 'dialogue', text: 'Two.' },
+    ];
+    const { pages, elementPages } = paginateElements(elements);
+
+    expect(pages[1].lines.map(line => line.type)).toEqual(['character', 'dialogue', 'dialogue']);
+    expect(elementPages[elements.length - 3]).toBe(2);
+  });
+
+  it('splits action paragraphs with at least two lines on each page', () => {
+    const paragraph = action('word '.repeat(12 * 6).trim()); // 6 lines at 60 chars
+    const split = paginateElements([...actionRows(25), blank, paragraph]); // 4 rows left
+    expect(split.pages[0].lines.filter(l => l.element === 50)).toHaveLength(4);
+    expect(split.pages[1].lines).toHaveLength(2);
+
+    // Only one line would fit: the whole paragraph moves
+    const moved = paginateElements([...actionRows(25), blank, paragraph], { linesPerPage: 51 });
+    expect(moved.pages[0].lines.some(l => l.element === 50)).toBe(false);
+    expect(moved.pages[1].lines).toHaveLength(6);
+  });
+
+  it('starts a new page at forced page breaks', () => {
+    const doc = parseFountain('Before.\n\n===\n\nAfter.');
+    const { pages } = paginate(doc);
+    expect(pages.map(page => page.lines.map(line => line.text))).toEqual([['Before.'], ['After.']]);
+  });
+
+  it('skips non-printing elements and lays dual dialogue side by side', () => {
+    const doc = parseFountain('[[note]]\n\nBRICK\nHi.\n\nSTEEL ^\nHello.\n\n= synopsis');
+    const [page] = paginate(doc).pages;
+
+    expect(page.lines.map(line => line.row)).toEqual([0, 1, 0, 1]);
+    expect(page.lines.find(line => line.text === 'STEEL')!.column).toBeGreaterThan(30);
+    expect(page.lines.some(line => line.text.includes('note') || line.text.includes('synopsis'))).toBe(false);
+  });
+
+  it('maps every source line to a page', () => {
+    const content = actionRows(30).map(element => element.text).join('\n');
+    const doc = parseFountain(content);
+    const pages = sourceLinePages(doc, paginate(doc));
+
+    expect(pages).toHaveLength(doc.lineCount);
+    expect(pages[0]).toBe(1);
+    expect(pages[doc.lineCount - 1]).toBe(2);
+  });
+});
+
+describe('dialogue continuation', () => {
+  const speech = Array.from({ length: 12 }, (_, i) => `Line ${i + 1} ends here.`).join(' ');
+
+  it('splits long speeches at a sentence end with (MORE) and (CONT\'D)', () => {
+    const elements: PaginationElement[] = [
+      ...actionRows(24), // rows 0-46; six rows left for the speech
+      blank,
+      { type: 'character', text: 'MAYA' },
+      { type: 'dialogue', text: speech },
+    ];
+    const { pages } = paginateElements(elements);
+    const first = pages[0].lines;
+    const second = pages[1].lines;
+
+    expect(first[first.length - 1]).toMatchObject({ text: '(MORE)', continuation: 'more' });
+    expect(first[first.length - 2].text).toMatch(/\.$/);
+    expect(second[0]).toMatchObject({ text: "MAYA (CONT'D)", row: 0, continuation: 'contd' });
+
+    const printed = [...first, ...second]
+      .filter(line => line.type === 'dialogue')
+      .map(line => line.text)
+      .join(' ');
+    expect(printed).toBe(speech);
+  });
+
+  it('moves the block when no sentence end leaves two lines on each side', () => {
+    const elements: PaginationElement[] = [
+      ...actionRows(24), // rows 0-46
+      blank,
+      { type: 'character', text: 'MAYA' },
+      { type: 'dialogue', text: 'word '.repeat(40).trim() + '.' },
+    ];
+    const { pages } = paginateElements(elements);
+
+    expect(pages[0].lines.some(line => line.type === 'character')).toBe(false);
+    expect(pages[1].lines[0].text).toBe('MAYA');
+  });
+
+  it('adds (CONT\'D) when a character speaks again after action, if enabled', () => {
+    const doc = parseFountain('MAYA\nHi.\n\nShe waits.\n\nMAYA\nStill here.\n\nLEO\nYes?\n\nMAYA\nNo.');
+    const cues = (autoContd: boolean) => paginate(doc, { autoContd }).pages[0].lines
+      .filter(line => line.type === 'character')
+      .map(line => line.text);
+
+    expect(cues(true)).toEqual(['MAYA', "MAYA (CONT'D)", 'LEO', 'MAYA']);
+    expect(cues(false)).toEqual(['MAYA', 'MAYA', 'LEO', 'MAYA']);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { parseFountain } from '../fountain-ast';
+import { paginate } from '../pagination';
+import { createAnchor } from '../breakdown';
+import { buildProductionReport, formatEighths, sceneEighths } from '../production-reports';
+
+const SCRIPT = [
+  'INT. KITCHEN - DAY',
+  '',
+  'MAYA makes toast.',
+  '',
+  'MAYA',
+  'Coffee?',
+  '',
+  'BRICK',
+  'Always.',
+  '',
+  'EXT. ROAD - NIGHT',
+  '',
+  'BRICK drives the truck.',
+  '',
+  'INT. KITCHEN - NIGHT',
+  '',
+  'MAYA',
+  'Late again.',
+].join('\n');
+
+/** A scene whose action fills about n lines */
+function longScene(heading: string, lines: number): string {
+  const action: string[] = [];
+  for (let i = 0; i < lines; i += 2) action.push(`Line ${i}.`, '');
+  return `${heading}\n\n${action.join('\n')}`;
+}
+
+describe('formatEighths', () => {
+  it('writes whole pages and eighths', () => {
+    expect(formatEighths(3)).toBe('3/8');
+    expect(formatEighths(8)).toBe('1');
+    expect(formatEighths(19)).toBe('2 3/8');
+  });
+});
+
+describe('sceneEighths', () => {
+  it('measures scenes from the printed page, at least an eighth each', () => {
+    const content = [longScene('INT. A - DAY', 60), longScene('INT. B - DAY', 2)].join('\n\n');
+    const doc = parseFountain(content);
+
+    const eighths = sceneEighths(doc, paginate(doc).pages);
+
+    // A runs onto a second page; B is a couple of lines
+    expect(eighths[0]).toBeGreaterThan(8);
+    expect(eighths[1]).toBe(1);
+  });
+});
+
+describe('buildProductionReport', () => {
+  const truck = SCRIPT.indexOf('truck');
+  const report = buildProductionReport(SCRIPT, [
+    { id: 't', category: 'vehicles', name: 'Pickup truck', anchor: createAnchor(SCRIPT, truck, truck + 5), createdAt: 0 },
+  ]);
+
+  it('lists scenes with page, setting and breakdown', () => {
+    expect(report.scenes.map(scene => [scene.sceneNumber, scene.page, scene.setting, scene.location, scene.timeOfDay])).toEqual([
+      ['1', '1', 'INT', 'KITCHEN', 'DAY'],
+      ['2', '1', 'EXT', 'ROAD', 'NIGHT'],
+      ['3', '1', 'INT', 'KITCHEN', 'NIGHT'],
+    ]);
+    expect(report.scenes[1].categories).toEqual([
+      { category: 'vehicles', names: ['Pickup truck'] },
+    ]);
+  });
+
+  it('groups locations and numbers the cast by scene count', () => {
+    expect(report.locations.map(location => [location.location, location.scenes, location.times])).toEqual([
+      ['KITCHEN', ['1', '3'], ['DAY', 'NIGHT']],
+      ['ROAD', ['2'], ['NIGHT']],
+    ]);
+    // Brick drives without speaking, so only has the kitchen scene
+    expect(report.cast.map(member => [member.id, member.name, member.scenes])).toEqual([
+      [1, 'MAYA', ['1', '3']],
+      [2, 'BRICK', ['1']],
+    ]);
+  });
+
+  it('sums day and night scenes', () => {
+    expect(report.dayNight.map(time => [time.timeOfDay, time.interior, time.exterior])).toEqual([
+      ['DAY', 1, 0],
+      ['NIGHT', 1, 1],
+    ]);
+    expect(report.totalEighths).toBe(report.scenes.reduce((sum, scene) => sum + scene.eighths, 0));
+  });
+});
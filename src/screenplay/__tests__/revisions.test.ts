@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import type { RevisionState } from '../../shared/types';
+import { changedLines, computeLineDiff } from '../line-diff';
+import { lockPageStarts, paginateRevised, revisionColor } from '../revisions';
+
+function scene(n: number, beats = 10): string {
+  const lines = [`INT. ROOM ${n} - DAY`, ''];
+  for (let i = 1; i <= beats; i++) lines.push(`Scene ${n} beat ${i}.`, '');
+  return lines.join('\n');
+}
+
+const LOCKED = [1, 2, 3, 4, 5, 6].map(n => scene(n)).join('\n');
+
+function lockedState(...revisions: string[]): RevisionState {
+  return {
+    lock: { versionId: 'v0', lockedAt: 0, content: LOCKED, pageStarts: lockPageStarts(LOCKED) },
+    sets: [LOCKED, ...revisions].map((content, i) => ({
+      id: `set-${i}`,
+      color: revisionColor(i + 1),
+      createdAt: 0,
+      versionId: `v${i}`,
+      content,
+    })),
+  };
+}
+
+const labels = (content: string, state: RevisionState) =>
+  paginateRevised(content, state).pages.map(page => page.label);
+
+const sceneNumbers = (content: string, state: RevisionState) =>
+  paginateRevised(content, state).pages.flatMap(page =>
+    page.lines.filter(line => line.sceneNumber).map(line => `${line.sceneNumber} ${line.text}`)
+  );
+
+describe('line diff', () => {
+  it('reports unchanged, removed and added lines in order', () => {
+    const diff = computeLineDiff(['a', 'b', 'c'], ['a', 'x', 'c', 'd']);
+    expect(diff.map(line => `${line.type[0]}${line.content}`)).toEqual(['ua', 'rb', 'ax', 'uc', 'ad']);
+  });
+
+  it('marks the line after a deletion and ignores blank lines', () => {
+    expect([...changedLines('one\n\ntwo\n\nthree', 'one\n\n\nthree')]).toEqual([3]);
+    expect([...changedLines('one', 'one\n\n')]).toEqual([]);
+  });
+});
+
+describe('revisionColor', () => {
+  it('follows the industry color order and cycles', () => {
+    expect([1, 2, 3].map(revisionColor)).toEqual(['Blue', 'Pink', 'Yellow']);
+    expect(revisionColor(9)).toBe('Double White');
+  });
+});
+
+describe('paginateRevised', () => {
+  it('reproduces the locked pages and scene numbers when nothing changed', () => {
+    const state = lockedState();
+    const pages = paginateRevised(LOCKED, state).pages;
+
+    expect(pages.map(page => page.label)).toEqual(pages.map(page => String(page.number)));
+    expect(pages.some(page => page.revision)).toBe(false);
+    expect(sceneNumbers(LOCKED, state).map(s => s.split(' ')[0])).toEqual(['1', '2', '3', '4', '5', '6']);
+  });
+
+  it('spills growth onto A pages without renumbering later pages', () => {
+    const state = lockedState();
+    const locked = labels(LOCKED, state);
+    const grown = LOCKED.replace('Scene 1 beat 1.', 'Scene 1 beat 1.\n\n' + 'More action.\n\n'.repeat(20));
+
+    const revised = labels(grown, state);
+    expect(revised).toEqual(['1', '1A', ...locked.slice(1)]);
+  });
+
+  it('letters inserted scenes and leaves OMITTED for deleted ones', () => {
+    const state = lockedState();
+    const revised = LOCKED
+      .replace(scene(3), '')
+      .replace(scene(2), scene(2) + '\n' + scene(7, 2));
+
+    expect(sceneNumbers(revised, state)).toEqual([
+      '1 INT. ROOM 1 - DAY',
+      '2 INT. ROOM 2 - DAY',
+      '2A INT. ROOM 7 - DAY',
+      '3 OMITTED',
+      '4 INT. ROOM 4 - DAY',
+      '5 INT. ROOM 5 - DAY',
+      '6 INT. ROOM 6 - DAY',
+    ]);
+  });
+
+  it('keeps a number when only the heading text changed', () => {
+    const revised = LOCKED.replace('INT. ROOM 4 - DAY', 'EXT. GARDEN - NIGHT');
+    expect(sceneNumbers(revised, lockedState())).toContain('4 EXT. GARDEN - NIGHT');
+  });
+
+  it('marks changed lines with the revision set that changed them', () => {
+    const blue = LOCKED.replace('Scene 2 beat 3.', 'Scene 2 beat three.');
+    const pink = blue.replace('Scene 5 beat 1.', 'Scene 5 beat one.');
+    const { pages } = paginateRevised(pink, lockedState(blue));
+    const marked = pages.flatMap(page => page.lines.filter(line => line.revision)
+      .map(line => `${line.revision} ${line.text}`));
+
+    expect(marked).toEqual(['1 Scene 2 beat three.', '2 Scene 5 beat one.']);
+    expect(pages.map(page => page.revision ?? 0).some(r => r === 2)).toBe(true);
+  });
+});
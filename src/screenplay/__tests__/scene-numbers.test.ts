@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { parseFountain } from '../fountain-ast';
+import { paginate } from '../pagination';
+import { FountainParser } from '../fountain-parser';
+import { indexScenes, lockSceneNumbers, moveScene, unlockSceneNumbers } from '../scene-indexer';
+import { assignSceneNumbers, splitSceneNumber } from '../scene-numbers';
+
+const SCRIPT = ['INT. HOUSE - DAY', '', 'She enters.', '', 'EXT. GARDEN - DAY', '', 'Birds.'].join('\n');
+
+describe('splitSceneNumber', () => {
+  it('separates "#12A#" from the heading', () => {
+    expect(splitSceneNumber('INT. HOUSE - DAY #12a#')).toEqual({ heading: 'INT. HOUSE - DAY', number: '12A' });
+    expect(splitSceneNumber('INT. HOUSE - DAY')).toEqual({ heading: 'INT. HOUSE - DAY' });
+  });
+});
+
+describe('assignSceneNumbers', () => {
+  it('numbers by position when no numbers are written', () => {
+    expect(assignSceneNumbers([undefined, undefined, undefined])).toEqual(['1', '2', '3']);
+  });
+
+  it('letters scenes inserted between locked numbers', () => {
+    expect(assignSceneNumbers(['11', '12', undefined, undefined, '13'])).toEqual(['11', '12', '12A', '12B', '13']);
+    expect(assignSceneNumbers(['12', '12A', undefined])).toEqual(['12', '12A', '12B']);
+    expect(assignSceneNumbers([undefined, undefined, '1'])).toEqual(['A1', 'B1', '1']);
+  });
+});
+
+describe('parsed scene numbers', () => {
+  it('strips the number from the heading and keeps it on the scene', () => {
+    const doc = parseFountain('INT. HOUSE - DAY #7#\n\nShe enters.');
+    expect(doc.scenes[0]).toMatchObject({ heading: 'INT. HOUSE - DAY', sceneNumber: '7', location: 'HOUSE' });
+    expect(doc.nodes[0].sceneNumber).toBe('7');
+  });
+
+  it('is shared by every parser consumer', () => {
+    const content = lockSceneNumbers(SCRIPT).replace('Birds.', 'Birds.\n\nINT. SHED - NIGHT\n\nDark.');
+    expect(FountainParser.parse(content).scenes.map(s => s.sceneNumber)).toEqual(['1', '2', '2A']);
+    expect(indexScenes(content).map(s => s.sceneNumber)).toEqual(['1', '2', '2A']);
+  });
+
+  it('locks and unlocks by writing numbers into the headings', () => {
+    const locked = lockSceneNumbers(SCRIPT);
+    expect(locked.split('\n')[0]).toBe('INT. HOUSE - DAY #1#');
+    expect(lockSceneNumbers(locked)).toBe(locked);
+    expect(unlockSceneNumbers(locked)).toBe(SCRIPT);
+  });
+
+  it('prints numbers on headings only when written or requested', () => {
+    const numbers = (content: string, sceneNumbers?: boolean) =>
+      paginate(parseFountain(content), { sceneNumbers }).pages[0].lines
+        .filter(line => line.sceneNumber)
+        .map(line => line.sceneNumber);
+
+    expect(numbers(SCRIPT)).toEqual([]);
+    expect(numbers(SCRIPT, true)).toEqual(['1', '2']);
+    expect(numbers(lockSceneNumbers(SCRIPT))).toEqual(['1', '2']);
+  });
+});
+
+describe('moveScene', () => {
+  const script = [
+    'Title: Moves',
+    '',
+    'INT. HOUSE - DAY',
+    '',
+    'She enters.',
+    '',
+    '# ACT II',
+    '',
+    'EXT. GARDEN - DAY',
+    '',
+    'Birds.',
+    '',
+    'INT. SHED - NIGHT',
+    '',
+    'Dark.',
+  ].join('\n');
+
+  it('moves the scene text and renumbers by position', () => {
+    const moved = moveScene(script, 2, 0);
+    expect(indexScenes(moved).map(s => [s.sceneNumber, s.heading])).toEqual([
+      ['1', 'INT. SHED - NIGHT'],
+      ['2', 'INT. HOUSE - DAY'],
+      ['3', 'EXT. GARDEN - DAY'],
+    ]);
+    // The title page, the section and the file ending stay in place
+    expect(moved).toBe([
+      'Title: Moves',
+      '',
+      'INT. SHED - NIGHT',
+      '',
+      'Dark.',
+      '',
+      '# ACT II',
+      '',
+      'INT. HOUSE - DAY',
+      '',
+      'She enters.',
+      '',
+      'EXT. GARDEN - DAY',
+      '',
+      'Birds.',
+    ].join('\n'));
+  });
+
+  it('can be moved back, and keeps locked numbers', () => {
+    expect(moveScene(moveScene(script, 0, 2), 2, 0)).toBe(script);
+    expect(indexScenes(moveScene(lockSceneNumbers(script), 0, 2)).map(s => s.sceneNumber)).toEqual(['2', '3', '1']);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { buildStripboard, refreshSchedule, sceneAnchor, scenePeriods, stripColor, STRIP_COLORS } from '../schedule';
+import type { ScheduleItem } from '../../shared/types';
+
+const SCRIPT = [
+  'INT. KITCHEN - DAY',
+  '',
+  'MAYA',
+  'Coffee?',
+  '',
+  'EXT. ROAD - NIGHT',
+  '',
+  'BRICK',
+  'Faster.',
+  '',
+  'INT. GARAGE - CONTINUOUS',
+  '',
+  'The truck cools.',
+].join('\n');
+
+function scene(content: string, index: number, id = `s${index}`): ScheduleItem {
+  return { type: 'scene', id, anchor: sceneAnchor(content, index) };
+}
+
+describe('strip colors', () => {
+  it('carries day or night through CONTINUOUS scenes', () => {
+    expect(scenePeriods(['DAY', 'NIGHT', 'CONTINUOUS', '', 'DUSK', 'MORNING'])).toEqual([
+      'DAY', 'NIGHT', 'NIGHT', 'NIGHT', 'NIGHT', 'DAY',
+    ]);
+  });
+
+  it('colors by setting and period', () => {
+    expect(stripColor('INT', 'DAY')).toBe(STRIP_COLORS.INT.DAY);
+    expect(stripColor('EXT', 'NIGHT')).toBe(STRIP_COLORS.EXT.NIGHT);
+    expect(stripColor('INT/EXT', 'DAY')).toBe(STRIP_COLORS.EXT.DAY);
+  });
+});
+
+describe('buildStripboard', () => {
+  it('splits the schedule into days at day breaks', () => {
+    const items: ScheduleItem[] = [scene(SCRIPT, 1), { type: 'day-break', id: 'd1' }, scene(SCRIPT, 0)];
+
+    const board = buildStripboard(SCRIPT, items);
+
+    expect(board.days.map(day => [day.number, day.strips.map(s => s.sceneNumber), day.breakId])).toEqual([
+      [1, ['2'], 'd1'],
+      [2, ['1'], undefined],
+    ]);
+    expect(board.days[0].strips[0].color).toBe(STRIP_COLORS.EXT.NIGHT);
+    expect(board.days[1].eighths).toBe(board.days[1].strips[0].eighths);
+    expect(board.unscheduled.map(s => [s.id, s.sceneNumber, s.period])).toEqual([['unscheduled-2', '3', 'NIGHT']]);
+  });
+
+  it('numbers the cast on each strip', () => {
+    const board = buildStripboard(SCRIPT, []);
+    expect(board.unscheduled.map(s => s.cast)).toEqual([[1], [2], []]);
+  });
+
+  it('follows scenes that move or are added in the script', () => {
+    const items = [scene(SCRIPT, 2), scene(SCRIPT, 0)];
+    const parts = SCRIPT.split('\n\nEXT. ROAD');
+    const edited = `EXT. PORCH - DAY\n\nRain.\n\n${parts[0].replace('Coffee?', 'Tea?')}\n\nEXT. ROAD${parts[1]}`;
+
+    const board = buildStripboard(edited, items);
+
+    expect(board.days[0].strips.map(s => s.heading)).toEqual(['INT. GARAGE - CONTINUOUS', 'INT. KITCHEN - DAY']);
+    expect(board.unscheduled.map(s => s.heading)).toEqual(['EXT. PORCH - DAY', 'EXT. ROAD - NIGHT']);
+    expect(board.missing).toEqual([]);
+  });
+
+  it('reports strips whose heading is gone, and duplicate strips, as missing', () => {
+    const items = [scene(SCRIPT, 0, 'a'), scene(SCRIPT, 0, 'b'), scene(SCRIPT, 1, 'c')];
+    const edited = SCRIPT.replace('EXT. ROAD - NIGHT', 'EXT. BRIDGE - NIGHT');
+
+    const board = buildStripboard(edited, items);
+
+    expect(board.missing.map(item => item.id)).toEqual(['b', 'c']);
+    expect(board.days[0].strips.map(s => s.id)).toEqual(['a']);
+  });
+});
+
+describe('refreshSchedule', () => {
+  it('re-anchors strips and leaves missing ones alone', () => {
+    const items = [scene(SCRIPT, 0), scene(SCRIPT, 1)];
+    const edited = `INT. HALL - DAY\n\n${SCRIPT.replace('EXT. ROAD - NIGHT', 'EXT. BRIDGE - NIGHT')}`;
+
+    const [kitchen, road] = refreshSchedule(edited, items);
+
+    expect(kitchen.type === 'scene' && kitchen.anchor.start).toBe(edited.indexOf('INT. KITCHEN'));
+    expect(road).toBe(items[1]);
+  });
+});
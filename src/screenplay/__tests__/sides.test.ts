@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { indexScenes } from '../scene-indexer';
+import { layoutSides, selectSidesScenes } from '../sides';
+
+const SCRIPT = [
+  'INT. KITCHEN - DAY',
+  '',
+  'Toast pops.',
+  '',
+  'INT. HALL - DAY',
+  '',
+  'MAYA',
+  'Who is it?',
+  '',
+  'BRICK',
+  'Me.',
+  '',
+  'MAYA',
+  'Come in.',
+  '',
+  'INT. STUDY - NIGHT',
+  '',
+  'BRICK',
+  'Quiet.',
+].join('\n');
+
+/** One scene per page */
+function pagedScript(count: number): string {
+  const scenes: string[] = [];
+  for (let n = 1; n <= count; n++) scenes.push(`INT. ROOM ${n} - DAY\n\nScene ${n} action.`);
+  return scenes.join('\n\n===\n\n');
+}
+
+describe('sides', () => {
+  it('selects scenes by id or by who speaks in them', () => {
+    const ids = indexScenes(SCRIPT).map(scene => scene.id);
+
+    expect([...selectSidesScenes(SCRIPT, { sceneIds: [ids[2]] })]).toEqual([3]);
+    expect([...selectSidesScenes(SCRIPT, { character: 'brick' })].sort()).toEqual([2, 3]);
+    expect(selectSidesScenes(SCRIPT, { character: 'NOBODY' }).size).toBe(0);
+  });
+
+  it('crosses out other scenes that share a page', () => {
+    const ids = indexScenes(SCRIPT).map(scene => scene.id);
+    const [side] = layoutSides(SCRIPT, { sceneIds: [ids[1]] });
+    const rowOf = (text: string) => side.page.lines.find(line => line.text === text)!.row;
+
+    expect(side.struck).toEqual([
+      { from: rowOf('INT. KITCHEN - DAY'), to: rowOf('Toast pops.') },
+      { from: rowOf('INT. STUDY - NIGHT'), to: rowOf('Quiet.') },
+    ]);
+  });
+
+  it('keeps page and scene numbers from the full script', () => {
+    const content = pagedScript(4);
+    const ids = indexScenes(content).map(scene => scene.id);
+    const sides = layoutSides(content, { sceneIds: [ids[2]] });
+
+    expect(sides.map(side => side.page.number)).toEqual([3]);
+    expect(sides[0].page.lines.find(line => line.sceneNumber)?.sceneNumber).toBe('3');
+    expect(layoutSides(content, {})).toEqual([]);
+  });
+
+  it("highlights one character's lines in the chosen scenes", () => {
+    const [side] = layoutSides(SCRIPT, { character: 'MAYA', highlight: 'MAYA' });
+    const highlighted = side.highlights.map(h => side.page.lines.find(line => line.row === h.row)!.text);
+
+    expect(highlighted).toEqual(['MAYA', 'Who is it?', 'MAYA', 'Come in.']);
+  });
+});
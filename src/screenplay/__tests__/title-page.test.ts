@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { parseFountain, getTitlePageValue } from '../fountain-ast';
+import { FountainParser } from '../fountain-parser';
+import { emptyTitlePage, layoutTitlePage, readTitlePage, renderTitlePageText, writeTitlePage } from '../title-page';
+
+const SCRIPT = [
+  'Title: The Heist',
+  'Credit: Written by',
+  'Authors:',
+  '    Jane Doe',
+  '    John Roe',
+  'Revision: Blue',
+  'Draft date: 1/3/24',
+  '',
+  'INT. VAULT - NIGHT',
+  '',
+  'Alarms blare.',
+].join('\n');
+
+describe('readTitlePage', () => {
+  it('reads every field, joining continuation lines', () => {
+    expect(readTitlePage(SCRIPT)).toEqual({
+      ...emptyTitlePage(),
+      title: 'The Heist',
+      credit: 'Written by',
+      authors: 'Jane Doe\nJohn Roe',
+      draftDate: '1/3/24',
+    });
+    expect(FountainParser.parse(SCRIPT).titlePage.authors).toBe('Jane Doe\nJohn Roe');
+  });
+});
+
+describe('writeTitlePage', () => {
+  it('round-trips through Fountain, keeping key spelling and unknown keys', () => {
+    const page = { ...readTitlePage(SCRIPT), contact: 'Jane Doe\njane@example.com', notes: 'Shooting script' };
+    const content = writeTitlePage(SCRIPT, page);
+
+    expect(content.split('\n').slice(0, 12)).toEqual([
+      'Title: The Heist',
+      'Credit: Written by',
+      'Authors:',
+      '    Jane Doe',
+      '    John Roe',
+      'Draft date: 1/3/24',
+      'Contact:',
+      '    Jane Doe',
+      '    jane@example.com',
+      'Notes: Shooting script',
+      'Revision: Blue',
+      '',
+    ]);
+    expect(readTitlePage(content)).toEqual(page);
+    expect(getTitlePageValue(parseFountain(content), 'revision')).toBe('Blue');
+    expect(parseFountain(content).scenes[0].heading).toBe('INT. VAULT - NIGHT');
+  });
+
+  it('adds a title page to a script without one, and removes it when emptied', () => {
+    const body = 'INT. VAULT - NIGHT\n\nAlarms blare.';
+    const content = writeTitlePage(body, { ...emptyTitlePage(), title: 'The Heist' });
+
+    expect(content).toBe(`Title: The Heist\n\n${body}`);
+    expect(writeTitlePage(content, emptyTitlePage())).toBe(body);
+  });
+});
+
+describe('layoutTitlePage', () => {
+  it('centers the title block and puts contact and draft date in the bottom corners', () => {
+    const page = { ...emptyTitlePage(), title: 'The Heist', authors: 'Jane Doe', draftDate: '1/3/24', contact: 'jane@example.com' };
+    const lines = layoutTitlePage(page);
+
+    expect(lines.filter(line => line.align === 'center').map(line => [line.text, line.row])).toEqual([
+      ['THE HEIST', 18],
+      ['Written by', 20],
+      ['Jane Doe', 22],
+    ]);
+    expect(lines.find(line => line.text === 'jane@example.com')).toMatchObject({ row: 53, column: 0 });
+    expect(lines.find(line => line.text === '1/3/24')).toMatchObject({ row: 53, column: 54 });
+
+    const text = renderTitlePageText(page);
+    expect(text).toHaveLength(54);
+    expect(text[18]).toBe(`${' '.repeat(25)}THE HEIST`);
+    expect(text[53]).toBe(`jane@example.com${' '.repeat(38)}1/3/24`);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Actor Scripts
+ *
+ * A full script with one or more characters' cues and dialogue highlighted,
+ * fronted by a cover page per actor listing their scenes and how many lines
+ * they have in each. A "line" here is a speech: one cue and what follows it.
+ *
+ * Characters are matched by name and by the aliases recorded when duplicate
+ * characters were merged, so "MAYA" also picks up "YOUNG MAYA" if that name
+ * was merged into MAYA.
+ */
+
+import { characterNameFromCue, nodeSpeakers, type FountainDocument } from './fountain-ast';
+import { LINES_PER_PAGE, PAGE_WIDTH_CHARS, type Page } from './pagination';
+
+export interface Actor {
+  name: string;
+  /** Other cue names the same character speaks under */
+  aliases?: string[];
+}
+
+export interface ActorSceneLines {
+  /** Printed scene number */
+  sceneNumber: string;
+  heading: string;
+  lines: number;
+}
+
+export interface ActorReport {
+  name: string;
+  aliases: string[];
+  scenes: ActorSceneLines[];
+  totalLines: number;
+}
+
+export interface HighlightedLine {
+  row: number;
+  column: number;
+  length: number;
+}
+
+const normalize = (name: string) => characterNameFromCue(name).toUpperCase();
+
+/**
+ * Actors for the requested names, with aliases from the character roster.
+ * A name may be the character's own name or one of its aliases; names not
+ * in the roster are kept as they are.
+ */
+export function resolveActors(names: string[], roster: Actor[]): Actor[] {
+  const actors = new Map<string, Actor>();
+
+  for (const name of names) {
+    const wanted = normalize(name);
+    if (!wanted) continue;
+    const entry = roster.find(character =>
+      normalize(character.name) === wanted || (character.aliases ?? []).some(alias => normalize(alias) === wanted)
+    );
+    const actor = entry
+      ? { name: normalize(entry.name), aliases: (entry.aliases ?? []).map(normalize).filter(Boolean) }
+      : { name: wanted, aliases: [] };
+    if (!actors.has(actor.name)) actors.set(actor.name, actor);
+  }
+
+  return [...actors.values()];
+}
+
+/** Every cue name that belongs to one of the actors */
+function actorNames(actors: Actor[]): Set<string> {
+  return new Set(actors.flatMap(actor => [actor.name, ...(actor.aliases ?? [])].map(normalize)));
+}
+
+/** Node indices of the actors' cues, parentheticals and dialogue */
+export function actorNodes(doc: FountainDocument, actors: Actor[]): Set<number> {
+  const names = actorNames(actors);
+  const nodes = new Set<number>();
+  nodeSpeakers(doc.nodes).forEach((speaker, i) => {
+    if (speaker && names.has(speaker)) nodes.add(i);
+  });
+  return nodes;
+}
+
+/** Scenes and line counts for each actor, in script order */
+export function actorReports(doc: FountainDocument, actors: Actor[]): ActorReport[] {
+  return actors.map(actor => {
+    const names = actorNames([actor]);
+    const perScene = new Map<number, number>();
+
+    for (const node of doc.nodes) {
+      if (node.type !== 'character' || node.sceneIndex === undefined) continue;
+      if (!names.has(normalize(node.text))) continue;
+      perScene.set(node.sceneIndex, (perScene.get(node.sceneIndex) ?? 0) + 1);
+    }
+
+    const scenes = [...perScene].map(([index, lines]) => ({
+      sceneNumber: doc.scenes[index].sceneNumber,
+      heading: doc.scenes[index].heading,
+      lines,
+    }));
+    return {
+      name: actor.name,
+      aliases: actor.aliases ?? [],
+      scenes,
+      totalLines: scenes.reduce((sum, scene) => sum + scene.lines, 0),
+    };
+  });
+}
+
+/** Printed lines on a page that come from highlighted nodes */
+export function pageHighlights(page: Page, isHighlighted: (element: number) => boolean): HighlightedLine[] {
+  return page.lines
+    .filter(line => line.element >= 0 && isHighlighted(line.element))
+    .map(line => ({ row: line.row, column: line.column, length: line.text.length }));
+}
+
+function center(text: string): string {
+  return ' '.repeat(Math.max(0, Math.floor((PAGE_WIDTH_CHARS - text.length) / 2))) + text;
+}
+
+/**
+ * Cover page text for one actor, as rows of a 60-column page. Long scene
+ * lists run on to further pages.
+ */
+export function layoutActorCover(report: ActorReport, scriptTitle: string): string[][] {
+  const rows: string[] = ['', '', center('ACTOR SCRIPT'), '', center(report.name)];
+  if (report.aliases.length > 0) rows.push(center(`(also ${report.aliases.join(', ')})`));
+  if (scriptTitle) rows.push('', center(scriptTitle.toUpperCase()));
+
+  const sceneCount = `${report.scenes.length} ${report.scenes.length === 1 ? 'scene' : 'scenes'}`;
+  const lineCount = `${report.totalLines} ${report.totalLines === 1 ? 'line' : 'lines'}`;
+  rows.push('', '', `${sceneCount}, ${lineCount}`, '');
+
+  const headingWidth = PAGE_WIDTH_CHARS - 14;
+  rows.push(`${'SCENE'.padEnd(7)}${'HEADING'.padEnd(headingWidth)}${'LINES'.padStart(7)}`, '');
+  for (const scene of report.scenes) {
+    const heading = scene.heading.length > headingWidth - 2
+      ? `${scene.heading.slice(0, headingWidth - 5)}...`
+      : scene.heading;
+    rows.push(`${scene.sceneNumber.padEnd(7)}${heading.padEnd(headingWidth)}${String(scene.lines).padStart(7)}`);
+  }
+
+  const pages: string[][] = [];
+  for (let start = 0; start < rows.length; start += LINES_PER_PAGE) {
+    pages.push(rows.slice(start, start + LINES_PER_PAGE));
+  }
+  return pages;
+}
@@ -1,4 +1,6 @@
 import type { ElementType } from '../shared/types';
+import { classifyLine, parseFountain } from './fountain-ast';
+import { paginateElements } from './pagination';
 
 export interface FormattingResult {
   type: ElementType;
@@ -12,58 +14,34 @@ export interface FormattingResult {
  */
 export class AutoFormatter {
   /**
-   * Detect element type based on text content and previous element
+   * Detect element type based on text content and previous element.
+   * Uses the shared Fountain line rules, so a line typed in the editor gets
+   * the same type it will have when the document is re-parsed.
+   *
+   * @param previousText - Text of the previous line, when known. An empty
+   *   string means the previous line is blank.
    */
   static detectElementType(
     text: string,
-    previousElement?: ElementType
+    previousElement?: ElementType,
+    previousText?: string
   ): ElementType {
-    const trimmed = text.trim();
-    
-    if (!trimmed) {
+    if (!text.trim()) {
       return 'action';
     }
 
-    // Scene Heading: Starts with INT., EXT., INT./EXT., I/E
-    if (/^(INT\.|EXT\.|INT\.?\/EXT\.|I\/E)/i.test(trimmed)) {
-      return 'scene-heading';
-    }
-
-    // Transition: Ends with TO:
-    if (/TO:\s*$/.test(trimmed)) {
-      return 'transition';
-    }
-
-    // Centered: Starts with > and ends with <
-    if (/^>.*<$/.test(trimmed)) {
-      return 'centered';
-    }
-
-    // Parenthetical: Enclosed in parentheses
-    if (/^\(.*\)$/.test(trimmed)) {
-      return 'parenthetical';
-    }
-
-    // Character: ALL CAPS after action or scene heading (not after character/dialogue)
-    if (
-      this.isAllCaps(trimmed) &&
-      previousElement !== 'character' &&
-      previousElement !== 'dialogue' &&
-      previousElement !== 'parenthetical'
-    ) {
-      return 'character';
-    }
-
-    // Dialogue: Comes after character or parenthetical
-    if (
-      previousElement === 'character' ||
-      previousElement === 'parenthetical'
-    ) {
-      return 'dialogue';
-    }
-
-    // Default to action
-    return 'action';
+    const previousBlank = previousText !== undefined
+      ? previousText.trim() === ''
+      : previousElement === undefined || previousElement === 'scene-heading' || previousElement === 'transition';
+
+    return classifyLine(text, {
+      inDialogue: !previousBlank && (
+        previousElement === 'character' ||
+        previousElement === 'parenthetical' ||
+        previousElement === 'dialogue'
+      ),
+      previousBlank,
+    }).type;
   }
 
   /**
@@ -143,26 +121,16 @@ export class AutoFormatter {
   }
 
   /**
-   * Parse Fountain content into formatted elements
+   * Parse Fountain content into formatted elements (one per body line)
    */
   static parseFountain(content: string): FormattingResult[] {
-    const lines = content.split('\n');
-    const results: FormattingResult[] = [];
-    let previousType: ElementType | undefined;
-
-    for (const line of lines) {
-      const type = this.detectElementType(line, previousType);
-      const formatted = this.formatElement(line, type);
-
-      results.push({
+    return parseFountain(content).nodes.map(node => {
+      const type: ElementType = node.type === 'blank' ? 'action' : node.type;
+      return {
         type,
-        text: formatted,
-      });
-
-      previousType = type;
-    }
-
-    return results;
+        text: this.formatElement(node.text, type),
+      };
+    });
   }
 
   /**
@@ -172,6 +140,7 @@ export class AutoFormatter {
     marginLeft: string;
     maxWidth?: string;
     fontWeight?: string;
+    fontStyle?: string;
     textTransform?: string;
     textAlign?: string;
   } {
@@ -215,6 +184,33 @@ export class AutoFormatter {
           textTransform: 'uppercase',
         };
 
+      case 'lyrics':
+        return {
+          marginLeft: '1.5in',
+          maxWidth: '3.5in',
+          fontStyle: 'italic',
+        };
+
+      case 'section':
+        return {
+          marginLeft: '0',
+          fontWeight: 'bold',
+        };
+
+      case 'synopsis':
+      case 'note':
+        return {
+          marginLeft: '0',
+          fontStyle: 'italic',
+        };
+
+      case 'page-break':
+        return {
+          marginLeft: '0',
+          textAlign: 'center',
+        };
+
+      case 'boneyard':
       case 'action':
       default:
         return {
@@ -225,48 +221,20 @@ export class AutoFormatter {
   }
 
   /**
-   * Calculate page breaks based on line count
-   * Standard screenplay: 55 lines per page
+   * Calculate page breaks with the shared pagination engine.
+   * Returns the index of the first element on each page after the first.
    */
   static calculatePageBreaks(elements: FormattingResult[]): number[] {
-    const LINES_PER_PAGE = 55;
-    const pageBreaks: number[] = [];
-    let currentLine = 0;
-
-    elements.forEach((element, index) => {
-      const lineHeight = this.getElementLineHeight(element.type);
-      currentLine += lineHeight;
-
-      if (currentLine >= LINES_PER_PAGE) {
-        pageBreaks.push(index);
-        currentLine = 0;
-      }
-    });
-
-    return pageBreaks;
-  }
-
-  /**
-   * Get approximate line height for element type
-   */
-  private static getElementLineHeight(type: ElementType): number {
-    switch (type) {
-      case 'scene-heading':
-        return 3; // 2em top margin + 1em bottom
-
-      case 'character':
-        return 2; // 1em top margin + 1 line
-
-      case 'transition':
-        return 2;
-
-      case 'dialogue':
-      case 'action':
-      case 'parenthetical':
-      case 'centered':
-      default:
-        return 1;
-    }
+    const { pages } = paginateElements(
+      elements.map(element => ({
+        type: element.text.trim() === '' ? 'blank' : element.type,
+        text: element.text,
+      }))
+    );
+
+    return pages
+      .slice(1)
+      .map(page => page.lines[0]?.element)
+      .filter((index): index is number => index !== undefined);
   }
 }
-
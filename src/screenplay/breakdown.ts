@@ -0,0 +1,210 @@
+/**
+ * Script Breakdown
+ *
+ * Production elements (props, wardrobe, vehicles, ...) are tagged on ranges of
+ * the script text. A tag stores the text it covers plus a little context on
+ * either side, and is found again by searching for that quote, so it follows
+ * its words through edits anywhere else in the script. A tag whose words are
+ * rewritten or deleted can't be found and is reported as orphaned.
+ *
+ * Breakdown sheets group the tags by the scene they fall in. Speaking
+ * characters go on each sheet's cast list without needing a tag.
+ */
+
+import type { BreakdownCategory, BreakdownElement, TextAnchor } from '../shared/types';
+import { findSceneAtLine, parseFountain } from './fountain-ast';
+
+export interface BreakdownCategoryInfo {
+  id: BreakdownCategory;
+  label: string;
+  /** Highlight color, after the usual breakdown color scheme where there is one */
+  color: string;
+}
+
+// Sheet order. Colors are repeated in screenplay.css for the editor highlights.
+export const BREAKDOWN_CATEGORIES: BreakdownCategoryInfo[] = [
+  { id: 'cast', label: 'Cast', color: '#ef4444' },
+  { id: 'extras', label: 'Extras', color: '#22c55e' },
+  { id: 'stunts', label: 'Stunts', color: '#f97316' },
+  { id: 'props', label: 'Props', color: '#a855f7' },
+  { id: 'wardrobe', label: 'Wardrobe', color: '#06b6d4' },
+  { id: 'makeup', label: 'Makeup/Hair', color: '#d946ef' },
+  { id: 'vehicles', label: 'Vehicles', color: '#f472b6' },
+  { id: 'animals', label: 'Animals', color: '#fb7185' },
+  { id: 'sfx', label: 'Special Effects', color: '#3b82f6' },
+  { id: 'vfx', label: 'Visual Effects', color: '#6366f1' },
+  { id: 'set-dressing', label: 'Set Dressing', color: '#ca8a04' },
+  { id: 'locations', label: 'Locations', color: '#64748b' },
+  { id: 'sound', label: 'Sound/Music', color: '#92400e' },
+  { id: 'special-equipment', label: 'Special Equipment', color: '#78716c' },
+];
+
+const CONTEXT_LENGTH = 32;
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+export interface ResolvedBreakdownElement extends BreakdownElement {
+  /** Where the tag is in the current text; null when its words are gone */
+  range: TextRange | null;
+}
+
+export interface BreakdownSheet {
+  /** One-based position in the script */
+  number: number;
+  sceneNumber: string;
+  heading: string;
+  location: string;
+  timeOfDay: string;
+  /** Element names per category, in sheet order; empty categories are left out */
+  categories: Array<{ category: BreakdownCategory; names: string[] }>;
+  elements: ResolvedBreakdownElement[];
+}
+
+export interface BreakdownSheets {
+  sheets: BreakdownSheet[];
+  /** Tags whose text no longer appears in any scene */
+  orphaned: ResolvedBreakdownElement[];
+}
+
+export function categoryInfo(category: BreakdownCategory): BreakdownCategoryInfo {
+  return BREAKDOWN_CATEGORIES.find(info => info.id === category) ?? BREAKDOWN_CATEGORIES[0];
+}
+
+/** Anchor for content[start, end) */
+export function createAnchor(content: string, start: number, end: number): TextAnchor {
+  return {
+    text: content.slice(start, end),
+    prefix: content.slice(Math.max(0, start - CONTEXT_LENGTH), start),
+    suffix: content.slice(end, end + CONTEXT_LENGTH),
+    start,
+  };
+}
+
+function occurrences(haystack: string, needle: string): number[] {
+  const found: number[] = [];
+  for (let i = haystack.indexOf(needle); i !== -1; i = haystack.indexOf(needle, i + 1)) {
+    found.push(i);
+  }
+  return found;
+}
+
+/** Characters shared at the end of a and b */
+function sharedEnd(a: string, b: string): number {
+  let n = 0;
+  while (n < a.length && n < b.length && a[a.length - 1 - n] === b[b.length - 1 - n]) n++;
+  return n;
+}
+
+/** Characters shared at the start of a and b */
+function sharedStart(a: string, b: string): number {
+  let n = 0;
+  while (n < a.length && n < b.length && a[n] === b[n]) n++;
+  return n;
+}
+
+/**
+ * Find an anchor in the current text. Every occurrence of the tagged text is
+ * a candidate; the one whose surroundings best match the stored context wins,
+ * and the one nearest the last known offset breaks ties. Falls back to a
+ * case-insensitive search so a line retyped in caps keeps its tags.
+ */
+export function resolveAnchor(content: string, anchor: TextAnchor): TextRange | null {
+  if (!anchor.text) return null;
+
+  let candidates = occurrences(content, anchor.text);
+  if (candidates.length === 0) {
+    candidates = occurrences(content.toLowerCase(), anchor.text.toLowerCase());
+  }
+  if (candidates.length === 0) return null;
+
+  const length = anchor.text.length;
+  let best = candidates[0];
+  let bestScore = -1;
+  for (const start of candidates) {
+    const score =
+      sharedEnd(content.slice(Math.max(0, start - CONTEXT_LENGTH), start), anchor.prefix) +
+      sharedStart(content.slice(start + length, start + length + CONTEXT_LENGTH), anchor.suffix);
+    if (score > bestScore || (score === bestScore && Math.abs(start - anchor.start) < Math.abs(best - anchor.start))) {
+      best = start;
+      bestScore = score;
+    }
+  }
+
+  return { start: best, end: best + length };
+}
+
+export function resolveBreakdown(content: string, elements: BreakdownElement[]): ResolvedBreakdownElement[] {
+  return elements.map(element => ({ ...element, range: resolveAnchor(content, element.anchor) }));
+}
+
+/**
+ * Elements whose anchors should be refreshed against the current text, so
+ * the stored context keeps up with gradual edits around the tag. Orphaned
+ * tags keep their old anchor in case the words come back.
+ */
+export function reanchorBreakdown(content: string, elements: BreakdownElement[]): BreakdownElement[] {
+  const changed: BreakdownElement[] = [];
+  for (const element of elements) {
+    const range = resolveAnchor(content, element.anchor);
+    if (!range) continue;
+    const anchor = createAnchor(content, range.start, range.end);
+    const { text, prefix, suffix, start } = element.anchor;
+    if (anchor.text !== text || anchor.prefix !== prefix || anchor.suffix !== suffix || anchor.start !== start) {
+      changed.push({ ...element, anchor });
+    }
+  }
+  return changed;
+}
+
+/** Zero-based source line holding a character offset */
+export function lineAt(content: string, offset: number): number {
+  let line = 0;
+  for (let i = content.indexOf('\n'); i !== -1 && i < offset; i = content.indexOf('\n', i + 1)) line++;
+  return line;
+}
+
+/** One breakdown sheet per scene, in script order */
+export function buildBreakdownSheets(content: string, elements: BreakdownElement[]): BreakdownSheets {
+  const doc = parseFountain(content);
+  const perScene = doc.scenes.map(() => [] as ResolvedBreakdownElement[]);
+  const orphaned: ResolvedBreakdownElement[] = [];
+
+  for (const element of resolveBreakdown(content, elements)) {
+    const scene = element.range ? findSceneAtLine(doc, lineAt(content, element.range.start)) : null;
+    if (scene) {
+      perScene[scene.number - 1].push(element);
+    } else {
+      orphaned.push(element);
+    }
+  }
+
+  const sheets = doc.scenes.map((scene, i) => {
+    const elements = perScene[i].sort((a, b) => a.range!.start - b.range!.start);
+    const categories = BREAKDOWN_CATEGORIES.map(({ id }) => {
+      const names = new Map<string, string>();
+      if (id === 'cast') {
+        for (const name of scene.characters) names.set(name.toUpperCase(), name);
+      }
+      for (const element of elements) {
+        const name = element.name.trim();
+        if (element.category === id && name && !names.has(name.toUpperCase())) names.set(name.toUpperCase(), name);
+      }
+      return { category: id, names: [...names.values()] };
+    }).filter(entry => entry.names.length > 0);
+
+    return {
+      number: scene.number,
+      sceneNumber: scene.sceneNumber,
+      heading: scene.heading,
+      location: scene.location,
+      timeOfDay: scene.timeOfDay,
+      categories,
+      elements,
+    };
+  });
+
+  return { sheets, orphaned };
+}
@@ -0,0 +1,77 @@
+/**
+ * Corkboard
+ *
+ * Scenes as index cards. The order and the synopsis come from the script
+ * text: a card shows the scene's "=" synopsis lines, and editing a card
+ * writes them back (see setSceneSynopsis). Summaries, tags and mood live on
+ * the stored scene rows; a summary is shown when there's no synopsis yet.
+ */
+
+import type { Scene } from '../shared/types';
+import type { IndexedScene } from './scene-indexer';
+
+export interface CorkboardCard {
+  scene: IndexedScene;
+  /** Position in the script, as used by moveScene and setSceneSynopsis */
+  index: number;
+  synopsis: string;
+  /** True when the text shown is the stored summary, not a written synopsis */
+  fromSummary: boolean;
+  tags: string[];
+  mood: string;
+  /** The stored scene holding summary, tags and mood, when it has been saved */
+  stored?: Scene;
+}
+
+export interface CorkboardFilter {
+  character?: string;
+  location?: string;
+  tag?: string;
+}
+
+// Card colors for tags, picked by a hash of the tag so a tag keeps its color
+const TAG_COLORS = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#14b8a6', '#3b82f6', '#8b5cf6', '#ec4899'];
+
+export function tagColor(tag: string): string {
+  let hash = 0;
+  for (const ch of tag.toLowerCase()) hash = (hash * 31 + ch.charCodeAt(0)) >>> 0;
+  return TAG_COLORS[hash % TAG_COLORS.length];
+}
+
+/**
+ * The stored scene for a scene in the text, matched the way saving the
+ * script merges them: by number and heading, then heading, then number
+ */
+export function matchStoredScene(scene: IndexedScene, stored: Scene[]): Scene | undefined {
+  const heading = scene.heading.toUpperCase();
+  return (
+    stored.find(s => s.number === scene.number && s.heading?.toUpperCase() === heading) ??
+    stored.find(s => s.heading?.toUpperCase() === heading) ??
+    stored.find(s => s.number === scene.number)
+  );
+}
+
+export function buildCorkboard(scenes: IndexedScene[], stored: Scene[]): CorkboardCard[] {
+  return scenes.map((scene, index) => {
+    const match = matchStoredScene(scene, stored);
+    const summary = match?.summary?.trim() ?? '';
+    return {
+      scene,
+      index,
+      synopsis: scene.synopsis || summary,
+      fromSummary: !scene.synopsis && summary !== '',
+      tags: match?.tags ?? [],
+      mood: match?.mood ?? '',
+      stored: match,
+    };
+  });
+}
+
+export function filterCorkboard(cards: CorkboardCard[], filter: CorkboardFilter): CorkboardCard[] {
+  const same = (a: string, b: string) => a.toUpperCase() === b.toUpperCase();
+  return cards.filter(card =>
+    (!filter.character || card.scene.characters.some(name => same(name, filter.character!))) &&
+    (!filter.location || same(card.scene.location, filter.location)) &&
+    (!filter.tag || card.tags.some(tag => same(tag, filter.tag!)))
+  );
+}
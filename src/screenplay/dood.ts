@@ -0,0 +1,208 @@
+/**
+ * Day Out of Days
+ *
+ * For every cast member, what they do on each shoot day of the schedule:
+ *
+ *   SW   start work: first day on the show
+ *   W    work
+ *   H    hold: between work days, paid but not shooting
+ *   WD   work, then drop: the gap before the next work day is long enough
+ *        to let the actor go rather than hold them
+ *   PW   pick up work: first day back after a drop
+ *   WF   work finish: last day on the show
+ *
+ * The letters combine on a single day (SWF for a one-day part, PWF, SWD).
+ * Who is in each scene comes from SceneIndexer's dialogue cues, plus cast
+ * tagged in the breakdown for parts that don't speak.
+ *
+ * Shoot days come from the stripboard, or from a CSV of day and scene
+ * numbers that is turned into a schedule.
+ */
+
+import type { ScheduleItem } from '../shared/types';
+import { parseFountain } from './fountain-ast';
+import { indexScenes } from './scene-indexer';
+import { buildStripboard, sceneAnchor, type StripboardOptions } from './schedule';
+
+/** Shortest gap, in shoot days, worth dropping an actor for rather than holding */
+export const DEFAULT_DROP_AFTER = 10;
+
+export interface DayOutOfDaysOptions extends StripboardOptions {
+  /** Gaps of at least this many days become drop/pick up; Infinity always holds */
+  dropAfter?: number;
+}
+
+export interface CastDays {
+  id: number;
+  name: string;
+  /** One code per shoot day; '' before start, after finish and while dropped */
+  codes: string[];
+  work: number;
+  hold: number;
+  /** Days off the show between a drop and a pick up */
+  drop: number;
+  /** One-based shoot days; 0 when the character isn't scheduled */
+  start: number;
+  finish: number;
+  /** Days on the payroll: start to finish, less days dropped */
+  total: number;
+}
+
+export interface DayOutOfDays {
+  /** Number of shoot days */
+  days: number;
+  cast: CastDays[];
+}
+
+export interface ShootDayRow {
+  day: number;
+  sceneNumbers: string[];
+}
+
+export interface ShootDaysImport {
+  items: ScheduleItem[];
+  /** Scene numbers that aren't in the script, or are listed twice */
+  skipped: string[];
+}
+
+/** Codes for one character from the (one-based, ascending) days they work */
+export function castCodes(workDays: number[], days: number, dropAfter = DEFAULT_DROP_AFTER): string[] {
+  const codes = new Array<string>(days).fill('');
+  workDays.forEach((day, i) => {
+    const previous = workDays[i - 1];
+    const next = workDays[i + 1];
+    const pickUp = previous !== undefined && day - previous - 1 >= dropAfter;
+    const drop = next !== undefined && next - day - 1 >= dropAfter;
+
+    codes[day - 1] = `${i === 0 ? 'S' : pickUp ? 'P' : ''}W${next === undefined ? 'F' : drop ? 'D' : ''}`;
+    if (next !== undefined && !drop) {
+      for (let hold = day + 1; hold < next; hold++) codes[hold - 1] = 'H';
+    }
+  });
+  return codes;
+}
+
+export function buildDayOutOfDays(content: string, items: ScheduleItem[], options: DayOutOfDaysOptions = {}): DayOutOfDays {
+  const board = buildStripboard(content, items, options);
+  const scenes = indexScenes(content);
+  const castIds = new Map(board.cast.map(member => [member.name.toUpperCase(), member.id]));
+
+  const workDays = new Map<number, Set<number>>();
+  board.days.forEach(day => {
+    for (const strip of day.strips) {
+      const speaking = (scenes[strip.sceneIndex]?.characters ?? []).map(name => castIds.get(name.toUpperCase()));
+      for (const id of [...speaking, ...strip.cast]) {
+        if (id === undefined) continue;
+        if (!workDays.has(id)) workDays.set(id, new Set());
+        workDays.get(id)!.add(day.number);
+      }
+    }
+  });
+
+  const days = board.days.length;
+  const cast = board.cast.map(member => {
+    const worked = [...(workDays.get(member.id) ?? [])].sort((a, b) => a - b);
+    const codes = castCodes(worked, days, options.dropAfter);
+    const count = (code: string) => codes.filter(c => c === code).length;
+    const start = worked[0] ?? 0;
+    const finish = worked[worked.length - 1] ?? 0;
+    const drop = start ? finish - start + 1 - worked.length - count('H') : 0;
+    return {
+      id: member.id,
+      name: member.name,
+      codes,
+      work: worked.length,
+      hold: count('H'),
+      drop,
+      start,
+      finish,
+      total: start ? finish - start + 1 - drop : 0,
+    };
+  });
+
+  return { days, cast };
+}
+
+/** RFC 4180 fields, allowing bare LF line ends */
+function parseCSV(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      rows.push([...row, field]);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length > 0) rows.push([...row, field]);
+  return rows;
+}
+
+/**
+ * Shoot days from a CSV with the day in the first column ("3", "Day 3",
+ * "D3") and scene numbers in the rest, one or several per cell. Rows for
+ * the same day are merged; rows without a day number, like a header, are
+ * ignored.
+ */
+export function parseShootDaysCSV(text: string): ShootDayRow[] {
+  const byDay = new Map<number, string[]>();
+  for (const [dayCell = '', ...sceneCells] of parseCSV(text.replace(/^\uFEFF/, ''))) {
+    const match = dayCell.match(/^\s*(?:day|d)?\s*(\d+)\s*$/i);
+    if (!match) continue;
+    const day = parseInt(match[1], 10);
+    const sceneNumbers = sceneCells.flatMap(cell => cell.split(/[\s;,]+/)).filter(Boolean);
+    byDay.set(day, [...(byDay.get(day) ?? []), ...sceneNumbers]);
+  }
+  return [...byDay.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([day, sceneNumbers]) => ({ day, sceneNumbers }));
+}
+
+/**
+ * A schedule from numbered shoot days. Days missing from the list become
+ * empty days, so day numbers stay as given.
+ */
+export function scheduleFromShootDays(content: string, rows: ShootDayRow[]): ShootDaysImport {
+  const doc = parseFountain(content);
+  const sceneIndex = new Map(doc.scenes.map((scene, i) => [scene.sceneNumber.toUpperCase(), i]));
+  const items: ScheduleItem[] = [];
+  const skipped: string[] = [];
+  const scheduled = new Set<number>();
+
+  let day = 1;
+  for (const row of rows) {
+    for (; day < row.day; day++) items.push({ type: 'day-break', id: `day-${day}` });
+    for (const sceneNumber of row.sceneNumbers) {
+      const index = sceneIndex.get(sceneNumber.toUpperCase());
+      if (index === undefined || scheduled.has(index)) {
+        skipped.push(sceneNumber);
+        continue;
+      }
+      scheduled.add(index);
+      items.push({ type: 'scene', id: `strip-${index}`, anchor: sceneAnchor(content, index) });
+    }
+  }
+  if (rows.length > 0) items.push({ type: 'day-break', id: `day-${day}` });
+
+  return { items, skipped };
+}
@@ -0,0 +1,125 @@
+/**
+ * AI edit hunks
+ *
+ * Each update_content call from the assistant becomes a hunk in a review
+ * queue. A hunk is pinned to the place its original text was found, using
+ * the scene ranges from the parser to tell repeated lines apart, and keeps a
+ * text anchor (see breakdown.ts) so it is found again after other hunks are
+ * accepted around it. Hunks are accepted, rejected or edited one at a time.
+ *
+ * Accepting a hunk also gives the hunk that undoes it, anchored where the
+ * new text landed, so an agent turn can be reverted without searching the
+ * script for text that may appear anywhere.
+ */
+
+import type { EditHunk, PendingEdit } from '../shared/types';
+import { createAnchor, lineAt, resolveAnchor, type TextRange } from './breakdown';
+import { findSceneAtLine, parseFountain } from './fountain-ast';
+
+export type EditLocation =
+  | { status: 'found'; range: TextRange }
+  | { status: 'missing' }
+  | { status: 'ambiguous'; count: number };
+
+/**
+ * Where an edit's original text is. With a scene number only matches inside
+ * that scene count. Text found more than once is ambiguous: picking one
+ * could change the wrong line.
+ */
+export function locateEdit(content: string, edit: Pick<PendingEdit, 'original' | 'sceneNumber'>): EditLocation {
+  if (!edit.original) return { status: 'missing' };
+
+  let starts: number[] = [];
+  for (let i = content.indexOf(edit.original); i !== -1; i = content.indexOf(edit.original, i + 1)) {
+    starts.push(i);
+  }
+
+  if (edit.sceneNumber !== undefined) {
+    const scene = parseFountain(content).scenes.find(s => s.number === edit.sceneNumber);
+    if (!scene) return { status: 'missing' };
+    starts = starts.filter(start => {
+      const line = lineAt(content, start);
+      return line >= scene.range.start.line && line <= scene.range.end.line;
+    });
+  }
+
+  if (starts.length === 0) return { status: 'missing' };
+  if (starts.length > 1) return { status: 'ambiguous', count: starts.length };
+  return { status: 'found', range: { start: starts[0], end: starts[0] + edit.original.length } };
+}
+
+/**
+ * A queued hunk for an edit proposed against `content`. An edit whose text
+ * can't be pinned down is still queued, so the user sees it, but it can only
+ * be rejected.
+ */
+export function createHunk(content: string, edit: PendingEdit, id: string): EditHunk {
+  const location = locateEdit(content, edit);
+  if (location.status !== 'found') {
+    return { ...edit, id, anchor: { text: edit.original, prefix: '', suffix: '', start: 0 }, startLine: -1, endLine: -1 };
+  }
+
+  const { start, end } = location.range;
+  const startLine = lineAt(content, start);
+  const scene = findSceneAtLine(parseFountain(content), startLine);
+  return {
+    ...edit,
+    id,
+    anchor: createAnchor(content, start, end),
+    startLine,
+    endLine: lineAt(content, end),
+    ...(scene && { sceneHeading: scene.heading }),
+  };
+}
+
+// An empty range (where deleted text used to be) has only its surroundings to go by
+function resolveGap(content: string, hunk: EditHunk): TextRange | null {
+  const { prefix, suffix, start } = hunk.anchor;
+  if (!prefix && !suffix) return null;
+  let best: number | null = null;
+  for (let i = content.indexOf(prefix + suffix); i !== -1; i = content.indexOf(prefix + suffix, i + 1)) {
+    const at = i + prefix.length;
+    if (best === null || Math.abs(at - start) < Math.abs(best - start)) best = at;
+  }
+  return best === null ? null : { start: best, end: best };
+}
+
+/** Where a hunk's original text is now, or null once it has been changed */
+export function resolveHunk(content: string, hunk: EditHunk): { range: TextRange; startLine: number; endLine: number } | null {
+  if (hunk.startLine < 0) return null;
+  const range = hunk.original ? resolveAnchor(content, hunk.anchor) : resolveGap(content, hunk);
+  // The anchor also matches text retyped in another case; only the exact words will do
+  if (!range || content.slice(range.start, range.end) !== hunk.original) return null;
+  return { range, startLine: lineAt(content, range.start), endLine: lineAt(content, range.end) };
+}
+
+/**
+ * Apply a hunk, optionally with the user's version of the new text. Returns
+ * the new content and the hunk that puts the original text back.
+ */
+export function acceptHunk(content: string, hunk: EditHunk, modified = hunk.modified): { content: string; undo: EditHunk } | null {
+  const resolved = resolveHunk(content, hunk);
+  if (!resolved) return null;
+
+  const { start, end } = resolved.range;
+  const next = content.slice(0, start) + modified + content.slice(end);
+  const undoEnd = start + modified.length;
+  return {
+    content: next,
+    undo: {
+      id: `${hunk.id}-undo`,
+      description: hunk.description,
+      original: modified,
+      modified: hunk.original,
+      anchor: createAnchor(next, start, undoEnd),
+      startLine: lineAt(next, start),
+      endLine: lineAt(next, undoEnd),
+      ...(hunk.sceneHeading && { sceneHeading: hunk.sceneHeading }),
+    },
+  };
+}
+
+/** The content with the hunk applied, optionally with the user's version of the new text */
+export function applyHunk(content: string, hunk: EditHunk, modified = hunk.modified): string | null {
+  return acceptHunk(content, hunk, modified)?.content ?? null;
+}
@@ -0,0 +1,60 @@
+/**
+ * Fountain Emphasis
+ *
+ * Splits *italic*, **bold** and _underline_ markup into styled runs for the
+ * exporters that can carry styles (FDX, DOCX). A marker only opens when a
+ * matching one closes it later on the line; "\*" is a literal asterisk.
+ */
+
+export interface StyledRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+}
+
+type Emphasis = 'bold' | 'italic' | 'underline';
+
+/** Markers, longest first so "**" isn't read as two italics */
+const MARKERS: { marker: string; emphasis: Emphasis }[] = [
+  { marker: '**', emphasis: 'bold' },
+  { marker: '*', emphasis: 'italic' },
+  { marker: '_', emphasis: 'underline' },
+];
+
+export function parseEmphasis(text: string): StyledRun[] {
+  const runs: StyledRun[] = [];
+  const active: string[] = [];
+  let buffer = '';
+
+  const flush = () => {
+    if (!buffer) return;
+    const run: StyledRun = { text: buffer };
+    for (const { marker, emphasis } of MARKERS) {
+      if (active.includes(marker)) run[emphasis] = true;
+    }
+    runs.push(run);
+    buffer = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\\' && i + 1 < text.length) {
+      buffer += text[++i];
+      continue;
+    }
+    const found = MARKERS.find(m => text.startsWith(m.marker, i));
+    const closes = found && active.includes(found.marker);
+    const opens = found && !closes && text.indexOf(found.marker, i + found.marker.length) > i;
+    if (found && (closes || opens)) {
+      flush();
+      if (closes) active.splice(active.indexOf(found.marker), 1);
+      else active.push(found.marker);
+      i += found.marker.length - 1;
+      continue;
+    }
+    buffer += text[i];
+  }
+  flush();
+
+  return runs.length > 0 ? runs : [{ text: '' }];
+}
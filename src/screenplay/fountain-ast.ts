@@ -0,0 +1,596 @@
+/**
+ * Fountain AST
+ *
+ * The one Fountain parser in the app. The editor, SceneIndexer, AutoFormatter,
+ * the exporters, character enrichment and the AI tools all read screenplays
+ * through parseFountain() so that scene counts and character lists agree
+ * everywhere. Element rules follow the Fountain 1.1 spec
+ * (https://fountain.io/syntax), with a few guards against common false
+ * positives (e.g. "CONTINUED" is never a character).
+ *
+ * Non-printing elements (sections, synopses, notes, boneyard) are kept in the
+ * tree so the editor and outline views can show them; exporters skip them via
+ * isPrintable().
+ *
+ * Every node carries the source range it was parsed from. Lines and columns
+ * are zero-based and refer to the content passed in (after CRLF normalization);
+ * `end.column` is exclusive.
+ */
+
+import type { ElementType } from '../shared/types';
+import { assignSceneNumbers, splitSceneNumber } from './scene-numbers';
+
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+export interface SourceRange {
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+/** Element types plus 'blank' for empty separator lines */
+export type FountainNodeType = ElementType | 'blank';
+
+export interface FountainNode {
+  type: FountainNodeType;
+  /** Display text with Fountain markup (forcing prefixes, > < markers) removed */
+  text: string;
+  /** Source line exactly as written */
+  raw: string;
+  range: SourceRange;
+  /** Character cues only: the bare name without extension */
+  character?: string;
+  /** Character cues only: extension such as "V.O." or "CONT'D" */
+  extension?: string;
+  /** Zero-based index into FountainDocument.scenes, when inside a scene */
+  sceneIndex?: number;
+  /** Sections only: nesting level (number of leading #) */
+  depth?: number;
+  /** Dual dialogue: which column this cue/dialogue block sits in */
+  dual?: 'left' | 'right';
+  /** Scene headings only: explicit number written as "#12A#" */
+  sceneNumber?: string;
+}
+
+export interface TitlePageField {
+  /** Key as written, e.g. "Draft date" */
+  key: string;
+  /** Value with continuation lines joined by \n */
+  value: string;
+  range: SourceRange;
+}
+
+export interface FountainTitlePage {
+  fields: TitlePageField[];
+  range: SourceRange;
+}
+
+export interface FountainScene {
+  /** One-based position in the script */
+  number: number;
+  /** Printed scene number: the explicit "#12A#" number, or one assigned from the neighbours */
+  sceneNumber: string;
+  heading: string;
+  location: string;
+  timeOfDay: string;
+  /** Index of the heading node in FountainDocument.nodes */
+  headingIndex: number;
+  /** Index of the last node belonging to the scene (inclusive) */
+  endIndex: number;
+  range: SourceRange;
+  /** Speaking characters, in order of first cue */
+  characters: string[];
+  /** Synopsis lines (= ...) directly under the heading, joined by \n */
+  synopsis?: string;
+  /** Title of the closest section (# ...) above the heading */
+  section?: string;
+}
+
+export interface FountainDocument {
+  titlePage: FountainTitlePage | null;
+  /** One node per source line after the title page */
+  nodes: FountainNode[];
+  scenes: FountainScene[];
+  /** Unique speaking characters, in order of first cue */
+  characters: string[];
+  lineCount: number;
+}
+
+export const SCENE_HEADING_PATTERN = /^(INT\.?\/EXT|INT\/EXT|I\/E|INT|EXT|EST)[.\s]/i;
+
+const TITLE_PAGE_KEY_PATTERN = /^(Title|Credit|Authors?|Source|Draft date|Draft|Date|Contact|Copyright|Notes|Revision):\s*/i;
+const TITLE_PAGE_CONTINUATION_PATTERN = /^(\t| {3,})\S/;
+const PAGE_BREAK_PATTERN = /^={3,}$/;
+const PARENTHETICAL_PATTERN = /^\(.*\)$/;
+const CHARACTER_EXTENSION_PATTERN = /\s*\(([^)]*)\)\s*$/;
+const DUAL_DIALOGUE_MARKER = /\s*\^$/;
+const INLINE_NOTE_PATTERN = /\[\[[\s\S]*?\]\]/g;
+const INLINE_BONEYARD_PATTERN = /\/\*[\s\S]*?\*\//g;
+
+/** Elements that exist only in the source and never appear on the page */
+const NON_PRINTING_TYPES = new Set<FountainNodeType>(['section', 'synopsis', 'note', 'boneyard']);
+
+/** Element types that belong to a character's dialogue block */
+export const DIALOGUE_BLOCK_TYPES = new Set<FountainNodeType>(['character', 'dialogue', 'parenthetical', 'lyrics']);
+
+/** All-caps lines that look like cues but are never characters */
+export const NOT_CHARACTERS = new Set([
+  'THE END', 'CONTINUED', 'MORE', 'FADE IN', 'FADE OUT', 'FADE TO BLACK',
+  'CUT TO', 'DISSOLVE TO', 'SMASH CUT TO', 'MATCH CUT TO', 'JUMP CUT TO',
+  'TIME CUT', 'INTERCUT', 'BACK TO', 'FLASHBACK', 'END FLASHBACK',
+  'DREAM SEQUENCE', 'END DREAM SEQUENCE', 'MONTAGE', 'END MONTAGE',
+  'SERIES OF SHOTS', 'END SERIES OF SHOTS', 'CONTINUOUS', 'LATER',
+  'MOMENTS LATER', 'SAME TIME', 'SPLIT SCREEN', 'END SPLIT SCREEN',
+  'STOCK SHOT', 'ANGLE ON', 'CLOSE ON', 'INSERT', 'SUPER', 'TITLE',
+  'SUBTITLE', 'V.O.', 'O.S.', 'O.C.', 'CONT\'D', 'CONTD', 'PRE-LAP',
+  'END OF ACT', 'ACT ONE', 'ACT TWO', 'ACT THREE', 'END OF SHOW',
+  'COLD OPEN', 'TEASER', 'END TEASER', 'TAG', 'END TAG', 'BLACKOUT',
+  'WHITE OUT', 'SMASH TO', 'FLASH TO', 'CUT BACK TO', 'HARD CUT TO',
+]);
+
+/**
+ * Context needed to classify a single line. Only the parser knows all of it;
+ * the editor classifies lines as they are typed and may not know what follows.
+ */
+export interface LineContext {
+  /** Inside a dialogue block (after a cue, before the next blank line) */
+  inDialogue: boolean;
+  /** The previous line is blank or this is the first line of the body */
+  previousBlank: boolean;
+  /** The next line is blank or missing; undefined when unknown */
+  nextBlank?: boolean;
+  /** The next line is a scene heading */
+  nextIsSceneHeading?: boolean;
+}
+
+/**
+ * Classify one non-blank line. Returns the element type and the display text.
+ */
+export function classifyLine(line: string, context: LineContext): { type: ElementType; text: string } {
+  const trimmed = line.trim();
+
+  // Whole-line comments and lyrics may appear anywhere, even inside dialogue
+  if (/^\/\*.*\*\/$/.test(trimmed)) {
+    return { type: 'boneyard', text: trimmed.slice(2, -2).trim() };
+  }
+  if (/^\[\[.*\]\]$/.test(trimmed)) {
+    return { type: 'note', text: trimmed.slice(2, -2).trim() };
+  }
+  if (trimmed.startsWith('~')) {
+    return { type: 'lyrics', text: trimmed.substring(1).trim() };
+  }
+
+  if (context.inDialogue) {
+    if (PARENTHETICAL_PATTERN.test(trimmed)) {
+      return { type: 'parenthetical', text: trimmed };
+    }
+    return { type: 'dialogue', text: trimmed };
+  }
+
+  if (PAGE_BREAK_PATTERN.test(trimmed)) {
+    return { type: 'page-break', text: '' };
+  }
+  if (trimmed.startsWith('#')) {
+    return { type: 'section', text: trimmed.replace(/^#+/, '').trim() };
+  }
+  if (trimmed.startsWith('=')) {
+    return { type: 'synopsis', text: trimmed.substring(1).trim() };
+  }
+
+  // Forced elements
+  if (trimmed.startsWith('!')) {
+    return { type: 'action', text: trimmed.substring(1) };
+  }
+  if (/^\.[^.]/.test(trimmed)) {
+    return { type: 'scene-heading', text: trimmed.substring(1).trim().toUpperCase() };
+  }
+  if (trimmed.startsWith('>') && trimmed.endsWith('<')) {
+    return { type: 'centered', text: trimmed.slice(1, -1).trim() };
+  }
+  if (trimmed.startsWith('>')) {
+    return { type: 'transition', text: trimmed.substring(1).trim().toUpperCase() };
+  }
+  if (trimmed.startsWith('@') && context.nextBlank !== true) {
+    return { type: 'character', text: trimmed.substring(1).replace(DUAL_DIALOGUE_MARKER, '').trim() };
+  }
+
+  if (SCENE_HEADING_PATTERN.test(trimmed)) {
+    return { type: 'scene-heading', text: trimmed.toUpperCase() };
+  }
+
+  if (context.previousBlank && trimmed === trimmed.toUpperCase() && trimmed.endsWith('TO:')) {
+    return { type: 'transition', text: trimmed };
+  }
+
+  if (
+    context.previousBlank &&
+    context.nextBlank !== true &&
+    !context.nextIsSceneHeading &&
+    isCharacterCue(trimmed)
+  ) {
+    return { type: 'character', text: trimmed.replace(DUAL_DIALOGUE_MARKER, '') };
+  }
+
+  return { type: 'action', text: trimmed };
+}
+
+/**
+ * Whether a trimmed line has the shape of a character cue: the name part is
+ * all caps, short, and not a known transition/cue word.
+ */
+function isCharacterCue(trimmed: string): boolean {
+  const name = characterNameFromCue(trimmed);
+
+  if (name.length < 2 || name.length > 40) return false;
+  if (!/[A-Z]/.test(name) || name !== name.toUpperCase()) return false;
+  if (name.endsWith(':') || name.split(/\s+/).length > 5) return false;
+  if (NOT_CHARACTERS.has(name)) return false;
+  if (SCENE_HEADING_PATTERN.test(trimmed)) return false;
+
+  return true;
+}
+
+/**
+ * Strip forcing prefix, dual dialogue marker, extension and trailing numbers
+ * from a cue: "@McCLANE (V.O.) ^" -> "McCLANE", "GUARD 2" -> "GUARD"
+ */
+export function characterNameFromCue(cue: string): string {
+  return cue
+    .trim()
+    .replace(/^@/, '')
+    .replace(DUAL_DIALOGUE_MARKER, '')
+    .replace(CHARACTER_EXTENSION_PATTERN, '')
+    .replace(/\s+\d+$/, '')
+    .trim();
+}
+
+/**
+ * Split a scene heading into location and time of day:
+ * "INT. KITCHEN - NIGHT" -> { location: "KITCHEN", timeOfDay: "NIGHT" }
+ */
+export function parseSceneHeading(heading: string): { location: string; timeOfDay: string } {
+  const withoutPrefix = heading
+    .trim()
+    .replace(/^\./, '')
+    .replace(/^(INT\.?\/EXT|INT\/EXT|I\/E|INT|EXT|EST)[.\s]*/i, '');
+
+  const parts = withoutPrefix.split(/\s*[-–—]\s*/);
+
+  return {
+    location: parts[0]?.trim() || '',
+    timeOfDay: parts[1]?.trim() || '',
+  };
+}
+
+/**
+ * Interior or exterior, from the heading prefix. Forced headings
+ * (".FLASHBACK") have neither.
+ */
+export function sceneSetting(heading: string): 'INT' | 'EXT' | 'INT/EXT' | '' {
+  const prefix = heading.trim().match(SCENE_HEADING_PATTERN)?.[1].toUpperCase();
+  if (!prefix) return '';
+  if (prefix === 'INT') return 'INT';
+  if (prefix === 'EXT' || prefix === 'EST') return 'EXT';
+  return 'INT/EXT';
+}
+
+/**
+ * Check whether a single line would parse as a scene heading
+ */
+export function isSceneHeadingLine(line: string): boolean {
+  const trimmed = line.trim();
+  return SCENE_HEADING_PATTERN.test(trimmed) || /^\.[^.]/.test(trimmed);
+}
+
+/**
+ * Parse Fountain content into a typed AST
+ */
+export function parseFountain(content: string): FountainDocument {
+  const lines = content.replace(/\r\n/g, '\n').replace(/\r/g, '\n').split('\n');
+  const { titlePage, bodyStart } = parseTitlePage(lines);
+
+  const nodes: FountainNode[] = [];
+  const scenes: FountainScene[] = [];
+  const characters: string[] = [];
+  const seenCharacters = new Set<string>();
+
+  let inDialogue = false;
+  // Open multi-line boneyard (/* ... */) or note ([[ ... ]])
+  let openComment: 'boneyard' | 'note' | null = null;
+  let lastSection: string | undefined;
+
+  for (let i = bodyStart; i < lines.length; i++) {
+    const raw = lines[i];
+    const trimmed = raw.trim();
+    const startColumn = raw.length - raw.trimStart().length;
+    const range: SourceRange = {
+      start: { line: i, column: trimmed ? startColumn : 0 },
+      end: { line: i, column: raw.trimEnd().length },
+    };
+    const sceneIndex = scenes.length > 0 ? scenes.length - 1 : undefined;
+
+    if (openComment) {
+      const type = openComment;
+      if (trimmed.includes(type === 'boneyard' ? '*/' : ']]')) {
+        openComment = null;
+      }
+      nodes.push({ type, text: trimmed.replace(/\*\/$|\]\]$/, '').trim(), raw, range, sceneIndex });
+      continue;
+    }
+
+    if (!trimmed) {
+      inDialogue = false;
+      nodes.push({ type: 'blank', text: '', raw, range, sceneIndex });
+      continue;
+    }
+
+    if (trimmed.startsWith('/*') && !trimmed.includes('*/')) {
+      openComment = 'boneyard';
+      nodes.push({ type: 'boneyard', text: trimmed.substring(2).trim(), raw, range, sceneIndex });
+      continue;
+    }
+    if (trimmed.startsWith('[[') && !trimmed.includes(']]')) {
+      openComment = 'note';
+      nodes.push({ type: 'note', text: trimmed.substring(2).trim(), raw, range, sceneIndex });
+      continue;
+    }
+
+    const previous = i > bodyStart ? lines[i - 1].trim() : '';
+    const next = i < lines.length - 1 ? lines[i + 1].trim() : '';
+    const classified = classifyLine(raw, {
+      inDialogue,
+      previousBlank: previous === '',
+      nextBlank: next === '',
+      nextIsSceneHeading: next !== '' && SCENE_HEADING_PATTERN.test(next),
+    });
+    const { type } = classified;
+    let text = type === 'note' || type === 'boneyard' ? classified.text : stripInlineComments(classified.text);
+
+    const node: FountainNode = { type, text, raw, range };
+
+    if (type === 'scene-heading') {
+      const { heading, number } = splitSceneNumber(text);
+      node.text = text = heading;
+      if (number) node.sceneNumber = number;
+    }
+
+    if (type === 'section') {
+      node.depth = (trimmed.match(/^#+/) || [''])[0].length;
+      lastSection = text;
+    }
+
+    if (type === 'synopsis') {
+      // Synopses directly under a heading describe that scene
+      const scene = scenes[scenes.length - 1];
+      const between = scene ? nodes.slice(scene.headingIndex + 1) : [];
+      if (scene && between.every(n => n.type === 'blank' || n.type === 'synopsis')) {
+        scene.synopsis = scene.synopsis ? `${scene.synopsis}\n${text}` : text;
+      }
+    }
+
+    if (type === 'scene-heading') {
+      if (scenes.length > 0) {
+        closeScene(scenes[scenes.length - 1], nodes);
+      }
+      const { location, timeOfDay } = parseSceneHeading(text);
+      scenes.push({
+        number: scenes.length + 1,
+        sceneNumber: '',
+        heading: text,
+        location,
+        timeOfDay,
+        headingIndex: nodes.length,
+        endIndex: nodes.length,
+        range,
+        characters: [],
+        section: lastSection,
+      });
+    }
+
+    if (type === 'character') {
+      inDialogue = true;
+      node.character = characterNameFromCue(text);
+      const extension = text.match(CHARACTER_EXTENSION_PATTERN);
+      if (extension) {
+        node.extension = extension[1].trim();
+      }
+      if (DUAL_DIALOGUE_MARKER.test(trimmed)) {
+        markDualDialogue(nodes);
+        node.dual = 'right';
+      }
+      if (!seenCharacters.has(node.character)) {
+        seenCharacters.add(node.character);
+        characters.push(node.character);
+      }
+      const scene = scenes[scenes.length - 1];
+      if (scene && !scene.characters.includes(node.character)) {
+        scene.characters.push(node.character);
+      }
+    } else if (inDialogue && DIALOGUE_BLOCK_TYPES.has(type)) {
+      // Dialogue inherits the column of its cue
+      for (let j = nodes.length - 1; j >= 0; j--) {
+        if (nodes[j].type === 'character') {
+          node.dual = nodes[j].dual;
+          break;
+        }
+      }
+    }
+
+    if (scenes.length > 0) {
+      node.sceneIndex = scenes.length - 1;
+    }
+    nodes.push(node);
+  }
+
+  if (scenes.length > 0) {
+    closeScene(scenes[scenes.length - 1], nodes);
+  }
+
+  const sceneNumbers = assignSceneNumbers(scenes.map(scene => nodes[scene.headingIndex].sceneNumber));
+  scenes.forEach((scene, i) => {
+    scene.sceneNumber = sceneNumbers[i];
+  });
+
+  return {
+    titlePage,
+    nodes,
+    scenes,
+    characters,
+    lineCount: lines.length,
+  };
+}
+
+/**
+ * A "^" cue pairs with the dialogue block just before it: walk back over
+ * blank lines to that block and put it in the left column.
+ */
+function markDualDialogue(nodes: FountainNode[]): void {
+  let j = nodes.length - 1;
+  while (j >= 0 && nodes[j].type === 'blank') j--;
+  while (j >= 0 && DIALOGUE_BLOCK_TYPES.has(nodes[j].type)) {
+    nodes[j].dual = 'left';
+    if (nodes[j].type === 'character') break;
+    j--;
+  }
+}
+
+function stripInlineComments(text: string): string {
+  if (!text.includes('[[') && !text.includes('/*')) {
+    return text;
+  }
+  return text.replace(INLINE_NOTE_PATTERN, '').replace(INLINE_BONEYARD_PATTERN, '').replace(/\s{2,}/g, ' ').trim();
+}
+
+/**
+ * Whether an element appears on the printed page
+ */
+export function isPrintable(node: Pick<FountainNode, 'type'>): boolean {
+  return !NON_PRINTING_TYPES.has(node.type);
+}
+
+/**
+ * Index of the last node of the dual dialogue pair whose left cue is at
+ * `start`: runs through the right column and stops before any following pair
+ * or trailing blank lines
+ */
+export function dualDialogueEnd(nodes: FountainNode[], start: number): number {
+  let end = start;
+  let seenRight = false;
+  while (end + 1 < nodes.length) {
+    const next = nodes[end + 1];
+    if (!next.dual && next.type !== 'blank') break;
+    if (next.dual === 'left' && seenRight) break;
+    if (next.dual === 'right') seenRight = true;
+    end++;
+  }
+  while (nodes[end].type === 'blank') end--;
+  return end;
+}
+
+/**
+ * Uppercase speaker of each node: set on character cues and the
+ * parentheticals, dialogue and lyrics under them, null everywhere else
+ */
+export function nodeSpeakers(nodes: FountainNode[]): (string | null)[] {
+  let speaker: string | null = null;
+  return nodes.map(node => {
+    if (node.type === 'character') {
+      speaker = characterNameFromCue(node.text).toUpperCase();
+    } else if (node.type !== 'parenthetical' && node.type !== 'dialogue' && node.type !== 'lyrics') {
+      speaker = null;
+    }
+    return speaker;
+  });
+}
+
+function closeScene(scene: FountainScene, nodes: FountainNode[]): void {
+  scene.endIndex = nodes.length - 1;
+  const last = nodes[scene.endIndex];
+  scene.range = { start: scene.range.start, end: last.range.end };
+}
+
+/**
+ * Parse the optional title page at the top of the document. It ends at the
+ * first blank line; a following "===" page break is treated as part of it.
+ */
+function parseTitlePage(lines: string[]): { titlePage: FountainTitlePage | null; bodyStart: number } {
+  const fields: TitlePageField[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const match = line.match(TITLE_PAGE_KEY_PATTERN);
+
+    if (match) {
+      const field: TitlePageField = {
+        key: match[1],
+        value: line.substring(match[0].length).trim(),
+        range: { start: { line: i, column: 0 }, end: { line: i, column: line.trimEnd().length } },
+      };
+      i++;
+      while (i < lines.length && TITLE_PAGE_CONTINUATION_PATTERN.test(lines[i])) {
+        field.value = field.value ? `${field.value}\n${lines[i].trim()}` : lines[i].trim();
+        field.range.end = { line: i, column: lines[i].trimEnd().length };
+        i++;
+      }
+      fields.push(field);
+      continue;
+    }
+
+    if (fields.length === 0 || line.trim() !== '') {
+      break;
+    }
+
+    // Blank line: the title page is over unless more keys or a page break follow
+    let next = i;
+    while (next < lines.length && lines[next].trim() === '') next++;
+    if (next < lines.length && PAGE_BREAK_PATTERN.test(lines[next].trim())) {
+      i = next + 1;
+      break;
+    }
+    if (next < lines.length && TITLE_PAGE_KEY_PATTERN.test(lines[next])) {
+      i = next;
+      continue;
+    }
+    break;
+  }
+
+  if (fields.length === 0) {
+    return { titlePage: null, bodyStart: 0 };
+  }
+
+  const endLine = Math.max(0, i - 1);
+  return {
+    titlePage: {
+      fields,
+      range: {
+        start: { line: 0, column: 0 },
+        end: { line: endLine, column: (lines[endLine] || '').trimEnd().length },
+      },
+    },
+    bodyStart: i,
+  };
+}
+
+/**
+ * Look up a title page value by key (case-insensitive)
+ */
+export function getTitlePageValue(doc: FountainDocument, ...keys: string[]): string | undefined {
+  if (!doc.titlePage) return undefined;
+  const wanted = keys.map(k => k.toLowerCase());
+  return doc.titlePage.fields.find(f => wanted.includes(f.key.toLowerCase()))?.value;
+}
+
+/**
+ * Find the scene containing a zero-based source line, if any
+ */
+export function findSceneAtLine(doc: FountainDocument, line: number): FountainScene | null {
+  for (const scene of doc.scenes) {
+    if (line >= scene.range.start.line && line <= scene.range.end.line) {
+      return scene;
+    }
+  }
+  return null;
+}
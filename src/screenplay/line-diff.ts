@@ -0,0 +1,160 @@
+/**
+ * Line diff shared by the version viewer and revision tracking.
+ *
+ * Computes a longest-common-subsequence diff with Myers' algorithm, after
+ * trimming the common prefix and suffix, so whole screenplays with a few
+ * scattered edits diff in roughly linear time and memory.
+ */
+
+export interface DiffLine {
+  type: 'unchanged' | 'added' | 'removed';
+  content: string;
+  /** Zero-based index in the old text (unchanged and removed lines) */
+  oldIndex?: number;
+  /** Zero-based index in the new text (unchanged and added lines) */
+  newIndex?: number;
+}
+
+type EditOp = { type: DiffLine['type']; oldIndex?: number; newIndex?: number };
+
+/**
+ * Myers shortest edit script between a and b
+ */
+function shortestEdit(a: string[], b: string[]): EditOp[] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds diagonals -d..d as they stood before round d
+  const trace: Int32Array[] = [];
+
+  let found = max === 0;
+  for (let d = 0; d <= max && !found; d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  const ops: EditOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d > 0; d--) {
+    const previous = trace[d];
+    const at = (k: number) => previous[k + d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: 'unchanged', oldIndex: --x, newIndex: --y });
+    }
+    if (x === prevX) {
+      ops.push({ type: 'added', newIndex: --y });
+    } else {
+      ops.push({ type: 'removed', oldIndex: --x });
+    }
+  }
+  while (x > 0 && y > 0) {
+    ops.push({ type: 'unchanged', oldIndex: --x, newIndex: --y });
+  }
+
+  return ops.reverse();
+}
+
+/**
+ * Line-by-line diff of two texts already split into lines
+ */
+export function computeLineDiff(oldLines: string[], newLines: string[]): DiffLine[] {
+  let start = 0;
+  while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) {
+    start++;
+  }
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const result: DiffLine[] = [];
+  for (let i = 0; i < start; i++) {
+    result.push({ type: 'unchanged', content: oldLines[i], oldIndex: i, newIndex: i });
+  }
+  for (const op of shortestEdit(oldLines.slice(start, oldEnd), newLines.slice(start, newEnd))) {
+    const oldIndex = op.oldIndex !== undefined ? op.oldIndex + start : undefined;
+    const newIndex = op.newIndex !== undefined ? op.newIndex + start : undefined;
+    result.push({
+      type: op.type,
+      content: op.type === 'added' ? newLines[newIndex!] : oldLines[oldIndex!],
+      oldIndex,
+      newIndex,
+    });
+  }
+  for (let i = oldEnd; i < oldLines.length; i++) {
+    const newIndex = newEnd + (i - oldEnd);
+    result.push({ type: 'unchanged', content: oldLines[i], oldIndex: i, newIndex });
+  }
+
+  return result;
+}
+
+export function splitLines(text: string): string[] {
+  return text.replace(/\r\n?/g, '\n').split('\n');
+}
+
+/**
+ * For each old line, the index of the same unchanged line in the new text
+ * (null when the line was changed or removed)
+ */
+export function mapUnchangedLines(oldLines: string[], newLines: string[]): (number | null)[] {
+  const map: (number | null)[] = new Array(oldLines.length).fill(null);
+  for (const line of computeLineDiff(oldLines, newLines)) {
+    if (line.type === 'unchanged') map[line.oldIndex!] = line.newIndex!;
+  }
+  return map;
+}
+
+/**
+ * New-text line indices that differ from the old text. Blank lines are
+ * ignored; a pure deletion marks the next non-blank line (or the previous
+ * one at the end of the text) so removals stay visible.
+ */
+export function changedLines(oldText: string, newText: string): Set<number> {
+  const newLines = splitLines(newText);
+  const changed = new Set<number>();
+  let pendingDeletion = false;
+  let lastNonBlank: number | null = null;
+
+  for (const line of computeLineDiff(splitLines(oldText), newLines)) {
+    if (line.type === 'removed') {
+      if (line.content.trim()) pendingDeletion = true;
+      continue;
+    }
+    const index = line.newIndex!;
+    if (!newLines[index].trim()) continue;
+
+    if (line.type === 'added' || pendingDeletion) {
+      changed.add(index);
+    }
+    pendingDeletion = false;
+    lastNonBlank = index;
+  }
+  if (pendingDeletion && lastNonBlank !== null) changed.add(lastNonBlank);
+
+  return changed;
+}
@@ -0,0 +1,563 @@
+/**
+ * Pagination Engine
+ *
+ * Lays a screenplay out on US Letter pages the way a typeset script would be
+ * printed: Courier 12pt (10 characters per inch, 6 lines per inch), 1.5" left
+ * margin, 1" right/top/bottom margins, text wrapped at each element's real
+ * column width. The editor's page count and the PDF exporter both come from
+ * here, so "page 47" is the same page everywhere.
+ *
+ * Break rules:
+ * - a scene heading is never the last thing on a page; it moves down with at
+ *   least the first lines of what follows it
+ * - a character cue is never separated from its dialogue; speeches split at
+ *   a sentence boundary with (MORE) at the page foot and a CHARACTER (CONT'D)
+ *   cue at the next page head, keeping two lines of dialogue on each side;
+ *   if no sentence boundary works, the whole block moves to the next page
+ * - action paragraphs split only between lines, leaving at least two lines
+ *   on each page (no widows or orphans)
+ * - dual dialogue pairs are never split
+ *
+ * Columns and rows are in character cells measured from the left margin and
+ * the top margin respectively.
+ */
+
+import type { FountainDocument, FountainNodeType } from './fountain-ast';
+import { characterNameFromCue, isPrintable } from './fountain-ast';
+
+export const CHARS_PER_INCH = 10;
+export const LINES_PER_INCH = 6;
+/** 11" page minus 1" top and bottom margins */
+export const LINES_PER_PAGE = 54;
+/** 8.5" page minus 1.5" left and 1" right margins */
+export const PAGE_WIDTH_CHARS = 60;
+
+export interface ElementLayout {
+  /** Characters from the left margin */
+  indent: number;
+  /** Column width in characters */
+  width: number;
+  align: 'left' | 'right' | 'center';
+  /** Blank lines above the element when it starts a paragraph */
+  spaceBefore: number;
+}
+
+export const ELEMENT_LAYOUT: Partial<Record<FountainNodeType, ElementLayout>> = {
+  'scene-heading': { indent: 0, width: 60, align: 'left', spaceBefore: 2 },
+  'action': { indent: 0, width: 60, align: 'left', spaceBefore: 1 },
+  'character': { indent: 22, width: 38, align: 'left', spaceBefore: 1 },
+  'parenthetical': { indent: 16, width: 25, align: 'left', spaceBefore: 0 },
+  'dialogue': { indent: 10, width: 35, align: 'left', spaceBefore: 0 },
+  'lyrics': { indent: 10, width: 35, align: 'left', spaceBefore: 0 },
+  'transition': { indent: 0, width: 60, align: 'right', spaceBefore: 1 },
+  'centered': { indent: 0, width: 60, align: 'center', spaceBefore: 1 },
+};
+
+/** Dual dialogue columns: offsets within a column, plus where each column starts */
+export const DUAL_COLUMN_WIDTH = 28;
+export const DUAL_COLUMN_START = { left: 0, right: 32 };
+export const DUAL_LAYOUT: Partial<Record<FountainNodeType, { indent: number; width: number }>> = {
+  'character': { indent: 8, width: 20 },
+  'parenthetical': { indent: 4, width: 24 },
+  'dialogue': { indent: 0, width: DUAL_COLUMN_WIDTH },
+  'lyrics': { indent: 0, width: DUAL_COLUMN_WIDTH },
+};
+
+/** The minimum an element needs to pagination: what it is and what it says */
+export interface PaginationElement {
+  type: FountainNodeType;
+  /** Printed text (markup removed) */
+  text: string;
+  dual?: 'left' | 'right';
+  /** Scene number printed beside a scene heading */
+  sceneNumber?: string;
+}
+
+export interface PageLine {
+  /** Zero-based row from the top margin */
+  row: number;
+  /** Characters from the left margin */
+  column: number;
+  text: string;
+  type: FountainNodeType;
+  /** Index of the element this line came from */
+  element: number;
+  /** Set on the (MORE) and CHARACTER (CONT'D) lines added at a dialogue split */
+  continuation?: 'more' | 'contd';
+  /** On the first line of a numbered scene heading */
+  sceneNumber?: string;
+  /** Revision set that last changed this line (1 = first revision after lock) */
+  revision?: number;
+}
+
+export interface Page {
+  /** One-based page number */
+  number: number;
+  lines: PageLine[];
+  /** Printed page number when it differs from `number`, e.g. "12A" in a locked script */
+  label?: string;
+  /** Latest revision set with a change on this page */
+  revision?: number;
+}
+
+export interface PaginationResult {
+  pages: Page[];
+  /** One-based page number for each input element (blank and non-printing elements included) */
+  elementPages: number[];
+}
+
+export interface PaginationOptions {
+  linesPerPage?: number;
+  /** Add (CONT'D) when a character speaks again after action, with no one else speaking between */
+  autoContd?: boolean;
+  /** Element indices that must start a new page; each must begin a block (follow a blank) */
+  breakBefore?: number[];
+  /** Print scene numbers beside headings. Scripts with explicit "#12#" numbers always print them. */
+  sceneNumbers?: boolean;
+}
+
+const MORE = '(MORE)';
+const CONTD_PATTERN = /\(CONT['’]?D\)|\(CONT\.?\)/i;
+/** Dialogue lines that must stay on each side of a split */
+const MIN_SPLIT_LINES = 2;
+
+/**
+ * Wrap text at word boundaries to a column width. Words longer than the
+ * column are hard-broken.
+ */
+export function wrapText(text: string, width: number): string[] {
+  const words = text.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [''];
+
+  const lines: string[] = [];
+  let current = '';
+
+  for (let word of words) {
+    while (word.length > width) {
+      if (current) {
+        lines.push(current);
+        current = '';
+      }
+      lines.push(word.slice(0, width));
+      word = word.slice(width);
+    }
+    if (!current) {
+      current = word;
+    } else if (current.length + 1 + word.length <= width) {
+      current += ' ' + word;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+  }
+  if (current) lines.push(current);
+
+  return lines;
+}
+
+/** A wrapped line before it is placed on a page; row is relative to its block */
+type BlockLine = PageLine;
+
+interface BlockItem {
+  index: number;
+  element: PaginationElement;
+}
+
+type BlockKind = 'heading' | 'action' | 'dialogue' | 'dual' | 'other';
+
+interface Block {
+  kind: BlockKind;
+  lines: BlockLine[];
+  height: number;
+  spaceBefore: number;
+  /** Element indices covered by the block, including trailing blanks/non-printing */
+  elements: number[];
+  /** Dialogue blocks keep their elements so they can be re-laid out when split */
+  items?: BlockItem[];
+  forcePageBreak?: boolean;
+}
+
+function layoutLine(element: PaginationElement, index: number, row: number, layout: { indent: number; width: number; align?: string }): BlockLine[] {
+  const text = element.type === 'character' || element.type === 'scene-heading' || element.type === 'transition'
+    ? element.text.toUpperCase()
+    : element.text;
+
+  return wrapText(text, layout.width).map((line, i) => {
+    let column = layout.indent;
+    if (layout.align === 'right') column += layout.width - line.length;
+    if (layout.align === 'center') column += Math.floor((layout.width - line.length) / 2);
+    const placed: BlockLine = { row: row + i, column, text: line, type: element.type, element: index };
+    if (i === 0 && element.sceneNumber) placed.sceneNumber = element.sceneNumber;
+    return placed;
+  });
+}
+
+/**
+ * Group elements into blocks: paragraphs of action, whole dialogue blocks,
+ * dual dialogue pairs and single headings/transitions.
+ */
+function buildBlocks(elements: PaginationElement[], breakBefore: Set<number>): Block[] {
+  const blocks: Block[] = [];
+  let current: Block | null = null;
+  let pendingBreak = false;
+
+  const close = () => {
+    if (current) blocks.push(current);
+    current = null;
+  };
+
+  for (let i = 0; i < elements.length; i++) {
+    const element = elements[i];
+
+    if (element.type === 'page-break') {
+      close();
+      pendingBreak = true;
+      continue;
+    }
+    if (breakBefore.has(i)) {
+      close();
+      pendingBreak = true;
+    }
+
+    if (element.type === 'blank' || !isPrintable(element)) {
+      if (element.type === 'blank') close();
+      // Attach to the previous block so every element maps to a page
+      (current ?? blocks[blocks.length - 1])?.elements.push(i);
+      continue;
+    }
+
+    const layout = ELEMENT_LAYOUT[element.type];
+    if (!layout) continue;
+
+    if (element.dual) {
+      // Both halves of a dual dialogue pair share one block
+      let block: Block | null = current as Block | null;
+      if (!block || block.kind !== 'dual') {
+        const previous = blocks[blocks.length - 1];
+        if (element.dual === 'right' && element.type === 'character' && previous?.kind === 'dual') {
+          blocks.pop();
+          block = previous;
+        } else {
+          close();
+          block = { kind: 'dual', lines: [], height: 0, spaceBefore: 1, elements: [], forcePageBreak: pendingBreak };
+          pendingBreak = false;
+        }
+        current = block;
+      }
+      const side = element.dual;
+      const dual = DUAL_LAYOUT[element.type] ?? DUAL_LAYOUT.dialogue!;
+      const sideRows = block.lines.filter(l => (side === 'right') === (l.column >= DUAL_COLUMN_START.right));
+      const row = sideRows.length > 0 ? Math.max(...sideRows.map(l => l.row)) + 1 : 0;
+      const lines = layoutLine(element, i, row, {
+        indent: DUAL_COLUMN_START[side] + dual.indent,
+        width: dual.width,
+      });
+      block.lines.push(...lines);
+      block.height = Math.max(block.height, row + lines.length);
+      block.elements.push(i);
+      continue;
+    }
+
+    const inDialogue = element.type === 'dialogue' || element.type === 'parenthetical' || element.type === 'lyrics';
+    const continues =
+      current !== null &&
+      ((current.kind === 'dialogue' && inDialogue) ||
+        (current.kind === 'action' && element.type === 'action') ||
+        (current.kind === 'other' && element.type === 'centered' && current.lines[0]?.type === 'centered'));
+
+    if (!continues) {
+      close();
+      const kind: BlockKind =
+        element.type === 'scene-heading' ? 'heading'
+          : element.type === 'action' ? 'action'
+            : element.type === 'character' || inDialogue ? 'dialogue'
+              : 'other';
+      current = { kind, lines: [], height: 0, spaceBefore: layout.spaceBefore, elements: [] };
+      if (pendingBreak) {
+        current.forcePageBreak = true;
+        pendingBreak = false;
+      }
+    }
+
+    const block = current as Block;
+    const lines = layoutLine(element, i, block.height, layout);
+    block.lines.push(...lines);
+    block.height += lines.length;
+    block.elements.push(i);
+    if (block.kind === 'dialogue') {
+      (block.items ??= []).push({ index: i, element });
+    }
+  }
+  close();
+
+  return blocks;
+}
+
+function withContd(cue: string): string {
+  return CONTD_PATTERN.test(cue) ? cue : `${cue} (CONT'D)`;
+}
+
+/**
+ * Add (CONT'D) to cues where the same character spoke last in the scene
+ */
+function markContinueds(elements: PaginationElement[]): PaginationElement[] {
+  let lastSpeaker: string | null = null;
+
+  return elements.map(element => {
+    if (element.type === 'scene-heading') {
+      lastSpeaker = null;
+    } else if (element.type === 'character') {
+      const speaker = element.dual ? null : characterNameFromCue(element.text).toUpperCase();
+      const repeated = speaker !== null && speaker === lastSpeaker;
+      lastSpeaker = speaker;
+      if (repeated) return { ...element, text: withContd(element.text) };
+    }
+    return element;
+  });
+}
+
+function layoutItems(items: BlockItem[]): { lines: BlockLine[]; height: number } {
+  const lines: BlockLine[] = [];
+  for (const item of items) {
+    lines.push(...layoutLine(item.element, item.index, lines.length, ELEMENT_LAYOUT[item.element.type]!));
+  }
+  return { lines, height: lines.length };
+}
+
+/** Offsets in text just after each sentence end, excluding the end of the text */
+function sentenceBreaks(text: string): number[] {
+  const breaks: number[] = [];
+  const pattern = /[.!?]+["'’”)\]]*(?=\s)/g;
+  let match;
+  while ((match = pattern.exec(text)) !== null) {
+    breaks.push(match.index + match[0].length);
+  }
+  return breaks;
+}
+
+/** Offsets in text at each wrapped line end, excluding the end of the text */
+function lineBreaks(text: string, width: number): number[] {
+  const breaks: number[] = [];
+  let offset = 0;
+  for (const line of wrapText(text, width).slice(0, -1)) {
+    const start = text.indexOf(line, offset);
+    if (start < 0) break;
+    offset = start + line.length;
+    breaks.push(offset);
+  }
+  return breaks;
+}
+
+/**
+ * Split a dialogue block so the first part (plus its (MORE) line) fits in
+ * `available` rows. Splits fall at sentence ends or between elements, never
+ * after a parenthetical; `anyLine` also allows plain line ends, for speeches
+ * too long for any page. Returns null when no split keeps enough lines on
+ * both sides.
+ */
+function splitDialogue(block: Block, available: number, anyLine: boolean): [Block, Block] | null {
+  const items = block.items;
+  if (!items || items.length < 2 || items[0].element.type !== 'character') return null;
+  const cue = items[0];
+
+  let best: [Block, Block] | null = null;
+
+  for (let j = 1; j < items.length; j++) {
+    const item = items[j];
+    if (item.element.type === 'parenthetical') continue;
+
+    const text = item.element.text;
+    const offsets = anyLine
+      ? [...new Set([...sentenceBreaks(text), ...lineBreaks(text, ELEMENT_LAYOUT[item.element.type]!.width)])].sort((a, b) => a - b)
+      : sentenceBreaks(text);
+    if (j < items.length - 1) offsets.push(text.length);
+
+    for (const offset of offsets) {
+      const before = text.slice(0, offset).trim();
+      const after = text.slice(offset).trim();
+      const headItems = [...items.slice(0, j), { index: item.index, element: { ...item.element, text: before } }];
+      const tailItems = [
+        { index: cue.index, element: { ...cue.element, text: withContd(cue.element.text) } },
+        ...(after ? [{ index: item.index, element: { ...item.element, text: after } }] : []),
+        ...items.slice(j + 1),
+      ];
+
+      const head = layoutItems(headItems);
+      if (head.height + 1 > available) break;
+      const tail = layoutItems(tailItems);
+      if (head.height - 1 < MIN_SPLIT_LINES || tail.height - 1 < (anyLine ? 1 : MIN_SPLIT_LINES)) continue;
+
+      const cueIndent = ELEMENT_LAYOUT.character!.indent;
+      head.lines.push({ row: head.height, column: cueIndent, text: MORE, type: 'character', element: cue.index, continuation: 'more' });
+      tail.lines[0].continuation = 'contd';
+
+      best = [
+        {
+          kind: 'dialogue',
+          lines: head.lines,
+          height: head.height + 1,
+          spaceBefore: block.spaceBefore,
+          elements: block.elements.filter(e => e <= item.index),
+          items: headItems,
+          forcePageBreak: block.forcePageBreak,
+        },
+        {
+          kind: 'dialogue',
+          lines: tail.lines,
+          height: tail.height,
+          spaceBefore: 0,
+          elements: block.elements.filter(e => e > item.index),
+          items: tailItems,
+        },
+      ];
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Whether the start of a block fits in `available` rows, as the company a
+ * scene heading needs at the foot of a page
+ */
+function startFits(block: Block | undefined, available: number, linesPerPage: number): boolean {
+  if (!block) return true;
+  available -= block.spaceBefore;
+  if (block.height <= available) return true;
+  if (block.kind === 'action') return Math.min(2, block.height) <= available;
+  if (block.kind === 'dialogue') return splitDialogue(block, available, block.height > linesPerPage) !== null;
+  return false;
+}
+
+/**
+ * Paginate a list of elements
+ */
+export function paginateElements(elements: PaginationElement[], options: PaginationOptions = {}): PaginationResult {
+  const linesPerPage = options.linesPerPage ?? LINES_PER_PAGE;
+  const blocks = buildBlocks(
+    options.autoContd ? markContinueds(elements) : elements,
+    new Set(options.breakBefore ?? [])
+  );
+  const pages: Page[] = [{ number: 1, lines: [] }];
+  const elementPages: number[] = new Array(elements.length).fill(1);
+  let row = 0;
+
+  const page = () => pages[pages.length - 1];
+  const newPage = () => {
+    pages.push({ number: pages.length + 1, lines: [] });
+    row = 0;
+  };
+  const place = (lines: BlockLine[], offset: number) => {
+    for (const line of lines) {
+      page().lines.push({ ...line, row: row + line.row - offset });
+    }
+  };
+
+  for (let b = 0; b < blocks.length; b++) {
+    const block = blocks[b];
+
+    if (block.forcePageBreak && (row > 0 || page().lines.length > 0)) {
+      newPage();
+    }
+
+    let space = row === 0 ? 0 : block.spaceBefore;
+    const remaining = linesPerPage - row - space;
+
+    // Scene headings keep company with what follows
+    const fits = block.kind === 'heading'
+      ? block.height <= remaining && startFits(blocks[b + 1], remaining - block.height, linesPerPage)
+      : block.height <= remaining;
+
+    if (!fits && block.kind === 'dialogue') {
+      const split = splitDialogue(block, remaining, block.height > linesPerPage);
+      if (split) {
+        row += space;
+        place(split[0].lines, 0);
+        for (const e of split[0].elements) elementPages[e] = page().number;
+        newPage();
+        // The continuation is paginated like any other block, and may split again
+        blocks.splice(b + 1, 0, split[1]);
+        continue;
+      }
+    }
+
+    if (!fits && row > 0) {
+      const splitAt = block.kind === 'action' ? remaining : 0;
+      // Split an action paragraph only if two lines stay on each page
+      if (block.kind === 'action' && splitAt >= 2 && block.height - splitAt >= 2) {
+        row += space;
+        const firstLines = block.lines.filter(l => l.row < splitAt);
+        place(firstLines, 0);
+        for (const e of new Set(firstLines.map(l => l.element))) elementPages[e] = page().number;
+        newPage();
+        const rest = block.lines.filter(l => l.row >= splitAt);
+        place(rest, splitAt);
+        row += block.height - splitAt;
+        for (const e of new Set(rest.map(l => l.element))) elementPages[e] = page().number;
+        for (const e of block.elements) {
+          if (!block.lines.some(l => l.element === e)) elementPages[e] = page().number;
+        }
+        continue;
+      }
+      newPage();
+      space = 0;
+    }
+
+    row += space;
+
+    // Blocks taller than a whole page (very long speeches or action) are cut at page ends
+    let offset = 0;
+    while (block.height - offset > linesPerPage - row) {
+      const fits = linesPerPage - row;
+      const chunk = block.lines.filter(l => l.row >= offset && l.row < offset + fits);
+      place(chunk, offset);
+      for (const e of new Set(chunk.map(l => l.element))) elementPages[e] = page().number;
+      offset += fits;
+      newPage();
+    }
+
+    const tail = block.lines.filter(l => l.row >= offset);
+    place(tail, offset);
+    for (const e of block.elements) {
+      const firstLine = block.lines.find(l => l.element === e);
+      if (!firstLine || firstLine.row >= offset) elementPages[e] = page().number;
+    }
+    row += block.height - offset;
+  }
+
+  return { pages, elementPages };
+}
+
+/**
+ * Paginate a parsed Fountain document
+ */
+export function paginate(doc: FountainDocument, options: PaginationOptions = {}): PaginationResult {
+  const numbered = options.sceneNumbers || doc.nodes.some(node => node.sceneNumber);
+  const sceneNumbers = new Map(numbered ? doc.scenes.map(scene => [scene.headingIndex, scene.sceneNumber]) : []);
+
+  return paginateElements(
+    doc.nodes.map((node, i) => ({ type: node.type, text: node.text, dual: node.dual, sceneNumber: sceneNumbers.get(i) })),
+    options
+  );
+}
+
+/**
+ * Page number for every source line of a paginated document (index = zero-based
+ * line). Title page lines count as page 1.
+ */
+export function sourceLinePages(doc: FountainDocument, result: PaginationResult): number[] {
+  const pages: number[] = new Array(doc.lineCount).fill(0);
+
+  doc.nodes.forEach((node, i) => {
+    for (let line = node.range.start.line; line <= node.range.end.line; line++) {
+      pages[line] = result.elementPages[i];
+    }
+  });
+
+  let last = 1;
+  for (let line = 0; line < pages.length; line++) {
+    if (pages[line] === 0) pages[line] = last;
+    last = pages[line];
+  }
+  return pages;
+}
@@ -0,0 +1,191 @@
+/**
+ * Production Reports
+ *
+ * The numbers a production office works from: breakdown sheets per scene, a
+ * location report, a cast list and a day/night summary. Scene lengths are in
+ * eighths of a page and come from the same pagination the PDF export prints,
+ * so they match the pages the crew holds.
+ */
+
+import type { BreakdownCategory, BreakdownElement, RevisionState } from '../shared/types';
+import { parseFountain, sceneSetting, type FountainDocument } from './fountain-ast';
+import { LINES_PER_PAGE, type Page, type PaginationOptions } from './pagination';
+import { paginateRevised } from './revisions';
+import { buildBreakdownSheets } from './breakdown';
+
+export interface ProductionReportOptions extends PaginationOptions {
+  /** Keeps locked page numbers */
+  revisions?: RevisionState | null;
+}
+
+export interface SceneReport {
+  number: number;
+  sceneNumber: string;
+  heading: string;
+  setting: string;
+  location: string;
+  timeOfDay: string;
+  /** Printed number of the page the scene starts on */
+  page: string;
+  eighths: number;
+  /** Breakdown names per category, in sheet order; cast includes speaking characters */
+  categories: Array<{ category: BreakdownCategory; names: string[] }>;
+}
+
+export interface LocationReport {
+  location: string;
+  /** INT, EXT, INT/EXT as used for this location */
+  settings: string[];
+  times: string[];
+  scenes: string[];
+  eighths: number;
+}
+
+export interface CastReport {
+  /** Cast ID: 1 for the character in the most scenes */
+  id: number;
+  name: string;
+  scenes: string[];
+  eighths: number;
+}
+
+export interface DayNightReport {
+  timeOfDay: string;
+  interior: number;
+  exterior: number;
+  /** INT/EXT and forced headings */
+  other: number;
+  eighths: number;
+}
+
+export interface ProductionReport {
+  scenes: SceneReport[];
+  locations: LocationReport[];
+  cast: CastReport[];
+  dayNight: DayNightReport[];
+  totalEighths: number;
+}
+
+/**
+ * Length of every scene in eighths of a page. A scene runs from its first
+ * line on a page to the next scene's first line, or to the foot of the page;
+ * anything shorter than an eighth still counts as one.
+ */
+export function sceneEighths(doc: FountainDocument, pages: Page[], linesPerPage = LINES_PER_PAGE): number[] {
+  const rows = doc.scenes.map(() => 0);
+
+  pages.forEach((page, p) => {
+    const starts = new Map<number, number>();
+    let lastRow = -1;
+    for (const line of page.lines) {
+      lastRow = Math.max(lastRow, line.row);
+      const sceneIndex = line.element >= 0 ? doc.nodes[line.element].sceneIndex : undefined;
+      if (sceneIndex === undefined) continue;
+      starts.set(sceneIndex, Math.min(starts.get(sceneIndex) ?? Infinity, line.row));
+    }
+
+    // The last page ends with its last line, not the foot of the page
+    const pageEnd = p === pages.length - 1 ? lastRow + 1 : linesPerPage;
+    const ordered = [...starts].sort((a, b) => a[1] - b[1]);
+    ordered.forEach(([sceneIndex, row], i) => {
+      const end = i + 1 < ordered.length ? ordered[i + 1][1] : pageEnd;
+      rows[sceneIndex] += end - row;
+    });
+  });
+
+  return rows.map(count => Math.max(1, Math.round((count / linesPerPage) * 8)));
+}
+
+/** 11 -> "1 3/8", 8 -> "1", 3 -> "3/8" */
+export function formatEighths(eighths: number): string {
+  const pages = Math.floor(eighths / 8);
+  const rest = eighths % 8;
+  if (rest === 0) return String(pages);
+  return pages > 0 ? `${pages} ${rest}/8` : `${rest}/8`;
+}
+
+/** Values in first-seen order, without repeats */
+function unique(values: string[]): string[] {
+  return [...new Set(values.filter(Boolean))];
+}
+
+export function buildProductionReport(
+  content: string,
+  elements: BreakdownElement[],
+  options: ProductionReportOptions = {}
+): ProductionReport {
+  const doc = parseFountain(content);
+  const { pages } = paginateRevised(content, options.revisions ?? null, options);
+  const eighths = sceneEighths(doc, pages, options.linesPerPage);
+  const { sheets } = buildBreakdownSheets(content, elements);
+
+  const startPages = new Map<number, string>();
+  for (const page of pages) {
+    for (const line of page.lines) {
+      if (line.element < 0 || doc.nodes[line.element].type !== 'scene-heading') continue;
+      if (!startPages.has(line.element)) startPages.set(line.element, page.label ?? String(page.number));
+    }
+  }
+
+  const scenes: SceneReport[] = doc.scenes.map((scene, i) => ({
+    number: scene.number,
+    sceneNumber: scene.sceneNumber,
+    heading: scene.heading,
+    setting: sceneSetting(scene.heading),
+    location: scene.location.toUpperCase(),
+    timeOfDay: scene.timeOfDay.toUpperCase(),
+    page: startPages.get(scene.headingIndex) ?? '',
+    eighths: eighths[i],
+    categories: sheets[i].categories,
+  }));
+
+  const locations = new Map<string, SceneReport[]>();
+  const cast = new Map<string, { name: string; scenes: SceneReport[] }>();
+  const times = new Map<string, SceneReport[]>();
+  for (const scene of scenes) {
+    const location = scene.location || scene.heading;
+    locations.set(location, [...(locations.get(location) ?? []), scene]);
+
+    const time = scene.timeOfDay || 'UNSPECIFIED';
+    times.set(time, [...(times.get(time) ?? []), scene]);
+
+    const names = scene.categories.find(entry => entry.category === 'cast')?.names ?? [];
+    for (const name of names) {
+      const key = name.toUpperCase();
+      const entry = cast.get(key) ?? { name, scenes: [] };
+      entry.scenes.push(scene);
+      cast.set(key, entry);
+    }
+  }
+
+  const total = (list: SceneReport[]) => list.reduce((sum, scene) => sum + scene.eighths, 0);
+
+  return {
+    scenes,
+    locations: [...locations].map(([location, list]) => ({
+      location,
+      settings: unique(list.map(scene => scene.setting)),
+      times: unique(list.map(scene => scene.timeOfDay)),
+      scenes: list.map(scene => scene.sceneNumber),
+      eighths: total(list),
+    })),
+    // Most scenes first; ties keep the order characters first appear
+    cast: [...cast.values()]
+      .map((entry, order) => ({ ...entry, order }))
+      .sort((a, b) => b.scenes.length - a.scenes.length || a.order - b.order)
+      .map((entry, i) => ({
+        id: i + 1,
+        name: entry.name,
+        scenes: entry.scenes.map(scene => scene.sceneNumber),
+        eighths: total(entry.scenes),
+      })),
+    dayNight: [...times].map(([timeOfDay, list]) => ({
+      timeOfDay,
+      interior: list.filter(scene => scene.setting === 'INT').length,
+      exterior: list.filter(scene => scene.setting === 'EXT').length,
+      other: list.filter(scene => scene.setting !== 'INT' && scene.setting !== 'EXT').length,
+      eighths: total(list),
+    })),
+    totalEighths: total(scenes),
+  };
+}
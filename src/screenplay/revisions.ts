@@ -0,0 +1,346 @@
+/**
+ * Production Revisions
+ *
+ * Once a script is locked, page and scene numbers are frozen:
+ * - pages keep their locked breaks; material that grows past a page spills
+ *   onto A/B pages ("12A"), and pages whose text is cut are folded into a
+ *   range on the page before ("11-12")
+ * - scenes keep their locked numbers; new scenes take the previous number
+ *   plus a letter ("12A") and deleted scenes leave an OMITTED placeholder
+ * - every line changed since a revision set began is marked with that set,
+ *   so the PDF can print margin asterisks and a colored revision header
+ *
+ * Lines are matched across drafts with the shared line diff.
+ */
+
+import type { RevisionState, ScriptLock } from '../shared/types';
+import { isPrintable, parseFountain, type FountainDocument, type FountainScene } from './fountain-ast';
+import { changedLines, mapUnchangedLines, splitLines } from './line-diff';
+import {
+  paginate,
+  paginateElements,
+  type PaginationElement,
+  type PaginationOptions,
+  type PaginationResult,
+} from './pagination';
+import { insertLetters } from './scene-numbers';
+
+/** Industry order of revision colors; the locked draft is White */
+export const REVISION_COLORS = ['White', 'Blue', 'Pink', 'Yellow', 'Green', 'Goldenrod', 'Buff', 'Salmon', 'Cherry'];
+
+/**
+ * Color of the nth revision set after the lock (1 = Blue). After Cherry
+ * the cycle repeats as Double White, Double Blue, ...
+ */
+export function revisionColor(set: number): string {
+  const round = Math.floor(set / REVISION_COLORS.length);
+  const color = REVISION_COLORS[set % REVISION_COLORS.length];
+  if (round === 0) return color;
+  const prefix = ['Double', 'Triple', 'Quadruple'][round - 1] ?? `${round + 1}x`;
+  return `${prefix} ${color}`;
+}
+
+/** MM/DD/YY, as printed in revision headers */
+export function formatRevisionDate(timestamp: number): string {
+  const date = new Date(timestamp);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${pad(date.getMonth() + 1)}/${pad(date.getDate())}/${pad(date.getFullYear() % 100)}`;
+}
+
+/**
+ * Source line that starts each page of a draft about to be locked. Pages that
+ * begin in the middle of a split element get -1: they follow on from the
+ * page before.
+ */
+export function lockPageStarts(content: string, options: PaginationOptions = {}): number[] {
+  const doc = parseFountain(content);
+  const { pages, elementPages } = paginate(doc, options);
+
+  return pages.map((page, p) => {
+    if (p === 0) return 0;
+    const first = page.lines[0];
+    if (!first || first.continuation === 'contd' || elementPages[first.element] !== page.number) {
+      return -1;
+    }
+    return doc.nodes[first.element].range.start.line;
+  });
+}
+
+interface SceneNumbering {
+  /** Node index of each current scene heading -> scene number */
+  numbers: Map<number, string>;
+  /** Locked scenes that no longer exist, keyed by the node they precede (-1 = end) */
+  omitted: Map<number, { number: string; heading: string }[]>;
+}
+
+/**
+ * Carry locked scene numbers over to the current draft. Scenes match when
+ * their heading line is unchanged, or - for a rewritten heading - when most
+ * of the locked scene's text survives inside the current scene. Unmatched
+ * current scenes are inserts; unmatched locked scenes are omitted.
+ */
+function numberScenes(lockedDoc: FountainDocument, doc: FountainDocument, lineMap: (number | null)[]): SceneNumbering {
+  const numbers = new Map<number, string>();
+  const omitted = new Map<number, { number: string; heading: string }[]>();
+  const currentByLine = new Map(doc.scenes.map((scene, index) => [scene.range.start.line, index]));
+
+  const matches: [number, number][] = [];
+  lockedDoc.scenes.forEach((scene, lockedIndex) => {
+    const line = lineMap[scene.range.start.line];
+    const currentIndex = line === null ? undefined : currentByLine.get(line);
+    if (currentIndex !== undefined) matches.push([lockedIndex, currentIndex]);
+  });
+  matches.push([lockedDoc.scenes.length, doc.scenes.length]);
+
+  const survivesIn = (locked: FountainScene, current: FountainScene): boolean => {
+    const start = current.range.start.line;
+    const end = doc.nodes[current.endIndex].range.end.line;
+    let total = 0;
+    let kept = 0;
+    for (const node of lockedDoc.nodes.slice(locked.headingIndex + 1, locked.endIndex + 1)) {
+      if (node.type === 'blank') continue;
+      total++;
+      const line = lineMap[node.range.start.line];
+      if (line !== null && line > start && line <= end) kept++;
+    }
+    return total > 0 && kept * 2 >= total;
+  };
+
+  const omit = (before: number, scenes: FountainScene[]) => {
+    if (scenes.length === 0) return;
+    const list = omitted.get(before) ?? [];
+    list.push(...scenes.map(scene => ({ number: scene.sceneNumber, heading: scene.heading })));
+    omitted.set(before, list);
+  };
+
+  let previousLocked = -1;
+  let previousCurrent = -1;
+  let lastNumber: string | null = null;
+  let inserts = 0;
+
+  for (const [lockedIndex, currentIndex] of matches) {
+    const lockedGap = lockedDoc.scenes.slice(previousLocked + 1, lockedIndex);
+    let next = 0;
+
+    for (const scene of doc.scenes.slice(previousCurrent + 1, currentIndex)) {
+      const pair = lockedGap.findIndex((locked, q) => q >= next && survivesIn(locked, scene));
+      if (pair >= 0) {
+        omit(scene.headingIndex, lockedGap.slice(next, pair));
+        next = pair + 1;
+        lastNumber = lockedGap[pair].sceneNumber;
+        inserts = 0;
+        numbers.set(scene.headingIndex, lastNumber);
+      } else if (lastNumber === null) {
+        // Inserts before the first locked scene read A1, B1...
+        numbers.set(scene.headingIndex, `${insertLetters(inserts++)}${lockedDoc.scenes[0]?.sceneNumber ?? 1}`);
+      } else {
+        numbers.set(scene.headingIndex, `${lastNumber}${insertLetters(inserts++)}`);
+      }
+    }
+    omit(doc.scenes[currentIndex]?.headingIndex ?? -1, lockedGap.slice(next));
+
+    if (lockedIndex < lockedDoc.scenes.length) {
+      lastNumber = lockedDoc.scenes[lockedIndex].sceneNumber;
+      inserts = 0;
+      numbers.set(doc.scenes[currentIndex].headingIndex, lastNumber);
+    }
+    previousLocked = lockedIndex;
+    previousCurrent = currentIndex;
+  }
+
+  // Numbers written into the headings always win
+  for (const scene of doc.scenes) {
+    const explicit = doc.nodes[scene.headingIndex].sceneNumber;
+    if (explicit) numbers.set(scene.headingIndex, explicit);
+  }
+
+  return { numbers, omitted };
+}
+
+/**
+ * Revision set (1-based) that last changed each line of the current text
+ */
+function lineRevisions(content: string, sets: RevisionState['sets']): Int32Array {
+  const lines = splitLines(content);
+  const revisions = new Int32Array(lines.length);
+
+  sets.forEach((set, k) => {
+    const next = k + 1 < sets.length ? sets[k + 1].content : content;
+    const changed = changedLines(set.content, next);
+    const map = next === content ? null : mapUnchangedLines(splitLines(next), lines);
+    for (const line of changed) {
+      const current = map ? map[line] : line;
+      if (current !== null && current !== undefined) revisions[current] = k + 1;
+    }
+  });
+
+  return revisions;
+}
+
+/** Revision set in which a locked scene heading disappeared */
+function omissionRevision(heading: string, sets: RevisionState['sets'], content: string): number | undefined {
+  const has = (text: string) => parseFountain(text).scenes.some(scene => scene.heading === heading);
+  for (let k = 0; k < sets.length; k++) {
+    const next = k + 1 < sets.length ? sets[k + 1].content : content;
+    if (has(sets[k].content) && !has(next)) return k + 1;
+  }
+  return sets.length > 0 ? 1 : undefined;
+}
+
+/**
+ * Where each locked page now starts: an element index in `elements`, or
+ * null when the page's text is gone or no longer starts a block
+ */
+function pageAnchors(
+  lock: ScriptLock,
+  lineMap: (number | null)[],
+  doc: FountainDocument,
+  elementOf: number[]
+): (number | null)[] {
+  const lockedLines = splitLines(lock.content);
+  const anchors: (number | null)[] = [];
+  let previous = 0;
+
+  lock.pageStarts.forEach((start, p) => {
+    if (p === 0) {
+      anchors.push(0);
+      return;
+    }
+    if (start < 0) {
+      anchors.push(null);
+      return;
+    }
+
+    const end = lock.pageStarts.slice(p + 1).find(s => s >= 0) ?? lockedLines.length;
+    let target: number | null = null;
+    for (let line = start; line < end && target === null; line++) {
+      if (lineMap[line] !== null && lockedLines[line].trim()) target = lineMap[line];
+    }
+    if (target === null) {
+      anchors.push(null);
+      return;
+    }
+
+    // Pages may only break where a block starts
+    const nodeIndex = doc.nodes.findIndex((node, i) =>
+      node.range.start.line >= target! &&
+      node.type !== 'blank' &&
+      isPrintable(node) &&
+      (i === 0 || doc.nodes[i - 1].type === 'blank')
+    );
+    const element = nodeIndex < 0 ? null : elementOf[nodeIndex];
+    if (element === null || element <= previous) {
+      anchors.push(null);
+      return;
+    }
+    anchors.push(element);
+    previous = element;
+  });
+
+  return anchors;
+}
+
+/** Print labels for pages laid out against locked page anchors */
+function labelPages(result: PaginationResult, anchors: (number | null)[]): void {
+  const starts = anchors
+    .map((element, p) => ({ p, element }))
+    .filter((a): a is { p: number; element: number } => a.element !== null)
+    .map(({ p, element }) => ({ p, page: p === 0 ? 1 : result.elementPages[element] }));
+
+  starts.forEach(({ p, page }, j) => {
+    const nextP = starts[j + 1]?.p ?? anchors.length;
+    const nextPage = starts[j + 1]?.page ?? result.pages.length + 1;
+    const lockedCount = nextP - p;
+    const count = nextPage - page;
+
+    for (let t = 0; t < count; t++) {
+      const target = result.pages[page - 1 + t];
+      if (!target) continue;
+      if (t >= lockedCount) {
+        target.label = `${p + lockedCount}${insertLetters(t - lockedCount)}`;
+      } else if (t === count - 1 && count < lockedCount) {
+        target.label = `${p + 1 + t}-${p + lockedCount}`;
+      } else {
+        target.label = `${p + 1 + t}`;
+      }
+    }
+  });
+}
+
+/**
+ * Paginate a locked script: frozen page and scene numbers, OMITTED scenes
+ * and per-line revision marks. Without a lock this is plain pagination.
+ */
+export function paginateRevised(content: string, state: RevisionState | null, options: PaginationOptions = {}): PaginationResult {
+  const doc = parseFountain(content);
+  if (!state?.lock) return paginate(doc, options);
+
+  const lock = state.lock;
+  const lockedDoc = parseFountain(lock.content);
+  const lineMap = mapUnchangedLines(splitLines(lock.content), splitLines(content));
+  const { numbers, omitted } = numberScenes(lockedDoc, doc, lineMap);
+
+  // Elements in reading order, with OMITTED placeholders spliced in
+  const elements: PaginationElement[] = [];
+  const sourceOf: number[] = [];
+  const elementOf: number[] = [];
+  const omittedRevisions = new Map<number, number | undefined>();
+
+  const pushOmitted = (list: { number: string; heading: string }[] | undefined, blankAfter: boolean) => {
+    for (const scene of list ?? []) {
+      if (!blankAfter) {
+        elements.push({ type: 'blank', text: '' });
+        sourceOf.push(-1);
+      }
+      omittedRevisions.set(elements.length, omissionRevision(scene.heading, state.sets, content));
+      elements.push({ type: 'scene-heading', text: 'OMITTED', sceneNumber: scene.number });
+      sourceOf.push(-1);
+      if (blankAfter) {
+        elements.push({ type: 'blank', text: '' });
+        sourceOf.push(-1);
+      }
+    }
+  };
+
+  doc.nodes.forEach((node, i) => {
+    pushOmitted(omitted.get(i), true);
+    elementOf.push(elements.length);
+    elements.push({ type: node.type, text: node.text, dual: node.dual, sceneNumber: numbers.get(i) });
+    sourceOf.push(i);
+  });
+  pushOmitted(omitted.get(-1), false);
+
+  const anchors = pageAnchors(lock, lineMap, doc, elementOf);
+  const result = paginateElements(elements, {
+    ...options,
+    breakBefore: anchors.filter((a, p): a is number => p > 0 && a !== null),
+  });
+  labelPages(result, anchors);
+
+  // Revision marks, then element indices back to document nodes
+  const revisions = lineRevisions(content, state.sets);
+  for (const page of result.pages) {
+    for (const line of page.lines) {
+      const source = sourceOf[line.element];
+      let revision: number | undefined;
+      if (source < 0) {
+        revision = omittedRevisions.get(line.element);
+      } else {
+        const { start, end } = doc.nodes[source].range;
+        for (let l = start.line; l <= end.line; l++) {
+          if (revisions[l] > 0) revision = Math.max(revision ?? 0, revisions[l]);
+        }
+      }
+      if (revision) {
+        line.revision = revision;
+        page.revision = Math.max(page.revision ?? 0, revision);
+      }
+      line.element = source;
+    }
+  }
+
+  return {
+    pages: result.pages,
+    elementPages: elementOf.map(element => result.elementPages[element]),
+  };
+}
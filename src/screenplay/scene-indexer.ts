@@ -10,11 +10,15 @@
  */
 
 import { FountainParserAdapter, type FountainToken } from '../renderer/fountain/parser';
+import { characterNameFromCue, parseFountain, parseSceneHeading } from './fountain-ast';
+import { splitSceneNumber, withSceneNumber } from './scene-numbers';
 import type { Scene } from '../shared/types';
 
 export interface IndexedScene {
   id: string;
   number: number;
+  /** Printed scene number ("12", "12A"); see scene-numbers.ts */
+  sceneNumber: string;
   heading: string;
   location: string;
   timeOfDay: string;
@@ -27,25 +31,10 @@ export interface IndexedScene {
   /** Raw content of the scene */
   content: string;
   summary: string;
-}
-
-// Patterns for parsing scene heading components
-const SCENE_HEADING_PATTERN = /^(INT|EXT|INT\.\/EXT|INT\/EXT|I\/E|EST)[\.\s]+/i;
-
-/**
- * Parse location and time of day from a scene heading
- */
-function parseSceneHeading(heading: string): { location: string; timeOfDay: string } {
-  // Remove the INT/EXT prefix
-  const withoutPrefix = heading.replace(SCENE_HEADING_PATTERN, '');
-  
-  // Split by dash or hyphen to separate location and time
-  const parts = withoutPrefix.split(/\s*[-–—]\s*/);
-  
-  const location = parts[0]?.trim() || '';
-  const timeOfDay = parts[1]?.trim() || '';
-  
-  return { location, timeOfDay };
+  /** Synopsis (= lines) written directly under the heading */
+  synopsis?: string;
+  /** Closest section (# line) above the scene, e.g. "ACT I" */
+  section?: string;
 }
 
 /**
@@ -57,10 +46,8 @@ function extractSceneCharacters(tokens: FountainToken[], startIdx: number, endId
   for (let i = startIdx; i <= endIdx && i < tokens.length; i++) {
     const token = tokens[i];
     if (token.type === 'character') {
-      // Clean up character name (remove extensions like V.O., O.S., etc.)
-      let name = token.text.trim();
-      name = name.replace(/\s*\([^)]+\)\s*$/, ''); // Remove parenthetical
-      name = name.replace(/\s+\d+$/, ''); // Remove trailing numbers
+      // Same name cleanup as the parser (drops V.O., O.S., trailing numbers)
+      const name = characterNameFromCue(token.text);
       if (name) {
         characters.add(name);
       }
@@ -76,7 +63,10 @@ function extractSceneCharacters(tokens: FountainToken[], startIdx: number, endId
 function buildSceneContent(tokens: FountainToken[], startIdx: number, endIdx: number): string {
   const lines: string[] = [];
   for (let i = startIdx; i <= endIdx && i < tokens.length; i++) {
-    lines.push(tokens[i].text);
+    // Boneyard is commented-out material, not part of the scene
+    if (tokens[i].type !== 'boneyard') {
+      lines.push(tokens[i].text);
+    }
   }
   return lines.join('\n');
 }
@@ -85,8 +75,7 @@ function buildSceneContent(tokens: FountainToken[], startIdx: number, endIdx: nu
  * Index all scenes from screenplay content
  * 
  * This is the single source of truth for scene detection. It uses the same
- * normalization and tokenization as ScreenplayEditor, ensuring line indices
- * match exactly.
+ * tokenization as ScreenplayEditor, ensuring line indices match exactly.
  * 
  * @param content - Raw screenplay content
  * @returns Array of IndexedScene objects with editor-aligned line indices
@@ -96,11 +85,8 @@ export function indexScenes(content: string): IndexedScene[] {
     return [];
   }
   
-  // Use the same normalization as ScreenplayEditor
-  const normalizedContent = FountainParserAdapter.normalizeContent(content);
-  
   // Parse using the same parser as the editor
-  const parsed = FountainParserAdapter.parse(normalizedContent);
+  const parsed = FountainParserAdapter.parse(content);
   const tokens = parsed.tokens;
   
   if (tokens.length === 0) {
@@ -108,33 +94,24 @@ export function indexScenes(content: string): IndexedScene[] {
   }
   
   const scenes: IndexedScene[] = [];
-  let sceneNumber = 0;
   
-  // Find all scene heading token indices
-  const sceneHeadingIndices: number[] = [];
-  for (let i = 0; i < tokens.length; i++) {
-    if (tokens[i].type === 'scene-heading') {
-      sceneHeadingIndices.push(i);
-    }
-  }
-  
-  // Build scenes from heading indices
-  for (let i = 0; i < sceneHeadingIndices.length; i++) {
-    const startIdx = sceneHeadingIndices[i];
+  // Build scenes from the parser's scene list (token-indexed, like the editor)
+  for (let i = 0; i < parsed.scenes.length; i++) {
+    const startIdx = parsed.scenes[i].startToken;
     // End at the token before the next scene heading, or at the last token
-    const endIdx = i < sceneHeadingIndices.length - 1 
-      ? sceneHeadingIndices[i + 1] - 1 
+    const endIdx = i < parsed.scenes.length - 1 
+      ? parsed.scenes[i + 1].startToken - 1 
       : tokens.length - 1;
     
-    const headingToken = tokens[startIdx];
-    const { location, timeOfDay } = parseSceneHeading(headingToken.text);
-    
-    sceneNumber++;
+    const { heading, synopsis, section, sceneNumber: printedNumber } = parsed.scenes[i];
+    const { location, timeOfDay } = parseSceneHeading(heading);
+    const sceneNumber = parsed.scenes[i].number;
     
     scenes.push({
       id: `scene-${sceneNumber}-${startIdx}`, // Deterministic ID based on position
       number: sceneNumber,
-      heading: headingToken.text,
+      sceneNumber: printedNumber,
+      heading,
       location,
       timeOfDay,
       startLineIndex: startIdx,
@@ -142,6 +119,8 @@ export function indexScenes(content: string): IndexedScene[] {
       characters: extractSceneCharacters(tokens, startIdx, endIdx),
       content: buildSceneContent(tokens, startIdx, endIdx),
       summary: '',
+      synopsis,
+      section,
     });
   }
   
@@ -158,6 +137,7 @@ export function toStoreScene(indexed: IndexedScene): Scene {
   return {
     id: indexed.id,
     number: indexed.number,
+    sceneNumber: indexed.sceneNumber,
     heading: indexed.heading,
     location: indexed.location,
     timeOfDay: indexed.timeOfDay,
@@ -189,10 +169,101 @@ export function countScenes(content: string): number {
     return 0;
   }
   
-  const normalizedContent = FountainParserAdapter.normalizeContent(content);
-  const parsed = FountainParserAdapter.parse(normalizedContent);
+  const parsed = FountainParserAdapter.parse(content);
   
-  return parsed.tokens.filter(t => t.type === 'scene-heading').length;
+  return parsed.scenes.length;
+}
+
+/**
+ * Lock scene numbers by writing each scene's current number into its heading
+ * ("INT. HOUSE - DAY #12#"). From then on, new scenes are numbered 12A, 12B...
+ * instead of shifting everything after them.
+ */
+export function lockSceneNumbers(content: string): string {
+  const lines = content.replace(/\r\n?/g, '\n').split('\n');
+  const doc = parseFountain(content);
+
+  for (const scene of doc.scenes) {
+    const line = scene.range.start.line;
+    lines[line] = withSceneNumber(lines[line], scene.sceneNumber);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Remove written scene numbers so scenes are numbered by position again
+ */
+export function unlockSceneNumbers(content: string): string {
+  const lines = content.replace(/\r\n?/g, '\n').split('\n');
+  const doc = parseFountain(content);
+
+  for (const scene of doc.scenes) {
+    const line = scene.range.start.line;
+    lines[line] = splitSceneNumber(lines[line].trimEnd()).heading;
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Move scene `from` to position `to` (zero-based, as in indexScenes) by
+ * moving its text: the heading and everything up to the next heading.
+ * Blank lines and sections (# ACT II) between scenes mark places in the
+ * script rather than belonging to a scene, so they stay where they are, as
+ * does anything before the first scene.
+ */
+export function moveScene(content: string, from: number, to: number): string {
+  const lines = content.replace(/\r\n?/g, '\n').split('\n');
+  const starts = parseFountain(content).scenes.map(scene => scene.range.start.line);
+  if (from === to || !(from in starts) || !(to in starts)) return content;
+
+  const blocks = starts.map((start, i) => {
+    const block = lines.slice(start, starts[i + 1] ?? lines.length);
+    let end = block.length;
+    while (end > 1 && (block[end - 1].trim() === '' || block[end - 1].trim().startsWith('#'))) end--;
+    return { body: block.slice(0, end), gap: block.slice(end) };
+  });
+
+  const order = blocks.map((_, i) => i);
+  order.splice(to, 0, ...order.splice(from, 1));
+
+  const moved = order.flatMap((index, position) => {
+    const gap = blocks[position].gap;
+    // A scene moved off the end of the file still needs a blank line after it
+    const separator = position < blocks.length - 1 && gap[0]?.trim() !== '' ? [''] : [];
+    return [...blocks[index].body, ...separator, ...gap];
+  });
+  return [...lines.slice(0, starts[0]), ...moved].join('\n');
+}
+
+/**
+ * Write a scene's synopsis as "= ..." lines under its heading, replacing the
+ * synopsis already there. Each line of `synopsis` becomes one synopsis line;
+ * an empty synopsis removes it.
+ */
+export function setSceneSynopsis(content: string, sceneIndex: number, synopsis: string): string {
+  const lines = content.replace(/\r\n?/g, '\n').split('\n');
+  const scene = parseFountain(content).scenes[sceneIndex];
+  if (!scene) return content;
+
+  // The old synopsis: the blank and "=" lines straight after the heading ("===" is a page break)
+  const heading = scene.range.start.line;
+  let end = heading + 1;
+  while (end < lines.length && (lines[end].trim() === '' || /^=(?!==)/.test(lines[end].trim()))) end++;
+
+  const written = synopsis.split('\n').map(line => line.trim()).filter(Boolean).map(line => `= ${line}`);
+  return [
+    ...lines.slice(0, heading + 1),
+    ...(written.length > 0 ? ['', ...written] : []),
+    ...(end < lines.length ? [''] : []),
+    ...lines.slice(end),
+  ].join('\n');
+}
+
+/**
+ * Whether any heading carries a written scene number
+ */
+export function hasLockedSceneNumbers(content: string): boolean {
+  return parseFountain(content).nodes.some(node => node.sceneNumber);
 }
 
 export const SceneIndexer = {
@@ -200,6 +271,11 @@ export const SceneIndexer = {
   toStoreScene,
   getSceneAtLine,
   countScenes,
+  lockSceneNumbers,
+  unlockSceneNumbers,
+  moveScene,
+  setSceneSynopsis,
+  hasLockedSceneNumbers,
 };
 
 export default SceneIndexer;
@@ -0,0 +1,91 @@
+/**
+ * Scene Numbers
+ *
+ * Fountain writes an explicit scene number at the end of a heading:
+ * "INT. HOUSE - DAY #12#". A script without any explicit numbers is numbered
+ * 1, 2, 3... by position. Once numbers are written into the headings (the
+ * "lock"), they never change: a new scene without a number takes the number
+ * of the scene before it plus a letter (12A, 12B), and a new scene before
+ * the first one reads A1, B1...
+ */
+
+/** "#12#", "#12A#", "#I-1-A#" at the end of a heading */
+export const SCENE_NUMBER_PATTERN = /\s*#([A-Za-z0-9.-]+)#\s*$/;
+
+/**
+ * Separate an explicit scene number from a heading line
+ */
+export function splitSceneNumber(heading: string): { heading: string; number?: string } {
+  const match = heading.match(SCENE_NUMBER_PATTERN);
+  if (!match) return { heading };
+  return { heading: heading.slice(0, match.index).trimEnd(), number: match[1].toUpperCase() };
+}
+
+/**
+ * Write (or replace) the explicit scene number on a heading line
+ */
+export function withSceneNumber(line: string, number: string): string {
+  return `${splitSceneNumber(line.trimEnd()).heading} #${number}#`;
+}
+
+/** A, B, ... Z, AA, AB, ... */
+export function insertLetters(index: number): string {
+  let result = '';
+  let n = index;
+  do {
+    result = String.fromCharCode(65 + (n % 26)) + result;
+    n = Math.floor(n / 26) - 1;
+  } while (n >= 0);
+  return result;
+}
+
+/** Inverse of insertLetters: "A" -> 0, "AA" -> 26 */
+function letterIndex(letters: string): number {
+  let n = 0;
+  for (const ch of letters.toUpperCase()) n = n * 26 + (ch.charCodeAt(0) - 64);
+  return n - 1;
+}
+
+/**
+ * Number for a scene inserted after `previous` (null = before the first
+ * numbered scene), skipping numbers already in use
+ */
+function insertedNumber(previous: string | null, first: string, used: Set<string>): string {
+  let candidate: (k: number) => string;
+  let k = 0;
+
+  if (previous === null) {
+    candidate = i => `${insertLetters(i)}${first}`;
+  } else {
+    // After 12 comes 12A; after 12A comes 12B
+    const match = previous.match(/^(.*\d)([A-Z]*)$/);
+    const base = match ? match[1] : previous;
+    if (match?.[2]) k = letterIndex(match[2]) + 1;
+    candidate = i => `${base}${insertLetters(i)}`;
+  }
+
+  while (used.has(candidate(k))) k++;
+  return candidate(k);
+}
+
+/**
+ * Printed number for each scene, given the explicit numbers written in the
+ * headings (undefined where a heading has none)
+ */
+export function assignSceneNumbers(explicit: (string | undefined)[]): string[] {
+  if (!explicit.some(Boolean)) {
+    return explicit.map((_, i) => String(i + 1));
+  }
+
+  const used = new Set(explicit.filter((n): n is string => Boolean(n)));
+  const first = explicit.find((n): n is string => Boolean(n))!;
+  let previous: string | null = null;
+
+  return explicit.map(number => {
+    const assigned = number ?? insertedNumber(previous, first, used);
+    used.add(assigned);
+    // Inserts before the first numbered scene all letter that scene (A1, B1)
+    if (number || previous !== null) previous = assigned;
+    return assigned;
+  });
+}
@@ -0,0 +1,195 @@
+/**
+ * Stripboard
+ *
+ * Every scene is a strip, colored by INT/EXT and day/night. The shooting
+ * schedule is an ordered list of strips and day breaks kept apart from the
+ * script: rearranging strips never touches the screenplay text.
+ *
+ * A strip points at its scene by quoting the heading line (see breakdown.ts),
+ * so the schedule survives scenes being added, cut or moved in the script.
+ * Scenes not on the schedule are unscheduled; strips whose heading was
+ * rewritten can't be found and are reported as missing.
+ */
+
+import type { BreakdownElement, ScheduleItem, TextAnchor } from '../shared/types';
+import { parseFountain } from './fountain-ast';
+import { createAnchor, lineAt, resolveAnchor } from './breakdown';
+import { buildProductionReport, type CastReport, type ProductionReportOptions } from './production-reports';
+
+export type StripPeriod = 'DAY' | 'NIGHT';
+
+/** The usual strip colors: white, yellow, blue and green */
+export const STRIP_COLORS: Record<'INT' | 'EXT', Record<StripPeriod, string>> = {
+  INT: { DAY: '#ffffff', NIGHT: '#93c5fd' },
+  EXT: { DAY: '#fde047', NIGHT: '#86efac' },
+};
+
+const NIGHT_PATTERN = /NIGHT|EVENING|DUSK|MIDNIGHT/i;
+/** Times that carry on from the scene before */
+const CONTINUITY_PATTERN = /^(CONTINUOUS|CONT'?D?|LATER|MOMENTS LATER|SAME( TIME)?|SECONDS LATER)?$/i;
+
+export interface Strip {
+  /** Schedule item id, or "unscheduled-N" for a scene not on the schedule */
+  id: string;
+  /** Zero-based index into the parsed scenes */
+  sceneIndex: number;
+  sceneNumber: string;
+  heading: string;
+  setting: string;
+  location: string;
+  timeOfDay: string;
+  period: StripPeriod;
+  color: string;
+  eighths: number;
+  /** Cast IDs from the cast list, in order */
+  cast: number[];
+}
+
+export interface ShootDay {
+  /** One-based shoot day */
+  number: number;
+  strips: Strip[];
+  eighths: number;
+  /** Id of the day break that ends the day; absent for an open last day */
+  breakId?: string;
+}
+
+export interface Stripboard {
+  days: ShootDay[];
+  unscheduled: Strip[];
+  /** Scene strips whose heading can't be found in the script any more */
+  missing: ScheduleItem[];
+  /** The numbered cast list that strip cast IDs refer to */
+  cast: CastReport[];
+  totalEighths: number;
+}
+
+export interface StripboardOptions extends ProductionReportOptions {
+  /** Breakdown tags, so tagged cast members get cast IDs too */
+  breakdown?: BreakdownElement[];
+}
+
+/**
+ * Day or night for every scene. CONTINUOUS, LATER and headings without a
+ * time keep the previous scene's period.
+ */
+export function scenePeriods(timesOfDay: string[]): StripPeriod[] {
+  let previous: StripPeriod = 'DAY';
+  return timesOfDay.map(time => {
+    if (!CONTINUITY_PATTERN.test(time.trim())) {
+      previous = NIGHT_PATTERN.test(time) ? 'NIGHT' : 'DAY';
+    }
+    return previous;
+  });
+}
+
+/** INT/EXT scenes and forced headings take the exterior and interior colors */
+export function stripColor(setting: string, period: StripPeriod): string {
+  return STRIP_COLORS[setting === 'INT' || setting === '' ? 'INT' : 'EXT'][period];
+}
+
+function lineStart(content: string, line: number): number {
+  let offset = 0;
+  for (let i = 0; i < line; i++) {
+    const next = content.indexOf('\n', offset);
+    if (next === -1) return content.length;
+    offset = next + 1;
+  }
+  return offset;
+}
+
+/** Anchor on a scene's heading line, for a new schedule item */
+export function sceneAnchor(content: string, sceneIndex: number): TextAnchor {
+  const doc = parseFountain(content);
+  const line = doc.scenes[sceneIndex].range.start.line;
+  const start = lineStart(content, line);
+  const end = content.indexOf('\n', start);
+  return createAnchor(content, start, end === -1 ? content.length : end);
+}
+
+/** Scene index a schedule item points at, if its heading is still there */
+function resolveSceneItem(content: string, headingLines: Map<number, number>, anchor: TextAnchor): number | undefined {
+  const range = resolveAnchor(content, anchor);
+  return range ? headingLines.get(lineAt(content, range.start)) : undefined;
+}
+
+/**
+ * Schedule items with anchors refreshed against the current text. Missing
+ * strips keep their old anchor in case the heading comes back.
+ */
+export function refreshSchedule(content: string, items: ScheduleItem[]): ScheduleItem[] {
+  const doc = parseFountain(content);
+  const headingLines = new Map(doc.scenes.map((scene, i) => [scene.range.start.line, i]));
+  return items.map(item => {
+    if (item.type !== 'scene') return item;
+    const sceneIndex = resolveSceneItem(content, headingLines, item.anchor);
+    return sceneIndex === undefined ? item : { ...item, anchor: sceneAnchor(content, sceneIndex) };
+  });
+}
+
+export function buildStripboard(content: string, items: ScheduleItem[], options: StripboardOptions = {}): Stripboard {
+  const doc = parseFountain(content);
+  const report = buildProductionReport(content, options.breakdown ?? [], options);
+  const castIds = new Map(report.cast.map(member => [member.name.toUpperCase(), member.id]));
+  const periods = scenePeriods(report.scenes.map(scene => scene.timeOfDay));
+  const headingLines = new Map(doc.scenes.map((scene, i) => [scene.range.start.line, i]));
+
+  const strip = (id: string, sceneIndex: number): Strip => {
+    const scene = report.scenes[sceneIndex];
+    const names = scene.categories.find(entry => entry.category === 'cast')?.names ?? [];
+    return {
+      id,
+      sceneIndex,
+      sceneNumber: scene.sceneNumber,
+      heading: scene.heading,
+      setting: scene.setting,
+      location: scene.location,
+      timeOfDay: scene.timeOfDay,
+      period: periods[sceneIndex],
+      color: stripColor(scene.setting, periods[sceneIndex]),
+      eighths: scene.eighths,
+      cast: names.map(name => castIds.get(name.toUpperCase())!).sort((a, b) => a - b),
+    };
+  };
+
+  const days: ShootDay[] = [];
+  const missing: ScheduleItem[] = [];
+  const scheduled = new Set<number>();
+  let current: Strip[] = [];
+  const closeDay = (breakId?: string) => {
+    days.push({
+      number: days.length + 1,
+      strips: current,
+      eighths: current.reduce((sum, s) => sum + s.eighths, 0),
+      breakId,
+    });
+    current = [];
+  };
+
+  for (const item of items) {
+    if (item.type === 'day-break') {
+      closeDay(item.id);
+      continue;
+    }
+    const sceneIndex = resolveSceneItem(content, headingLines, item.anchor);
+    // A scene is shot once; a second strip for it counts as missing
+    if (sceneIndex === undefined || scheduled.has(sceneIndex)) {
+      missing.push(item);
+      continue;
+    }
+    scheduled.add(sceneIndex);
+    current.push(strip(item.id, sceneIndex));
+  }
+  if (current.length > 0) closeDay();
+
+  return {
+    days,
+    unscheduled: report.scenes
+      .map((_, i) => i)
+      .filter(i => !scheduled.has(i))
+      .map(i => strip(`unscheduled-${i}`, i)),
+    missing,
+    cast: report.cast,
+    totalEighths: report.totalEighths,
+  };
+}
@@ -0,0 +1,115 @@
+/**
+ * Sides
+ *
+ * Sides are the pages an actor gets for an audition or a shoot day: only the
+ * pages holding the chosen scenes, exactly as they fall in the full script.
+ * Page and scene numbers stay as printed there, material from other scenes
+ * that shares a page is crossed out, and one character's lines can be
+ * highlighted.
+ *
+ * This module decides what goes on each page; PDFExporter draws it.
+ */
+
+import type { RevisionState } from '../shared/types';
+import { characterNameFromCue, nodeSpeakers, parseFountain } from './fountain-ast';
+import type { Page, PaginationOptions } from './pagination';
+import { pageHighlights, type HighlightedLine } from './actor-script';
+import { paginateRevised } from './revisions';
+import { indexScenes } from './scene-indexer';
+import { getScenesForCharacter } from '../renderer/utils/character-scenes';
+
+export interface SidesSelection {
+  /** IndexedScene ids, as used by the scene panel */
+  sceneIds?: string[];
+  /** Every scene this character speaks in */
+  character?: string;
+}
+
+export interface SidesOptions extends SidesSelection, PaginationOptions {
+  /** Character whose cues and dialogue are highlighted */
+  highlight?: string;
+  /** Keeps locked page and scene numbers */
+  revisions?: RevisionState | null;
+}
+
+/** Rows [from, to] (inclusive) of material outside the chosen scenes */
+export interface StruckRegion {
+  from: number;
+  to: number;
+}
+
+export interface SidesPage {
+  page: Page;
+  struck: StruckRegion[];
+  highlights: HighlightedLine[];
+}
+
+/**
+ * One-based positions of the chosen scenes. IndexedScene and the parsed
+ * document list scenes in the same order, so ids map by position.
+ */
+export function selectSidesScenes(content: string, selection: SidesSelection): Set<number> {
+  const indexed = indexScenes(content);
+  const chosen = new Set<number>();
+
+  const ids = new Set(selection.sceneIds ?? []);
+  indexed.forEach((scene, i) => {
+    if (ids.has(scene.id)) chosen.add(i + 1);
+  });
+  if (selection.character) {
+    const positions = new Map(indexed.map((scene, i) => [scene, i + 1]));
+    for (const scene of getScenesForCharacter(indexed, selection.character)) {
+      chosen.add(positions.get(scene)!);
+    }
+  }
+
+  return chosen;
+}
+
+/**
+ * Lay out sides for the chosen scenes. Pages come from the full script's
+ * pagination, so every page keeps its number and every line its place.
+ * Returns no pages when nothing is chosen.
+ */
+export function layoutSides(content: string, options: SidesOptions): SidesPage[] {
+  const chosen = selectSidesScenes(content, options);
+  if (chosen.size === 0) return [];
+
+  const doc = parseFountain(content);
+  const { pages } = paginateRevised(content, options.revisions ?? null, { ...options, sceneNumbers: true });
+  const spokenBy = nodeSpeakers(doc.nodes);
+  const highlight = options.highlight ? characterNameFromCue(options.highlight).toUpperCase() : null;
+
+  // OMITTED placeholders (element -1) and anything before the first scene are never chosen
+  const inSides = (element: number) => {
+    const sceneIndex = element >= 0 ? doc.nodes[element].sceneIndex : undefined;
+    return sceneIndex !== undefined && chosen.has(doc.scenes[sceneIndex].number);
+  };
+
+  const sides: SidesPage[] = [];
+  for (const page of pages) {
+    if (!page.lines.some(line => inSides(line.element))) continue;
+
+    const struck: StruckRegion[] = [];
+    const lines = [...page.lines].sort((a, b) => a.row - b.row);
+    for (const line of lines) {
+      if (inSides(line.element)) continue;
+      const last = struck[struck.length - 1];
+      // Extend the region while no chosen line comes between
+      const chosenBetween = last && lines.some(l => l.row > last.to && l.row < line.row && inSides(l.element));
+      if (last && !chosenBetween) {
+        last.to = line.row;
+      } else {
+        struck.push({ from: line.row, to: line.row });
+      }
+    }
+
+    const highlights = highlight
+      ? pageHighlights(page, element => inSides(element) && spokenBy[element] === highlight)
+      : [];
+
+    sides.push({ page, struck, highlights });
+  }
+
+  return sides;
+}
@@ -0,0 +1,193 @@
+/**
+ * Title Page
+ *
+ * Structured view of the Fountain title page ("Title: ...", "Credit: ..."
+ * key-value lines at the top of the script). The editor reads and writes the
+ * title page through this model, and every exporter lays it out through
+ * layoutTitlePage() so the PDF, FDX and text versions put the same lines in
+ * the same places.
+ */
+
+import type { TitlePage } from '../shared/types';
+import { parseFountain, type FountainDocument } from './fountain-ast';
+import { LINES_PER_PAGE, PAGE_WIDTH_CHARS, wrapText } from './pagination';
+
+export type TitlePageKey = keyof TitlePage;
+
+export interface TitlePageFieldInfo {
+  key: TitlePageKey;
+  /** Fountain key written for the field */
+  label: string;
+  /** Fountain keys read into the field, lowercase */
+  aliases: string[];
+  multiline?: boolean;
+}
+
+export const TITLE_PAGE_FIELDS: TitlePageFieldInfo[] = [
+  { key: 'title', label: 'Title', aliases: ['title'], multiline: true },
+  { key: 'credit', label: 'Credit', aliases: ['credit'] },
+  { key: 'authors', label: 'Author', aliases: ['author', 'authors'], multiline: true },
+  { key: 'source', label: 'Source', aliases: ['source'], multiline: true },
+  { key: 'draftDate', label: 'Draft date', aliases: ['draft date', 'date'] },
+  { key: 'contact', label: 'Contact', aliases: ['contact'], multiline: true },
+  { key: 'copyright', label: 'Copyright', aliases: ['copyright'] },
+  { key: 'notes', label: 'Notes', aliases: ['notes'], multiline: true },
+];
+
+export interface TitlePageLine {
+  text: string;
+  /** Zero-based row on the 54-line page */
+  row: number;
+  /** Zero-based column from the left margin */
+  column: number;
+  align: 'center' | 'left' | 'right';
+}
+
+/** The centered block starts a third of the way down the page */
+const CENTER_BLOCK_ROW = 18;
+const CENTER_WIDTH = 50;
+/** Bottom blocks share the last rows, so each gets under half the width */
+const CORNER_WIDTH = 28;
+
+export function emptyTitlePage(): TitlePage {
+  return { title: '', credit: '', authors: '', source: '', draftDate: '', contact: '', copyright: '', notes: '' };
+}
+
+export function isTitlePageEmpty(page: TitlePage): boolean {
+  return TITLE_PAGE_FIELDS.every(field => !page[field.key].trim());
+}
+
+function fieldFor(key: string): TitlePageFieldInfo | undefined {
+  const lower = key.toLowerCase();
+  return TITLE_PAGE_FIELDS.find(field => field.aliases.includes(lower));
+}
+
+/**
+ * Title page of a document (or raw content). When a key is written twice the
+ * first one wins, as in getTitlePageValue().
+ */
+export function readTitlePage(source: FountainDocument | string): TitlePage {
+  const doc = typeof source === 'string' ? parseFountain(source) : source;
+  const page = emptyTitlePage();
+  const seen = new Set<TitlePageKey>();
+
+  for (const field of doc.titlePage?.fields ?? []) {
+    const info = fieldFor(field.key);
+    if (!info || seen.has(info.key)) continue;
+    seen.add(info.key);
+    page[info.key] = field.value;
+  }
+
+  return page;
+}
+
+/** Fountain lines for one key; multi-line values go on indented lines */
+function formatField(key: string, value: string): string[] {
+  const lines = value.split('\n').map(line => line.trim());
+  if (lines.length === 1) return [`${key}: ${lines[0]}`];
+  return [`${key}:`, ...lines.map(line => `    ${line}`)];
+}
+
+/**
+ * Fountain title page block for key-value pairs, without a trailing blank line
+ */
+export function formatTitlePageFields(fields: { key: string; value: string }[]): string {
+  return fields.flatMap(({ key, value }) => formatField(key, value)).join('\n');
+}
+
+/**
+ * Replace the title page of `content`. Keys the model doesn't cover (e.g.
+ * "Revision") are kept, known keys keep the spelling they were written with,
+ * and an empty page removes the block.
+ */
+export function writeTitlePage(content: string, page: TitlePage): string {
+  const normalized = content.replace(/\r\n?/g, '\n');
+  const doc = parseFountain(normalized);
+  const lines = normalized.split('\n');
+  const existing = doc.titlePage?.fields ?? [];
+
+  const fields: { key: string; value: string }[] = [];
+  for (const info of TITLE_PAGE_FIELDS) {
+    const value = page[info.key].trim();
+    if (!value) continue;
+    const written = existing.find(field => fieldFor(field.key) === info);
+    fields.push({ key: written?.key ?? info.label, value });
+  }
+  fields.push(...existing.filter(field => !fieldFor(field.key)).map(({ key, value }) => ({ key, value })));
+
+  let bodyStart = 0;
+  let pageBreak = false;
+  if (doc.titlePage) {
+    const end = doc.titlePage.range.end.line;
+    bodyStart = end + 1;
+    pageBreak = /^={3,}$/.test(lines[end].trim());
+  }
+  while (bodyStart < lines.length && lines[bodyStart].trim() === '') bodyStart++;
+  const body = lines.slice(bodyStart).join('\n');
+
+  if (fields.length === 0) return body;
+  const block = formatTitlePageFields(fields) + (pageBreak ? '\n\n===' : '');
+  return body ? `${block}\n\n${body}` : `${block}\n`;
+}
+
+function valueLines(value: string, width: number): string[] {
+  return value.trim() ? value.trim().split('\n').flatMap(line => wrapText(line, width)) : [];
+}
+
+/** Stack non-empty groups with a blank line between them */
+function stack(groups: string[][]): string[] {
+  const lines: string[] = [];
+  for (const group of groups.filter(g => g.length > 0)) {
+    if (lines.length > 0) lines.push('');
+    lines.push(...group);
+  }
+  return lines;
+}
+
+/**
+ * Place the title page on a page: title, credit, authors and source centered
+ * a third of the way down; contact and copyright in the bottom left corner;
+ * draft date and notes in the bottom right. A script with authors but no
+ * credit line gets "Written by".
+ */
+export function layoutTitlePage(page: TitlePage): TitlePageLine[] {
+  const authors = valueLines(page.authors, CENTER_WIDTH);
+  const credit = valueLines(page.credit, CENTER_WIDTH);
+  const center = stack([
+    valueLines(page.title.toUpperCase(), CENTER_WIDTH),
+    credit.length > 0 || authors.length === 0 ? credit : ['Written by'],
+    authors,
+  ]);
+  const source = valueLines(page.source, CENTER_WIDTH);
+  if (source.length > 0) center.push(...(center.length > 0 ? ['', '', ''] : []), ...source);
+
+  const left = stack([valueLines(page.contact, CORNER_WIDTH), valueLines(page.copyright, CORNER_WIDTH)]);
+  const right = stack([valueLines(page.draftDate, CORNER_WIDTH), valueLines(page.notes, CORNER_WIDTH)]);
+
+  const lines: TitlePageLine[] = [];
+  center.forEach((text, i) => {
+    if (!text) return;
+    lines.push({ text, row: CENTER_BLOCK_ROW + i, column: Math.floor((PAGE_WIDTH_CHARS - text.length) / 2), align: 'center' });
+  });
+  left.forEach((text, i) => {
+    if (!text) return;
+    lines.push({ text, row: LINES_PER_PAGE - left.length + i, column: 0, align: 'left' });
+  });
+  right.forEach((text, i) => {
+    if (!text) return;
+    lines.push({ text, row: LINES_PER_PAGE - right.length + i, column: PAGE_WIDTH_CHARS - text.length, align: 'right' });
+  });
+
+  return lines.sort((a, b) => a.row - b.row || a.column - b.column);
+}
+
+/**
+ * The title page as plain text rows, for text export
+ */
+export function renderTitlePageText(page: TitlePage): string[] {
+  const rows: string[] = Array(LINES_PER_PAGE).fill('');
+  for (const line of layoutTitlePage(page)) {
+    rows[line.row] = rows[line.row].padEnd(line.column) + line.text;
+  }
+  return rows.map(row => row.trimEnd());
+}
@@ -26,11 +26,13 @@ export interface Character {
   appearances: string[]; // Scene IDs
   notes?: string;
   imageUrl?: string; // Optional character portrait
+  aliases?: string[]; // Other cue names for the same character, e.g. merged duplicates
 }
 
 export interface Scene {
   id: string;
   number: number;
+  sceneNumber?: string; // Printed number, e.g. "12A" when scene numbers are locked
   heading: string;
   location: string;
   timeOfDay: string;
@@ -71,6 +73,59 @@ export interface TokenUsage {
 export interface ChatResponse {
   content: string;
   tokenUsage: TokenUsage;
+  /** The user stopped the reply; content is whatever had arrived by then */
+  stopped?: boolean;
+  /** What the turn's tool calls changed, when they changed anything */
+  changeSet?: ChangeSet;
+}
+
+/**
+ * One thing an agent turn changed. Database rows keep their state from
+ * before and after the turn (null when the row didn't exist). Script edits
+ * are recorded when the user accepts them, as the hunk that takes the
+ * accepted text back out.
+ */
+export type ChangeRecord =
+  | { kind: 'character'; id: string; before: Character | null; after: Character | null }
+  | { kind: 'scene'; id: string; before: Scene | null; after: Scene | null }
+  | { kind: 'text'; description: string; undo: EditHunk }
+  | { kind: 'metadata'; field: 'title' | 'authors'; before: string; after: string };
+
+/** Everything one AI turn changed, so it can be undone as a unit */
+export interface ChangeSet {
+  id: string;
+  createdAt: number;
+  changes: ChangeRecord[];
+  /** Set once the turn has been undone */
+  revertedAt?: number;
+}
+
+/** The outcome of undoing a change set */
+export interface ChangeSetRevert {
+  changeSet: ChangeSet;
+  /** Rows edited again since the turn, which the undo left as they are */
+  skipped: ChangeRecord[];
+}
+
+/**
+ * Progress of a chat reply, sent on 'ai:chatEvent' while it streams: text as
+ * it's generated and each tool call as it runs
+ */
+export type ChatStreamEvent =
+  | { type: 'text'; delta: string }
+  | { type: 'tool-start'; id: string; name: string; args: Record<string, unknown> }
+  /** The tool is waiting for the user to allow it (see ToolPermission) */
+  | { type: 'tool-confirm'; id: string; name: string; confirmation: ToolConfirmation }
+  | { type: 'tool-end'; id: string; name: string; result: string; failed?: boolean };
+
+/** Whether agent mode may run a tool on its own, must ask first, or may not run it */
+export type ToolPermission = 'allow' | 'ask' | 'never';
+
+/** What a tool call is about to do, for the user to allow or decline */
+export interface ToolConfirmation {
+  summary: string;
+  /** The characters, scenes or files it touches */
+  affected: string[];
 }
 
 export interface SummarizationResult {
@@ -96,6 +151,107 @@ export interface VersionSummary {
   contentLength: number;
 }
 
+// A watermarked copy sent to one reader
+export interface DistributionRecord {
+  id: string;
+  versionId: string;
+  recipient: string;
+  filePath: string;
+  createdAt: number;
+}
+
+// Script breakdown: production elements tagged on ranges of the script text
+export type BreakdownCategory =
+  | 'cast'
+  | 'extras'
+  | 'stunts'
+  | 'props'
+  | 'wardrobe'
+  | 'makeup'
+  | 'vehicles'
+  | 'animals'
+  | 'sfx'
+  | 'vfx'
+  | 'set-dressing'
+  | 'locations'
+  | 'sound'
+  | 'special-equipment';
+
+/**
+ * A tagged range, found again by its text and surroundings rather than by
+ * offset, so edits elsewhere in the script don't move it.
+ */
+export interface TextAnchor {
+  text: string;
+  /** Text just before the range */
+  prefix: string;
+  /** Text just after the range */
+  suffix: string;
+  /** Offset when last resolved; picks between equally good matches */
+  start: number;
+}
+
+export interface BreakdownElement {
+  id: string;
+  category: BreakdownCategory;
+  /** Name on the breakdown sheet, e.g. "Revolver"; defaults to the tagged text */
+  name: string;
+  anchor: TextAnchor;
+  notes?: string;
+  createdAt: number;
+}
+
+// Shooting schedule: scene strips in shooting order, split into days by day breaks
+export type ScheduleItem =
+  | {
+    type: 'scene';
+    id: string;
+    /** The scene heading line, found again the way breakdown tags are */
+    anchor: TextAnchor;
+  }
+  | {
+    type: 'day-break';
+    id: string;
+  };
+
+export interface ShootingSchedule {
+  /** Strips of each day, each day followed by its day break */
+  items: ScheduleItem[];
+  updatedAt: number;
+}
+
+export interface ShootDaysImportResult {
+  schedule: ShootingSchedule;
+  /** Scene numbers that aren't in the script, or were listed twice */
+  skipped: string[];
+}
+
+// Production revisions: a locked draft plus colored revision sets
+export interface ScriptLock {
+  versionId: string;
+  lockedAt: number;
+  /** Screenplay text as locked */
+  content: string;
+  /** Source line starting each locked page; -1 where a page began mid-element */
+  pageStarts: number[];
+}
+
+export interface RevisionSet {
+  id: string;
+  /** Revision color, e.g. "Blue" */
+  color: string;
+  createdAt: number;
+  versionId: string;
+  /** Screenplay text when the set began; later changes belong to this set */
+  content: string;
+}
+
+export interface RevisionState {
+  lock: ScriptLock | null;
+  /** Oldest first; the last set is the one being written */
+  sets: RevisionSet[];
+}
+
 export interface AIMessage {
   id: string;
   role: 'user' | 'assistant' | 'system';
@@ -104,6 +260,8 @@ export interface AIMessage {
   contextUsed?: AIContext;
   conversationId?: string;
   tokenUsage?: TokenUsage;
+  /** The change set of the turn this assistant message answered */
+  changeSetId?: string;
 }
 
 export interface Conversation {
@@ -129,11 +287,26 @@ export interface PendingEdit {
   original: string;
   modified: string;
   description: string;
+  /** One-based scene the original text is in, to tell repeated text apart */
+  sceneNumber?: number;
+  /** Change set of the agent turn that proposed it; accepting adds the edit there */
+  changeSetId?: string;
+}
+
+/** An AI edit in the review queue, anchored where it was proposed */
+export interface EditHunk extends PendingEdit {
+  id: string;
+  anchor: TextAnchor;
+  /** Zero-based source lines the original text covered when proposed; -1 if it wasn't found */
+  startLine: number;
+  endLine: number;
+  /** Heading of the scene it was in, if any */
+  sceneHeading?: string;
 }
 
 export interface SystemActions {
   saveScreenplay: () => Promise<void>;
-  exportScreenplay: (format: 'pdf' | 'fdx') => Promise<void>;
+  exportScreenplay: (format: 'pdf' | 'fdx' | 'docx') => Promise<void>;
   notifyUpdate: () => void;
   previewUpdate: (edit: PendingEdit) => void;
   setScreenplayTitle: (title: string) => void;
@@ -145,10 +318,39 @@ export interface ProjectSettings {
   theme: 'light' | 'dark';
   autoSave: boolean;
   characterNamingConvention: 'uppercase' | 'titlecase';
+  /** Add (CONT'D) to a character's cue when they speak again after action */
+  autoContd: boolean;
+  /** Permissions for the agent's destructive tools, by tool name; missing tools ask */
+  toolPolicy: Record<string, ToolPermission>;
+}
+
+/** What a model is used for; each can be given its own model */
+export type LLMTask = 'chat' | 'summarize' | 'analysis' | 'enrichment';
+
+export interface LLMCapabilities {
+  /** The model can call functions (agent mode tools) */
+  toolCalling: boolean;
+  /** The server honours response_format: { type: 'json_object' } */
+  jsonMode: boolean;
+}
+
+export interface LLMProviderSettings {
+  /**
+   * 'openai' talks to api.openai.com with the OpenAI API key; 'local' talks
+   * to an OpenAI-compatible server on this machine (llama.cpp, Ollama) and
+   * never sends anything elsewhere
+   */
+  kind: 'openai' | 'local';
+  /** Base URL of the local server, e.g. http://localhost:11434/v1 */
+  baseURL: string;
+  /** Model per task; an empty entry falls back to the chat model */
+  models: Record<LLMTask, string>;
+  capabilities: LLMCapabilities;
 }
 
 export interface GlobalSettings {
   openaiApiKey: string;
+  llmProvider: LLMProviderSettings;
   defaultTheme: 'light' | 'dark';
   recentProjects: string[];
   defaultExportFormat: 'pdf' | 'fdx' | 'fountain';
@@ -179,6 +381,9 @@ export interface IpcChannels {
   'db:getAIHistory': () => Promise<AIMessage[]>;
   'db:getAIHistoryForConversation': (conversationId: string) => Promise<AIMessage[]>;
   'db:saveAIMessage': (message: AIMessage) => Promise<void>;
+  'db:getChangeSets': (ids: string[]) => Promise<ChangeSet[]>;
+  'db:addChangeSetEdit': (id: string, change: ChangeRecord) => Promise<ChangeSet>;
+  'db:revertChangeSet': (id: string) => Promise<ChangeSetRevert>;
 
   // Conversation Operations
   'db:getConversations': () => Promise<Conversation[]>;
@@ -187,7 +392,9 @@ export interface IpcChannels {
   'db:deleteConversation': (id: string) => Promise<void>;
 
   // AI Operations
-  'ai:chat': (message: string, context: AIContext) => Promise<ChatResponse>;
+  'ai:chat': (message: string, context: AIContext, requestId?: string) => Promise<ChatResponse>;
+  'ai:stopChat': (requestId: string) => Promise<void>;
+  'ai:answerToolConfirmation': (requestId: string, toolCallId: string, allowed: boolean) => Promise<void>;
   'ai:generateDialogue': (character: string, context: string) => Promise<string>;
   'ai:expandScene': (outline: string) => Promise<string>;
   'ai:analyzeStoryline': () => Promise<any>;
@@ -214,6 +421,20 @@ export interface ParsedScreenplay {
   characters: Set<string>;
   title?: string;
   author?: string;
+  titlePage: TitlePage;
+}
+
+/** Fountain title page fields; empty strings for fields not written */
+export interface TitlePage {
+  title: string;
+  credit: string;
+  /** One author (or writing team) per line */
+  authors: string;
+  source: string;
+  draftDate: string;
+  contact: string;
+  copyright: string;
+  notes: string;
 }
 
 // Backup info type
@@ -229,8 +450,37 @@ export interface ExportOptions {
   title?: string;
   author?: string;
   content?: string;
-  includeSceneNumbers?: boolean;
+  includeSceneNumbers?: boolean; // Fountain: write #12# numbers; PDF/DOCX/HTML/EPUB: show numbers in both margins
   includeCharacterList?: boolean;
+  highlightCharacters?: string[]; // PDF/HTML actor scripts: highlight these characters (and their aliases)
+}
+
+// Production reports built from the script and its breakdown tags
+export interface ReportExportOptions {
+  kind: 'breakdown' | 'locations' | 'cast' | 'day-night' | 'dood';
+  format: 'csv' | 'pdf';
+  content?: string;
+}
+
+// Watermarked reader copies: one PDF per recipient
+export interface DistributionExportOptions {
+  recipients: string[];
+  /** Send a saved version instead of the current text */
+  versionId?: string;
+  content?: string;
+  baseName?: string;
+  confidential?: boolean;
+  includeSceneNumbers?: boolean;
+}
+
+// Sides: which scenes to print, and whose lines to highlight
+export interface SidesExportOptions {
+  content?: string;
+  /** IndexedScene ids */
+  sceneIds?: string[];
+  /** Adds every scene this character speaks in */
+  character?: string;
+  highlight?: string;
 }
 
 // Window API exposed to renderer
@@ -257,6 +507,11 @@ export interface WindowAPI {
     saveStoryline: (storyline: Storyline) => Promise<void>;
     getAIHistory: () => Promise<AIMessage[]>;
     getAIHistoryForConversation: (conversationId: string) => Promise<AIMessage[]>;
+    getChangeSets: (ids: string[]) => Promise<ChangeSet[]>;
+    /** Record an accepted script edit with the agent turn that proposed it */
+    addChangeSetEdit: (id: string, change: ChangeRecord) => Promise<ChangeSet>;
+    /** Put back the characters and scenes a change set touched; script edits are undone by the caller */
+    revertChangeSet: (id: string) => Promise<ChangeSetRevert>;
     saveAIMessage: (message: AIMessage) => Promise<void>;
     clearDatabase: () => Promise<void>;
     
@@ -272,7 +527,13 @@ export interface WindowAPI {
   };
 
   ai: {
-    chat: (message: string, context: AIContext) => Promise<ChatResponse>;
+    /** With a requestId, progress arrives through onChatEvent and stopChat can cancel it */
+    chat: (message: string, context: AIContext, requestId?: string) => Promise<ChatResponse>;
+    stopChat: (requestId: string) => Promise<void>;
+    /** Allow or decline a tool call that sent a tool-confirm event */
+    answerToolConfirmation: (requestId: string, toolCallId: string, allowed: boolean) => Promise<void>;
+    /** Listen for streaming progress; returns a function that stops listening */
+    onChatEvent: (callback: (requestId: string, event: ChatStreamEvent) => void) => () => void;
     generateDialogue: (character: string, context: string) => Promise<string>;
     expandScene: (outline: string) => Promise<string>;
     analyzeStoryline: () => Promise<any>;
@@ -327,6 +588,32 @@ export interface WindowAPI {
     restore: (id: string) => Promise<void>;
     delete: (id: string) => Promise<void>;
     count: () => Promise<number>;
+    distributions: (versionId?: string) => Promise<DistributionRecord[]>;
+  };
+
+  // Shooting schedule
+  schedule: {
+    get: () => Promise<ShootingSchedule | null>;
+    save: (items: ScheduleItem[]) => Promise<ShootingSchedule>;
+    /** Replace the schedule with shoot days from a day,scenes CSV */
+    importCSV: (csvPath: string, content?: string) => Promise<ShootDaysImportResult>;
+  };
+
+  // Script breakdown
+  breakdown: {
+    list: () => Promise<BreakdownElement[]>;
+    save: (element: BreakdownElement) => Promise<void>;
+    delete: (id: string) => Promise<void>;
+    /** Store refreshed anchors after the text around tags has changed */
+    saveAnchors: (elements: BreakdownElement[]) => Promise<void>;
+  };
+
+  // Production revisions
+  revision: {
+    getState: () => Promise<RevisionState>;
+    lock: () => Promise<RevisionState>;
+    startNext: () => Promise<RevisionState>;
+    unlock: () => Promise<void>;
   };
 
   // Backup system
@@ -339,10 +626,22 @@ export interface WindowAPI {
   };
 
   // Export system
+  import: {
+    /** Create a project from a Final Draft file; resolves to the new project path */
+    fdx: (fdxPath: string, folderPath: string) => Promise<string>;
+    showOpenDialog: (format: string) => Promise<string | null>;
+  };
+
   export: {
     fountain: (outputPath: string, options?: ExportOptions) => Promise<string>;
     pdf: (outputPath: string, options?: ExportOptions) => Promise<string>;
+    sides: (outputPath: string, options: SidesExportOptions) => Promise<string>;
+    distribution: (outputDir: string, options: DistributionExportOptions) => Promise<DistributionRecord[]>;
+    report: (outputPath: string, options: ReportExportOptions) => Promise<string>;
     fdx: (outputPath: string, options?: ExportOptions) => Promise<string>;
+    docx: (outputPath: string, options?: ExportOptions) => Promise<string>;
+    html: (outputPath: string, options?: ExportOptions) => Promise<string>;
+    epub: (outputPath: string, options?: ExportOptions) => Promise<string>;
     txt: (outputPath: string, options?: ExportOptions) => Promise<string>;
     showSaveDialog: (format: string, defaultName?: string) => Promise<string | null>;
   };
@@ -363,7 +662,13 @@ export type ElementType =
   | 'dialogue'
   | 'parenthetical'
   | 'transition'
-  | 'centered';
+  | 'centered'
+  | 'lyrics'
+  | 'section'
+  | 'synopsis'
+  | 'note'
+  | 'boneyard'
+  | 'page-break';
 
 export interface FormattingState {
   currentElement: ElementType;